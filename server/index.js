@@ -3,6 +3,13 @@ const http = require('http');
 const socketIo = require('socket.io');
 const cors = require('cors');
 const net = require('net');
+const { applyAction, createGameState, getDueAction, getNextDeadline, getViewerState, isRuleError } = require('../src/lib/gameRules');
+const { chooseSeed } = require('../src/lib/random');
+const { createInviteId, createInviteToken, verifyInviteToken } = require('../src/lib/invites');
+const { createSeatToken, verifySeatToken } = require('../src/lib/seatTokens');
+const { isKnownAction, validateActionPayload } = require('../src/lib/actionSchema');
+const { verifyAccessToken } = require('../src/lib/accounts');
+const { loadCardPacks } = require('../src/lib/cardPackStore');
 
 const app = express();
 const server = http.createServer(app);
@@ -33,110 +40,8 @@ app.get('/health', (req, res) => {
 // Game state storage
 const games = new Map();
 const players = new Map();
-
-// Card data
-const cardPrompts = {
-  Purpose: [
-    "What's your main motivation for doing what you do?",
-    "What gives your life meaning and direction?",
-    "What would you want to be remembered for?",
-    "What drives you to get up in the morning?",
-    "What's your 'why' behind your biggest goals?",
-    "What legacy do you want to leave behind?",
-    "What makes you feel most fulfilled?",
-    "What would you do if you had unlimited resources?",
-    "What change would you most like to see in the world?",
-    "What's your personal mission statement?"
-  ],
-  Problems: [
-    "What's the biggest challenge you're facing right now?",
-    "What obstacle keeps getting in your way?",
-    "What would you change about your current situation?",
-    "What's something that consistently frustrates you?",
-    "What problem do you wish you could solve for everyone?",
-    "What's holding you back from your goals?",
-    "What's a pattern you'd like to break in your life?",
-    "What's the most difficult decision you're facing?",
-    "What situation makes you feel most stuck?",
-    "What would you ask for help with if pride wasn't a factor?"
-  ],
-  Prognosis: [
-    "Where do you see yourself in 5 years?",
-    "What trends do you think will shape the future?",
-    "How do you think your current situation will evolve?",
-    "What's your prediction for your field/industry?",
-    "What skills will be most valuable in the future?",
-    "How do you think technology will change our daily lives?",
-    "What do you think the world will look like for the next generation?",
-    "Where do you see your relationships heading?",
-    "What changes do you anticipate in your career?",
-    "What's your outlook on achieving your biggest dream?"
-  ],
-  Plan: [
-    "What's your strategy for reaching your next big goal?",
-    "What's the first step you need to take?",
-    "How do you plan to overcome your biggest obstacle?",
-    "What would your ideal day look like, and how can you create it?",
-    "What's your backup plan if things don't go as expected?",
-    "How do you plan to grow in the next year?",
-    "What resources do you need to achieve your goals?",
-    "What habits would you like to develop or break?",
-    "How do you plan to measure your success?",
-    "What's your timeline for your most important project?"
-  ],
-  Perform: [
-    "What's something you're proud of accomplishing recently?",
-    "What action have you taken that made the biggest difference?",
-    "What's the best decision you've made this year?",
-    "What skill have you improved the most?",
-    "What's something you've done that pushed you out of your comfort zone?",
-    "What habit have you successfully implemented?",
-    "What's an example of you living your values?",
-    "What's something you've done to help others?",
-    "What's the most meaningful progress you've made recently?",
-    "What action are you taking right now to move toward your goals?"
-  ]
-};
-
-function createDeck() {
-  const deck = [];
-  const colors = {
-    Purpose: '#8B5CF6',
-    Problems: '#EF4444', 
-    Prognosis: '#06B6D4',
-    Plan: '#10B981',
-    Perform: '#F59E0B'
-  };
-
-  Object.entries(cardPrompts).forEach(([type, prompts]) => {
-    prompts.forEach((prompt, index) => {
-      deck.push({
-        id: `${type}-${index}`,
-        type,
-        prompt,
-        color: colors[type]
-      });
-    });
-  });
-
-  // Shuffle the deck
-  for (let i = deck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]];
-  }
-
-  return deck;
-}
-
-function checkWinCondition(hand) {
-  const types = new Set(hand.map(card => card.type));
-  return types.size === 5 && types.has('Purpose') && types.has('Problems') && 
-         types.has('Prognosis') && types.has('Plan') && types.has('Perform');
-}
-
-function dealCards(deck, numCards) {
-  return deck.splice(0, numCards);
-}
+const deadlineTimers = new Map();
+const DEADLINE_RETRY_DELAY = 5000; // How long to wait before retrying a deadline the rules refused
 
 // Function to check if a port is available
 function isPortAvailable(port) {
@@ -162,31 +67,149 @@ async function findAvailablePort(startPort = 3001) {
   throw new Error('No available ports found');
 }
 
+// The server owns the turn and game deadlines: when one passes, apply it
+// (timeout penalty or end of a timed game) without waiting for any client
+function scheduleDeadline(gameId) {
+  clearTimeout(deadlineTimers.get(gameId));
+  deadlineTimers.delete(gameId);
+
+  const game = games.get(gameId);
+  const deadline = game && getNextDeadline(game);
+  if (deadline === undefined) return;
+
+  deadlineTimers.set(gameId, setTimeout(() => {
+    deadlineTimers.delete(gameId);
+    const currentGame = games.get(gameId);
+    if (!currentGame) return;
+
+    const action = getDueAction(currentGame, Date.now());
+    if (!action) {
+      scheduleDeadline(gameId);
+      return;
+    }
+
+    // The deadline has already passed, so re-arming for it straight away
+    // would retry the refused action in a tight loop. Any other change to the
+    // game reschedules it sooner.
+    const result = applyAction(currentGame, action);
+    if (isRuleError(result)) {
+      console.error('Deadline action rejected:', gameId, action.type, result.error);
+      deadlineTimers.set(gameId, setTimeout(() => scheduleDeadline(gameId), DEADLINE_RETRY_DELAY));
+      return;
+    }
+
+    saveGame(gameId, result);
+    broadcastState(gameId, result);
+  }, Math.max(0, deadline - Date.now())));
+}
+
+function saveGame(gameId, game) {
+  games.set(gameId, game);
+  scheduleDeadline(gameId);
+}
+
+function deleteGame(gameId) {
+  games.delete(gameId);
+  scheduleDeadline(gameId);
+}
+
+// Each socket is sent its own view, so nobody receives another player's hand
+function broadcastState(gameId, game) {
+  for (const [socketId, data] of players) {
+    if (data.gameId === gameId) {
+      io.to(socketId).emit('game-state', getViewerState(game, data.player.id));
+    }
+  }
+}
+
+// A player as the whole room is told about them: no hand and no account
+function getPublicPlayer(game, playerId) {
+  return getViewerState(game).players.find(p => p.id === playerId);
+}
+
+// The seat this socket acts for. Actions must carry the token it was given on
+// create-game or join-game, and it must match the seat the socket joined.
+function authorize(socket, gameId, seatToken) {
+  const playerData = players.get(socket.id);
+  const playerId = verifySeatToken(seatToken, gameId);
+  if (!playerData || playerData.gameId !== gameId || playerId !== playerData.player.id) {
+    socket.emit('error', 'Not signed in to this seat');
+    return null;
+  }
+
+  return playerId;
+}
+
+// Run an action through the shared rules engine and broadcast the result
+function dispatch(socket, gameId, action) {
+  const game = games.get(gameId);
+  if (!game) {
+    socket.emit('error', 'Game not found');
+    return null;
+  }
+
+  const result = applyAction(game, action);
+  if (isRuleError(result)) {
+    socket.emit('error', result.error);
+    return null;
+  }
+
+  saveGame(gameId, result);
+  broadcastState(gameId, result);
+  return result;
+}
+
+// Clear the prompt after a delay to give time for discussion
+function clearPromptLater(gameId) {
+  setTimeout(() => {
+    const currentGame = games.get(gameId);
+    if (currentGame && currentGame.currentPrompt) {
+      const cleared = { ...currentGame, currentPrompt: null };
+      saveGame(gameId, cleared);
+      broadcastState(gameId, cleared);
+    }
+  }, 30000); // Clear prompt after 30 seconds
+}
+
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
 
-  socket.on('create-game', ({ gameId, player }) => {
-    console.log('Creating game:', gameId, 'for player:', player.name);
-    const deck = createDeck();
-    const gameState = {
-      id: gameId,
-      players: [{ ...player, hand: dealCards(deck, 5) }],
-      currentPlayerIndex: 0,
-      deck: deck,
-      discardPile: [],
-      gamePhase: 'lobby',
-      winner: null,
-      currentPrompt: null
-    };
-
-    games.set(gameId, gameState);
+  // Game actions are shape-checked before any handler sees them; the WebRTC
+  // relay events are passed through untouched
+  socket.use(([event, payload], next) => {
+    const invalid = isKnownAction(event) ? validateActionPayload(event, payload) : null;
+    if (invalid) {
+      socket.emit('error', invalid);
+      return;
+    }
+
+    next();
+  });
+
+  socket.on('create-game', async ({ gameId, player: seat, seed, settings, accessToken }) => {
+    // The account comes from Supabase, never from the client, so bans hold
+    const player = { ...seat, userId: await verifyAccessToken(accessToken) };
+
+    // Creating over a live room would wipe out everyone already seated in it
+    if (games.has(gameId)) {
+      socket.emit('error', 'Game already exists');
+      return;
+    }
+
+    const gameSeed = chooseSeed(seed);
+    console.log('Creating game:', gameId, 'for player:', player.name, 'seed:', gameSeed);
+    const gameState = createGameState(gameId, player, { seed: gameSeed, settings });
+
+    saveGame(gameId, gameState);
     players.set(socket.id, { gameId, player });
     socket.join(gameId);
     
-    socket.emit('game-state', gameState);
+    socket.emit('seat-token', createSeatToken(gameId, player.id));
+    socket.emit('game-state', getViewerState(gameState, player.id));
   });
 
-  socket.on('join-game', ({ gameId, player }) => {
+  socket.on('join-game', async ({ gameId, player: seat, passcode, invite, accessToken }) => {
+    const player = { ...seat, userId: await verifyAccessToken(accessToken) };
     console.log('Player joining game:', gameId, player.name);
     const game = games.get(gameId);
     if (!game) {
@@ -194,22 +217,34 @@ io.on('connection', (socket) => {
       return;
     }
 
-    if (game.players.length >= 8) {
-      socket.emit('error', 'Game is full');
+    const inviteId = invite ? verifyInviteToken(invite, gameId) : undefined;
+    if (inviteId === null) {
+      socket.emit('error', 'This invite link is not valid');
       return;
     }
 
-    const newPlayer = { ...player, hand: dealCards(game.deck, 5) };
-    game.players.push(newPlayer);
-    
-    players.set(socket.id, { gameId, player: newPlayer });
+    const result = applyAction(game, { type: 'join-game', player, passcode, inviteId });
+    if (isRuleError(result)) {
+      socket.emit('error', result.error);
+      return;
+    }
+
+    saveGame(gameId, result);
+    const newPlayer = result.players.find(p => p.id === player.id);
+    const spectator = result.spectators.find(p => p.id === player.id);
+
+    // Someone waiting for approval follows the room before they have a seat
+    players.set(socket.id, { gameId, player: newPlayer ?? spectator ?? result.joinRequests.find(p => p.id === player.id) });
     socket.join(gameId);
+    socket.emit('seat-token', createSeatToken(gameId, player.id));
     
-    // First emit to the room about the new player
-    socket.to(gameId).emit('player-joined', newPlayer);
+    // First emit to the room about the new player, as anyone may see them
+    if (newPlayer) {
+      socket.to(gameId).emit('player-joined', getPublicPlayer(result, player.id));
+    }
     
     // Then emit the updated game state to everyone
-    io.to(gameId).emit('game-state', game);
+    broadcastState(gameId, result);
   });
 
   // WebRTC Signaling
@@ -237,86 +272,223 @@ io.on('connection', (socket) => {
     });
   });
 
-  socket.on('start-game', ({ gameId }) => {
-    const game = games.get(gameId);
+  socket.on('start-game', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'start-game', playerId, timestamp: Date.now() });
+  });
+
+  socket.on('play-card', ({ gameId, seatToken, cardId, targetPlayerId }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'play-card', playerId, cardId, targetPlayerId });
+  });
+
+  socket.on('draw-card', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    const game = dispatch(socket, gameId, { type: 'draw-card', playerId, timestamp: Date.now() });
     if (!game) return;
 
-    const playerData = players.get(socket.id);
-    if (!playerData || !playerData.player.isHost) return;
+    clearPromptLater(gameId);
+  });
 
-    game.gamePhase = 'playing';
-    game.currentPlayerIndex = 0;
-    
-    io.to(gameId).emit('game-state', game);
+  socket.on('draw-discard', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    const game = dispatch(socket, gameId, { type: 'draw-discard', playerId, timestamp: Date.now() });
+    if (!game) return;
+
+    clearPromptLater(gameId);
   });
 
-  socket.on('play-card', ({ gameId, playerId, card }) => {
-    const game = games.get(gameId);
-    if (!game || game.gamePhase !== 'playing') return;
+  // The client names packs by id; they are read as the account holding the seat
+  socket.on('select-card-packs', async ({ gameId, seatToken, cardPackIds }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
 
-    const currentPlayer = game.players[game.currentPlayerIndex];
-    if (currentPlayer.id !== playerId) return;
+    const userId = games.get(gameId)?.players.find(p => p.id === playerId)?.userId;
+    const cardPacks = await loadCardPacks(cardPackIds, userId).catch(() => null);
+    if (!cardPacks) {
+      socket.emit('error', 'Card pack not found');
+      return;
+    }
 
-    // Remove card from player's hand
-    const cardIndex = currentPlayer.hand.findIndex(c => c.id === card.id);
-    if (cardIndex === -1) return;
+    dispatch(socket, gameId, { type: 'select-card-packs', playerId, cardPacks });
+  });
 
-    currentPlayer.hand.splice(cardIndex, 1);
-    game.discardPile.push(card);
-    game.currentPrompt = card.prompt;
+  socket.on('set-language', ({ gameId, seatToken, language }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
 
-    io.to(gameId).emit('game-state', game);
+    dispatch(socket, gameId, { type: 'set-language', playerId, language });
   });
 
-  socket.on('draw-card', ({ gameId, playerId }) => {
-    const game = games.get(gameId);
-    if (!game || game.gamePhase !== 'playing') return;
-
-    const currentPlayer = game.players[game.currentPlayerIndex];
-    if (currentPlayer.id !== playerId) return;
-
-    if (game.deck.length > 0) {
-      const newCard = game.deck.pop();
-      currentPlayer.hand.push(newCard);
-
-      // Check win condition
-      if (checkWinCondition(currentPlayer.hand)) {
-        game.gamePhase = 'finished';
-        game.winner = currentPlayer.id;
-      } else {
-        // Move to next player
-        game.currentPlayerIndex = (game.currentPlayerIndex + 1) % game.players.length;
-      }
+  socket.on('set-team', ({ gameId, seatToken, targetPlayerId, teamId }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
 
-      // Clear the prompt after a delay to give time for discussion
-      setTimeout(() => {
-        if (games.has(gameId)) {
-          game.currentPrompt = null;
-          io.to(gameId).emit('game-state', game);
-        }
-      }, 30000); // Clear prompt after 30 seconds
-      
-      io.to(gameId).emit('game-state', game);
+    dispatch(socket, gameId, { type: 'set-team', playerId, targetPlayerId, teamId });
+  });
+
+  socket.on('set-role', ({ gameId, seatToken, targetPlayerId, role }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'set-role', playerId, targetPlayerId, role });
+  });
+
+  socket.on('update-settings', ({ gameId, seatToken, settings }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'update-settings', playerId, settings });
+  });
+
+  socket.on('end-answer', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'end-answer', playerId, timestamp: Date.now() });
+  });
+
+  socket.on('cast-vote', ({ gameId, seatToken, rating }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'cast-vote', playerId, rating, timestamp: Date.now() });
+  });
+
+  socket.on('propose-trade', ({ gameId, seatToken, targetPlayerId, cardId, requestedType }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'propose-trade', playerId, targetPlayerId, cardId, requestedType });
+  });
+
+  // Both hands change in one state update, so nobody sees half a swap
+  socket.on('respond-trade', ({ gameId, seatToken, accept, cardId }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'respond-trade', playerId, accept, cardId });
+  });
+
+  socket.on('cancel-trade', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'cancel-trade', playerId });
+  });
+
+  socket.on('skip-turn', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'skip-turn', playerId, timestamp: Date.now() });
+  });
+
+  socket.on('extend-turn', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'extend-turn', playerId, timestamp: Date.now() });
+  });
+
+  socket.on('kick-player', ({ gameId, seatToken, targetPlayerId, ban }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    const game = dispatch(socket, gameId, { type: 'kick-player', playerId, targetPlayerId, ban });
+    if (!game) return;
+
+    // Drop the removed player's socket from the room so it stops receiving updates
+    for (const [socketId, data] of players) {
+      if (data.gameId === gameId && data.player.id === targetPlayerId) {
+        const kickedSocket = io.sockets.sockets.get(socketId);
+        kickedSocket?.emit('kicked');
+        kickedSocket?.leave(gameId);
+        players.delete(socketId);
+      }
     }
   });
 
-  socket.on('new-game', ({ gameId }) => {
-    const game = games.get(gameId);
+  socket.on('mute-player', ({ gameId, seatToken, targetPlayerId, audio, video }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'mute-player', playerId, targetPlayerId, audio, video });
+  });
+
+  socket.on('reveal-prompt', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    const game = dispatch(socket, gameId, { type: 'reveal-prompt', playerId });
     if (!game) return;
 
-    const deck = createDeck();
-    game.players.forEach(player => {
-      player.hand = dealCards(deck, 5);
-    });
+    clearPromptLater(gameId);
+  });
+
+  socket.on('pause-game', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'pause-game', playerId, timestamp: Date.now() });
+  });
+
+  socket.on('resume-game', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
 
-    game.deck = deck;
-    game.discardPile = [];
-    game.gamePhase = 'playing';
-    game.currentPlayerIndex = 0;
-    game.winner = null;
-    game.currentPrompt = null;
+    dispatch(socket, gameId, { type: 'resume-game', playerId, timestamp: Date.now() });
+  });
+
+  socket.on('set-room-access', ({ gameId, seatToken, passcode, requireApproval, requireAccount }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'set-room-access', playerId, passcode, requireApproval, requireAccount });
+  });
+
+  socket.on('create-invite', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    const inviteId = createInviteId();
+    const game = dispatch(socket, gameId, { type: 'create-invite', playerId, inviteId });
+    if (!game) return;
+
+    // Only the moderator who asked gets the signed link
+    socket.emit('invite-created', createInviteToken(gameId, inviteId));
+  });
 
-    io.to(gameId).emit('game-state', game);
+  socket.on('respond-join-request', ({ gameId, seatToken, requestPlayerId, accept }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    const game = dispatch(socket, gameId, { type: 'respond-join-request', playerId, requestPlayerId, accept });
+    if (game?.players.some(p => p.id === requestPlayerId)) {
+      io.to(gameId).emit('player-joined', getPublicPlayer(game, requestPlayerId));
+    }
+  });
+
+  socket.on('send-reaction', ({ gameId, seatToken, emoji }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'send-reaction', playerId, emoji, timestamp: Date.now() });
+  });
+
+  socket.on('new-game', ({ gameId, seatToken }) => {
+    const playerId = authorize(socket, gameId, seatToken);
+    if (!playerId) return;
+
+    dispatch(socket, gameId, { type: 'new-game', playerId, timestamp: Date.now() });
   });
 
   socket.on('disconnect', () => {
@@ -324,23 +496,18 @@ io.on('connection', (socket) => {
     
     const playerData = players.get(socket.id);
     if (playerData) {
-      const { gameId } = playerData;
+      const { gameId, player } = playerData;
       const game = games.get(gameId);
       
-      if (game) {
-        game.players = game.players.filter(p => p.id !== socket.id);
-        
+      const result = game && applyAction(game, { type: 'leave-game', playerId: player.id });
+      
+      if (result && !isRuleError(result)) {
         // If no players left, delete the game
-        if (game.players.length === 0) {
-          games.delete(gameId);
+        if (result.players.length === 0) {
+          deleteGame(gameId);
         } else {
-          // Transfer host to another player if needed
-          const hasHost = game.players.some(p => p.isHost);
-          if (!hasHost && game.players.length > 0) {
-            game.players[0].isHost = true;
-          }
-          
-          io.to(gameId).emit('game-state', game);
+          saveGame(gameId, result);
+          broadcastState(gameId, result);
         }
       }
       
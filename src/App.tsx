@@ -1,30 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AuthProvider, useAuthContext } from './components/AuthProvider';
+import { LocaleProvider, useLocale } from './components/LocaleProvider';
 import { ProfileSetup } from './components/ProfileSetup';
 import { HomePage } from './components/HomePage';
 import { GameLobby } from './components/GameLobby';
 import { GameBoard } from './components/GameBoard';
-import { useSupabaseSocket } from './hooks/useSupabaseSocket';
+import { useGameTransport } from './hooks/useGameTransport';
 import { useServerlessWebRTC } from './hooks/useServerlessWebRTC';
-import { GameState, Player, Card } from './types/game';
+import { GameState, GameSettings, Player, PlayerRole, Card, CardPack, PType, TeamId } from './types/game';
+import { getDeckCount } from './lib/gameRules';
+import { ActionRejectedError } from './lib/gameTransport';
 
 type AppState = 'home' | 'profile-setup' | 'lobby' | 'playing';
 
+const NOTICE_DURATION = 4000;
+
 function AppContent() {
   const { user, profile } = useAuthContext();
+  const { locale } = useLocale();
   const [appState, setAppState] = useState<AppState>('home');
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Why the backend turned down this player's last action; shown briefly over the game
+  const [notice, setNotice] = useState<string | null>(null);
+  // Invite tokens start with the game id they were signed for
+  const [invite, setInvite] = useState(() => new URLSearchParams(window.location.search).get('invite'));
+  const invitedGameId = invite?.split('.')[0] || undefined;
 
-  const supabaseSocket = useSupabaseSocket();
+  const { transport: gameTransport, isConnected } = useGameTransport();
   const {
     localStream,
     remoteStreams,
     videoEnabled,
     audioEnabled,
     startLocalStream,
+    startWatching,
     toggleVideo,
     toggleAudio,
     initiateCall,
@@ -32,13 +44,17 @@ function AppContent() {
   } = useServerlessWebRTC(gameState?.id, currentPlayer?.id);
 
   useEffect(() => {
-    supabaseSocket.onGameStateChange((state: GameState) => {
+    gameTransport.onGameStateChange((state: GameState) => {
       console.log('Received game state:', state);
       const prevGameState = gameState;
       setGameState(state);
       
+      // Someone still waiting to be let in has no seat to connect or play from
+      const isSeated = !!currentPlayer && state.players.some(p => p.id === currentPlayer.id);
+      const isSpectating = !!currentPlayer && state.spectators.some(p => p.id === currentPlayer.id);
+
       // If we just joined a lobby or the lobby updated, establish connections
-      if (state.gamePhase === 'lobby' && localStream && currentPlayer) {
+      if (state.gamePhase === 'lobby' && localStream && currentPlayer && isSeated) {
         const otherPlayers = state.players.filter(p => p.id !== currentPlayer.id);
         if (otherPlayers.length > 0) {
           console.log('Establishing connections with existing players:', otherPlayers.map(p => p.name));
@@ -48,13 +64,20 @@ function AppContent() {
           }, 1000);
         }
       }
+
+      // Spectators can arrive mid-game, so they call every player as soon as they are in
+      if (isSpectating && localStream) {
+        setTimeout(() => {
+          establishConnections(state.players.map(p => p.id));
+        }, 1000);
+      }
       
-      if (state.gamePhase === 'playing') {
+      if ((isSeated || isSpectating) && (state.gamePhase === 'playing' || state.gamePhase === 'voting')) {
         setAppState('playing');
       }
     });
 
-    supabaseSocket.onPlayerJoined((player: Player) => {
+    gameTransport.onPlayerJoined((player: Player) => {
       console.log('Player joined:', player.name, player.id);
       // Initiate WebRTC connection with new player if we have local stream
       if (localStream && player.id !== currentPlayer?.id && currentPlayer) {
@@ -65,32 +88,103 @@ function AppContent() {
       }
     });
 
-    supabaseSocket.onError((errorMessage: string) => {
+    gameTransport.onError((errorMessage: string) => {
       setError(errorMessage);
     });
-  }, [localStream, currentPlayer, initiateCall, establishConnections, gameState]);
 
-  const handleCreateGame = async () => {
+    gameTransport.onActionRejected(setNotice);
+  }, [gameTransport, localStream, currentPlayer, initiateCall, establishConnections, gameState]);
+
+  useEffect(() => {
+    if (!notice) return;
+
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  // Keep this player's seat in sync when they switch language mid-game
+  const gameId = gameState?.id;
+  const playerId = currentPlayer?.id;
+  const seat = gameState?.players.find(p => p.id === playerId);
+  const seatLanguage = seat?.language;
+  useEffect(() => {
+    if (!gameId || !playerId || !seatLanguage || seatLanguage === locale) return;
+
+    gameTransport.setLanguage(gameId, playerId, locale);
+  }, [gameTransport, locale, seatLanguage, gameId, playerId]);
+
+  // The host or a facilitator can hold this player's microphone or camera off
+  const audioForceMuted = !!seat?.audioForceMuted;
+  const videoForceMuted = !!seat?.videoForceMuted;
+  useEffect(() => {
+    if (audioForceMuted && audioEnabled) toggleAudio();
+  }, [audioForceMuted, audioEnabled, toggleAudio]);
+  useEffect(() => {
+    if (videoForceMuted && videoEnabled) toggleVideo();
+  }, [videoForceMuted, videoEnabled, toggleVideo]);
+
+  const toggleOwnAudio = () => {
+    if (audioForceMuted && !audioEnabled) return;
+    toggleAudio();
+  };
+
+  const toggleOwnVideo = () => {
+    if (videoForceMuted && !videoEnabled) return;
+    toggleVideo();
+  };
+
+  // A kicked player's seat disappears from the shared state, and so does a
+  // declined join request
+  const isAwaitingApproval = !!gameState && gameState.joinRequests.some(p => p.id === playerId);
+  const wasAwaitingApproval = useRef(false);
+  const wasRemoved = !!gameState && !!playerId && !isAwaitingApproval &&
+    ![...gameState.players, ...gameState.spectators].some(p => p.id === playerId);
+  useEffect(() => {
+    if (isAwaitingApproval) {
+      wasAwaitingApproval.current = true;
+    }
+  }, [isAwaitingApproval]);
+  useEffect(() => {
+    if (!wasRemoved) return;
+
+    setGameState(null);
+    setCurrentPlayer(null);
+    setError(wasAwaitingApproval.current ? 'Your request to join was declined' : 'You were removed from the game');
+    wasAwaitingApproval.current = false;
+  }, [wasRemoved]);
+
+  const handleCreateGame = async (role: PlayerRole) => {
     // Check if user needs to create account first
     if (!user || !profile?.full_name) {
       setAppState('profile-setup');
       return;
     }
     
-    await createGame();
+    await createGame(role);
   };
 
-  const handleJoinGame = async (gameId: string) => {
+  const handleJoinGame = async (gameId: string, role: PlayerRole, passcode?: string) => {
     // Check if user needs to create account first
     if (!user || !profile?.full_name) {
       setAppState('profile-setup');
       return;
     }
     
-    await joinGame(gameId);
+    await joinGame(gameId, role, passcode);
+  };
+
+  // A refusal (room taken, wrong passcode, game full) is shown over the home
+  // page so the player can try again; the error page is for a backend that
+  // couldn't be reached
+  const showSeatError = (error: unknown, fallback: string) => {
+    if (error instanceof ActionRejectedError) {
+      setNotice(error.message);
+    } else {
+      setError(fallback);
+    }
   };
 
-  const createGame = async () => {
+  const createGame = async (role: PlayerRole) => {
     if (!profile?.full_name) return;
     
     const stream = await startLocalStream();
@@ -106,26 +200,29 @@ function AppContent() {
       name: profile.full_name,
       hand: [],
       isHost: true,
+      role,
       videoEnabled: true,
       audioEnabled: true,
-      isConnected: true
+      isConnected: true,
+      language: locale
     };
 
     console.log('Creating game with player:', { playerId, name: player.name, gameId });
     setCurrentPlayer(player);
     
     try {
-      await supabaseSocket.createGame(gameId, player);
+      await gameTransport.createGame(gameId, player);
       setAppState('lobby');
     } catch (error) {
-      setError('Failed to create game');
+      showSeatError(error, 'Failed to create game');
     }
   };
 
-  const joinGame = async (gameId: string) => {
+  const joinGame = async (gameId: string, role: PlayerRole, passcode?: string) => {
     if (!profile?.full_name) return;
     
-    const stream = await startLocalStream();
+    // Spectators only watch, so they never need the camera
+    const stream = role === 'spectator' ? startWatching() : await startLocalStream();
     if (!stream) {
       setError('Could not access camera and microphone');
       return;
@@ -137,19 +234,27 @@ function AppContent() {
       name: profile.full_name,
       hand: [],
       isHost: false,
-      videoEnabled: true,
-      audioEnabled: true,
-      isConnected: true
+      role,
+      videoEnabled: role !== 'spectator',
+      audioEnabled: role !== 'spectator',
+      isConnected: true,
+      language: locale
     };
 
     console.log('Joining game with player:', { playerId, name: player.name, gameId });
     setCurrentPlayer(player);
     
     try {
-      await supabaseSocket.joinGame(gameId, player);
+      await gameTransport.joinGame(gameId, player, passcode, gameId === invitedGameId ? invite ?? undefined : undefined);
       setAppState('lobby');
+
+      // An invite only works once, so drop it from the address bar
+      if (invite) {
+        setInvite(null);
+        window.history.replaceState(null, '', window.location.pathname);
+      }
     } catch (error) {
-      setError('Failed to join game');
+      showSeatError(error, 'Failed to join game');
     }
   };
 
@@ -161,61 +266,178 @@ function AppContent() {
 
   const startGame = async () => {
     if (gameState && currentPlayer) {
-      try {
-        await supabaseSocket.startGame(gameState.id, currentPlayer.id);
-      } catch (error) {
-        setError('Failed to start game');
-      }
+      await gameTransport.startGame(gameState.id, currentPlayer.id);
+    }
+  };
+
+  // Only the ids go to the backend, which loads the packs itself
+  const selectCardPacks = async (cardPacks: CardPack[]) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.selectCardPacks(gameState.id, currentPlayer.id, cardPacks.map(pack => pack.id));
+    }
+  };
+
+  const updateSettings = async (changes: Partial<GameSettings>) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.updateSettings(gameState.id, currentPlayer.id, changes);
+    }
+  };
+
+  const setTeam = async (targetPlayerId: string, teamId?: TeamId) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.setTeam(gameState.id, currentPlayer.id, targetPlayerId, teamId);
+    }
+  };
+
+  const setRole = async (targetPlayerId: string, role: PlayerRole) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.setRole(gameState.id, currentPlayer.id, targetPlayerId, role);
+    }
+  };
+
+  const setRoomAccess = async (passcode?: string, requireApproval?: boolean, requireAccount?: boolean) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.setRoomAccess(gameState.id, currentPlayer.id, passcode, requireApproval, requireAccount);
     }
   };
 
-  const playCard = async (card: Card) => {
+  const createInvite = async (): Promise<string | undefined> => {
     if (gameState && currentPlayer) {
       try {
-        console.log('Playing card:', card.id, 'for player:', currentPlayer.id);
-        console.log('Current game state:', {
-          gamePhase: gameState.gamePhase,
-          currentPlayerIndex: gameState.currentPlayerIndex,
-          activePlayerId: gameState.players[gameState.currentPlayerIndex]?.id,
-          myPlayerId: currentPlayer.id,
-          isMyTurn: gameState.players[gameState.currentPlayerIndex]?.id === currentPlayer.id
-        });
-        await supabaseSocket.playCard(gameState.id, currentPlayer.id, card);
+        const token = await gameTransport.createInvite(gameState.id, currentPlayer.id);
+        return `${window.location.origin}${window.location.pathname}?invite=${encodeURIComponent(token)}`;
       } catch (error) {
-        console.error('Failed to play card:', error);
-        setError('Failed to play card');
-        throw error; // Re-throw to handle in component
+        if (error instanceof ActionRejectedError) {
+          setNotice(error.message);
+        } else {
+          console.error('Failed to create invite:', error);
+        }
       }
     }
   };
 
+  const respondJoinRequest = async (requestPlayerId: string, accept: boolean) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.respondJoinRequest(gameState.id, currentPlayer.id, requestPlayerId, accept);
+    }
+  };
+
+  const pauseGame = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.pauseGame(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const resumeGame = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.resumeGame(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const skipTurn = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.skipTurn(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const extendTurn = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.extendTurn(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const kickPlayer = async (targetPlayerId: string, ban?: boolean) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.kickPlayer(gameState.id, currentPlayer.id, targetPlayerId, ban);
+    }
+  };
+
+  const mutePlayer = async (targetPlayerId: string, audio?: boolean, video?: boolean) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.mutePlayer(gameState.id, currentPlayer.id, targetPlayerId, audio, video);
+    }
+  };
+
+  const revealPrompt = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.revealPrompt(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const sendReaction = async (emoji: string) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.sendReaction(gameState.id, currentPlayer.id, emoji);
+    }
+  };
+
+  const playCard = async (card: Card, targetPlayerId?: string) => {
+    if (gameState && currentPlayer) {
+      console.log('Playing card:', card.id, 'for player:', currentPlayer.id);
+      console.log('Current game state:', {
+        gamePhase: gameState.gamePhase,
+        currentPlayerIndex: gameState.currentPlayerIndex,
+        activePlayerId: gameState.players[gameState.currentPlayerIndex]?.id,
+        myPlayerId: currentPlayer.id,
+        isMyTurn: gameState.players[gameState.currentPlayerIndex]?.id === currentPlayer.id
+      });
+      await gameTransport.playCard(gameState.id, currentPlayer.id, card.id, targetPlayerId);
+    }
+  };
+
   const drawCard = async () => {
     if (gameState && currentPlayer) {
-      try {
-        console.log('Drawing card for player:', currentPlayer.id, 'in game:', gameState.id);
-        console.log('Current game state:', {
-          gamePhase: gameState.gamePhase,
-          currentPlayerIndex: gameState.currentPlayerIndex,
-          activePlayerId: gameState.players[gameState.currentPlayerIndex]?.id,
-          myPlayerId: currentPlayer.id,
-          isMyTurn: gameState.players[gameState.currentPlayerIndex]?.id === currentPlayer.id,
-          deckLength: gameState.deck.length
-        });
-        await supabaseSocket.drawCard(gameState.id, currentPlayer.id);
-      } catch (error) {
-        console.error('Failed to draw card:', error);
-        setError('Failed to draw card');
-      }
+      console.log('Drawing card for player:', currentPlayer.id, 'in game:', gameState.id);
+      console.log('Current game state:', {
+        gamePhase: gameState.gamePhase,
+        currentPlayerIndex: gameState.currentPlayerIndex,
+        activePlayerId: gameState.players[gameState.currentPlayerIndex]?.id,
+        myPlayerId: currentPlayer.id,
+        isMyTurn: gameState.players[gameState.currentPlayerIndex]?.id === currentPlayer.id,
+        deckLength: getDeckCount(gameState)
+      });
+      await gameTransport.drawCard(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const drawFromDiscard = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.drawFromDiscard(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const endAnswer = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.endAnswer(gameState.id, currentPlayer.id);
+    }
+  };
+
+  const castVote = async (rating: number) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.castVote(gameState.id, currentPlayer.id, rating);
+    }
+  };
+
+  const proposeTrade = async (targetPlayerId: string, cardId: string, requestedType: PType) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.proposeTrade(gameState.id, currentPlayer.id, targetPlayerId, cardId, requestedType);
+    }
+  };
+
+  const respondTrade = async (accept: boolean, cardId?: string) => {
+    if (gameState && currentPlayer) {
+      await gameTransport.respondTrade(gameState.id, currentPlayer.id, accept, cardId);
+    }
+  };
+
+  const cancelTrade = async () => {
+    if (gameState && currentPlayer) {
+      await gameTransport.cancelTrade(gameState.id, currentPlayer.id);
     }
   };
 
   const newGame = async () => {
-    if (gameState) {
-      try {
-        await supabaseSocket.newGame(gameState.id);
-      } catch (error) {
-        setError('Failed to start new game');
-      }
+    if (gameState && currentPlayer) {
+      await gameTransport.newGame(gameState.id, currentPlayer.id);
     }
   };
 
@@ -258,6 +480,7 @@ function AppContent() {
               onCreateGame={handleCreateGame} 
               onJoinGame={handleJoinGame}
               hasProfile={!!(user && profile?.full_name)}
+              invitedGameId={invitedGameId}
             />
           </motion.div>
         )}
@@ -283,14 +506,28 @@ function AppContent() {
             <GameLobby
               gameId={gameState.id}
               players={gameState.players}
+              spectators={gameState.spectators}
               currentPlayer={currentPlayer}
               localStream={localStream}
               remoteStreams={remoteStreams}
               audioEnabled={audioEnabled}
               videoEnabled={videoEnabled}
-              onToggleAudio={toggleAudio}
-              onToggleVideo={toggleVideo}
+              onToggleAudio={toggleOwnAudio}
+              onToggleVideo={toggleOwnVideo}
               onStartGame={startGame}
+              cardPacks={gameState.cardPacks}
+              onSelectCardPacks={selectCardPacks}
+              settings={gameState.settings}
+              onUpdateSettings={updateSettings}
+              onSetTeam={setTeam}
+              onSetRole={setRole}
+              onKickPlayer={kickPlayer}
+              onMutePlayer={mutePlayer}
+              access={gameState.access}
+              joinRequests={gameState.joinRequests}
+              onSetRoomAccess={setRoomAccess}
+              onCreateInvite={createInvite}
+              onRespondJoinRequest={respondJoinRequest}
             />
           </motion.div>
         )}
@@ -309,13 +546,33 @@ function AppContent() {
               remoteStreams={remoteStreams}
               onPlayCard={playCard}
               onDrawCard={drawCard}
+              onDrawFromDiscard={drawFromDiscard}
+              onEndAnswer={endAnswer}
+              onCastVote={castVote}
+              onProposeTrade={proposeTrade}
+              onRespondTrade={respondTrade}
+              onCancelTrade={cancelTrade}
+              onPauseGame={pauseGame}
+              onResumeGame={resumeGame}
+              onSkipTurn={skipTurn}
+              onExtendTurn={extendTurn}
+              onKickPlayer={kickPlayer}
+              onMutePlayer={mutePlayer}
+              onRevealPrompt={revealPrompt}
+              onSendReaction={sendReaction}
               onNewGame={newGame}
             />
           </motion.div>
         )}
       </AnimatePresence>
 
-      {!supabaseSocket.isConnected && (
+      {notice && (
+        <div role="alert" className="fixed top-4 left-1/2 -translate-x-1/2 bg-red-100 border border-red-300 text-red-800 px-4 py-2 rounded-lg shadow">
+          {notice}
+        </div>
+      )}
+
+      {!isConnected && (
         <div className="fixed top-4 right-4 bg-yellow-100 border border-yellow-300 text-yellow-800 px-4 py-2 rounded-lg">
           Connecting to server...
         </div>
@@ -326,9 +583,11 @@ function AppContent() {
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <LocaleProvider>
+      <AuthProvider>
+        <AppContent />
+      </AuthProvider>
+    </LocaleProvider>
   );
 }
 
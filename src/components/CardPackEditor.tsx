@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Save, Trash2, Share2, Loader2 } from 'lucide-react';
+import { CardPack } from '../types/game';
+import { CARD_TYPES, CARD_COLORS } from '../data/cards';
+import { CardPackDraft } from '../lib/cardPackFormat';
+import { useLocale } from './LocaleProvider';
+
+interface CardPackEditorProps {
+  pack?: CardPackDraft; // Drafts without an id (e.g. imported files) are saved as new packs
+  onSave: (pack: CardPackDraft) => Promise<void>;
+  onDelete?: (packId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export function CardPackEditor({ pack, onSave, onDelete, onClose }: CardPackEditorProps) {
+  const { t } = useLocale();
+  const [name, setName] = useState(pack?.name || '');
+  const [description, setDescription] = useState(pack?.description || '');
+  const [isShared, setIsShared] = useState(pack?.isShared ?? false);
+  // One prompt per line while editing
+  const [promptText, setPromptText] = useState<Record<string, string>>(() =>
+    Object.fromEntries(CARD_TYPES.map(type => [type, (pack?.prompts[type] || []).join('\n')]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const prompts = Object.fromEntries(
+      CARD_TYPES.map(type => [
+        type,
+        promptText[type].split('\n').map(line => line.trim()).filter(Boolean)
+      ])
+    ) as CardPack['prompts'];
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSave({
+        id: pack?.id,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        prompts,
+        colors: pack?.colors,
+        isShared
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error saving card pack:', error);
+      setError(error instanceof Error ? error.message : t('cardPacks.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pack?.id || !onDelete) return;
+
+    setIsSaving(true);
+    try {
+      await onDelete(pack.id);
+      onClose();
+    } catch (error) {
+      console.error('Error deleting card pack:', error);
+      setError(error instanceof Error ? error.message : t('cardPacks.deleteFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-3xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+        role="dialog"
+        aria-labelledby="card-pack-editor-title"
+      >
+        <form onSubmit={handleSubmit} className="p-6 md:p-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 id="card-pack-editor-title" className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+              {pack?.id ? t('cardPacks.editTitle') : t('cardPacks.newTitle')}
+            </h2>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 text-gray-500 hover:text-gray-800 rounded-lg hover:bg-gray-100 transition-colors"
+              aria-label={t('cardPacks.closeEditor')}
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="packName" className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('cardPacks.name')}
+              </label>
+              <input
+                id="packName"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('cardPacks.namePlaceholder')}
+                required
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all duration-300"
+              />
+            </div>
+            <div>
+              <label htmlFor="packDescription" className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('cardPacks.description')}
+              </label>
+              <input
+                id="packDescription"
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder={t('cardPacks.descriptionPlaceholder')}
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all duration-300"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {CARD_TYPES.map(type => (
+              <div key={type}>
+                <label htmlFor={`prompts-${type}`} className="flex items-center space-x-2 text-sm font-semibold text-gray-700 mb-2">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: pack?.colors?.[type] ?? CARD_COLORS[type] }}></span>
+                  <span>{t('cardPacks.typePrompts', { type: t(`cardType.${type}` as const) })}</span>
+                  <span className="text-gray-400 font-normal">{t('cardPacks.onePerLine')}</span>
+                </label>
+                <textarea
+                  id={`prompts-${type}`}
+                  value={promptText[type]}
+                  onChange={(e) => setPromptText(prev => ({ ...prev, [type]: e.target.value }))}
+                  rows={3}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all duration-300 text-sm"
+                />
+              </div>
+            ))}
+          </div>
+
+          <label className="flex items-center space-x-3 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isShared}
+              onChange={(e) => setIsShared(e.target.checked)}
+              className="w-5 h-5 rounded text-indigo-600 focus:ring-indigo-500"
+            />
+            <Share2 size={18} className="text-indigo-600" />
+            <span>{t('cardPacks.share')}</span>
+          </label>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-xl p-3">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            {pack?.id && onDelete ? (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isSaving}
+                className="flex items-center space-x-2 px-4 py-3 text-red-600 hover:bg-red-50 rounded-xl transition-colors disabled:opacity-50"
+              >
+                <Trash2 size={18} />
+                <span>{t('cardPacks.delete')}</span>
+              </button>
+            ) : <div />}
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-3 border-2 border-gray-200 rounded-xl text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-all duration-300 font-medium"
+              >
+                {t('cardPacks.cancel')}
+              </button>
+              <motion.button
+                type="submit"
+                disabled={isSaving || !name.trim()}
+                className="flex items-center space-x-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-6 py-3 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 font-semibold shadow-lg disabled:opacity-50"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />}
+                <span>{t('cardPacks.save')}</span>
+              </motion.button>
+            </div>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,265 @@
+import { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Layers, Plus, Pencil, Check, Loader2, Share2, Upload, Download } from 'lucide-react';
+import { CardPack } from '../types/game';
+import { CARD_TYPES } from '../data/cards';
+import { useCardPacks } from '../hooks/useCardPacks';
+import { useAuthContext } from './AuthProvider';
+import { CardPackEditor } from './CardPackEditor';
+import { useLocale } from './LocaleProvider';
+import {
+  CardPackDraft,
+  CardPackImportError,
+  exportCardPackJson,
+  exportCardPackCsv,
+  importCardPackJson,
+  importCardPackCsv
+} from '../lib/cardPackFormat';
+
+interface CardPackPickerProps {
+  selectedPacks: CardPack[];
+  isHost: boolean;
+  onSelectCardPacks: (packs: CardPack[]) => void;
+}
+
+function countPrompts(pack: CardPack): number {
+  return CARD_TYPES.reduce((total, type) => total + (pack.prompts[type]?.length || 0), 0);
+}
+
+function downloadFile(filename: string, contents: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileBaseName(pack: CardPack): string {
+  return pack.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'card-pack';
+}
+
+export function CardPackPicker({ selectedPacks, isHost, onSelectCardPacks }: CardPackPickerProps) {
+  const { user } = useAuthContext();
+  const { t } = useLocale();
+  const { packs, isLoading, error, savePack, deletePack } = useCardPacks();
+  const [editingPack, setEditingPack] = useState<CardPackDraft | null | undefined>(undefined);
+  const [importErrors, setImportErrors] = useState<CardPackImportError[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedIds = new Set(selectedPacks.map(pack => pack.id));
+
+  const togglePack = (pack: CardPack) => {
+    const next = selectedIds.has(pack.id)
+      ? selectedPacks.filter(p => p.id !== pack.id)
+      : [...selectedPacks, pack];
+
+    if (next.length > 0) {
+      onSelectCardPacks(next);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const result = file.name.toLowerCase().endsWith('.csv')
+      ? importCardPackCsv(text, file.name.replace(/\.csv$/i, ''))
+      : importCardPackJson(text);
+
+    setImportErrors(result.errors);
+    // Open the imported pack in the editor so it can be reviewed before saving
+    if (result.pack) {
+      setEditingPack(result.pack);
+    }
+  };
+
+  const handleSave = async (pack: CardPackDraft) => {
+    const saved = await savePack(pack);
+    // Keep the game's snapshot in sync when editing a selected pack
+    if (selectedIds.has(saved.id)) {
+      onSelectCardPacks(selectedPacks.map(p => (p.id === saved.id ? saved : p)));
+    }
+  };
+
+  if (!isHost) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <Layers size={16} className="text-indigo-600" />
+        <span>{t('cardPacks.selected')}</span>
+        {selectedPacks.map(pack => (
+          <span key={pack.id} className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full font-medium">
+            {pack.name}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center space-x-2">
+          <Layers className="text-indigo-600" size={20} />
+          <span>{t('cardPacks.title')}</span>
+          {isLoading && <Loader2 size={16} className="animate-spin text-gray-400" />}
+        </h3>
+        {user && (
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center space-x-1 text-sm font-medium text-indigo-600 hover:text-indigo-800 px-3 py-1.5 rounded-lg hover:bg-indigo-50 transition-colors"
+            >
+              <Upload size={16} />
+              <span>{t('cardPacks.import')}</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => setEditingPack(null)}
+              className="flex items-center space-x-1 text-sm font-medium text-indigo-600 hover:text-indigo-800 px-3 py-1.5 rounded-lg hover:bg-indigo-50 transition-colors"
+            >
+              <Plus size={16} />
+              <span>{t('cardPacks.newPack')}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      {importErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-xl p-3 mb-3">
+          <div className="flex items-center justify-between mb-1">
+            <p className="font-semibold">{t('cardPacks.importFailed')}</p>
+            <button
+              onClick={() => setImportErrors([])}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              {t('cardPacks.dismiss')}
+            </button>
+          </div>
+          <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+            {importErrors.map((importError, index) => (
+              <li key={index}>
+                {importError.row > 0 && <span className="font-medium">{t('cardPacks.importRow', { row: importError.row })}</span>}
+                {importError.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {packs.map(pack => {
+          const isSelected = selectedIds.has(pack.id);
+          const isOwn = !!user && pack.ownerUserId === user.id;
+
+          return (
+            <motion.div
+              key={pack.id}
+              layout
+              className={`relative text-left p-4 rounded-2xl border-2 transition-all duration-300 cursor-pointer ${
+                isSelected
+                  ? 'border-indigo-500 bg-gradient-to-br from-indigo-50 to-purple-50 shadow-lg'
+                  : 'border-gray-200 bg-white hover:border-indigo-300'
+              }`}
+              onClick={() => togglePack(pack)}
+              role="checkbox"
+              aria-checked={isSelected}
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  togglePack(pack);
+                }
+              }}
+            >
+              <div className="flex items-start justify-between">
+                <div className="pr-6">
+                  <p className="font-semibold text-gray-800">{pack.name}</p>
+                  {pack.description && (
+                    <p className="text-xs text-gray-500 mt-1">{pack.description}</p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-2 flex items-center space-x-2">
+                    <span>{t('cardPacks.promptCount', { count: countPrompts(pack) })}</span>
+                    {pack.isShared && (
+                      <span className="flex items-center space-x-1">
+                        <Share2 size={12} />
+                        <span>{t('cardPacks.shared')}</span>
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <AnimatePresence>
+                  {isSelected && (
+                    <motion.div
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      exit={{ scale: 0 }}
+                      className="absolute top-3 right-3 w-6 h-6 bg-indigo-600 rounded-full flex items-center justify-center"
+                    >
+                      <Check size={14} className="text-white" />
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+              <div className="mt-3 flex items-center space-x-3">
+                {isOwn && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingPack(pack);
+                    }}
+                    className="flex items-center space-x-1 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                  >
+                    <Pencil size={12} />
+                    <span>{t('cardPacks.edit')}</span>
+                  </button>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    downloadFile(`${fileBaseName(pack)}.json`, exportCardPackJson(pack), 'application/json');
+                  }}
+                  className="flex items-center space-x-1 text-xs font-medium text-gray-500 hover:text-indigo-700"
+                >
+                  <Download size={12} />
+                  <span>JSON</span>
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    downloadFile(`${fileBaseName(pack)}.csv`, exportCardPackCsv(pack), 'text/csv');
+                  }}
+                  className="flex items-center space-x-1 text-xs font-medium text-gray-500 hover:text-indigo-700"
+                >
+                  <Download size={12} />
+                  <span>CSV</span>
+                </button>
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+
+      {editingPack !== undefined && (
+        <CardPackEditor
+          pack={editingPack ?? undefined}
+          onSave={handleSave}
+          onDelete={deletePack}
+          onClose={() => setEditingPack(undefined)}
+        />
+      )}
+    </div>
+  );
+}
\ No newline at end of file
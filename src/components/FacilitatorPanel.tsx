@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Eye, Pause, Play, ShieldCheck, SkipForward, TimerReset } from 'lucide-react';
+import { GameState } from '../types/game';
+import { TURN_EXTENSION } from '../lib/gameRules';
+import { useLocale } from './LocaleProvider';
+import { ModerationButtons } from './ModerationButtons';
+
+interface FacilitatorPanelProps {
+  gameState: GameState;
+  currentPlayerId: string;
+  onPauseGame: () => void;
+  onResumeGame: () => void;
+  onSkipTurn: () => void;
+  onExtendTurn: () => void;
+  onKickPlayer: (targetPlayerId: string, ban?: boolean) => void;
+  onMutePlayer: (targetPlayerId: string, audio?: boolean, video?: boolean) => void;
+  onRevealPrompt: () => void;
+}
+
+const buttonClassName = 'flex items-center space-x-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-400';
+const selectClassName = 'bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+// Session controls for the host and facilitators; the rules engine checks the same permissions
+export function FacilitatorPanel({ gameState, currentPlayerId, onPauseGame, onResumeGame, onSkipTurn, onExtendTurn, onKickPlayer, onMutePlayer, onRevealPrompt }: FacilitatorPanelProps) {
+  const { t } = useLocale();
+  const [selectedPlayerId, setSelectedPlayerId] = useState('');
+
+  const isPaused = gameState.pausedAt !== undefined;
+  const inProgress = gameState.gamePhase === 'playing' || gameState.gamePhase === 'voting';
+  const isPlaying = gameState.gamePhase === 'playing' && !isPaused;
+  const moderated = gameState.players.filter(player => player.id !== currentPlayerId && !player.isHost);
+  const selectedPlayer = moderated.find(player => player.id === selectedPlayerId);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="bg-emerald-500/10 border border-emerald-500/30 rounded-xl p-2 mb-2 md:mb-3"
+      role="region"
+      aria-label={t('facilitator.title')}
+    >
+      <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-emerald-100">
+        <span className="flex items-center space-x-1 font-semibold">
+          <ShieldCheck size={14} />
+          <span>{t('facilitator.title')}</span>
+        </span>
+
+        {isPaused ? (
+          <button onClick={onResumeGame} className={buttonClassName}>
+            <Play size={12} />
+            <span>{t('facilitator.resume')}</span>
+          </button>
+        ) : (
+          <button onClick={onPauseGame} disabled={!inProgress} className={buttonClassName}>
+            <Pause size={12} />
+            <span>{t('facilitator.pause')}</span>
+          </button>
+        )}
+
+        <button onClick={onSkipTurn} disabled={!isPlaying} className={buttonClassName}>
+          <SkipForward size={12} />
+          <span>{t('facilitator.skipTurn')}</span>
+        </button>
+
+        <button onClick={onExtendTurn} disabled={!isPlaying} className={buttonClassName}>
+          <TimerReset size={12} />
+          <span>{t('facilitator.extendTurn', { count: TURN_EXTENSION / 1000 })}</span>
+        </button>
+
+        <button onClick={onRevealPrompt} disabled={!isPlaying} className={buttonClassName}>
+          <Eye size={12} />
+          <span>{t('facilitator.revealPrompt')}</span>
+        </button>
+
+        {moderated.length > 0 && (
+          <span className="flex items-center space-x-1">
+            <select
+              value={selectedPlayerId}
+              onChange={(e) => setSelectedPlayerId(e.target.value)}
+              className={selectClassName}
+              aria-label={t('facilitator.choosePlayer')}
+            >
+              <option value="">{t('facilitator.choosePlayer')}</option>
+              {moderated.map(player => (
+                <option key={player.id} value={player.id}>{player.name}</option>
+              ))}
+            </select>
+            {selectedPlayer && (
+              <ModerationButtons player={selectedPlayer} onKickPlayer={onKickPlayer} onMutePlayer={onMutePlayer} />
+            )}
+          </span>
+        )}
+      </div>
+    </motion.div>
+  );
+}
\ No newline at end of file
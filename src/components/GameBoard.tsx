@@ -1,12 +1,21 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowRight, RotateCcw, Trophy, Clock, Zap, Target, Volume2, VolumeX, Loader2, Eye, EyeOff, Users, Info, ChevronDown, ChevronUp, Sparkles, Play, Layers, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { GameState, Card } from '../types/game';
+import { ArrowRight, RotateCcw, Trophy, Clock, Zap, Target, Volume2, VolumeX, Loader2, Eye, EyeOff, Users, Info, ChevronDown, ChevronUp, Sparkles, Play, Layers, AlertCircle, CheckCircle2, Pause } from 'lucide-react';
+import { GameState, Card, PType } from '../types/game';
 import { GameCard } from './GameCard';
 import { VideoFeed } from './VideoFeed';
+import { VotingPanel } from './VotingPanel';
+import { TradePanel } from './TradePanel';
+import { FacilitatorPanel } from './FacilitatorPanel';
+import { ReactionBar } from './ReactionBar';
 import { TurnTimer } from './TurnTimer';
+import { useLocale } from './LocaleProvider';
+import { LanguagePicker } from './LanguagePicker';
 import { useSmartTTS } from '../hooks/useSmartTTS';
 import { useTurnTimer } from '../hooks/useTurnTimer';
+import { TEAM_IDS, canModerate, checkWinCondition, getDeckCount, getDiscardDraw, getHandHolder, getScore, isAwaitingRating, onSameTeam, rankPlayers } from '../lib/gameRules';
+import { isPromptCard } from '../data/cards';
+import { TEAM_COLORS } from '../data/teams';
 import { useEffect, useRef } from 'react';
 
 interface GameBoardProps {
@@ -14,8 +23,22 @@ interface GameBoardProps {
   currentPlayer: any;
   localStream: MediaStream | null;
   remoteStreams: Map<string, MediaStream>;
-  onPlayCard: (card: Card) => void;
+  onPlayCard: (card: Card, targetPlayerId?: string) => void;
   onDrawCard: () => void;
+  onDrawFromDiscard: () => void;
+  onEndAnswer: () => void;
+  onCastVote: (rating: number) => void;
+  onProposeTrade: (targetPlayerId: string, cardId: string, requestedType: PType) => void;
+  onRespondTrade: (accept: boolean, cardId?: string) => void;
+  onCancelTrade: () => void;
+  onPauseGame: () => void;
+  onResumeGame: () => void;
+  onSkipTurn: () => void;
+  onExtendTurn: () => void;
+  onKickPlayer: (targetPlayerId: string, ban?: boolean) => void;
+  onMutePlayer: (targetPlayerId: string, audio?: boolean, video?: boolean) => void;
+  onRevealPrompt: () => void;
+  onSendReaction: (emoji: string) => void;
   onNewGame: () => void;
 }
 
@@ -26,14 +49,30 @@ export function GameBoard({
   remoteStreams,
   onPlayCard,
   onDrawCard,
+  onDrawFromDiscard,
+  onEndAnswer,
+  onCastVote,
+  onProposeTrade,
+  onRespondTrade,
+  onCancelTrade,
+  onPauseGame,
+  onResumeGame,
+  onSkipTurn,
+  onExtendTurn,
+  onKickPlayer,
+  onMutePlayer,
+  onRevealPrompt,
+  onSendReaction,
   onNewGame
 }: GameBoardProps) {
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
+  const [targetPlayerId, setTargetPlayerId] = useState('');
   const [showVideoFeeds, setShowVideoFeeds] = useState(true);
   const [showProgress, setShowProgress] = useState(true);
   const [showInstructions, setShowInstructions] = useState(false);
   const [announcements, setAnnouncements] = useState<string[]>([]);
   const [focusedElement, setFocusedElement] = useState<string | null>(null);
+  const { t, localizeCard } = useLocale();
   
   const { 
     isLoading: smartTTSLoading, 
@@ -56,39 +95,46 @@ export function GameBoard({
   const announcementRef = useRef<HTMLDivElement>(null);
 
   const currentPlayerData = gameState.players.find(p => p.id === currentPlayer.id);
-  const isCurrentPlayerTurn = gameState.players[gameState.currentPlayerIndex]?.id === currentPlayer.id;
+  // Spectators have no seat: every player sits around the table for them
+  const isSpectator = gameState.spectators.some(p => p.id === currentPlayer.id);
+  // Only the host or a facilitator can deal a new game
+  const canRunSession = !!currentPlayerData && canModerate(currentPlayerData);
   const activePlayer = gameState.players[gameState.currentPlayerIndex];
+  // Teammates share one hand and one turn
+  const handHolder = getHandHolder(gameState, currentPlayer.id);
+  const isCurrentPlayerTurn = !!activePlayer && onSameTeam(gameState, activePlayer.id, currentPlayer.id);
+  const awaitingRating = isAwaitingRating(gameState);
+  // Nothing can be played or drawn until a paused game resumes
+  const isPaused = gameState.pausedAt !== undefined;
+  const canDraw = !isPaused && !awaitingRating
+    && (gameState.hasPlayedCard || !gameState.settings.mustPlayBeforeDraw || !handHolder?.hand.some(isPromptCard));
+  const typeLabel = (card: Card) => t(`cardType.${card.type}` as const);
+  const discardDraw = gameState.settings.drawFromDiscard && isCurrentPlayerTurn && canDraw
+    ? getDiscardDraw(gameState)
+    : undefined;
 
-  // Turn timer logic
-  const handleTurnExpired = () => {
-    if (isCurrentPlayerTurn && gameState.deck.length > 0) {
-      console.log('Turn expired, automatically drawing card');
-      onDrawCard();
-      addAnnouncement('Time expired! Automatically drawing a card.');
-    }
-  };
+  // Everyone holds the same cards; each player reads them in their own language
+  const hand = handHolder?.hand.map(localizeCard);
+  const lastPlayedCard = gameState.discardPile[gameState.discardPile.length - 1];
+  // Usually the top discard, but a prompt revealed by a facilitator sits underneath
+  const promptCard = gameState.currentPrompt
+    ? gameState.discardPile.find(card => card.prompt === gameState.currentPrompt)
+    : undefined;
+  const currentPrompt = promptCard ? localizeCard(promptCard).prompt : gameState.currentPrompt;
 
+  // Countdown to the server's turn deadline; the backend advances the turn
   const {
     timeRemaining,
     isActive: timerActive,
     hasExpired: timerExpired,
     progress: timerProgress,
-    formattedTime,
-    resetTimer
+    formattedTime
   } = useTurnTimer(
-    isCurrentPlayerTurn,
-    gameState.turnStartTime,
-    30000, // 30 seconds
-    handleTurnExpired
+    gameState.gamePhase === 'playing' ? gameState.turnStartTime : undefined,
+    gameState.settings.turnTimeLimit,
+    gameState.pausedAt
   );
 
-  // Reset timer when turn changes or card is played
-  useEffect(() => {
-    if (isCurrentPlayerTurn && gameState.turnStartTime) {
-      resetTimer(gameState.turnStartTime);
-    }
-  }, [gameState.currentPlayerIndex, gameState.turnStartTime, resetTimer]);
-
   // Accessibility announcements
   const addAnnouncement = (message: string) => {
     setAnnouncements(prev => [...prev.slice(-2), message]); // Keep last 3 announcements
@@ -97,89 +143,129 @@ export function GameBoard({
     }, 5000);
   };
 
+  // Directed prompts are read out with the name of whoever should answer
+  const promptTargetName = gameState.players.find(p => p.id === gameState.promptTargetPlayerId)?.name;
+  const spokenPrompt = currentPrompt && promptTargetName
+    ? t('board.promptFor', { name: promptTargetName, prompt: currentPrompt })
+    : currentPrompt;
+
   // Auto-play TTS when a new prompt appears
   useEffect(() => {
     if (
-      gameState.currentPrompt && 
+      currentPrompt && 
       autoPlayEnabled && 
       !smartTTSPlaying && 
       !smartTTSLoading && 
       smartTTSAvailable &&
-      gameState.currentPrompt !== lastPlayedPromptRef.current
+      currentPrompt !== lastPlayedPromptRef.current
     ) {
       console.log('Auto-playing smart TTS for new prompt');
-      lastPlayedPromptRef.current = gameState.currentPrompt;
-      playSmartAudio(gameState.currentPrompt, useSummarization);
-      addAnnouncement(`New conversation prompt: ${gameState.currentPrompt.substring(0, 50)}...`);
+      lastPlayedPromptRef.current = currentPrompt;
+      playSmartAudio(spokenPrompt ?? currentPrompt, useSummarization);
+      addAnnouncement(t('announce.newPrompt', { prompt: currentPrompt.substring(0, 50) }));
     }
-  }, [gameState.currentPrompt, autoPlayEnabled, smartTTSAvailable, useSummarization, smartTTSPlaying, smartTTSLoading, playSmartAudio]);
+  }, [currentPrompt, spokenPrompt, autoPlayEnabled, smartTTSAvailable, useSummarization, smartTTSPlaying, smartTTSLoading, playSmartAudio, t]);
 
   // Announce turn changes
   useEffect(() => {
     if (activePlayer) {
       const message = isCurrentPlayerTurn 
-        ? "It's your turn to play a card" 
-        : `It's ${activePlayer.name}'s turn`;
+        ? t('announce.yourTurn')
+        : t('announce.playerTurn', { name: activePlayer.name });
       addAnnouncement(message);
     }
-  }, [gameState.currentPlayerIndex, isCurrentPlayerTurn, activePlayer?.name]);
+  }, [gameState.currentPlayerIndex, isCurrentPlayerTurn, activePlayer?.name, t]);
+
+  // Announce how the last answer was rated
+  const lastVoteResult = gameState.lastVoteResult;
+  const announcedVoteRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!lastVoteResult || announcedVoteRef.current === lastVoteResult.cardId) return;
+    announcedVoteRef.current = lastVoteResult.cardId;
+
+    const answerer = gameState.players.find(p => p.id === lastVoteResult.answererId);
+    addAnnouncement(t('voting.result', {
+      name: answerer?.name ?? '',
+      points: lastVoteResult.points,
+      average: lastVoteResult.average.toFixed(1),
+      count: lastVoteResult.count
+    }));
+  }, [lastVoteResult, gameState.players, t]);
 
   // Clear TTS error and reset last played prompt when prompt changes
   useEffect(() => {
-    if (!gameState.currentPrompt) {
+    if (!currentPrompt) {
       lastPlayedPromptRef.current = null;
     }
     
     if (smartTTSError) {
       clearError();
     }
-  }, [gameState.currentPrompt, smartTTSError, clearError]);
+  }, [currentPrompt, smartTTSError, clearError]);
 
-  const handleCardPlay = async (card: Card) => {
+  const handleCardPlay = async (card: Card, targetPlayerId?: string) => {
     if (isPlayingCard) return;
     
     setIsPlayingCard(true);
-    addAnnouncement(`Playing ${card.type} card: ${card.prompt.substring(0, 30)}...`);
+    addAnnouncement(t('announce.playingCard', { type: typeLabel(card), prompt: card.prompt.substring(0, 30) }));
     
     try {
-      await onPlayCard(card);
+      await onPlayCard(card, targetPlayerId);
     } catch (error) {
       console.error('Error playing card:', error);
-      addAnnouncement('Failed to play card. Please try again.');
+      addAnnouncement(t('announce.playFailed'));
     } finally {
       setIsPlayingCard(false);
     }
   };
 
   const handleCardClick = (card: Card) => {
-    if (isCurrentPlayerTurn) {
+    if (isCurrentPlayerTurn && !isPaused) {
       setSelectedCard(card);
-      addAnnouncement(`Selected ${card.type} card. Press Enter to play or Escape to cancel.`);
+      addAnnouncement(t('announce.cardSelected', { type: typeLabel(card) }));
     }
   };
 
   const confirmCardPlay = async () => {
     if (selectedCard) {
-      await handleCardPlay(selectedCard);
+      await handleCardPlay(selectedCard, canTarget ? targetPlayerId || undefined : undefined);
       setSelectedCard(null);
+      setTargetPlayerId('');
     }
   };
 
+  // Wilds are held for the winning hand, and ask anyone needs someone to ask.
+  // With directed prompts a prompt card may go to another player too.
+  const canTarget = selectedCard?.type === 'AskAnyone' || (!!selectedCard && isPromptCard(selectedCard) && gameState.settings.directedPrompts);
+  const canConfirmPlay = selectedCard?.type !== 'Wild' && (selectedCard?.type !== 'AskAnyone' || !!targetPlayerId);
+
   const handleDrawCard = () => {
-    if (!gameState.hasPlayedCard) {
-      addAnnouncement('You must play a card before drawing!');
+    if (!canDraw) {
+      addAnnouncement(t('announce.playBeforeDraw'));
       return;
     }
     
-    if (gameState.deck.length > 0) {
-      onDrawCard();
-      addAnnouncement('Drawing a new card from the deck');
+    if (getDeckCount(gameState) > 0) {
+      addAnnouncement(t('announce.drawing'));
+    } else if (gameState.settings.deckExhaustionPolicy !== 'reshuffle') {
+      addAnnouncement(t('announce.deckEnding'));
+    } else if (gameState.discardPile.length > 0) {
+      addAnnouncement(t('announce.reshuffling'));
     } else {
-      addAnnouncement('No cards left in the deck');
+      addAnnouncement(t('announce.nothingToDraw'));
     }
+    onDrawCard();
   };
 
-  // Get player positions around the table (7 positions for opponents)
+  const handleDrawFromDiscard = () => {
+    if (!discardDraw) return;
+
+    addAnnouncement(t('announce.drawingDiscard'));
+    onDrawFromDiscard();
+  };
+
+  // Get player positions around the table (7 positions for opponents, and an
+  // 8th at the bottom for spectators, who have no seat of their own there)
   const getPlayerPosition = (index: number, isMobile: boolean = false) => {
     if (isMobile) {
       // Mobile layout - arrange in a more compact way
@@ -191,6 +277,7 @@ export function GameBoard({
         { x: 140, y: 0, position: 'middle-right' },
         { x: -120, y: 120, position: 'bottom-left' },
         { x: 120, y: 120, position: 'bottom-right' },
+        { x: 0, y: 140, position: 'bottom-center' },
       ];
       return positions[index] || { x: 0, y: 0, position: 'center' };
     }
@@ -204,15 +291,23 @@ export function GameBoard({
       { x: 380, y: -20, position: 'middle-right' },
       { x: -280, y: 160, position: 'bottom-left' },
       { x: 280, y: 160, position: 'bottom-right' },
+      { x: 0, y: 200, position: 'bottom-center' },
     ];
     
     return positions[index] || { x: 0, y: 0, position: 'center' };
   };
 
-  // Arrange players: current player at bottom center, others around the table
+  // Arrange players: current player at bottom center, others around the table.
+  // In team mode teammates sit next to each other, teams in lobby colour order.
   const arrangedPlayers = React.useMemo(() => {
     const currentPlayerIndex = gameState.players.findIndex(p => p.id === currentPlayer.id);
-    const otherPlayers = gameState.players.filter(p => p.id !== currentPlayer.id);
+    const teamOrder = (teamId?: string) => {
+      const index = TEAM_IDS.findIndex(id => id === teamId);
+      return index === -1 ? TEAM_IDS.length : index;
+    };
+    const otherPlayers = gameState.players
+      .filter(p => p.id !== currentPlayer.id)
+      .sort((a, b) => gameState.settings.teamMode ? teamOrder(a.teamId) - teamOrder(b.teamId) : 0);
     
     return otherPlayers.map((player, index) => ({
       player,
@@ -220,14 +315,14 @@ export function GameBoard({
       positionMobile: getPlayerPosition(index, true),
       isCurrentUser: false
     }));
-  }, [gameState.players, currentPlayer.id]);
+  }, [gameState.players, gameState.settings.teamMode, currentPlayer.id]);
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape' && selectedCard) {
         setSelectedCard(null);
-        addAnnouncement('Card selection cancelled');
+        addAnnouncement(t('announce.selectionCancelled'));
       }
       
       if (event.key === 'Enter' && selectedCard && isCurrentPlayerTurn) {
@@ -237,28 +332,49 @@ export function GameBoard({
       // Toggle video feeds with 'V' key
       if (event.key === 'v' || event.key === 'V') {
         setShowVideoFeeds(prev => !prev);
-        addAnnouncement(showVideoFeeds ? 'Video feeds hidden' : 'Video feeds shown');
+        addAnnouncement(showVideoFeeds ? t('announce.videoHidden') : t('announce.videoShown'));
       }
 
       // Toggle progress with 'P' key
       if (event.key === 'p' || event.key === 'P') {
         setShowProgress(prev => !prev);
-        addAnnouncement(showProgress ? 'Progress panel hidden' : 'Progress panel shown');
+        addAnnouncement(showProgress ? t('announce.progressHidden') : t('announce.progressShown'));
       }
 
       // Show help with '?' key
       if (event.key === '?' && !showInstructions) {
         setShowInstructions(true);
-        addAnnouncement('Game instructions opened');
+        addAnnouncement(t('announce.instructionsOpened'));
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedCard, isCurrentPlayerTurn, showVideoFeeds, showProgress, showInstructions]);
+  }, [selectedCard, isCurrentPlayerTurn, showVideoFeeds, showProgress, showInstructions, t]);
 
   if (gameState.gamePhase === 'finished') {
-    const winner = gameState.players.find(p => p.id === gameState.winner);
+    const winners = gameState.players.filter(p => gameState.winners.includes(p.id));
+    const winnerNames = winners.map(p => p.name).join(' & ');
+    // A winning team lists every member, so count sides rather than names
+    const winningSides = new Set(winners.map(p => getHandHolder(gameState, p.id)?.id)).size;
+    const leaderboard = rankPlayers(gameState);
+    const { scoringMode, setsToWin, winningHand } = gameState.settings;
+
+    // Work out why the game ended for the headline
+    const winReason = () => {
+      const score = winners[0] && getScore(gameState, winners[0].id);
+      const winnerHand = winners[0] && getHandHolder(gameState, winners[0].id)?.hand;
+      if (scoringMode === 'single-set' && winningSides === 1 && winnerHand && checkWinCondition(winnerHand, winningHand)) {
+        return t('board.completedSet');
+      }
+      if (scoringMode === 'multi-set' && score && score.sets >= setsToWin) {
+        return t('board.completedSets', { count: score.sets });
+      }
+      if (getDeckCount(gameState) === 0 && gameState.settings.deckExhaustionPolicy === 'most-types') {
+        return t('board.mostTypes');
+      }
+      return t('board.highestScore');
+    };
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50 flex items-center justify-center p-4 relative overflow-hidden">
         {/* Celebration background */}
@@ -318,27 +434,75 @@ export function GameBoard({
             transition={{ delay: 0.3 }}
           >
             <h2 id="game-over-title" className="text-xl md:text-2xl lg:text-4xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3 md:mb-4">
-              Congratulations!
+              {winningSides > 1 ? t('board.tie') : winningSides === 1 ? t('board.congratulations') : t('board.gameOver')}
             </h2>
-            <p id="game-over-description" className="text-base md:text-lg lg:text-2xl text-gray-700 mb-6 md:mb-8">
-              <strong>{winner?.name}</strong> completed all 5 P's!
+            <p id="game-over-description" className="text-base md:text-lg lg:text-2xl text-gray-700 mb-4 md:mb-6">
+              {winners.length === 0 ? (
+                <>{t('board.noWinner')}</>
+              ) : (
+                <><strong>{winnerNames}</strong> {winReason()}</>
+              )}
             </p>
           </motion.div>
 
-          <motion.button
-            onClick={onNewGame}
-            className="flex items-center space-x-2 md:space-x-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-4 md:px-6 lg:px-8 py-2 md:py-3 lg:py-4 rounded-xl md:rounded-2xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 font-semibold text-sm md:text-base lg:text-lg mx-auto shadow-xl hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+          {/* Leaderboard */}
+          <motion.div
             initial={{ y: 20, opacity: 0 }}
             animate={{ y: 0, opacity: 1 }}
-            transition={{ delay: 0.6 }}
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            aria-label="Start a new game"
+            transition={{ delay: 0.45 }}
+            className="mb-6 md:mb-8 text-left"
           >
-            <RotateCcw size={16} className="md:w-5 md:h-5" />
-            <span>Play Again</span>
-            <Trophy size={16} className="md:w-5 md:h-5" />
-          </motion.button>
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">{t('board.leaderboard')}</h3>
+            <ol className="space-y-2" aria-label={t('board.leaderboard')}>
+              {leaderboard.map(({ player, score, rank }) => {
+                const isWinner = gameState.winners.includes(player.id);
+                return (
+                  <li
+                    key={player.id}
+                    className={`flex items-center justify-between px-4 py-2 rounded-xl ${
+                      isWinner ? 'bg-gradient-to-r from-yellow-100 to-orange-100 border border-yellow-300' : 'bg-gray-50 border border-gray-200'
+                    }`}
+                  >
+                    <span className="flex items-center space-x-3">
+                      <span className="w-6 text-center font-bold text-gray-500">{rank}</span>
+                      <span className={`font-semibold ${player.id === currentPlayer.id ? 'text-indigo-700' : 'text-gray-800'}`}>
+                        {player.name}
+                      </span>
+                      {gameState.settings.teamMode && player.teamId && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${TEAM_COLORS[player.teamId]}`}>
+                          {t(`team.${player.teamId}` as const)}
+                        </span>
+                      )}
+                      {isWinner && <Trophy size={16} className="text-yellow-500" aria-hidden="true" />}
+                    </span>
+                    <span className="flex items-center space-x-3 text-sm text-gray-600">
+                      <span>{t('board.points', { count: score.points })}</span>
+                      <span>{t('board.sets', { count: score.sets })}</span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </motion.div>
+
+          {canRunSession ? (
+            <motion.button
+              onClick={onNewGame}
+              className="flex items-center space-x-2 md:space-x-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-4 md:px-6 lg:px-8 py-2 md:py-3 lg:py-4 rounded-xl md:rounded-2xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 font-semibold text-sm md:text-base lg:text-lg mx-auto shadow-xl hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ delay: 0.6 }}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              aria-label={t('board.startNewGame')}
+            >
+              <RotateCcw size={16} className="md:w-5 md:h-5" />
+              <span>{t('board.playAgain')}</span>
+              <Trophy size={16} className="md:w-5 md:h-5" />
+            </motion.button>
+          ) : (
+            <p className="text-gray-600 text-sm md:text-base">{t('lobby.waitingForHost')}</p>
+          )}
         </motion.div>
       </div>
     );
@@ -362,8 +526,10 @@ export function GameBoard({
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 z-40 bg-slate-900/80 backdrop-blur-sm border-b border-slate-700">
         <div className="flex items-center justify-between px-3 md:px-6 py-2 md:py-3">
-          <h1 className="text-white text-sm md:text-lg font-semibold">Card Game Table</h1>
+          <h1 className="text-white text-sm md:text-lg font-semibold">{t('board.title')}</h1>
           <div className="flex items-center space-x-2 md:space-x-4">
+            <LanguagePicker className="text-white bg-slate-700 hover:bg-slate-600 px-2 py-1.5 rounded-lg" />
+
             {/* Turn Timer */}
             {gameState.gamePhase === 'playing' && (
               <TurnTimer
@@ -386,8 +552,8 @@ export function GameBoard({
                     className={`p-1.5 md:p-2 rounded-lg text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
                       autoPlayEnabled ? 'bg-green-600 hover:bg-green-700' : 'bg-slate-700 hover:bg-slate-600'
                     }`}
-                    aria-label={autoPlayEnabled ? 'Disable auto TTS' : 'Enable auto TTS'}
-                    title="Toggle auto text-to-speech"
+                    aria-label={autoPlayEnabled ? t('board.disableAutoTts') : t('board.enableAutoTts')}
+                    title={t('board.toggleAutoTts')}
                   >
                     {smartTTSPlaying ? (
                       <Loader2 size={16} className="animate-spin" />
@@ -404,8 +570,8 @@ export function GameBoard({
                       className={`p-1.5 md:p-2 rounded-lg text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
                         useSummarization ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'
                       }`}
-                      aria-label={useSummarization ? 'Disable summarization' : 'Enable summarization'}
-                      title="Toggle AI summarization"
+                      aria-label={useSummarization ? t('board.disableSummarization') : t('board.enableSummarization')}
+                      title={t('board.toggleSummarization')}
                     >
                       <Sparkles size={16} />
                     </button>
@@ -413,13 +579,13 @@ export function GameBoard({
                 </div>
               )}
               
-              {gameState.currentPrompt && smartTTSAvailable && (
+              {currentPrompt && smartTTSAvailable && (
                 <button
-                  onClick={() => playSmartAudio(gameState.currentPrompt!, useSummarization)}
+                  onClick={() => playSmartAudio(spokenPrompt ?? currentPrompt, useSummarization)}
                   disabled={smartTTSLoading || smartTTSPlaying}
                   className="p-1.5 md:p-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                  aria-label="Play current prompt with TTS"
-                  title="Play current prompt"
+                  aria-label={t('board.playCurrentPrompt')}
+                  title={t('board.playCurrentPromptTitle')}
                 >
                   {smartTTSLoading || smartTTSPlaying ? (
                     <Loader2 size={16} className="animate-spin" />
@@ -433,8 +599,8 @@ export function GameBoard({
             <button
               onClick={() => setShowVideoFeeds(!showVideoFeeds)}
               className="p-1.5 md:p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-              aria-label={showVideoFeeds ? 'Hide video feeds' : 'Show video feeds'}
-              title="Toggle video feeds (V)"
+              aria-label={showVideoFeeds ? t('board.hideVideo') : t('board.showVideo')}
+              title={t('board.toggleVideo')}
             >
               {showVideoFeeds ? <Eye size={16} className="md:w-5 md:h-5" /> : <EyeOff size={16} className="md:w-5 md:h-5" />}
             </button>
@@ -442,19 +608,21 @@ export function GameBoard({
             <button
               onClick={() => setShowInstructions(!showInstructions)}
               className="p-1.5 md:p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-              aria-label={showInstructions ? 'Hide game instructions' : 'Show game instructions'}
-              title="Toggle instructions (?)"
+              aria-label={showInstructions ? t('board.hideInstructions') : t('board.showInstructions')}
+              title={t('board.toggleInstructions')}
             >
               <Info size={16} className="md:w-5 md:h-5" />
             </button>
 
-            <button
-              onClick={onNewGame}
-              className="flex items-center space-x-1 md:space-x-2 bg-slate-700 hover:bg-slate-600 text-white px-2 md:px-4 py-1.5 md:py-2 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            >
-              <RotateCcw size={14} className="md:w-4 md:h-4" />
-              <span className="text-xs md:text-sm">Reset</span>
-            </button>
+            {canRunSession && (
+              <button
+                onClick={onNewGame}
+                className="flex items-center space-x-1 md:space-x-2 bg-slate-700 hover:bg-slate-600 text-white px-2 md:px-4 py-1.5 md:py-2 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <RotateCcw size={14} className="md:w-4 md:h-4" />
+                <span className="text-xs md:text-sm">{t('board.reset')}</span>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -480,12 +648,12 @@ export function GameBoard({
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
               <div className="w-4 h-4 bg-red-500 rounded-full"></div>
-              <span className="text-red-800 text-sm">AI Features: {smartTTSError}</span>
+              <span className="text-red-800 text-sm">{t('board.aiFeaturesError', { error: smartTTSError })}</span>
             </div>
             <button
               onClick={clearError}
               className="text-red-600 hover:text-red-800 focus:outline-none"
-              aria-label="Dismiss error"
+              aria-label={t('board.dismissError')}
             >
               ×
             </button>
@@ -507,35 +675,35 @@ export function GameBoard({
             <div className="flex items-center justify-between mb-3 md:mb-4">
               <h3 id="instructions-title" className="text-sm md:text-lg font-semibold text-blue-800 flex items-center space-x-2">
                 <Info size={16} className="md:w-5 md:h-5" />
-                <span>Game Instructions & Keyboard Shortcuts</span>
+                <span>{t('board.instructionsTitle')}</span>
               </h3>
               <button
                 onClick={() => setShowInstructions(false)}
                 className="text-blue-600 hover:text-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded p-1"
-                aria-label="Close instructions"
+                aria-label={t('board.closeInstructions')}
               >
                 ×
               </button>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4 text-xs md:text-sm text-blue-700">
               <div>
-                <h4 className="font-semibold mb-2">How to Play:</h4>
+                <h4 className="font-semibold mb-2">{t('board.howToPlay')}</h4>
                 <ul className="space-y-1">
-                  <li>• Goal: Collect all 5 P's (Purpose, Problems, Prognosis, Plan, Perform)</li>
-                  <li>• On your turn: Play a card and discuss the prompt (30 seconds)</li>
-                  <li>• After discussion: Draw a new card</li>
-                  <li>• First to collect all 5 P's wins!</li>
+                  <li>• {t('board.ruleGoal')}</li>
+                  <li>• {t('board.ruleTurn')}</li>
+                  <li>• {t('board.ruleDraw')}</li>
+                  <li>• {t('board.ruleWin')}</li>
                 </ul>
               </div>
               <div>
-                <h4 className="font-semibold mb-2">Features & Shortcuts:</h4>
+                <h4 className="font-semibold mb-2">{t('board.featuresAndShortcuts')}</h4>
                 <ul className="space-y-1">
-                  <li>• <kbd className="bg-blue-100 px-1 rounded">V</kbd> - Toggle video feeds</li>
-                  <li>• <kbd className="bg-blue-100 px-1 rounded">?</kbd> - Show this help</li>
-                  <li>• <kbd className="bg-blue-100 px-1 rounded">Enter</kbd> - Play selected card</li>
-                  <li>• <kbd className="bg-blue-100 px-1 rounded">Esc</kbd> - Cancel selection</li>
-                  <li>• 30-second turn timer with auto-advance</li>
-                  <li>• AI TTS reads prompts aloud automatically</li>
+                  <li>• <kbd className="bg-blue-100 px-1 rounded">V</kbd> - {t('board.shortcutVideo')}</li>
+                  <li>• <kbd className="bg-blue-100 px-1 rounded">?</kbd> - {t('board.shortcutHelp')}</li>
+                  <li>• <kbd className="bg-blue-100 px-1 rounded">Enter</kbd> - {t('board.shortcutPlay')}</li>
+                  <li>• <kbd className="bg-blue-100 px-1 rounded">Esc</kbd> - {t('board.shortcutCancel')}</li>
+                  <li>• {t('board.featureTimer')}</li>
+                  <li>• {t('board.featureTts')}</li>
                 </ul>
               </div>
             </div>
@@ -549,9 +717,11 @@ export function GameBoard({
           {/* Opponent Players positioned around the table */}
           {arrangedPlayers.map((item, index) => {
             const { player, position, positionMobile } = item;
-            const isActivePlayer = player.id === activePlayer?.id;
+            const isActivePlayer = !!activePlayer && onSameTeam(gameState, player.id, activePlayer.id);
             const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
             const currentPosition = isMobile ? positionMobile : position;
+            // Only a count is sent for hands this viewer may not see
+            const cardCount = player.handCount ?? player.hand.length;
             
             return (
               <motion.div
@@ -576,15 +746,30 @@ export function GameBoard({
                         playerName={player.name}
                         isLocal={false}
                         isCurrentPlayer={isActivePlayer}
+                        isPromptTarget={player.id === gameState.promptTargetPlayerId}
                         isHost={player.isHost}
+                        audioForceMuted={player.audioForceMuted}
+                        videoForceMuted={player.videoForceMuted}
                         className="w-full h-full rounded-md md:rounded-lg border border-slate-600 shadow-lg"
                       />
                     </div>
                   )}
+
+                  {gameState.settings.teamMode && player.teamId && (
+                    <span className={`px-1.5 py-0.5 rounded-full text-[10px] md:text-xs font-semibold ${TEAM_COLORS[player.teamId]}`}>
+                      {t(`team.${player.teamId}` as const)}
+                    </span>
+                  )}
+
+                  {player.role === 'facilitator' && (
+                    <span className="px-1.5 py-0.5 rounded-full text-[10px] md:text-xs font-semibold bg-emerald-600 text-white">
+                      {t('facilitator.badge')}
+                    </span>
+                  )}
                   
                   {/* Player Cards */}
                   <div className="flex space-x-0.5 md:space-x-1">
-                    {Array.from({ length: Math.min(player.hand.length, 3) }, (_, cardIndex) => (
+                    {Array.from({ length: Math.min(cardCount, 3) }, (_, cardIndex) => (
                       <div
                         key={cardIndex}
                         className="w-4 h-6 md:w-8 md:h-12 bg-purple-600 rounded border border-purple-500 flex items-center justify-center shadow-sm"
@@ -592,9 +777,9 @@ export function GameBoard({
                         <Layers size={8} className="md:w-3 md:h-3 text-purple-200" />
                       </div>
                     ))}
-                    {player.hand.length > 3 && (
+                    {cardCount > 3 && (
                       <div className="w-4 h-6 md:w-8 md:h-12 bg-slate-600 rounded border border-slate-500 flex items-center justify-center">
-                        <span className="text-slate-200 text-xs font-bold">+{player.hand.length - 3}</span>
+                        <span className="text-slate-200 text-xs font-bold">+{cardCount - 3}</span>
                       </div>
                     )}
                   </div>
@@ -608,8 +793,8 @@ export function GameBoard({
             <div className="flex items-center space-x-4 md:space-x-8">
               {/* Last Played Card */}
               <div className="text-center">
-                <div className="text-slate-300 text-xs md:text-sm font-medium mb-1 md:mb-2">Last Played</div>
-                {gameState.discardPile.length > 0 ? (
+                <div className="text-slate-300 text-xs md:text-sm font-medium mb-1 md:mb-2">{t('board.lastPlayed')}</div>
+                {lastPlayedCard ? (
                   <motion.div
                     initial={{ scale: 0, rotate: -10 }}
                     animate={{ scale: 1, rotate: 0 }}
@@ -617,33 +802,42 @@ export function GameBoard({
                     className="w-12 h-18 md:w-20 md:h-28 lg:w-24 lg:h-36"
                   >
                     <GameCard 
-                      card={gameState.discardPile[gameState.discardPile.length - 1]} 
+                      card={localizeCard(lastPlayedCard)}
                       className="w-full h-full shadow-xl"
                     />
                   </motion.div>
                 ) : (
                   <div className="w-12 h-18 md:w-20 md:h-28 lg:w-24 lg:h-36 border-2 border-dashed border-slate-600 rounded-xl flex flex-col items-center justify-center bg-slate-700/50">
                     <div className="text-slate-400 text-sm md:text-lg mb-1">📭</div>
-                    <span className="text-slate-400 text-xs">Empty</span>
+                    <span className="text-slate-400 text-xs">{t('board.empty')}</span>
                   </div>
                 )}
+                {discardDraw && (
+                  <button
+                    onClick={handleDrawFromDiscard}
+                    className="mt-1 md:mt-2 w-full bg-cyan-600 hover:bg-cyan-700 text-white text-xs font-semibold rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                    title={t('board.takeDiscardHint', { prompt: localizeCard(discardDraw).prompt })}
+                  >
+                    {t('board.takeDiscard', { type: typeLabel(discardDraw) })}
+                  </button>
+                )}
               </div>
 
               {/* Draw Pile */}
               <div className="text-center">
-                <div className="text-slate-300 text-xs md:text-sm font-medium mb-1 md:mb-2">Draw Pile ({gameState.deck.length})</div>
+                <div className="text-slate-300 text-xs md:text-sm font-medium mb-1 md:mb-2">{t('board.drawPile', { count: getDeckCount(gameState) })}</div>
                 <motion.button
                   className={`relative w-12 h-18 md:w-20 md:h-28 lg:w-24 lg:h-36 bg-gradient-to-br from-purple-600 via-purple-700 to-purple-800 rounded-xl shadow-xl flex flex-col items-center justify-center transition-all duration-300 ${
-                    isCurrentPlayerTurn && gameState.hasPlayedCard ? 'cursor-pointer hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-purple-500/50' : 'cursor-not-allowed opacity-60'
+                    isCurrentPlayerTurn && canDraw ? 'cursor-pointer hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-purple-500/50' : 'cursor-not-allowed opacity-60'
                   }`}
-                  whileHover={isCurrentPlayerTurn && gameState.hasPlayedCard ? { 
+                  whileHover={isCurrentPlayerTurn && canDraw ? { 
                     scale: 1.05, 
                     rotate: 2,
                   } : {}}
-                  whileTap={isCurrentPlayerTurn && gameState.hasPlayedCard ? { scale: 0.95 } : {}}
-                  onClick={isCurrentPlayerTurn && gameState.hasPlayedCard ? handleDrawCard : undefined}
-                  disabled={!isCurrentPlayerTurn || gameState.deck.length === 0 || !gameState.hasPlayedCard}
-                  animate={isCurrentPlayerTurn && gameState.hasPlayedCard ? { 
+                  whileTap={isCurrentPlayerTurn && canDraw ? { scale: 0.95 } : {}}
+                  onClick={isCurrentPlayerTurn && canDraw ? handleDrawCard : undefined}
+                  disabled={!isCurrentPlayerTurn || !canDraw}
+                  animate={isCurrentPlayerTurn && canDraw ? { 
                     boxShadow: [
                       "0 10px 25px rgba(147, 51, 234, 0.3)",
                       "0 15px 35px rgba(147, 51, 234, 0.5)",
@@ -659,24 +853,24 @@ export function GameBoard({
                   {/* Main card */}
                   <div className="relative z-10 text-center">
                     <Layers className="text-purple-200 mx-auto mb-1" size={12} />
-                    <div className="text-purple-100 font-bold text-xs md:text-sm">{gameState.deck.length}</div>
-                    <div className="text-purple-200 text-xs">cards</div>
+                    <div className="text-purple-100 font-bold text-xs md:text-sm">{getDeckCount(gameState)}</div>
+                    <div className="text-purple-200 text-xs">{t('board.cards')}</div>
                     
-                    {isCurrentPlayerTurn && gameState.hasPlayedCard && (
+                    {isCurrentPlayerTurn && canDraw && (
                       <motion.div
                         className="flex items-center justify-center space-x-1 text-purple-200 text-xs mt-1"
                         animate={{ opacity: [0.7, 1, 0.7] }}
                         transition={{ duration: 1.5, repeat: Infinity }}
                       >
                         <Play size={6} className="md:w-2 md:h-2" />
-                        <span className="hidden md:inline">Draw</span>
+                        <span className="hidden md:inline">{t('board.draw')}</span>
                       </motion.div>
                     )}
 
-                    {isCurrentPlayerTurn && !gameState.hasPlayedCard && (
+                    {isCurrentPlayerTurn && !canDraw && (
                       <div className="flex items-center justify-center space-x-1 text-red-300 text-xs mt-1">
                         <AlertCircle size={6} className="md:w-2 md:h-2" />
-                        <span className="hidden md:inline">Play first</span>
+                        <span className="hidden md:inline">{t('board.playFirst')}</span>
                       </div>
                     )}
                   </div>
@@ -692,23 +886,83 @@ export function GameBoard({
 
       {/* Current Player Video Feed - Positioned at bottom */}
       <div className="fixed bottom-56 md:bottom-80 left-1/2 transform -translate-x-1/2 z-20">
-        {showVideoFeeds && (
+        {showVideoFeeds && !isSpectator && (
           <div className="w-20 h-16 md:w-32 md:h-24 lg:w-40 lg:h-30">
             <VideoFeed
               stream={localStream}
-              playerName={currentPlayerData?.name || 'You'}
+              playerName={currentPlayerData?.name || t('board.you')}
               isLocal={true}
               isCurrentPlayer={isCurrentPlayerTurn}
+              isPromptTarget={currentPlayer.id === gameState.promptTargetPlayerId}
               isHost={currentPlayerData?.isHost || false}
+              audioForceMuted={currentPlayerData?.audioForceMuted}
+              videoForceMuted={currentPlayerData?.videoForceMuted}
               className="w-full h-full rounded-lg border-4 border-yellow-400 shadow-xl"
             />
           </div>
         )}
+        {gameState.settings.teamMode && currentPlayerData?.teamId && (
+          <div className="flex justify-center mt-1">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${TEAM_COLORS[currentPlayerData.teamId]}`}>
+              {t(`team.${currentPlayerData.teamId}` as const)}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Current Player's Hand - Fixed Bottom Panel */}
       <div className="fixed bottom-0 left-0 right-0 z-30 bg-slate-900/95 backdrop-blur-lg border-t border-slate-700">
         <div className="p-2 md:p-4">
+          {isPaused && (
+            <div
+              className="flex items-center justify-center space-x-2 bg-amber-500/20 border border-amber-500/40 text-amber-100 text-sm font-semibold rounded-xl p-2 mb-2 md:mb-3"
+              role="status"
+            >
+              <Pause size={16} />
+              <span>{t('board.paused')}</span>
+            </div>
+          )}
+
+          {/* Session controls for the host and facilitators */}
+          {canRunSession && (
+            <FacilitatorPanel
+              gameState={gameState}
+              currentPlayerId={currentPlayer.id}
+              onPauseGame={onPauseGame}
+              onResumeGame={onResumeGame}
+              onSkipTurn={onSkipTurn}
+              onExtendTurn={onExtendTurn}
+              onKickPlayer={onKickPlayer}
+              onMutePlayer={onMutePlayer}
+              onRevealPrompt={onRevealPrompt}
+            />
+          )}
+
+          {/* Peer voting on the answer just given */}
+          <VotingPanel
+            gameState={gameState}
+            currentPlayerId={currentPlayer.id}
+            awaitingRating={awaitingRating}
+            onEndAnswer={onEndAnswer}
+            onCastVote={onCastVote}
+          />
+
+          {/* Quick reactions from players and spectators alike */}
+          <ReactionBar
+            reactions={gameState.reactions}
+            people={[...gameState.players, ...gameState.spectators]}
+            onSendReaction={onSendReaction}
+          />
+
+          {/* Card trades between the active player and one other */}
+          <TradePanel
+            gameState={gameState}
+            currentPlayerId={currentPlayer.id}
+            onProposeTrade={onProposeTrade}
+            onRespondTrade={onRespondTrade}
+            onCancelTrade={onCancelTrade}
+          />
+
           {/* Turn Status Indicator */}
           {gameState.gamePhase === 'playing' && (
             <div className="mb-2 md:mb-3">
@@ -723,10 +977,10 @@ export function GameBoard({
                   >
                     <Zap className="text-green-400" size={16} />
                     <span className="text-green-300 font-semibold text-sm">
-                      {gameState.hasPlayedCard ? 'Ready to draw!' : 'Play a card to continue'}
+                      {canDraw ? t('board.readyToDraw') : t('board.playToContinue')}
                     </span>
-                    {gameState.hasPlayedCard && <CheckCircle2 className="text-green-400" size={16} />}
-                    {!gameState.hasPlayedCard && <AlertCircle className="text-yellow-400" size={16} />}
+                    {canDraw && <CheckCircle2 className="text-green-400" size={16} />}
+                    {!canDraw && <AlertCircle className="text-yellow-400" size={16} />}
                   </motion.div>
                 ) : (
                   <motion.div
@@ -738,17 +992,30 @@ export function GameBoard({
                   >
                     <Clock className="text-blue-400" size={16} />
                     <span className="text-blue-300 font-semibold text-sm">
-                      Waiting for {activePlayer?.name}'s turn
+                      {t('board.waitingForTurn', { name: activePlayer?.name ?? '' })}
                     </span>
                   </motion.div>
                 )}
               </AnimatePresence>
+
+              {(gameState.promptTargetPlayerId || gameState.turnDirection === -1) && (
+                <div className="flex flex-wrap items-center justify-center gap-2 mt-1 text-xs text-slate-300">
+                  {gameState.promptTargetPlayerId && (
+                    <span className="bg-slate-700 rounded-full px-2 py-0.5">
+                      🙋 {t('board.answeredBy', { name: promptTargetName ?? '' })}
+                    </span>
+                  )}
+                  {gameState.turnDirection === -1 && (
+                    <span className="bg-slate-700 rounded-full px-2 py-0.5">🔄 {t('board.reversed')}</span>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
           {/* Conversation Prompt */}
           <AnimatePresence>
-            {gameState.currentPrompt && (
+            {currentPrompt && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -759,13 +1026,13 @@ export function GameBoard({
                   <div className="w-4 h-4 md:w-6 md:h-6 bg-gradient-to-br from-yellow-400 to-orange-400 rounded-lg flex items-center justify-center">
                     💭
                   </div>
-                  <h3 className="text-xs md:text-sm font-bold text-yellow-800">Conversation Starter</h3>
+                  <h3 className="text-xs md:text-sm font-bold text-yellow-800">{t('board.conversationStarter')}</h3>
                   {smartTTSAvailable && (
                     <button
-                      onClick={() => playSmartAudio(gameState.currentPrompt!, useSummarization)}
+                      onClick={() => playSmartAudio(spokenPrompt ?? currentPrompt, useSummarization)}
                       disabled={smartTTSLoading || smartTTSPlaying}
                       className="p-1 bg-yellow-200 hover:bg-yellow-300 disabled:opacity-50 rounded text-yellow-800 transition-colors"
-                      aria-label="Play prompt with TTS"
+                      aria-label={t('board.playPrompt')}
                     >
                       {smartTTSLoading || smartTTSPlaying ? (
                         <Loader2 size={12} className="animate-spin" />
@@ -775,10 +1042,10 @@ export function GameBoard({
                     </button>
                   )}
                 </div>
-                <p className="text-yellow-700 text-xs md:text-sm leading-relaxed">{gameState.currentPrompt}</p>
-                {lastSummary && lastSummary !== gameState.currentPrompt && (
+                <p className="text-yellow-700 text-xs md:text-sm leading-relaxed">{currentPrompt}</p>
+                {lastSummary && lastSummary !== currentPrompt && (
                   <div className="mt-2 pt-2 border-t border-yellow-200">
-                    <p className="text-yellow-600 text-xs italic">AI Summary: {lastSummary}</p>
+                    <p className="text-yellow-600 text-xs italic">{t('board.aiSummary', { summary: lastSummary })}</p>
                   </div>
                 )}
               </motion.div>
@@ -788,7 +1055,7 @@ export function GameBoard({
           {/* Hand Header */}
           <div className="flex items-center justify-center mb-2 md:mb-3">
             <h3 className="text-white text-sm md:text-lg font-bold flex items-center space-x-2">
-              <span>Your Hand ({currentPlayerData?.hand.length || 0} cards)</span>
+              <span>{handHolder ? t('board.yourHand', { count: hand?.length || 0 }) : isSpectator ? t('spectator.watching') : t('facilitator.noHand')}</span>
               {isCurrentPlayerTurn && (
                 <motion.div 
                   className="flex items-center space-x-1 text-yellow-400"
@@ -796,7 +1063,7 @@ export function GameBoard({
                   transition={{ duration: 2, repeat: Infinity }}
                 >
                   <Zap size={12} className="md:w-4 md:h-4" />
-                  <span className="font-semibold text-xs md:text-sm">Your Turn</span>
+                  <span className="font-semibold text-xs md:text-sm">{t('board.yourTurn')}</span>
                 </motion.div>
               )}
             </h3>
@@ -805,7 +1072,7 @@ export function GameBoard({
           {/* Cards - Responsive Grid Layout */}
           <div className="flex justify-center">
             <div className="grid grid-cols-5 md:flex md:justify-center gap-1 md:gap-3 w-full max-w-full">
-              {currentPlayerData?.hand.map((card, index) => (
+              {hand?.map((card, index) => (
                 <motion.div
                   key={card.id}
                   initial={{ opacity: 0, y: 20, rotate: -10 }}
@@ -830,7 +1097,7 @@ export function GameBoard({
                     }`}
                     tabIndex={isCurrentPlayerTurn ? 0 : -1}
                     role="button"
-                    aria-label={`${card.type} card: ${card.prompt.substring(0, 50)}...`}
+                    aria-label={t('board.cardLabel', { type: typeLabel(card), prompt: card.prompt.substring(0, 50) })}
                     onKeyDown={(e) => {
                       if (e.key === 'Enter' || e.key === ' ') {
                         e.preventDefault();
@@ -841,7 +1108,7 @@ export function GameBoard({
                 </motion.div>
               )) || (
                 <div className="text-slate-400 text-center py-4 md:py-8 w-full col-span-5">
-                  No cards in hand
+                  {t('board.noCards')}
                 </div>
               )}
             </div>
@@ -859,26 +1126,44 @@ export function GameBoard({
                 <div className="text-center space-y-2 md:space-y-3">
                   <h4 className="text-sm md:text-lg font-semibold text-gray-800 flex items-center justify-center space-x-2">
                     <Sparkles className="text-indigo-600" size={16} />
-                    <span>Selected Card</span>
+                    <span>{t('board.selectedCard')}</span>
                   </h4>
                   <p className="text-gray-700 text-xs md:text-sm leading-relaxed max-w-2xl mx-auto">
-                    <strong className="text-indigo-600">{selectedCard.type}:</strong> {selectedCard.prompt}
+                    <strong className="text-indigo-600">{typeLabel(selectedCard)}:</strong> {selectedCard.prompt}
                   </p>
+                  {selectedCard.type === 'Wild' && (
+                    <p className="text-amber-700 text-xs">{t('board.wildHint')}</p>
+                  )}
+                  {canTarget && (
+                    <label className="flex items-center justify-center space-x-2 text-xs md:text-sm text-gray-700">
+                      <span>{t('board.askWho')}</span>
+                      <select
+                        value={targetPlayerId}
+                        onChange={(e) => setTargetPlayerId(e.target.value)}
+                        className="bg-white border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="">{selectedCard.type === 'AskAnyone' ? t('board.choosePlayer') : t('board.answerMyself')}</option>
+                        {gameState.players.filter(p => !onSameTeam(gameState, p.id, currentPlayer.id)).map(player => (
+                          <option key={player.id} value={player.id}>{player.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
                   <div className="flex justify-center space-x-2 md:space-x-4">
                     <button
                       onClick={() => setSelectedCard(null)}
                       className="px-3 md:px-4 py-1.5 md:py-2 text-gray-600 hover:text-gray-800 transition-colors font-medium rounded-lg border border-gray-200 hover:bg-gray-50 text-xs md:text-sm"
                     >
-                      Cancel
+                      {t('board.cancel')}
                     </button>
                     <motion.button
                       onClick={confirmCardPlay}
-                      disabled={isPlayingCard}
+                      disabled={isPlayingCard || !canConfirmPlay}
                       className="flex items-center space-x-1 md:space-x-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-3 md:px-4 py-1.5 md:py-2 rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 font-semibold shadow-lg hover:shadow-xl disabled:opacity-50 text-xs md:text-sm"
                       whileHover={{ scale: 1.02 }}
                       whileTap={{ scale: 0.98 }}
                     >
-                      <span>{isPlayingCard ? 'Playing...' : 'Play Card'}</span>
+                      <span>{isPlayingCard ? t('board.playing') : t('board.playCard')}</span>
                       <ArrowRight size={12} className="md:w-4 md:h-4" />
                     </motion.button>
                   </div>
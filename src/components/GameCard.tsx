@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Card } from '../types/game';
+import { useLocale } from './LocaleProvider';
 
 interface GameCardProps {
   card: Card;
@@ -25,6 +26,10 @@ export function GameCard({
   role,
   onKeyDown
 }: GameCardProps) {
+  const { t } = useLocale();
+  const typeLabel = t(`cardType.${card.type}` as const);
+  const typeDescription = t(`cardTypeDescription.${card.type}` as const);
+
   const cardVariants = {
     hand: {
       scale: 1,
@@ -46,7 +51,11 @@ export function GameCard({
       Problems: 'from-red-500 via-red-600 to-pink-600',
       Prognosis: 'from-cyan-500 via-blue-500 to-indigo-500',
       Plan: 'from-emerald-500 via-green-500 to-teal-600',
-      Perform: 'from-yellow-500 via-orange-500 to-red-500'
+      Perform: 'from-yellow-500 via-orange-500 to-red-500',
+      Wild: 'from-pink-500 via-purple-500 to-cyan-500',
+      Skip: 'from-slate-500 via-slate-600 to-slate-700',
+      Reverse: 'from-slate-500 via-slate-600 to-slate-700',
+      AskAnyone: 'from-slate-500 via-slate-600 to-slate-700'
     };
     return gradients[type as keyof typeof gradients] || 'from-gray-500 to-gray-600';
   };
@@ -57,22 +66,15 @@ export function GameCard({
       Problems: '⚡',
       Prognosis: '🔮',
       Plan: '📋',
-      Perform: '🚀'
+      Perform: '🚀',
+      Wild: '🃏',
+      Skip: '⏭️',
+      Reverse: '🔄',
+      AskAnyone: '🙋'
     };
     return icons[type as keyof typeof icons] || '❓';
   };
 
-  const getTypeDescription = (type: string) => {
-    const descriptions = {
-      Purpose: 'Purpose - Your why and motivation',
-      Problems: 'Problems - Challenges and obstacles',
-      Prognosis: 'Prognosis - Future outlook and predictions',
-      Plan: 'Plan - Strategy and next steps',
-      Perform: 'Perform - Actions and achievements'
-    };
-    return descriptions[type as keyof typeof descriptions] || type;
-  };
-
   return (
     <motion.div
       className={`relative cursor-pointer select-none ${className}`}
@@ -87,7 +89,7 @@ export function GameCard({
       tabIndex={tabIndex}
       role={role}
       style={{ perspective: '1000px' }}
-      aria-label={`${getTypeDescription(card.type)}: ${card.prompt}`}
+      aria-label={`${typeDescription}: ${card.prompt}`}
     >
       <div className={`w-full h-full rounded-lg md:rounded-2xl shadow-lg md:shadow-2xl border border-white/50 md:border-2 flex flex-col overflow-hidden bg-gradient-to-br ${getCardGradient(card.type)} relative transform-gpu`}>
         {/* Card shine effect */}
@@ -102,9 +104,9 @@ export function GameCard({
         {/* Header */}
         <div className="p-1 md:p-3 flex items-center justify-between relative z-10">
           <div className="text-white text-xs font-bold bg-black/20 backdrop-blur-sm px-1 md:px-2 py-0.5 md:py-1 rounded-full border border-white/20">
-            {card.type}
+            {typeLabel}
           </div>
-          <div className="text-sm md:text-2xl drop-shadow-lg" role="img" aria-label={getTypeDescription(card.type)}>
+          <div className="text-sm md:text-2xl drop-shadow-lg" role="img" aria-label={typeDescription}>
             {getTypeIcon(card.type)}
           </div>
         </div>
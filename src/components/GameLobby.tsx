@@ -1,12 +1,21 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Copy, Users, Play, Mic, MicOff, Video, VideoOff, Crown, Wifi, WifiOff, CheckCircle } from 'lucide-react';
-import { Player } from '../types/game';
+import { Copy, Users, Play, Mic, MicOff, Video, VideoOff, Crown, Wifi, WifiOff, CheckCircle, Hourglass, Eye, ShieldCheck } from 'lucide-react';
+import { Player, PlayerRole, CardPack, GameSettings, RoomAccess, TeamId } from '../types/game';
 import { VideoFeed } from './VideoFeed';
+import { CardPackPicker } from './CardPackPicker';
+import { GameSettingsPanel } from './GameSettingsPanel';
+import { TeamPanel } from './TeamPanel';
+import { RoomAccessPanel } from './RoomAccessPanel';
+import { ModerationButtons } from './ModerationButtons';
+import { LanguagePicker } from './LanguagePicker';
+import { useLocale } from './LocaleProvider';
+import { canModerate } from '../lib/gameRules';
 
 interface GameLobbyProps {
   gameId: string;
   players: Player[];
+  spectators: Player[];
   currentPlayer: Player;
   localStream: MediaStream | null;
   remoteStreams: Map<string, MediaStream>;
@@ -15,11 +24,25 @@ interface GameLobbyProps {
   onToggleAudio: () => void;
   onToggleVideo: () => void;
   onStartGame: () => void;
+  cardPacks: CardPack[];
+  onSelectCardPacks: (packs: CardPack[]) => void;
+  settings: GameSettings;
+  onUpdateSettings: (changes: Partial<GameSettings>) => void;
+  onSetTeam: (targetPlayerId: string, teamId?: TeamId) => void;
+  onSetRole: (targetPlayerId: string, role: PlayerRole) => void;
+  onKickPlayer: (targetPlayerId: string, ban?: boolean) => void;
+  onMutePlayer: (targetPlayerId: string, audio?: boolean, video?: boolean) => void;
+  access: RoomAccess;
+  joinRequests: Player[];
+  onSetRoomAccess: (passcode?: string, requireApproval?: boolean, requireAccount?: boolean) => void;
+  onCreateInvite: () => Promise<string | undefined>;
+  onRespondJoinRequest: (requestPlayerId: string, accept: boolean) => void;
 }
 
 export function GameLobby({
   gameId,
   players,
+  spectators,
   currentPlayer,
   localStream,
   remoteStreams,
@@ -27,10 +50,29 @@ export function GameLobby({
   videoEnabled,
   onToggleAudio,
   onToggleVideo,
-  onStartGame
+  onStartGame,
+  cardPacks,
+  onSelectCardPacks,
+  settings,
+  onUpdateSettings,
+  onSetTeam,
+  onSetRole,
+  onKickPlayer,
+  onMutePlayer,
+  access,
+  joinRequests,
+  onSetRoomAccess,
+  onCreateInvite,
+  onRespondJoinRequest
 }: GameLobbyProps) {
+  const { t } = useLocale();
   const [copied, setCopied] = React.useState(false);
 
+  // Facilitators run the lobby alongside the host
+  const canRunSession = canModerate(currentPlayer);
+  const seat = players.find(player => player.id === currentPlayer.id);
+  const isSpectator = spectators.some(spectator => spectator.id === currentPlayer.id);
+
   const copyGameCode = async () => {
     try {
       await navigator.clipboard.writeText(gameId);
@@ -64,6 +106,25 @@ export function GameLobby({
     visible: { opacity: 1, y: 0 }
   };
 
+  // Rooms that need approval keep joiners here until someone lets them in
+  if (!seat && joinRequests.some(request => request.id === currentPlayer.id)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50 flex items-center justify-center p-6">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="bg-white/80 backdrop-blur-lg rounded-3xl shadow-2xl border border-white/20 p-8 max-w-md text-center"
+          role="status"
+        >
+          <Hourglass className="text-indigo-600 mx-auto mb-4" size={40} />
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">{t('lobby.awaitingApproval')}</h1>
+          <p className="text-gray-600">{t('lobby.awaitingApprovalHint')}</p>
+          <code className="inline-block mt-4 font-mono text-lg font-bold text-gray-800 tracking-wider">{gameId}</code>
+        </motion.div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50 relative overflow-hidden">
       {/* Background decorative elements */}
@@ -73,6 +134,10 @@ export function GameLobby({
       </div>
 
       <div className="relative z-10 max-w-7xl mx-auto p-6">
+        <div className="flex justify-end mb-2">
+          <LanguagePicker className="bg-white/70 backdrop-blur-sm px-3 py-2 rounded-xl text-gray-700 shadow-sm" />
+        </div>
+
         <motion.div
           variants={containerVariants}
           initial="hidden"
@@ -84,11 +149,11 @@ export function GameLobby({
               <Users className="text-white" size={24} />
             </div>
             <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
-              Game Lobby
+              {t('lobby.title')}
             </h1>
           </motion.div>
           <motion.p variants={itemVariants} className="text-gray-600 text-lg">
-            Get ready for meaningful conversations
+            {t('lobby.subtitle')}
           </motion.p>
         </motion.div>
 
@@ -102,18 +167,25 @@ export function GameLobby({
               <div className="flex items-center space-x-3">
                 <div className="flex items-center space-x-2 bg-gradient-to-r from-emerald-100 to-teal-100 px-4 py-2 rounded-full">
                   <Users className="text-emerald-600" size={20} />
-                  <span className="text-emerald-800 font-semibold">{players.length}/8 Players</span>
+                  <span className="text-emerald-800 font-semibold">{t('lobby.playerCount', { count: players.length, max: settings.maxPlayers })}</span>
                 </div>
               </div>
               
               <div className="flex items-center space-x-2 bg-gradient-to-r from-indigo-100 to-purple-100 px-4 py-2 rounded-full">
                 <Wifi className="text-indigo-600" size={16} />
-                <span className="text-indigo-800 text-sm font-medium">Connected</span>
+                <span className="text-indigo-800 text-sm font-medium">{t('lobby.connected')}</span>
               </div>
+
+              {spectators.length > 0 && (
+                <div className="flex items-center space-x-2 bg-gradient-to-r from-gray-100 to-gray-200 px-4 py-2 rounded-full">
+                  <Eye className="text-gray-600" size={16} />
+                  <span className="text-gray-700 text-sm font-medium">{t('spectator.count', { count: spectators.length })}</span>
+                </div>
+              )}
             </div>
             
             <div className="flex items-center space-x-3">
-              <span className="text-gray-600 font-medium">Room Code:</span>
+              <span className="text-gray-600 font-medium">{t('lobby.roomCode')}</span>
               <motion.div 
                 className="flex items-center space-x-2 bg-gradient-to-r from-gray-100 to-gray-200 px-4 py-2 rounded-xl"
                 whileHover={{ scale: 1.02 }}
@@ -124,7 +196,7 @@ export function GameLobby({
                   className="p-2 hover:bg-white/50 rounded-lg transition-all duration-200"
                   whileHover={{ scale: 1.1 }}
                   whileTap={{ scale: 0.9 }}
-                  title="Copy room code"
+                  title={t('lobby.copyRoomCode')}
                 >
                   <AnimatePresence mode="wait">
                     {copied ? (
@@ -154,21 +226,25 @@ export function GameLobby({
 
           {/* Video Grid */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
-            <motion.div
-              initial={{ scale: 0.8, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              transition={{ delay: 0.2 }}
-            >
-              <VideoFeed
-                stream={localStream}
-                playerName={currentPlayer.name}
-                isLocal={true}
-                audioEnabled={audioEnabled}
-                videoEnabled={videoEnabled}
-                className="aspect-video relative"
-                isHost={currentPlayer.isHost}
-              />
-            </motion.div>
+            {!isSpectator && (
+              <motion.div
+                initial={{ scale: 0.8, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                transition={{ delay: 0.2 }}
+              >
+                <VideoFeed
+                  stream={localStream}
+                  playerName={currentPlayer.name}
+                  isLocal={true}
+                  audioEnabled={audioEnabled}
+                  videoEnabled={videoEnabled}
+                  className="aspect-video relative"
+                  isHost={currentPlayer.isHost}
+                  audioForceMuted={seat?.audioForceMuted}
+                  videoForceMuted={seat?.videoForceMuted}
+                />
+              </motion.div>
+            )}
             
             {players.filter(p => p.id !== currentPlayer.id).map((player, index) => (
               <motion.div
@@ -184,12 +260,37 @@ export function GameLobby({
                   videoEnabled={player.videoEnabled}
                   className="aspect-video relative"
                   isHost={player.isHost}
+                  audioForceMuted={player.audioForceMuted}
+                  videoForceMuted={player.videoForceMuted}
                 />
+                {canRunSession && !player.isHost && (
+                  <ModerationButtons
+                    player={player}
+                    onKickPlayer={onKickPlayer}
+                    onMutePlayer={onMutePlayer}
+                    className="justify-center mt-2"
+                  />
+                )}
+                {/* Only the host hands out the facilitator role */}
+                {currentPlayer.isHost && (
+                  <button
+                    onClick={() => onSetRole(player.id, player.role === 'facilitator' ? 'player' : 'facilitator')}
+                    className="mt-2 w-full flex items-center justify-center space-x-1 text-xs font-medium text-indigo-700 hover:text-indigo-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-lg py-1"
+                    aria-pressed={player.role === 'facilitator'}
+                  >
+                    <ShieldCheck size={12} />
+                    <span>
+                      {player.role === 'facilitator'
+                        ? t('lobby.makePlayer', { name: player.name })
+                        : t('lobby.makeFacilitator', { name: player.name })}
+                    </span>
+                  </button>
+                )}
               </motion.div>
             ))}
             
             {/* Empty slots */}
-            {Array.from({ length: Math.max(0, 8 - players.length) }, (_, index) => (
+            {Array.from({ length: Math.max(0, settings.maxPlayers - players.length) }, (_, index) => (
               <motion.div
                 key={`empty-${index}`}
                 initial={{ scale: 0.8, opacity: 0 }}
@@ -199,46 +300,97 @@ export function GameLobby({
               >
                 <div className="text-center">
                   <Users className="text-gray-400 mx-auto mb-2" size={24} />
-                  <p className="text-gray-500 text-sm font-medium">Waiting for player...</p>
+                  <p className="text-gray-500 text-sm font-medium">{t('lobby.waitingForPlayer')}</p>
                 </div>
               </motion.div>
             ))}
           </div>
 
+          {/* Card Packs */}
+          <div className="mb-8">
+            <CardPackPicker
+              selectedPacks={cardPacks}
+              isHost={canRunSession}
+              onSelectCardPacks={onSelectCardPacks}
+            />
+          </div>
+
+          {/* Game Settings */}
+          <div className="mb-8">
+            <GameSettingsPanel
+              settings={settings}
+              isHost={canRunSession}
+              playerCount={players.length}
+              onUpdateSettings={onUpdateSettings}
+            />
+          </div>
+
+          {/* Teams */}
+          {settings.teamMode && (
+            <div className="mb-8">
+              <TeamPanel
+                players={players.filter(player => player.role !== 'facilitator')}
+                currentPlayer={currentPlayer}
+                onSetTeam={onSetTeam}
+              />
+            </div>
+          )}
+
+          {/* Room access */}
+          {canRunSession && (
+            <div className="mb-8">
+              <RoomAccessPanel
+                access={access}
+                isHost={currentPlayer.isHost}
+                joinRequests={joinRequests}
+                onSetRoomAccess={onSetRoomAccess}
+                onCreateInvite={onCreateInvite}
+                onRespondJoinRequest={onRespondJoinRequest}
+              />
+            </div>
+          )}
+
           {/* Controls */}
           <div className="flex flex-col md:flex-row items-center justify-between space-y-4 md:space-y-0">
-            <div className="flex space-x-3">
-              <motion.button
-                onClick={onToggleAudio}
-                className={`p-4 rounded-2xl transition-all duration-300 ${
-                  audioEnabled 
-                    ? 'bg-gradient-to-r from-green-500 to-emerald-500 text-white shadow-lg hover:shadow-xl' 
-                    : 'bg-gradient-to-r from-red-500 to-pink-500 text-white shadow-lg hover:shadow-xl'
-                }`}
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                title={audioEnabled ? 'Mute microphone' : 'Unmute microphone'}
-              >
-                {audioEnabled ? <Mic size={24} /> : <MicOff size={24} />}
-              </motion.button>
-              
-              <motion.button
-                onClick={onToggleVideo}
-                className={`p-4 rounded-2xl transition-all duration-300 ${
-                  videoEnabled 
-                    ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-lg hover:shadow-xl' 
-                    : 'bg-gradient-to-r from-red-500 to-pink-500 text-white shadow-lg hover:shadow-xl'
-                }`}
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                title={videoEnabled ? 'Turn off camera' : 'Turn on camera'}
-              >
-                {videoEnabled ? <Video size={24} /> : <VideoOff size={24} />}
-              </motion.button>
-            </div>
+            {isSpectator ? (
+              <div className="flex items-center space-x-2 text-gray-600">
+                <Eye size={20} className="text-indigo-600" />
+                <span>{t('spectator.watching')}</span>
+              </div>
+            ) : (
+              <div className="flex space-x-3">
+                <motion.button
+                  onClick={onToggleAudio}
+                  className={`p-4 rounded-2xl transition-all duration-300 ${
+                    audioEnabled 
+                      ? 'bg-gradient-to-r from-green-500 to-emerald-500 text-white shadow-lg hover:shadow-xl' 
+                      : 'bg-gradient-to-r from-red-500 to-pink-500 text-white shadow-lg hover:shadow-xl'
+                  }`}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  title={audioEnabled ? t('lobby.muteMicrophone') : t('lobby.unmuteMicrophone')}
+                >
+                  {audioEnabled ? <Mic size={24} /> : <MicOff size={24} />}
+                </motion.button>
+                
+                <motion.button
+                  onClick={onToggleVideo}
+                  className={`p-4 rounded-2xl transition-all duration-300 ${
+                    videoEnabled 
+                      ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-lg hover:shadow-xl' 
+                      : 'bg-gradient-to-r from-red-500 to-pink-500 text-white shadow-lg hover:shadow-xl'
+                  }`}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  title={videoEnabled ? t('lobby.cameraOff') : t('lobby.cameraOn')}
+                >
+                  {videoEnabled ? <Video size={24} /> : <VideoOff size={24} />}
+                </motion.button>
+              </div>
+            )}
 
             <AnimatePresence>
-              {currentPlayer.isHost && players.length >= 2 && (
+              {canRunSession && players.length >= 2 && (
                 <motion.button
                   onClick={onStartGame}
                   className="flex items-center space-x-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-8 py-4 rounded-2xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 font-semibold text-lg shadow-xl hover:shadow-2xl"
@@ -249,7 +401,7 @@ export function GameLobby({
                   whileTap={{ scale: 0.95 }}
                 >
                   <Play size={24} />
-                  <span>Start Game</span>
+                  <span>{t('lobby.startGame')}</span>
                   <motion.div
                     animate={{ rotate: 360 }}
                     transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
@@ -260,10 +412,10 @@ export function GameLobby({
               )}
             </AnimatePresence>
 
-            {!currentPlayer.isHost && (
+            {!canRunSession && (
               <div className="flex items-center space-x-2 text-gray-600">
                 <Crown size={20} className="text-yellow-500" />
-                <span>Waiting for host to start the game...</span>
+                <span>{t('lobby.waitingForHost')}</span>
               </div>
             )}
           </div>
@@ -276,16 +428,16 @@ export function GameLobby({
         >
           <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center space-x-2">
             <CheckCircle className="text-indigo-600" size={20} />
-            <span>How to Play</span>
+            <span>{t('lobby.howToPlay')}</span>
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
             <div className="space-y-2">
-              <p>• <strong>Goal:</strong> Collect all 5 P's (Purpose, Problems, Prognosis, Plan, Perform)</p>
-              <p>• <strong>Turn:</strong> Play a card and discuss the prompt with everyone</p>
+              <p>• <strong>{t('lobby.goalLabel')}</strong> {t('lobby.goal')}</p>
+              <p>• <strong>{t('lobby.turnLabel')}</strong> {t('lobby.turn')}</p>
             </div>
             <div className="space-y-2">
-              <p>• <strong>Draw:</strong> Take a new card from the deck after discussion</p>
-              <p>• <strong>Win:</strong> First player to collect all 5 P's wins!</p>
+              <p>• <strong>{t('lobby.drawLabel')}</strong> {t('lobby.draw')}</p>
+              <p>• <strong>{t('lobby.winLabel')}</strong> {t('lobby.win')}</p>
             </div>
           </div>
         </motion.div>
@@ -0,0 +1,273 @@
+import { SlidersHorizontal } from 'lucide-react';
+import { GameSettings } from '../types/game';
+import { CARD_TYPES } from '../data/cards';
+import { DECK_EXHAUSTION_POLICIES, GAME_SETTINGS_LIMITS, SCORING_MODES, TURN_TIMEOUT_PENALTIES, validateGameSettings } from '../lib/gameRules';
+import { useLocale } from './LocaleProvider';
+
+interface GameSettingsPanelProps {
+  settings: GameSettings;
+  isHost: boolean;
+  playerCount: number;
+  onUpdateSettings: (changes: Partial<GameSettings>) => void;
+}
+
+const TURN_LENGTHS = [10, 15, 20, 30, 45, 60, 90, 120, 180, 300].filter(seconds =>
+  seconds * 1000 >= GAME_SETTINGS_LIMITS.turnTimeLimit.min && seconds * 1000 <= GAME_SETTINGS_LIMITS.turnTimeLimit.max
+);
+
+const GAME_LENGTHS = [5, 10, 15, 20, 30, 45, 60, 90, 120].filter(minutes =>
+  minutes * 60000 >= GAME_SETTINGS_LIMITS.gameDuration.min && minutes * 60000 <= GAME_SETTINGS_LIMITS.gameDuration.max
+);
+
+function range(min: number, max: number): number[] {
+  return Array.from({ length: Math.max(0, max - min + 1) }, (_, index) => min + index);
+}
+
+const selectClassName = 'w-full bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export function GameSettingsPanel({ settings, isHost, playerCount, onUpdateSettings }: GameSettingsPanelProps) {
+  const { t } = useLocale();
+
+  // Check locally first so an impossible combination never leaves the browser
+  const update = (changes: Partial<GameSettings>) => {
+    if (validateGameSettings({ ...settings, ...changes }) === null) {
+      onUpdateSettings(changes);
+    }
+  };
+
+  const turnSeconds = settings.turnTimeLimit / 1000;
+  const requiredCards = CARD_TYPES.reduce((total, type) => total + settings.winningHand[type], 0);
+
+  if (!isHost) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <SlidersHorizontal size={16} className="text-indigo-600" />
+        <span>{t('settings.title')}:</span>
+        {[
+          t('settings.turnLengthValue', { count: turnSeconds }),
+          t('settings.handSizeValue', { count: settings.handSize }),
+          t('settings.maxPlayersValue', { count: settings.maxPlayers }),
+          settings.mustPlayBeforeDraw ? t('settings.mustPlayBeforeDraw') : t('settings.drawAnyTime'),
+          t(`settings.scoringMode.${settings.scoringMode}` as const),
+          t(`settings.deckExhaustionPolicy.${settings.deckExhaustionPolicy}` as const),
+          t(`settings.turnTimeoutPenalty.${settings.turnTimeoutPenalty}` as const),
+          ...(settings.peerVoting ? [t('settings.peerVoting')] : []),
+          ...(settings.drawFromDiscard ? [t('settings.drawFromDiscard')] : []),
+          ...(settings.actionCards ? [t('settings.actionCards')] : []),
+          ...(settings.directedPrompts ? [t('settings.directedPrompts')] : []),
+          ...(settings.teamMode ? [t('settings.teamMode')] : [])
+        ].map(label => (
+          <span key={label} className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full font-medium">
+            {label}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center space-x-2 mb-3">
+        <SlidersHorizontal className="text-indigo-600" size={20} />
+        <span>{t('settings.title')}</span>
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <label className="text-sm font-medium text-gray-700">
+          <span className="block mb-1">{t('settings.turnLength')}</span>
+          <select
+            value={turnSeconds}
+            onChange={(e) => update({ turnTimeLimit: Number(e.target.value) * 1000 })}
+            className={selectClassName}
+          >
+            {(TURN_LENGTHS.includes(turnSeconds) ? TURN_LENGTHS : [...TURN_LENGTHS, turnSeconds].sort((a, b) => a - b)).map(seconds => (
+              <option key={seconds} value={seconds}>{t('settings.seconds', { count: seconds })}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm font-medium text-gray-700">
+          <span className="block mb-1">{t('settings.handSize')}</span>
+          <select
+            value={settings.handSize}
+            onChange={(e) => update({ handSize: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {range(Math.max(GAME_SETTINGS_LIMITS.handSize.min, requiredCards), GAME_SETTINGS_LIMITS.handSize.max).map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm font-medium text-gray-700">
+          <span className="block mb-1">{t('settings.maxPlayers')}</span>
+          <select
+            value={settings.maxPlayers}
+            onChange={(e) => update({ maxPlayers: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {range(Math.max(GAME_SETTINGS_LIMITS.maxPlayers.min, playerCount), GAME_SETTINGS_LIMITS.maxPlayers.max).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <label className="text-sm font-medium text-gray-700">
+          <span className="block mb-1">{t('settings.scoringMode')}</span>
+          <select
+            value={settings.scoringMode}
+            onChange={(e) => update({ scoringMode: SCORING_MODES.find(mode => mode === e.target.value) })}
+            className={selectClassName}
+          >
+            {SCORING_MODES.map(mode => (
+              <option key={mode} value={mode}>{t(`settings.scoringMode.${mode}` as const)}</option>
+            ))}
+          </select>
+        </label>
+
+        {settings.scoringMode === 'multi-set' && (
+          <label className="text-sm font-medium text-gray-700">
+            <span className="block mb-1">{t('settings.setsToWin')}</span>
+            <select
+              value={settings.setsToWin}
+              onChange={(e) => update({ setsToWin: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {range(GAME_SETTINGS_LIMITS.setsToWin.min, GAME_SETTINGS_LIMITS.setsToWin.max).map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {settings.scoringMode === 'timed' && (
+          <label className="text-sm font-medium text-gray-700">
+            <span className="block mb-1">{t('settings.gameDuration')}</span>
+            <select
+              value={settings.gameDuration / 60000}
+              onChange={(e) => update({ gameDuration: Number(e.target.value) * 60000 })}
+              className={selectClassName}
+            >
+              {GAME_LENGTHS.map(minutes => (
+                <option key={minutes} value={minutes}>{t('settings.minutes', { count: minutes })}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <label className="text-sm font-medium text-gray-700">
+          <span className="block mb-1">{t('settings.deckExhaustionPolicy')}</span>
+          <select
+            value={settings.deckExhaustionPolicy}
+            onChange={(e) => update({ deckExhaustionPolicy: DECK_EXHAUSTION_POLICIES.find(policy => policy === e.target.value) })}
+            className={selectClassName}
+          >
+            {DECK_EXHAUSTION_POLICIES.map(policy => (
+              <option key={policy} value={policy}>{t(`settings.deckExhaustionPolicy.${policy}` as const)}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm font-medium text-gray-700">
+          <span className="block mb-1">{t('settings.turnTimeoutPenalty')}</span>
+          <select
+            value={settings.turnTimeoutPenalty}
+            onChange={(e) => update({ turnTimeoutPenalty: TURN_TIMEOUT_PENALTIES.find(penalty => penalty === e.target.value) })}
+            className={selectClassName}
+          >
+            {TURN_TIMEOUT_PENALTIES.map(penalty => (
+              <option key={penalty} value={penalty}>{t(`settings.turnTimeoutPenalty.${penalty}` as const)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className="mb-3">
+        <legend className="text-sm font-medium text-gray-700 mb-1">{t('settings.winningHand')}</legend>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {CARD_TYPES.map(type => {
+            const others = requiredCards - settings.winningHand[type];
+            return (
+              <label key={type} className="text-xs text-gray-600">
+                <span className="block mb-1">{t(`cardType.${type}` as const)}</span>
+                <select
+                  value={settings.winningHand[type]}
+                  onChange={(e) => update({ winningHand: { ...settings.winningHand, [type]: Number(e.target.value) } })}
+                  className={selectClassName}
+                >
+                  {range(others === 0 ? 1 : 0, settings.handSize - others).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.mustPlayBeforeDraw}
+          onChange={(e) => update({ mustPlayBeforeDraw: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{t('settings.mustPlayBeforeDraw')}</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer mt-2">
+        <input
+          type="checkbox"
+          checked={settings.peerVoting}
+          onChange={(e) => update({ peerVoting: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{t('settings.peerVoting')}</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer mt-2">
+        <input
+          type="checkbox"
+          checked={settings.drawFromDiscard}
+          onChange={(e) => update({ drawFromDiscard: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{t('settings.drawFromDiscard')}</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer mt-2">
+        <input
+          type="checkbox"
+          checked={settings.actionCards}
+          onChange={(e) => update({ actionCards: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{t('settings.actionCards')}</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer mt-2">
+        <input
+          type="checkbox"
+          checked={settings.directedPrompts}
+          onChange={(e) => update({ directedPrompts: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{t('settings.directedPrompts')}</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer mt-2">
+        <input
+          type="checkbox"
+          checked={settings.teamMode}
+          onChange={(e) => update({ teamMode: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{t('settings.teamMode')}</span>
+      </label>
+    </div>
+  );
+}
\ No newline at end of file
@@ -2,29 +2,41 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Play, Plus, Users, MessageCircle, Sparkles, Heart, Brain } from 'lucide-react';
 import { useAuthContext } from './AuthProvider';
+import { useLocale } from './LocaleProvider';
+import { LanguagePicker } from './LanguagePicker';
+import { PlayerRole } from '../types/game';
+import { PASSCODE_LENGTH } from '../lib/gameRules';
 
 interface HomePageProps {
-  onCreateGame: () => void;
-  onJoinGame: (gameId: string) => void;
+  onCreateGame: (role: PlayerRole) => void;
+  onJoinGame: (gameId: string, role: PlayerRole, passcode?: string) => void;
   hasProfile?: boolean;
+  invitedGameId?: string; // From an invite link; the join form opens on this room
 }
 
-export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomePageProps) {
+export function HomePage({ onCreateGame, onJoinGame, hasProfile = false, invitedGameId }: HomePageProps) {
   const { profile } = useAuthContext();
-  const [gameId, setGameId] = useState('');
-  const [mode, setMode] = useState<'create' | 'join' | null>(null);
+  const { t } = useLocale();
+  const [gameId, setGameId] = useState(invitedGameId ?? '');
+  const [passcode, setPasscode] = useState('');
+  const [mode, setMode] = useState<'create' | 'join' | null>(invitedGameId ? 'join' : null);
   const [isLoading, setIsLoading] = useState(false);
+  const [asFacilitator, setAsFacilitator] = useState(false);
+  const [asSpectator, setAsSpectator] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     setIsLoading(true);
+    // Only an existing game can be watched, and only the room's creator can
+    // choose to facilitate; the host makes anyone else a facilitator
+    const role: PlayerRole = mode === 'join' && asSpectator ? 'spectator' : mode === 'create' && asFacilitator ? 'facilitator' : 'player';
     
     try {
       if (mode === 'create') {
-        await onCreateGame();
+        await onCreateGame(role);
       } else if (mode === 'join' && gameId.trim()) {
-        await onJoinGame(gameId);
+        await onJoinGame(gameId, role, passcode.trim() || undefined);
       }
     } finally {
       setIsLoading(false);
@@ -56,6 +68,8 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-96 h-96 bg-gradient-to-br from-yellow-100 to-orange-100 rounded-full opacity-10 blur-3xl"></div>
       </div>
 
+      <LanguagePicker className="absolute top-4 right-4 z-20 bg-white/70 backdrop-blur-sm px-3 py-2 rounded-xl text-gray-700 shadow-sm" />
+
       <div className="relative z-10 flex flex-col items-center justify-center min-h-screen p-4">
         <motion.div
           variants={containerVariants}
@@ -89,7 +103,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
           
           <motion.div variants={itemVariants} className="flex items-center justify-center space-x-2 mb-6">
             <Sparkles className="text-yellow-500" size={24} />
-            <p className="text-2xl font-semibold text-gray-700">5P's Card Game</p>
+            <p className="text-2xl font-semibold text-gray-700">{t('home.subtitle')}</p>
             <Sparkles className="text-yellow-500" size={24} />
           </motion.div>
           
@@ -97,8 +111,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
             variants={itemVariants}
             className="text-lg text-gray-600 mb-6 leading-relaxed max-w-3xl mx-auto"
           >
-            Transform conversations into meaningful connections. Play the 5P's card game with friends, 
-            family, or colleagues through immersive video chat and discover the power of authentic dialogue.
+            {t('home.intro')}
           </motion.p>
 
           {hasProfile && profile && (
@@ -112,7 +125,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                 </span>
               </div>
               <div className="text-left">
-                <p className="text-sm font-semibold text-gray-800">Welcome back!</p>
+                <p className="text-sm font-semibold text-gray-800">{t('home.welcomeBack')}</p>
                 <p className="text-xs text-gray-600">{profile.full_name}</p>
               </div>
             </motion.div>
@@ -124,15 +137,15 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
           >
             <div className="flex items-center space-x-2 bg-white/50 backdrop-blur-sm px-4 py-2 rounded-full">
               <Heart className="text-red-500" size={16} />
-              <span>Build Deeper Connections</span>
+              <span>{t('home.deeperConnections')}</span>
             </div>
             <div className="flex items-center space-x-2 bg-white/50 backdrop-blur-sm px-4 py-2 rounded-full">
               <Brain className="text-blue-500" size={16} />
-              <span>Spark Meaningful Conversations</span>
+              <span>{t('home.meaningfulConversations')}</span>
             </div>
             <div className="flex items-center space-x-2 bg-white/50 backdrop-blur-sm px-4 py-2 rounded-full">
               <Users className="text-green-500" size={16} />
-              <span>Connect Face-to-Face</span>
+              <span>{t('home.faceToFace')}</span>
             </div>
           </motion.div>
         </motion.div>
@@ -165,7 +178,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                   >
                     <Plus size={24} />
                   </motion.div>
-                  <span>Create New Game</span>
+                  <span>{t('home.createGame')}</span>
                   <div className="opacity-0 group-hover:opacity-100 transition-opacity">
                     <Sparkles size={20} />
                   </div>
@@ -184,7 +197,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                   >
                     <Users size={24} />
                   </motion.div>
-                  <span>Join Game</span>
+                  <span>{t('home.joinGame')}</span>
                   <div className="opacity-0 group-hover:opacity-100 transition-opacity">
                     <Heart size={20} />
                   </div>
@@ -198,7 +211,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                     className="text-center mt-4 p-4 bg-blue-50 rounded-xl border border-blue-200"
                   >
                     <p className="text-blue-800 text-sm">
-                      <strong>New here?</strong> Don't worry! You'll be able to create your profile when you choose to create or join a game.
+                      <strong>{t('home.newHere')}</strong> {t('home.newHereDetail')}
                     </p>
                   </motion.div>
                 )}
@@ -212,6 +225,12 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                 className="bg-white/80 backdrop-blur-lg rounded-3xl p-8 shadow-2xl border border-white/20"
               >
                 <form onSubmit={handleSubmit} className="space-y-6">
+                  {mode === 'join' && invitedGameId && gameId === invitedGameId && (
+                    <p className="text-center text-sm font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-xl p-3">
+                      {t('home.invited', { code: invitedGameId })}
+                    </p>
+                  )}
+
                   {mode === 'join' && (
                     <motion.div
                       initial={{ opacity: 0, height: 0 }}
@@ -219,7 +238,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                       transition={{ duration: 0.3 }}
                     >
                       <label htmlFor="gameId" className="block text-sm font-semibold text-gray-700 mb-3">
-                        Game Code
+                        {t('home.gameCode')}
                       </label>
                       <input
                         type="text"
@@ -227,14 +246,65 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                         value={gameId}
                         onChange={(e) => setGameId(e.target.value.toUpperCase())}
                         className="w-full px-6 py-4 border-2 border-gray-200 rounded-xl focus:ring-4 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all duration-300 text-lg font-mono placeholder-gray-400 text-center tracking-wider"
-                        placeholder="ENTER CODE"
+                        placeholder={t('home.enterCode')}
                         required
                         disabled={isLoading}
                         maxLength={6}
                       />
+
+                      {gameId !== invitedGameId && (
+                        <>
+                          <label htmlFor="passcode" className="block text-sm font-semibold text-gray-700 mt-4 mb-3">
+                            {t('home.passcode')}
+                          </label>
+                          <input
+                            type="password"
+                            id="passcode"
+                            value={passcode}
+                            onChange={(e) => setPasscode(e.target.value)}
+                            className="w-full px-6 py-3 border-2 border-gray-200 rounded-xl focus:ring-4 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all duration-300 placeholder-gray-400"
+                            placeholder={t('home.passcodePlaceholder')}
+                            disabled={isLoading}
+                            maxLength={PASSCODE_LENGTH.max}
+                            autoComplete="off"
+                          />
+                        </>
+                      )}
                     </motion.div>
                   )}
 
+                  {mode === 'create' && (
+                    <label className="flex items-start space-x-3 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={asFacilitator}
+                        onChange={(e) => setAsFacilitator(e.target.checked)}
+                        disabled={isLoading}
+                        className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span>
+                        <span className="block font-semibold">{t('home.asFacilitator')}</span>
+                        <span className="block text-xs text-gray-500">{t('home.asFacilitatorHint')}</span>
+                      </span>
+                    </label>
+                  )}
+
+                  {mode === 'join' && (
+                    <label className="flex items-start space-x-3 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={asSpectator}
+                        onChange={(e) => setAsSpectator(e.target.checked)}
+                        disabled={isLoading}
+                        className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span>
+                        <span className="block font-semibold">{t('home.asSpectator')}</span>
+                        <span className="block text-xs text-gray-500">{t('home.asSpectatorHint')}</span>
+                      </span>
+                    </label>
+                  )}
+
                   <div className="flex space-x-4 pt-4">
                     <button
                       type="button"
@@ -242,7 +312,7 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                       className="flex-1 py-4 px-6 border-2 border-gray-200 rounded-xl text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-all duration-300 font-medium"
                       disabled={isLoading}
                     >
-                      Back
+                      {t('home.back')}
                     </button>
                     <motion.button
                       type="submit"
@@ -262,12 +332,12 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
                             animate={{ rotate: 360 }}
                             transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
                           />
-                          <span>Connecting...</span>
+                          <span>{t('home.connecting')}</span>
                         </>
                       ) : (
                         <>
                           <Play size={20} />
-                          <span>{mode === 'create' ? 'Create New Game' : 'Join Game'}</span>
+                          <span>{mode === 'create' ? t('home.createGame') : t('home.joinGame')}</span>
                         </>
                       )}
                     </motion.button>
@@ -288,25 +358,25 @@ export function HomePage({ onCreateGame, onJoinGame, hasProfile = false }: HomeP
             {[
               {
                 icon: MessageCircle,
-                title: "Meaningful Conversations",
-                description: "Spark deep discussions with thoughtfully crafted prompts that reveal authentic stories",
+                title: t('home.featureConversationsTitle'),
+                description: t('home.featureConversationsDescription'),
                 color: "from-blue-500 to-indigo-500"
               },
               {
                 icon: Users,
-                title: "Face-to-Face Connection",
-                description: "Experience genuine human connection through high-quality video chat while you play",
+                title: t('home.featureConnectionTitle'),
+                description: t('home.featureConnectionDescription'),
                 color: "from-emerald-500 to-teal-500"
               },
               {
                 icon: Brain,
-                title: "Simple Yet Profound",
-                description: "Easy-to-learn rules that create space for life-changing conversations and insights",
+                title: t('home.featureSimpleTitle'),
+                description: t('home.featureSimpleDescription'),
                 color: "from-purple-500 to-pink-500"
               }
             ].map((feature, index) => (
               <motion.div
-                key={feature.title}
+                key={index}
                 initial={{ opacity: 0, y: 30 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: 0.9 + index * 0.1 }}
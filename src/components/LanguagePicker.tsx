@@ -0,0 +1,34 @@
+import { Languages } from 'lucide-react';
+import { LOCALES, isLocale } from '../i18n';
+import { useLocale } from './LocaleProvider';
+
+interface LanguagePickerProps {
+  className?: string;
+}
+
+export function LanguagePicker({ className = '' }: LanguagePickerProps) {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <label className={`flex items-center space-x-2 ${className}`}>
+      <Languages size={16} aria-hidden="true" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) {
+            setLocale(e.target.value);
+          }
+        }}
+        className="bg-transparent text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-lg cursor-pointer"
+        aria-label={t('language.label')}
+      >
+        {LOCALES.map(({ code, name }) => (
+          <option key={code} value={code} className="text-gray-900">
+            {name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
\ No newline at end of file
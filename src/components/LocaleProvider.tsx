@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { Card, Locale } from '../types/game';
+import { MessageKey, detectLocale, isLocale, localizeCard, translate } from '../i18n';
+
+interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  localizeCard: (card: Card) => Card;
+}
+
+const LOCALE_STORAGE_KEY = 'olubox_locale';
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return isLocale(saved) ? saved : detectLocale();
+  });
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    [locale]
+  );
+
+  const localize = useCallback((card: Card) => localizeCard(card, locale), [locale]);
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t, localizeCard: localize }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+}
\ No newline at end of file
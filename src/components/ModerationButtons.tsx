@@ -0,0 +1,58 @@
+import { Ban, Mic, MicOff, UserX, Video, VideoOff } from 'lucide-react';
+import { Player } from '../types/game';
+import { useLocale } from './LocaleProvider';
+
+interface ModerationButtonsProps {
+  player: Player;
+  onKickPlayer: (targetPlayerId: string, ban?: boolean) => void;
+  onMutePlayer: (targetPlayerId: string, audio?: boolean, video?: boolean) => void;
+  className?: string;
+}
+
+const buttonClassName = 'p-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-white focus:outline-none focus:ring-2 focus:ring-emerald-400';
+
+// Remove, ban and force-mute controls for one player, shown to the host and facilitators
+export function ModerationButtons({ player, onKickPlayer, onMutePlayer, className = '' }: ModerationButtonsProps) {
+  const { t } = useLocale();
+  const muteLabel = player.audioForceMuted ? t('moderation.allowMic', { name: player.name }) : t('moderation.muteMic', { name: player.name });
+  const cameraLabel = player.videoForceMuted ? t('moderation.allowCamera', { name: player.name }) : t('moderation.stopCamera', { name: player.name });
+
+  return (
+    <div className={`flex items-center space-x-1 ${className}`}>
+      <button
+        onClick={() => onMutePlayer(player.id, !player.audioForceMuted)}
+        className={buttonClassName}
+        title={muteLabel}
+        aria-label={muteLabel}
+        aria-pressed={!!player.audioForceMuted}
+      >
+        {player.audioForceMuted ? <Mic size={12} /> : <MicOff size={12} />}
+      </button>
+      <button
+        onClick={() => onMutePlayer(player.id, undefined, !player.videoForceMuted)}
+        className={buttonClassName}
+        title={cameraLabel}
+        aria-label={cameraLabel}
+        aria-pressed={!!player.videoForceMuted}
+      >
+        {player.videoForceMuted ? <Video size={12} /> : <VideoOff size={12} />}
+      </button>
+      <button
+        onClick={() => onKickPlayer(player.id)}
+        className={buttonClassName}
+        title={t('moderation.kick', { name: player.name })}
+        aria-label={t('moderation.kick', { name: player.name })}
+      >
+        <UserX size={12} />
+      </button>
+      <button
+        onClick={() => onKickPlayer(player.id, true)}
+        className={`${buttonClassName} hover:bg-red-600`}
+        title={t('moderation.ban', { name: player.name })}
+        aria-label={t('moderation.ban', { name: player.name })}
+      >
+        <Ban size={12} />
+      </button>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Player, Reaction } from '../types/game';
+import { REACTIONS, REACTION_COOLDOWN } from '../lib/gameRules';
+import { useLocale } from './LocaleProvider';
+
+interface ReactionBarProps {
+  reactions: Reaction[];
+  people: Player[];
+  onSendReaction: (emoji: string) => void;
+}
+
+// How long a reaction floats over the table
+const DISPLAY_TIME = 3000;
+
+// Players and spectators can both react; each new reaction floats up once
+export function ReactionBar({ reactions, people, onSendReaction }: ReactionBarProps) {
+  const { t } = useLocale();
+  const [floating, setFloating] = useState<Reaction[]>([]);
+  const [coolingDown, setCoolingDown] = useState(false);
+  // Reactions already in the state when we arrived are not replayed
+  const lastSeenId = useRef(reactions[reactions.length - 1]?.id ?? 0);
+
+  useEffect(() => {
+    const fresh = reactions.filter(reaction => reaction.id > lastSeenId.current);
+    if (fresh.length === 0) return;
+
+    lastSeenId.current = fresh[fresh.length - 1].id;
+    setFloating(prev => [...prev, ...fresh]);
+    setTimeout(() => {
+      setFloating(prev => prev.filter(reaction => !fresh.includes(reaction)));
+    }, DISPLAY_TIME);
+  }, [reactions]);
+
+  const send = (emoji: string) => {
+    if (coolingDown) return;
+
+    onSendReaction(emoji);
+    setCoolingDown(true);
+    setTimeout(() => setCoolingDown(false), REACTION_COOLDOWN);
+  };
+
+  const senderName = (playerId: string) => people.find(p => p.id === playerId)?.name ?? '';
+
+  return (
+    <>
+      <div className="fixed bottom-72 md:bottom-96 right-4 z-40 flex flex-col-reverse items-end space-y-reverse space-y-2 pointer-events-none" aria-live="polite">
+        <AnimatePresence>
+          {floating.map(reaction => (
+            <motion.div
+              key={reaction.id}
+              initial={{ opacity: 0, y: 20, scale: 0.8 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="flex items-center space-x-2 bg-slate-800/90 border border-slate-600 rounded-full px-3 py-1 shadow-lg"
+            >
+              <span className="text-2xl" aria-hidden="true">{reaction.emoji}</span>
+              <span className="text-xs text-slate-200">{senderName(reaction.playerId)}</span>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      <div className="flex items-center justify-center space-x-1 mb-2 md:mb-3" role="group" aria-label={t('reaction.title')}>
+        {REACTIONS.map(emoji => (
+          <button
+            key={emoji}
+            onClick={() => send(emoji)}
+            disabled={coolingDown}
+            className="text-lg md:text-xl bg-slate-800 border border-slate-600 rounded-full w-9 h-9 md:w-10 md:h-10 flex items-center justify-center hover:bg-slate-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+            aria-label={t('reaction.send', { emoji })}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Check, Link, Lock, UserCheck, X } from 'lucide-react';
+import { Player, RoomAccess } from '../types/game';
+import { PASSCODE_LENGTH } from '../lib/gameRules';
+import { useLocale } from './LocaleProvider';
+
+interface RoomAccessPanelProps {
+  access: RoomAccess;
+  isHost: boolean;
+  joinRequests: Player[];
+  onSetRoomAccess: (passcode?: string, requireApproval?: boolean, requireAccount?: boolean) => void;
+  onCreateInvite: () => Promise<string | undefined>;
+  onRespondJoinRequest: (requestPlayerId: string, accept: boolean) => void;
+}
+
+const inputClassName = 'flex-1 min-w-0 bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const buttonClassName = 'px-3 py-2 rounded-lg text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50';
+
+// Passcode, approval and invite links for the host and facilitators, plus
+// the queue of people asking to join. Only the host can require accounts.
+export function RoomAccessPanel({ access, isHost, joinRequests, onSetRoomAccess, onCreateInvite, onRespondJoinRequest }: RoomAccessPanelProps) {
+  const { t } = useLocale();
+  const [passcode, setPasscode] = useState('');
+  const [inviteUrl, setInviteUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const trimmed = passcode.trim();
+  const canSetPasscode = trimmed.length >= PASSCODE_LENGTH.min && trimmed.length <= PASSCODE_LENGTH.max;
+
+  const submitPasscode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSetPasscode) return;
+
+    onSetRoomAccess(trimmed);
+    setPasscode('');
+  };
+
+  const createInvite = async () => {
+    const url = await onCreateInvite();
+    if (!url) return;
+
+    setInviteUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // The link stays on screen to copy by hand
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center space-x-2 mb-3">
+        <Lock className="text-indigo-600" size={20} />
+        <span>{t('access.title')}</span>
+      </h3>
+
+      <form onSubmit={submitPasscode} className="mb-3">
+        <label htmlFor="room-passcode" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('access.passcode')}: <span className="font-normal text-gray-600">{access.hasPasscode ? t('access.passcodeSet') : t('access.noPasscode')}</span>
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <input
+            id="room-passcode"
+            type="text"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            maxLength={PASSCODE_LENGTH.max}
+            placeholder={t('access.passcodeLength', { min: PASSCODE_LENGTH.min, max: PASSCODE_LENGTH.max })}
+            autoComplete="off"
+            className={inputClassName}
+          />
+          <button type="submit" disabled={!canSetPasscode} className={`${buttonClassName} bg-indigo-600 hover:bg-indigo-700 text-white`}>
+            {t('access.setPasscode')}
+          </button>
+          {access.hasPasscode && (
+            <button type="button" onClick={() => onSetRoomAccess('')} className={`${buttonClassName} bg-gray-100 hover:bg-gray-200 text-gray-700`}>
+              {t('access.removePasscode')}
+            </button>
+          )}
+        </div>
+      </form>
+
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer mb-3">
+        <input
+          type="checkbox"
+          checked={access.requireApproval}
+          onChange={(e) => onSetRoomAccess(undefined, e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{t('access.requireApproval')}</span>
+      </label>
+
+      <label className="flex items-start space-x-2 text-sm font-medium text-gray-700 cursor-pointer mb-3">
+        <input
+          type="checkbox"
+          checked={access.requireAccount}
+          onChange={(e) => onSetRoomAccess(undefined, undefined, e.target.checked)}
+          disabled={!isHost}
+          className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>
+          <span className="block">{t('access.requireAccount')}</span>
+          <span className="block text-xs font-normal text-gray-500">{t('access.requireAccountHint')}</span>
+        </span>
+      </label>
+
+      <div className="mb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={createInvite} className={`${buttonClassName} flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700`}>
+            <Link size={16} />
+            <span>{t('access.createInvite')}</span>
+          </button>
+          {copied && (
+            <span className="flex items-center space-x-1 text-sm text-green-600">
+              <Check size={16} />
+              <span>{t('access.inviteCopied')}</span>
+            </span>
+          )}
+        </div>
+        {inviteUrl && (
+          <input
+            type="text"
+            value={inviteUrl}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            aria-label={t('access.createInvite')}
+            className={`${inputClassName} w-full mt-2 font-mono text-xs`}
+          />
+        )}
+        <p className="text-xs text-gray-500 mt-1">{t('access.inviteHint')}</p>
+      </div>
+
+      {joinRequests.length > 0 && (
+        <div role="region" aria-label={t('access.requests')}>
+          <h4 className="text-sm font-semibold text-gray-700 flex items-center space-x-2 mb-2">
+            <UserCheck className="text-indigo-600" size={16} />
+            <span>{t('access.requests')}</span>
+          </h4>
+          <ul className="space-y-2">
+            {joinRequests.map(request => (
+              <li
+                key={request.id}
+                className="flex items-center justify-between bg-white/70 border border-gray-200 rounded-lg px-3 py-2 text-sm"
+              >
+                <span className="font-medium text-gray-800 truncate">{request.name}</span>
+                <span className="flex items-center space-x-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => onRespondJoinRequest(request.id, true)}
+                    className={`${buttonClassName} flex items-center space-x-1 bg-emerald-600 hover:bg-emerald-700 text-white`}
+                  >
+                    <Check size={14} />
+                    <span>{t('access.admit')}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onRespondJoinRequest(request.id, false)}
+                    className={`${buttonClassName} flex items-center space-x-1 bg-gray-100 hover:bg-gray-200 text-gray-700`}
+                  >
+                    <X size={14} />
+                    <span>{t('access.decline')}</span>
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
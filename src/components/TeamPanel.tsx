@@ -0,0 +1,61 @@
+import { Users } from 'lucide-react';
+import { Player, TeamId } from '../types/game';
+import { TEAM_IDS, canModerate } from '../lib/gameRules';
+import { TEAM_COLORS } from '../data/teams';
+import { useLocale } from './LocaleProvider';
+
+interface TeamPanelProps {
+  players: Player[];
+  currentPlayer: Player;
+  onSetTeam: (targetPlayerId: string, teamId?: TeamId) => void;
+}
+
+const selectClassName = 'bg-white border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-50 disabled:text-gray-500';
+
+// Everyone picks their own team; the host or a facilitator can also move anyone else
+export function TeamPanel({ players, currentPlayer, onSetTeam }: TeamPanelProps) {
+  const { t } = useLocale();
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center space-x-2 mb-1">
+        <Users className="text-indigo-600" size={20} />
+        <span>{t('team.title')}</span>
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">{t('team.hint')}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {players.map(player => {
+          const canChange = canModerate(currentPlayer) || player.id === currentPlayer.id;
+          return (
+            <label
+              key={player.id}
+              className="flex items-center justify-between bg-white/70 border border-gray-200 rounded-lg px-3 py-2 text-sm"
+            >
+              <span className="flex items-center space-x-2 min-w-0">
+                {player.teamId && (
+                  <span className={`w-3 h-3 rounded-full shrink-0 ${TEAM_COLORS[player.teamId]}`} aria-hidden="true" />
+                )}
+                <span className={`font-medium truncate ${player.id === currentPlayer.id ? 'text-indigo-700' : 'text-gray-800'}`}>
+                  {player.name}
+                </span>
+              </span>
+              <select
+                value={player.teamId ?? ''}
+                onChange={(e) => onSetTeam(player.id, TEAM_IDS.find(teamId => teamId === e.target.value))}
+                disabled={!canChange}
+                className={selectClassName}
+                aria-label={t('team.choose', { name: player.name })}
+              >
+                <option value="">{t('team.none')}</option>
+                {TEAM_IDS.map(teamId => (
+                  <option key={teamId} value={teamId}>{t(`team.${teamId}` as const)}</option>
+                ))}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeftRight, X } from 'lucide-react';
+import { Card, GameState, PType } from '../types/game';
+import { CARD_TYPES } from '../data/cards';
+import { getHandHolder, onSameTeam } from '../lib/gameRules';
+import { useLocale } from './LocaleProvider';
+
+interface TradePanelProps {
+  gameState: GameState;
+  currentPlayerId: string;
+  onProposeTrade: (targetPlayerId: string, cardId: string, requestedType: PType) => void;
+  onRespondTrade: (accept: boolean, cardId?: string) => void;
+  onCancelTrade: () => void;
+}
+
+const selectClassName = 'bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+export function TradePanel({ gameState, currentPlayerId, onProposeTrade, onRespondTrade, onCancelTrade }: TradePanelProps) {
+  const { t, localizeCard } = useLocale();
+  const [isComposing, setIsComposing] = useState(false);
+  const [targetPlayerId, setTargetPlayerId] = useState('');
+  const [cardId, setCardId] = useState('');
+  const [requestedType, setRequestedType] = useState<PType | ''>('');
+
+  const offer = gameState.pendingTrade;
+  // In team mode the team's shared hand is the one traded from
+  const me = getHandHolder(gameState, currentPlayerId);
+  const playerName = (id: string) => gameState.players.find(p => p.id === id)?.name ?? '';
+  const typeLabel = (type: Card['type']) => t(`cardType.${type}` as const);
+
+  if (offer) {
+    // Other players' hands aren't sent, so the offer carries its card
+    const offeredType = offer.offeredCard ? typeLabel(offer.offeredCard.type) : '';
+
+    return (
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-gradient-to-r from-cyan-500/20 to-sky-500/20 border border-cyan-500/30 rounded-xl p-2 md:p-3 mb-2 md:mb-3 text-cyan-100 text-sm"
+        role="region"
+        aria-label={t('trade.title')}
+      >
+        {onSameTeam(gameState, offer.toPlayerId, currentPlayerId) ? (
+          <div className="text-center">
+            <p className="font-semibold mb-1">
+              {t('trade.incoming', { name: playerName(offer.fromPlayerId), offered: offeredType, requested: typeLabel(offer.requestedType) })}
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-1">
+              {me?.hand.filter(card => card.type === offer.requestedType).map(localizeCard).map(card => (
+                <button
+                  key={card.id}
+                  onClick={() => onRespondTrade(true, card.id)}
+                  className="max-w-[12rem] truncate bg-cyan-600 hover:bg-cyan-700 text-white text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  title={card.prompt}
+                >
+                  {t('trade.give', { prompt: card.prompt })}
+                </button>
+              ))}
+              {!me?.hand.some(card => card.type === offer.requestedType) && (
+                <span className="text-xs text-cyan-200">{t('trade.noMatchingCard', { type: typeLabel(offer.requestedType) })}</span>
+              )}
+              <button
+                onClick={() => onRespondTrade(false)}
+                className="bg-slate-700 hover:bg-slate-600 text-white text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+              >
+                {t('trade.decline')}
+              </button>
+            </div>
+          </div>
+        ) : onSameTeam(gameState, offer.fromPlayerId, currentPlayerId) ? (
+          <div className="flex items-center justify-center space-x-2">
+            <span>{t('trade.waiting', { name: playerName(offer.toPlayerId) })}</span>
+            <button
+              onClick={onCancelTrade}
+              className="flex items-center space-x-1 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            >
+              <X size={12} />
+              <span>{t('trade.withdraw')}</span>
+            </button>
+          </div>
+        ) : (
+          <p className="text-center text-xs">
+            {t('trade.between', { from: playerName(offer.fromPlayerId), to: playerName(offer.toPlayerId) })}
+          </p>
+        )}
+      </motion.div>
+    );
+  }
+
+  // Only the active player, or their teammates, may offer a trade
+  const activePlayer = gameState.players[gameState.currentPlayerIndex];
+  const isMyTurn = !!activePlayer && onSameTeam(gameState, activePlayer.id, currentPlayerId);
+  if (gameState.gamePhase !== 'playing' || !isMyTurn || !me || me.hand.length === 0) {
+    return null;
+  }
+
+  if (!isComposing) {
+    return (
+      <button
+        onClick={() => setIsComposing(true)}
+        className="w-full flex items-center justify-center space-x-2 bg-slate-800 border border-slate-600 text-cyan-200 text-xs rounded-xl p-2 mb-2 md:mb-3 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+      >
+        <ArrowLeftRight size={14} />
+        <span>{t('trade.propose')}</span>
+      </button>
+    );
+  }
+
+  const others = gameState.players.filter(p => !onSameTeam(gameState, p.id, currentPlayerId));
+  const offered = me.hand.find(card => card.id === cardId);
+  const canSubmit = others.some(p => p.id === targetPlayerId) && offered && requestedType && requestedType !== offered.type;
+
+  const submit = () => {
+    if (!canSubmit) return;
+    onProposeTrade(targetPlayerId, cardId, requestedType);
+    setIsComposing(false);
+    setCardId('');
+    setRequestedType('');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="bg-slate-800/80 border border-slate-600 rounded-xl p-2 mb-2 md:mb-3"
+      role="region"
+      aria-label={t('trade.title')}
+    >
+      <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-cyan-100">
+        <label className="flex items-center space-x-1">
+          <span>{t('trade.with')}</span>
+          <select value={targetPlayerId} onChange={(e) => setTargetPlayerId(e.target.value)} className={selectClassName}>
+            <option value="">{t('trade.choosePlayer')}</option>
+            {others.map(player => (
+              <option key={player.id} value={player.id}>{player.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center space-x-1">
+          <span>{t('trade.offer')}</span>
+          <select value={cardId} onChange={(e) => setCardId(e.target.value)} className={`${selectClassName} max-w-[12rem]`}>
+            <option value="">{t('trade.chooseCard')}</option>
+            {me.hand.map(localizeCard).map(card => (
+              <option key={card.id} value={card.id}>{typeLabel(card.type)}: {card.prompt}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center space-x-1">
+          <span>{t('trade.for')}</span>
+          <select
+            value={requestedType}
+            onChange={(e) => setRequestedType(CARD_TYPES.find(type => type === e.target.value) ?? '')}
+            className={selectClassName}
+          >
+            <option value="">{t('trade.chooseType')}</option>
+            {CARD_TYPES.filter(type => type !== offered?.type).map(type => (
+              <option key={type} value={type}>{typeLabel(type)}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={submit}
+          disabled={!canSubmit}
+          className="bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+        >
+          {t('trade.send')}
+        </button>
+        <button
+          onClick={() => setIsComposing(false)}
+          className="p-1 text-slate-300 hover:text-white rounded focus:outline-none focus:ring-2 focus:ring-cyan-400"
+          aria-label={t('trade.close')}
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Clock, AlertTriangle, Zap } from 'lucide-react';
+import { useLocale } from './LocaleProvider';
 
 interface TurnTimerProps {
   timeRemaining: number;
@@ -21,6 +22,7 @@ export function TurnTimer({
   formattedTime,
   className = ""
 }: TurnTimerProps) {
+  const { t } = useLocale();
   const isUrgent = formattedTime <= 10;
   const isCritical = formattedTime <= 5;
 
@@ -138,8 +140,8 @@ export function TurnTimer({
                   exit={{ opacity: 0, x: -20 }}
                   className="text-red-600"
                 >
-                  <div className="font-bold text-sm">Time's Up!</div>
-                  <div className="text-xs">Turn will switch automatically</div>
+                  <div className="font-bold text-sm">{t('timer.timesUp')}</div>
+                  <div className="text-xs">{t('timer.switchingTurn')}</div>
                 </motion.div>
               ) : isMyTurn ? (
                 <motion.div
@@ -157,14 +159,14 @@ export function TurnTimer({
                 >
                   <div className="font-bold text-sm flex items-center space-x-1">
                     <Zap size={14} />
-                    <span>Your Turn</span>
+                    <span>{t('timer.yourTurn')}</span>
                   </div>
                   <div className="text-xs">
                     {isCritical 
-                      ? 'Hurry up!' 
+                      ? t('timer.hurry')
                       : isUrgent 
-                        ? 'Time running out...' 
-                        : 'Play a card to continue'
+                        ? t('timer.runningOut')
+                        : t('timer.playToContinue')
                     }
                   </div>
                 </motion.div>
@@ -176,8 +178,8 @@ export function TurnTimer({
                   exit={{ opacity: 0, x: -20 }}
                   className="text-gray-600"
                 >
-                  <div className="font-bold text-sm">Waiting...</div>
-                  <div className="text-xs">Other player's turn</div>
+                  <div className="font-bold text-sm">{t('timer.waiting')}</div>
+                  <div className="text-xs">{t('timer.otherTurn')}</div>
                 </motion.div>
               )}
             </AnimatePresence>
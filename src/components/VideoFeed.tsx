@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Mic, MicOff, Video, VideoOff, Crown, Wifi, WifiOff, Maximize2, Minimize2, X } from 'lucide-react';
+import { useLocale } from './LocaleProvider';
 
 interface VideoFeedProps {
   stream: MediaStream | null;
@@ -9,7 +10,10 @@ interface VideoFeedProps {
   audioEnabled?: boolean;
   videoEnabled?: boolean;
   isCurrentPlayer?: boolean;
+  isPromptTarget?: boolean; // Chosen to answer the current prompt
   isHost?: boolean;
+  audioForceMuted?: boolean; // Turned off by the host or a facilitator
+  videoForceMuted?: boolean;
   className?: string;
 }
 
@@ -20,9 +24,13 @@ export function VideoFeed({
   audioEnabled = true, 
   videoEnabled = true,
   isCurrentPlayer = false,
+  isPromptTarget = false,
   isHost = false,
+  audioForceMuted = false,
+  videoForceMuted = false,
   className = ""
 }: VideoFeedProps) {
+  const { t } = useLocale();
   const videoRef = useRef<HTMLVideoElement>(null);
   const maximizedVideoRef = useRef<HTMLVideoElement>(null);
   const [isMaximized, setIsMaximized] = useState(false);
@@ -152,7 +160,11 @@ export function VideoFeed({
   }, [stream, playerName, isLocal, isMaximized]);
 
   const hasValidStream = stream && stream.active && stream.getVideoTracks().length > 0;
-  const shouldShowVideo = videoEnabled && hasValidStream && !videoError;
+  // A force-muted feed stays silent or blank here even if the sender ignores the mute
+  const shouldShowVideo = videoEnabled && !videoForceMuted && hasValidStream && !videoError;
+  const isSilenced = isLocal || audioForceMuted;
+  const showMicOff = !audioEnabled || audioForceMuted;
+  const showVideoOff = !videoEnabled || videoForceMuted;
   const isConnected = hasValidStream;
 
   const getInitials = (name: string) => {
@@ -221,7 +233,7 @@ export function VideoFeed({
               ref={maximizedVideoRef}
               autoPlay
               playsInline
-              muted={isLocal}
+              muted={isSilenced}
               className="w-full h-full object-cover"
             />
           ) : (
@@ -266,15 +278,27 @@ export function VideoFeed({
                 </div>
               )}
 
+              {isPromptTarget && (
+                <div className="flex items-center space-x-1 bg-cyan-500/90 backdrop-blur-sm px-3 py-2 rounded-full">
+                  <span className="text-white text-sm font-semibold">{t('board.answering')}</span>
+                </div>
+              )}
+
               <div className="flex items-center space-x-1">
-                {!audioEnabled && (
-                  <div className="w-8 h-8 bg-red-500/90 backdrop-blur-sm rounded-full flex items-center justify-center">
+                {showMicOff && (
+                  <div
+                    className={`w-8 h-8 ${audioForceMuted ? 'bg-amber-500/90' : 'bg-red-500/90'} backdrop-blur-sm rounded-full flex items-center justify-center`}
+                    title={audioForceMuted ? t('moderation.mutedByHost') : undefined}
+                  >
                     <MicOff size={16} className="text-white" />
                   </div>
                 )}
                 
-                {!videoEnabled && (
-                  <div className="w-8 h-8 bg-red-500/90 backdrop-blur-sm rounded-full flex items-center justify-center">
+                {showVideoOff && (
+                  <div
+                    className={`w-8 h-8 ${videoForceMuted ? 'bg-amber-500/90' : 'bg-red-500/90'} backdrop-blur-sm rounded-full flex items-center justify-center`}
+                    title={videoForceMuted ? t('moderation.cameraOffByHost') : undefined}
+                  >
                     <VideoOff size={16} className="text-white" />
                   </div>
                 )}
@@ -289,7 +313,7 @@ export function VideoFeed({
   return (
     <motion.div 
       className={`relative rounded-2xl overflow-hidden bg-gradient-to-br from-gray-900 to-gray-800 shadow-xl cursor-pointer group ${className} ${
-        isCurrentPlayer ? 'ring-4 ring-yellow-400 ring-opacity-75' : ''
+        isCurrentPlayer ? 'ring-4 ring-yellow-400 ring-opacity-75' : isPromptTarget ? 'ring-4 ring-cyan-400 ring-opacity-75' : ''
       }`}
       initial={{ scale: 0.8, opacity: 0 }}
       animate={{ scale: 1, opacity: 1 }}
@@ -304,7 +328,7 @@ export function VideoFeed({
           ref={videoRef}
           autoPlay
           playsInline
-          muted={isLocal}
+          muted={isSilenced}
           className="w-full h-full object-cover"
         />
       ) : (
@@ -356,6 +380,16 @@ export function VideoFeed({
               <span className="text-white text-xs font-semibold">Turn</span>
             </motion.div>
           )}
+
+          {isPromptTarget && (
+            <motion.div 
+              className="flex items-center space-x-1 bg-cyan-500/90 backdrop-blur-sm px-1.5 py-0.5 rounded-full"
+              animate={{ opacity: [0.7, 1, 0.7] }}
+              transition={{ duration: 2, repeat: Infinity }}
+            >
+              <span className="text-white text-xs font-semibold">{t('board.answering')}</span>
+            </motion.div>
+          )}
         </div>
 
         {/* Connection status indicator */}
@@ -402,9 +436,10 @@ export function VideoFeed({
         
         <div className="flex items-center space-x-1">
           <AnimatePresence>
-            {!audioEnabled && (
+            {showMicOff && (
               <motion.div 
-                className="w-5 h-5 md:w-6 md:h-6 bg-red-500/90 backdrop-blur-sm rounded-full flex items-center justify-center"
+                className={`w-5 h-5 md:w-6 md:h-6 ${audioForceMuted ? 'bg-amber-500/90' : 'bg-red-500/90'} backdrop-blur-sm rounded-full flex items-center justify-center`}
+                title={audioForceMuted ? t('moderation.mutedByHost') : undefined}
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
                 exit={{ scale: 0 }}
@@ -413,9 +448,10 @@ export function VideoFeed({
               </motion.div>
             )}
             
-            {!videoEnabled && (
+            {showVideoOff && (
               <motion.div 
-                className="w-5 h-5 md:w-6 md:h-6 bg-red-500/90 backdrop-blur-sm rounded-full flex items-center justify-center"
+                className={`w-5 h-5 md:w-6 md:h-6 ${videoForceMuted ? 'bg-amber-500/90' : 'bg-red-500/90'} backdrop-blur-sm rounded-full flex items-center justify-center`}
+                title={videoForceMuted ? t('moderation.cameraOffByHost') : undefined}
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
                 exit={{ scale: 0 }}
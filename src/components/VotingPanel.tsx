@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Star, CheckCircle2, Hourglass } from 'lucide-react';
+import { GameState } from '../types/game';
+import { MIN_RATING, MAX_RATING, onSameTeam } from '../lib/gameRules';
+import { useLocale } from './LocaleProvider';
+
+interface VotingPanelProps {
+  gameState: GameState;
+  currentPlayerId: string;
+  awaitingRating: boolean; // The active player has played and not yet ended their answer
+  onEndAnswer: () => void;
+  onCastVote: (rating: number) => void;
+}
+
+const RATINGS = Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, index) => MIN_RATING + index);
+
+// Holds still while the game is paused
+function useSecondsLeft(deadline?: number, pausedAt?: number): number {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline || pausedAt !== undefined) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [deadline, pausedAt]);
+
+  return deadline ? Math.max(0, Math.ceil((deadline - (pausedAt ?? now)) / 1000)) : 0;
+}
+
+export function VotingPanel({ gameState, currentPlayerId, awaitingRating, onEndAnswer, onCastVote }: VotingPanelProps) {
+  const { t } = useLocale();
+  const [hoverRating, setHoverRating] = useState(0);
+  const { voting } = gameState;
+  const secondsLeft = useSecondsLeft(voting?.deadline, gameState.pausedAt);
+
+  const activePlayer = gameState.players[gameState.currentPlayerIndex];
+
+  if (awaitingRating) {
+    if (!activePlayer || !onSameTeam(gameState, activePlayer.id, currentPlayerId)) {
+      return null;
+    }
+
+    return (
+      <motion.button
+        onClick={onEndAnswer}
+        className="w-full flex items-center justify-center space-x-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold text-sm rounded-xl p-2 mb-2 md:mb-3 hover:from-indigo-700 hover:to-purple-700 focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        whileTap={{ scale: 0.97 }}
+        title={t('voting.endAnswerHint')}
+      >
+        <CheckCircle2 size={16} />
+        <span>{t('voting.endAnswer')}</span>
+      </motion.button>
+    );
+  }
+
+  if (gameState.gamePhase !== 'voting' || !voting) {
+    return null;
+  }
+
+  const answerer = gameState.players.find(p => p.id === voting.answererId);
+  // Teammates of the answerer answered with them and don't vote; nor do
+  // facilitators, or spectators, who have no seat at all
+  const voterCount = gameState.players.filter(p => p.role !== 'facilitator' && !onSameTeam(gameState, p.id, voting.answererId)).length;
+  const canVote = gameState.players.some(p => p.id === currentPlayerId && p.role !== 'facilitator');
+  const votedCount = Object.keys(voting.votes).length;
+  const hasVoted = currentPlayerId in voting.votes;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="bg-gradient-to-r from-amber-500/20 to-yellow-500/20 border border-amber-500/30 rounded-xl p-2 md:p-3 mb-2 md:mb-3"
+      role="region"
+      aria-label={t('voting.title')}
+    >
+      <div className="flex items-center justify-between text-amber-200 text-xs mb-1">
+        <span>{t('voting.progress', { count: votedCount, total: voterCount })}</span>
+        <span className="flex items-center space-x-1">
+          <Hourglass size={12} />
+          <span>{t('voting.timeLeft', { count: secondsLeft })}</span>
+        </span>
+      </div>
+
+      {onSameTeam(gameState, voting.answererId, currentPlayerId) ? (
+        <p className="text-center text-amber-100 font-semibold text-sm">{t('voting.beingRated')}</p>
+      ) : !canVote ? (
+        <p className="text-center text-amber-100 font-semibold text-sm">{t('voting.othersRating', { name: answerer?.name ?? '' })}</p>
+      ) : hasVoted ? (
+        <p className="text-center text-amber-100 font-semibold text-sm">{t('voting.thanks')}</p>
+      ) : (
+        <div className="text-center">
+          <p className="text-amber-100 font-semibold text-sm mb-1">
+            {t('voting.prompt', { name: answerer?.name ?? '' })}
+          </p>
+          <div className="flex items-center justify-center space-x-1" onMouseLeave={() => setHoverRating(0)}>
+            {RATINGS.map(rating => (
+              <button
+                key={rating}
+                onClick={() => onCastVote(rating)}
+                onMouseEnter={() => setHoverRating(rating)}
+                onFocus={() => setHoverRating(rating)}
+                className="p-1 rounded focus:outline-none focus:ring-2 focus:ring-amber-400"
+                aria-label={t('voting.rate', { rating, max: MAX_RATING })}
+              >
+                <Star
+                  size={24}
+                  className={rating <= hoverRating ? 'text-amber-400 fill-amber-400' : 'text-amber-200/60'}
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
-import { Card } from '../types/game';
+import { ActionCardType, Card, CardPack, PType } from '../types/game';
+import { shuffle } from '../lib/random';
 
-const cardPrompts = {
+const cardPrompts: CardPack['prompts'] = {
   Purpose: [
     "What's your main motivation for doing what you do?",
     "What gives your life meaning and direction?",
@@ -63,32 +64,69 @@ const cardPrompts = {
   ]
 };
 
-export function createDeck(): Card[] {
+export const CARD_TYPES: PType[] = ['Purpose', 'Problems', 'Prognosis', 'Plan', 'Perform'];
+
+export const CARD_COLORS: Record<PType, string> = {
+  Purpose: '#8B5CF6',
+  Problems: '#EF4444',
+  Prognosis: '#06B6D4',
+  Plan: '#10B981',
+  Perform: '#F59E0B'
+};
+
+export const ACTION_CARD_TYPES: ActionCardType[] = ['Wild', 'Skip', 'Reverse', 'AskAnyone'];
+
+// Added once per deck, whatever packs it is built from
+const actionCards: Record<ActionCardType, { count: number; prompt: string; color: string }> = {
+  Wild: { count: 3, prompt: 'Counts as any one P towards a winning hand', color: '#64748B' },
+  Skip: { count: 2, prompt: 'The next player misses their turn', color: '#475569' },
+  Reverse: { count: 2, prompt: 'Play passes the other way round the table', color: '#475569' },
+  AskAnyone: { count: 2, prompt: 'Choose who answers your prompts this turn', color: '#475569' }
+};
+
+// Narrows to the cards that carry a question for one of the five P's
+export function isPromptCard(card: Card): card is Card & { type: PType } {
+  return (CARD_TYPES as string[]).includes(card.type);
+}
+
+export const DEFAULT_CARD_PACK: CardPack = {
+  id: 'classic',
+  name: "5P's Classic",
+  description: 'The original Olubox Live prompts',
+  prompts: cardPrompts
+};
+
+// The classic pack keeps its original ids (e.g. Purpose-3); other packs are
+// namespaced by pack id so cards from different packs never collide
+function cardId(pack: CardPack, type: PType, index: number): string {
+  return pack.id === DEFAULT_CARD_PACK.id ? `${type}-${index}` : `${pack.id}:${type}-${index}`;
+}
+
+export function createDeck(seed: number, packs: CardPack[] = [DEFAULT_CARD_PACK], includeActionCards: boolean = false): Card[] {
   const deck: Card[] = [];
-  const colors = {
-    Purpose: '#8B5CF6',
-    Problems: '#EF4444', 
-    Prognosis: '#06B6D4',
-    Plan: '#10B981',
-    Perform: '#F59E0B'
-  };
 
-  Object.entries(cardPrompts).forEach(([type, prompts]) => {
-    prompts.forEach((prompt, index) => {
-      deck.push({
-        id: `${type}-${index}`,
-        type: type as Card['type'],
-        prompt,
-        color: colors[type as keyof typeof colors]
+  packs.forEach(pack => {
+    CARD_TYPES.forEach(type => {
+      (pack.prompts[type] || []).forEach((prompt, index) => {
+        deck.push({
+          id: cardId(pack, type, index),
+          type,
+          prompt,
+          color: pack.colors?.[type] ?? CARD_COLORS[type]
+        });
       });
     });
   });
 
-  // Shuffle the deck
-  for (let i = deck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]];
+  if (includeActionCards) {
+    ACTION_CARD_TYPES.forEach(type => {
+      const { count, prompt, color } = actionCards[type];
+      for (let index = 0; index < count; index++) {
+        deck.push({ id: `${type}-${index}`, type, prompt, color });
+      }
+    });
   }
 
-  return deck;
+  // Shuffle the deck
+  return shuffle(deck, seed);
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { TeamId } from '../types/game';
+
+// Badge colours for each team, shared by the lobby and the board
+export const TEAM_COLORS: Record<TeamId, string> = {
+  red: 'bg-red-500 text-white',
+  blue: 'bg-blue-500 text-white',
+  green: 'bg-emerald-500 text-white',
+  gold: 'bg-amber-400 text-amber-950'
+};
\ No newline at end of file
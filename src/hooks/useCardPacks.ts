@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CardPack } from '../types/game';
+import { DEFAULT_CARD_PACK } from '../data/cards';
+import { CardPackService } from '../lib/cardPackService';
+import { CardPackDraft } from '../lib/cardPackFormat';
+import { useAuthContext } from '../components/AuthProvider';
+
+interface CardPacksState {
+  packs: CardPack[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useCardPacks() {
+  const { user } = useAuthContext();
+  const [state, setState] = useState<CardPacksState>({
+    packs: [DEFAULT_CARD_PACK],
+    isLoading: false,
+    error: null
+  });
+
+  const refresh = useCallback(async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const packs = await CardPackService.listCardPacks(user?.id);
+      setState({ packs, isLoading: false, error: null });
+    } catch (error) {
+      console.error('Error loading card packs:', error);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load card packs'
+      }));
+    }
+  }, [user?.id]);
+
+  const savePack = useCallback(async (pack: CardPackDraft): Promise<CardPack> => {
+    if (!user?.id) {
+      throw new Error('Create a profile to author card packs');
+    }
+
+    const saved = await CardPackService.saveCardPack(pack, user.id);
+    setState(prev => ({
+      ...prev,
+      packs: prev.packs.some(p => p.id === saved.id)
+        ? prev.packs.map(p => (p.id === saved.id ? saved : p))
+        : [...prev.packs, saved]
+    }));
+    return saved;
+  }, [user?.id]);
+
+  const deletePack = useCallback(async (packId: string) => {
+    await CardPackService.deleteCardPack(packId);
+    setState(prev => ({ ...prev, packs: prev.packs.filter(p => p.id !== packId) }));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    ...state,
+    refresh,
+    savePack,
+    deletePack
+  };
+}
\ No newline at end of file
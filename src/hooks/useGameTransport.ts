@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { GameTransport } from '../lib/gameTransport';
+import { HttpTransport } from '../lib/httpTransport';
+import { SocketTransport } from '../lib/socketTransport';
+import { getAccessToken } from '../lib/supabase';
+
+const DEFAULT_SERVER_URL = 'http://localhost:3001'; // Where `npm run server` starts looking for a free port
+
+// VITE_GAME_TRANSPORT picks the backend: 'socket' for the self-hosted server
+// at VITE_GAME_SERVER_URL, 'netlify' for the game-api function, and anything
+// else for the supabase-game-api function, which keeps games in the database
+function createGameTransport(): GameTransport {
+  switch (import.meta.env.VITE_GAME_TRANSPORT) {
+    case 'socket':
+      return new SocketTransport(import.meta.env.VITE_GAME_SERVER_URL || DEFAULT_SERVER_URL, getAccessToken);
+    case 'netlify':
+      return new HttpTransport('game-api', getAccessToken);
+    default:
+      return new HttpTransport('supabase-game-api', getAccessToken);
+  }
+}
+
+// One transport for the lifetime of the app, connected while it is mounted
+export function useGameTransport() {
+  const [transport] = useState(createGameTransport);
+  const [isConnected, setIsConnected] = useState(transport.isConnected);
+
+  useEffect(() => {
+    transport.onConnectionChange(setIsConnected);
+    transport.connect();
+
+    return () => {
+      transport.close();
+    };
+  }, [transport]);
+
+  return { transport, isConnected };
+}
\ No newline at end of file
@@ -46,6 +46,16 @@ export function useServerlessWebRTC(gameId?: string, playerId?: string) {
     }
   };
 
+  // Spectators send nothing: an empty stream still lets them call everyone
+  // and receive their cameras, without asking for a camera of their own
+  const startWatching = () => {
+    const stream = new MediaStream();
+    setLocalStream(stream);
+    setVideoEnabled(false);
+    setAudioEnabled(false);
+    return stream;
+  };
+
   const toggleVideo = () => {
     if (localStream) {
       const videoTrack = localStream.getVideoTracks()[0];
@@ -592,6 +602,7 @@ export function useServerlessWebRTC(gameId?: string, playerId?: string) {
     videoEnabled,
     audioEnabled,
     startLocalStream,
+    startWatching,
     toggleVideo,
     toggleAudio,
     initiateCall,
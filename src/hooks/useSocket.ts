@@ -1,29 +0,0 @@
-import { useEffect, useRef, useState } from 'react';
-import { io, Socket } from 'socket.io-client';
-
-export function useSocket(url: string) {
-  const [isConnected, setIsConnected] = useState(false);
-  const socketRef = useRef<Socket | null>(null);
-
-  useEffect(() => {
-    const socket = io(url);
-    socketRef.current = socket;
-
-    socket.on('connect', () => {
-      setIsConnected(true);
-    });
-
-    socket.on('disconnect', () => {
-      setIsConnected(false);
-    });
-
-    return () => {
-      socket.disconnect();
-    };
-  }, [url]);
-
-  return {
-    socket: socketRef.current,
-    isConnected
-  };
-}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 
 interface TurnTimerState {
   timeRemaining: number;
@@ -6,11 +6,13 @@ interface TurnTimerState {
   hasExpired: boolean;
 }
 
+// Display-only countdown to the server's turn deadline. The backend advances
+// the turn itself when the deadline passes, so nothing here changes the game.
+// While the game is paused the countdown holds at the time left at pausedAt.
 export function useTurnTimer(
-  isMyTurn: boolean,
   turnStartTime?: number,
   turnTimeLimit: number = 30000, // 30 seconds in milliseconds
-  onTurnExpired?: () => void
+  pausedAt?: number
 ) {
   const [state, setState] = useState<TurnTimerState>({
     timeRemaining: turnTimeLimit,
@@ -19,104 +21,50 @@ export function useTurnTimer(
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const hasExpiredRef = useRef(false);
 
-  const startTimer = useCallback((startTime?: number) => {
-    const now = Date.now();
-    const actualStartTime = startTime || now;
-    const elapsed = now - actualStartTime;
-    const remaining = Math.max(0, turnTimeLimit - elapsed);
-
-    setState({
-      timeRemaining: remaining,
-      isActive: true,
-      hasExpired: false
-    });
-
-    hasExpiredRef.current = false;
-
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
+  useEffect(() => {
+    if (!turnStartTime) {
+      setState({
+        timeRemaining: turnTimeLimit,
+        isActive: false,
+        hasExpired: false
+      });
+      return;
     }
 
-    intervalRef.current = setInterval(() => {
-      const currentTime = Date.now();
-      const elapsedTime = currentTime - actualStartTime;
-      const remainingTime = Math.max(0, turnTimeLimit - elapsedTime);
+    const deadline = turnStartTime + turnTimeLimit;
 
-      setState(prev => ({
-        ...prev,
-        timeRemaining: remainingTime
-      }));
+    const tick = () => {
+      const remainingTime = Math.max(0, deadline - (pausedAt ?? Date.now()));
 
-      if (remainingTime <= 0 && !hasExpiredRef.current) {
-        hasExpiredRef.current = true;
-        setState(prev => ({
-          ...prev,
-          isActive: false,
-          hasExpired: true
-        }));
-        
-        if (onTurnExpired) {
-          onTurnExpired();
-        }
-        
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-      }
-    }, 100); // Update every 100ms for smooth countdown
-  }, [turnTimeLimit, onTurnExpired]);
-
-  const stopTimer = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    setState({
-      timeRemaining: turnTimeLimit,
-      isActive: false,
-      hasExpired: false
-    });
-    hasExpiredRef.current = false;
-  }, [turnTimeLimit]);
-
-  const resetTimer = useCallback((startTime?: number) => {
-    stopTimer();
-    if (isMyTurn) {
-      startTimer(startTime);
-    }
-  }, [isMyTurn, startTimer, stopTimer]);
+      setState({
+        timeRemaining: remainingTime,
+        isActive: remainingTime > 0,
+        hasExpired: remainingTime <= 0
+      });
 
-  // Start/stop timer based on turn state
-  useEffect(() => {
-    if (isMyTurn && turnStartTime) {
-      startTimer(turnStartTime);
-    } else {
-      stopTimer();
-    }
-
-    return () => {
-      if (intervalRef.current) {
+      // Keep showing "time's up" until the server's new turn arrives
+      if (remainingTime <= 0 && intervalRef.current) {
         clearInterval(intervalRef.current);
+        intervalRef.current = null;
       }
     };
-  }, [isMyTurn, turnStartTime, startTimer, stopTimer]);
 
-  // Cleanup on unmount
-  useEffect(() => {
+    tick();
+    if (pausedAt !== undefined) return;
+
+    intervalRef.current = setInterval(tick, 100); // Update every 100ms for smooth countdown
+
     return () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
+        intervalRef.current = null;
       }
     };
-  }, []);
+  }, [turnStartTime, turnTimeLimit, pausedAt]);
 
   return {
     ...state,
-    resetTimer,
-    stopTimer,
     progress: state.timeRemaining / turnTimeLimit, // 0 to 1
     formattedTime: Math.ceil(state.timeRemaining / 1000) // seconds remaining
   };
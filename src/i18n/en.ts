@@ -0,0 +1,316 @@
+// English is the source locale: its keys define MessageKey and every other
+// locale falls back to it. Card prompts come straight from cards.ts.
+
+export const en = {
+  'language.label': 'Language',
+
+  'cardType.Purpose': 'Purpose',
+  'cardType.Problems': 'Problems',
+  'cardType.Prognosis': 'Prognosis',
+  'cardType.Plan': 'Plan',
+  'cardType.Perform': 'Perform',
+  'cardType.Wild': 'Wild',
+  'cardType.Skip': 'Skip',
+  'cardType.Reverse': 'Reverse',
+  'cardType.AskAnyone': 'Ask Anyone',
+  'cardTypeDescription.Purpose': 'Purpose - Your why and motivation',
+  'cardTypeDescription.Problems': 'Problems - Challenges and obstacles',
+  'cardTypeDescription.Prognosis': 'Prognosis - Future outlook and predictions',
+  'cardTypeDescription.Plan': 'Plan - Strategy and next steps',
+  'cardTypeDescription.Perform': 'Perform - Actions and achievements',
+  'cardTypeDescription.Wild': 'Wild - Counts as any one P',
+  'cardTypeDescription.Skip': 'Skip - The next player misses a turn',
+  'cardTypeDescription.Reverse': 'Reverse - Play changes direction',
+  'cardTypeDescription.AskAnyone': 'Ask Anyone - Someone else answers your prompts',
+
+  'home.subtitle': "5P's Card Game",
+  'home.intro': 'Transform conversations into meaningful connections. Play the 5P\'s card game with friends, family, or colleagues through immersive video chat and discover the power of authentic dialogue.',
+  'home.welcomeBack': 'Welcome back!',
+  'home.deeperConnections': 'Build Deeper Connections',
+  'home.meaningfulConversations': 'Spark Meaningful Conversations',
+  'home.faceToFace': 'Connect Face-to-Face',
+  'home.createGame': 'Create New Game',
+  'home.joinGame': 'Join Game',
+  'home.newHere': 'New here?',
+  'home.newHereDetail': "Don't worry! You'll be able to create your profile when you choose to create or join a game.",
+  'home.asFacilitator': 'Facilitate this game',
+  'home.asFacilitatorHint': 'Run the session without a hand or turns',
+  'home.asSpectator': 'Watch as a spectator',
+  'home.asSpectatorHint': 'Follow the game without a hand or a camera',
+  'home.gameCode': 'Game Code',
+  'home.enterCode': 'ENTER CODE',
+  'home.passcode': 'Passcode',
+  'home.passcodePlaceholder': 'Only if the host set one',
+  'home.invited': 'You have been invited to room {code}',
+  'home.back': 'Back',
+  'home.connecting': 'Connecting...',
+  'home.featureConversationsTitle': 'Meaningful Conversations',
+  'home.featureConversationsDescription': 'Spark deep discussions with thoughtfully crafted prompts that reveal authentic stories',
+  'home.featureConnectionTitle': 'Face-to-Face Connection',
+  'home.featureConnectionDescription': 'Experience genuine human connection through high-quality video chat while you play',
+  'home.featureSimpleTitle': 'Simple Yet Profound',
+  'home.featureSimpleDescription': 'Easy-to-learn rules that create space for life-changing conversations and insights',
+
+  'lobby.title': 'Game Lobby',
+  'lobby.subtitle': 'Get ready for meaningful conversations',
+  'lobby.playerCount': '{count}/{max} Players',
+  'lobby.connected': 'Connected',
+  'lobby.roomCode': 'Room Code:',
+  'lobby.copyRoomCode': 'Copy room code',
+  'lobby.waitingForPlayer': 'Waiting for player...',
+  'lobby.muteMicrophone': 'Mute microphone',
+  'lobby.unmuteMicrophone': 'Unmute microphone',
+  'lobby.cameraOff': 'Turn off camera',
+  'lobby.cameraOn': 'Turn on camera',
+  'lobby.startGame': 'Start Game',
+  'lobby.waitingForHost': 'Waiting for host to start the game...',
+  'lobby.makeFacilitator': 'Make {name} a facilitator',
+  'lobby.makePlayer': 'Give {name} a hand again',
+  'lobby.awaitingApproval': 'Waiting for the host to let you in...',
+  'lobby.awaitingApprovalHint': 'The host or a facilitator will see your request in the lobby.',
+  'lobby.howToPlay': 'How to Play',
+  'lobby.goalLabel': 'Goal:',
+  'lobby.goal': "Collect all 5 P's (Purpose, Problems, Prognosis, Plan, Perform)",
+  'lobby.turnLabel': 'Turn:',
+  'lobby.turn': 'Play a card and discuss the prompt with everyone',
+  'lobby.drawLabel': 'Draw:',
+  'lobby.draw': 'Take a new card from the deck after discussion',
+  'lobby.winLabel': 'Win:',
+  'lobby.win': "First player to collect all 5 P's wins!",
+
+  'board.title': 'Card Game Table',
+  'board.congratulations': 'Congratulations!',
+  'board.gameOver': 'Game Over',
+  'board.noWinner': 'The deck ran out. No winner this time!',
+  'board.completedSet': "completed all 5 P's!",
+  'board.mostTypes': "held the most P's when the deck ran out!",
+  'board.tie': "It's a tie!",
+  'board.completedSets': 'completed {count} winning hands!',
+  'board.highestScore': 'finished with the highest score!',
+  'board.leaderboard': 'Leaderboard',
+  'board.points': '{count} pts',
+  'board.sets': '{count} sets',
+  'board.startNewGame': 'Start a new game',
+  'board.playAgain': 'Play Again',
+  'board.reset': 'Reset',
+  'board.enableAutoTts': 'Enable auto TTS',
+  'board.disableAutoTts': 'Disable auto TTS',
+  'board.toggleAutoTts': 'Toggle auto text-to-speech',
+  'board.enableSummarization': 'Enable summarization',
+  'board.disableSummarization': 'Disable summarization',
+  'board.toggleSummarization': 'Toggle AI summarization',
+  'board.playCurrentPrompt': 'Play current prompt with TTS',
+  'board.playCurrentPromptTitle': 'Play current prompt',
+  'board.showVideo': 'Show video feeds',
+  'board.hideVideo': 'Hide video feeds',
+  'board.toggleVideo': 'Toggle video feeds (V)',
+  'board.showInstructions': 'Show game instructions',
+  'board.hideInstructions': 'Hide game instructions',
+  'board.toggleInstructions': 'Toggle instructions (?)',
+  'board.aiFeaturesError': 'AI Features: {error}',
+  'board.dismissError': 'Dismiss error',
+  'board.instructionsTitle': 'Game Instructions & Keyboard Shortcuts',
+  'board.closeInstructions': 'Close instructions',
+  'board.howToPlay': 'How to Play:',
+  'board.ruleGoal': "Goal: Collect all 5 P's (Purpose, Problems, Prognosis, Plan, Perform)",
+  'board.ruleTurn': 'On your turn: Play a card and discuss the prompt (30 seconds)',
+  'board.ruleDraw': 'After discussion: Draw a new card',
+  'board.ruleWin': "First to collect all 5 P's wins!",
+  'board.featuresAndShortcuts': 'Features & Shortcuts:',
+  'board.shortcutVideo': 'Toggle video feeds',
+  'board.shortcutHelp': 'Show this help',
+  'board.shortcutPlay': 'Play selected card',
+  'board.shortcutCancel': 'Cancel selection',
+  'board.featureTimer': '30-second turn timer with auto-advance',
+  'board.featureTts': 'AI TTS reads prompts aloud automatically',
+  'board.lastPlayed': 'Last Played',
+  'board.empty': 'Empty',
+  'board.drawPile': 'Draw Pile ({count})',
+  'board.cards': 'cards',
+  'board.draw': 'Draw',
+  'board.playFirst': 'Play first',
+  'board.takeDiscard': 'Take {type}',
+  'board.takeDiscardHint': 'Take this discard instead of drawing: {prompt}',
+  'board.you': 'You',
+  'board.readyToDraw': 'Ready to draw!',
+  'board.playToContinue': 'Play a card to continue',
+  'board.waitingForTurn': "Waiting for {name}'s turn",
+  'board.answeredBy': "{name} answers this turn's prompts",
+  'board.answering': 'Answering',
+  'board.reversed': 'Play is going the other way',
+  'board.conversationStarter': 'Conversation Starter',
+  'board.playPrompt': 'Play prompt with TTS',
+  'board.aiSummary': 'AI Summary: {summary}',
+  'board.yourHand': 'Your Hand ({count} cards)',
+  'board.yourTurn': 'Your Turn',
+  'board.noCards': 'No cards in hand',
+  'board.cardLabel': '{type} card: {prompt}...',
+  'board.selectedCard': 'Selected Card',
+  'board.cancel': 'Cancel',
+  'board.playing': 'Playing...',
+  'board.playCard': 'Play Card',
+  'board.askWho': 'Who should answer your prompts?',
+  'board.choosePlayer': 'Choose a player',
+  'board.answerMyself': 'I will answer',
+  'board.promptFor': 'For {name}: {prompt}',
+  'board.paused': 'Game paused — the clock is stopped',
+  'board.wildHint': 'Wild cards stay in your hand and count as any one P',
+
+  'announce.newPrompt': 'New conversation prompt: {prompt}...',
+  'announce.yourTurn': "It's your turn to play a card",
+  'announce.playerTurn': "It's {name}'s turn",
+  'announce.playingCard': 'Playing {type} card: {prompt}...',
+  'announce.playFailed': 'Failed to play card. Please try again.',
+  'announce.cardSelected': 'Selected {type} card. Press Enter to play or Escape to cancel.',
+  'announce.playBeforeDraw': 'You must play a card before drawing!',
+  'announce.drawing': 'Drawing a new card from the deck',
+  'announce.drawingDiscard': 'Taking a card from the discard pile',
+  'announce.reshuffling': 'Deck is empty. Reshuffling the played cards',
+  'announce.deckEnding': 'Deck is empty. The game is ending',
+  'announce.nothingToDraw': 'No cards left to draw. Your turn passes',
+  'announce.selectionCancelled': 'Card selection cancelled',
+  'announce.videoHidden': 'Video feeds hidden',
+  'announce.videoShown': 'Video feeds shown',
+  'announce.progressHidden': 'Progress panel hidden',
+  'announce.progressShown': 'Progress panel shown',
+  'announce.instructionsOpened': 'Game instructions opened',
+
+  'timer.timesUp': "Time's Up!",
+  'timer.switchingTurn': 'Turn will switch automatically',
+  'timer.yourTurn': 'Your Turn',
+  'timer.hurry': 'Hurry up!',
+  'timer.runningOut': 'Time running out...',
+  'timer.playToContinue': 'Play a card to continue',
+  'timer.waiting': 'Waiting...',
+  'timer.otherTurn': "Other player's turn",
+
+  'settings.title': 'Game Settings',
+  'settings.turnLength': 'Turn length',
+  'settings.seconds': '{count}s',
+  'settings.handSize': 'Starting hand',
+  'settings.maxPlayers': 'Max players',
+  'settings.winningHand': 'Cards needed to win',
+  'settings.mustPlayBeforeDraw': 'Play a card before drawing',
+  'settings.turnLengthValue': '{count}s per turn',
+  'settings.handSizeValue': '{count} cards per hand',
+  'settings.maxPlayersValue': 'Up to {count} players',
+  'settings.drawAnyTime': 'Draw any time',
+  'settings.scoringMode': 'Scoring',
+  'settings.scoringMode.single-set': 'First to complete a hand',
+  'settings.scoringMode.multi-set': 'First to complete several hands',
+  'settings.scoringMode.timed': 'Highest score when time runs out',
+  'settings.setsToWin': 'Hands to win',
+  'settings.gameDuration': 'Game length',
+  'settings.minutes': '{count} min',
+  'settings.peerVoting': 'Players rate each answer (scores use the rating)',
+  'settings.drawFromDiscard': 'Players may take the top discard instead of drawing',
+  'settings.actionCards': 'Add wild, skip, reverse and ask-anyone cards to the deck',
+  'settings.directedPrompts': 'Let players direct prompts to someone else',
+  'settings.teamMode': 'Team mode: teammates share one hand and one turn',
+  'settings.deckExhaustionPolicy': 'When the deck runs out',
+  'settings.deckExhaustionPolicy.reshuffle': 'Reshuffle the played cards',
+  'settings.deckExhaustionPolicy.end-game': 'End the game',
+  'settings.deckExhaustionPolicy.most-types': "Most P's held wins",
+  'settings.turnTimeoutPenalty': 'When a turn runs out',
+  'settings.turnTimeoutPenalty.skip': 'Skip to the next player',
+  'settings.turnTimeoutPenalty.auto-play': 'Play a card for them',
+  'settings.turnTimeoutPenalty.auto-draw': 'Draw a card for them',
+  'voting.title': 'Rate the answer',
+  'voting.progress': '{count}/{total} voted',
+  'voting.timeLeft': '{count}s left',
+  'voting.beingRated': 'The others are rating your answer...',
+  'voting.thanks': 'Thanks! Waiting for the others...',
+  'voting.prompt': "How insightful was {name}'s answer?",
+  'voting.othersRating': 'The players are rating {name}\'s answer...',
+  'voting.rate': 'Rate {rating} of {max}',
+  'voting.endAnswer': 'Done answering',
+  'voting.endAnswerHint': 'Finish your answer so the others can rate it',
+  'voting.result': '{name} earned {points} points (average {average} from {count} votes)',
+  'trade.title': 'Trade',
+  'trade.propose': 'Offer a trade',
+  'trade.with': 'With',
+  'trade.choosePlayer': 'Choose a player',
+  'trade.offer': 'Give',
+  'trade.chooseCard': 'Choose a card',
+  'trade.for': 'for a',
+  'trade.chooseType': 'Choose a type',
+  'trade.send': 'Send offer',
+  'trade.close': 'Close trade offer',
+  'trade.incoming': '{name} offers you a {offered} card for one of your {requested} cards',
+  'trade.give': 'Give: {prompt}',
+  'trade.noMatchingCard': 'You have no {type} card to give',
+  'trade.decline': 'Decline',
+  'trade.waiting': 'Waiting for {name} to answer your offer...',
+  'trade.withdraw': 'Withdraw',
+  'trade.between': '{from} offered {to} a trade',
+  'team.title': 'Teams',
+  'team.hint': 'Teammates share a hand and a turn, and any of them may play for the team. Players without a team play alone.',
+  'team.none': 'No team',
+  'team.choose': 'Team for {name}',
+  'team.red': 'Red',
+  'team.blue': 'Blue',
+  'team.green': 'Green',
+  'team.gold': 'Gold',
+  'facilitator.title': 'Facilitator',
+  'facilitator.pause': 'Pause',
+  'facilitator.resume': 'Resume',
+  'facilitator.badge': 'Facilitator',
+  'facilitator.skipTurn': 'Skip turn',
+  'facilitator.extendTurn': 'Add {count}s',
+  'facilitator.revealPrompt': 'Reveal prompt',
+  'facilitator.choosePlayer': 'Moderate a player…',
+  'facilitator.noHand': 'You are facilitating this game',
+  'moderation.muteMic': "Mute {name}'s microphone",
+  'moderation.allowMic': 'Let {name} unmute',
+  'moderation.stopCamera': "Turn off {name}'s camera",
+  'moderation.allowCamera': 'Let {name} turn their camera on',
+  'moderation.kick': 'Remove {name}',
+  'moderation.ban': 'Ban {name} from this game',
+  'moderation.mutedByHost': 'Muted by host',
+  'moderation.cameraOffByHost': 'Camera off by host',
+  'access.title': 'Room access',
+  'access.passcode': 'Passcode',
+  'access.passcodeSet': 'A passcode is needed to join',
+  'access.noPasscode': 'No passcode',
+  'access.setPasscode': 'Set passcode',
+  'access.removePasscode': 'Remove passcode',
+  'access.passcodeLength': '{min}–{max} characters',
+  'access.requireApproval': 'Approve each person before they join',
+  'access.requireAccount': 'Only let in players signed in to an account',
+  'access.requireAccountHint': 'Bans only keep someone out while this is on.',
+  'access.createInvite': 'Create invite link',
+  'access.inviteHint': 'Each link lets one person in without the passcode or approval.',
+  'access.inviteCopied': 'Link copied',
+  'access.requests': 'Waiting to join',
+  'access.admit': 'Let in',
+  'access.decline': 'Decline',
+  'spectator.watching': 'You are watching this game',
+  'spectator.count': '{count} watching',
+  'reaction.title': 'Reactions',
+  'reaction.send': 'React with {emoji}',
+  'cardPacks.title': 'Card Packs',
+  'cardPacks.selected': 'Card packs:',
+  'cardPacks.import': 'Import',
+  'cardPacks.newPack': 'New Pack',
+  'cardPacks.importFailed': 'Could not import card pack',
+  'cardPacks.dismiss': 'Dismiss',
+  'cardPacks.importRow': 'Row {row}: ',
+  'cardPacks.promptCount': '{count} prompts',
+  'cardPacks.shared': 'Shared',
+  'cardPacks.edit': 'Edit',
+  'cardPacks.editTitle': 'Edit Card Pack',
+  'cardPacks.newTitle': 'New Card Pack',
+  'cardPacks.closeEditor': 'Close editor',
+  'cardPacks.name': 'Pack Name',
+  'cardPacks.namePlaceholder': 'e.g. Career pivot',
+  'cardPacks.description': 'Description',
+  'cardPacks.descriptionPlaceholder': 'Who is this pack for?',
+  'cardPacks.typePrompts': '{type} prompts',
+  'cardPacks.onePerLine': '(one per line)',
+  'cardPacks.share': 'Share this pack with other facilitators',
+  'cardPacks.delete': 'Delete',
+  'cardPacks.cancel': 'Cancel',
+  'cardPacks.save': 'Save Pack',
+  'cardPacks.saveFailed': 'Failed to save card pack',
+  'cardPacks.deleteFailed': 'Failed to delete card pack'
+};
\ No newline at end of file
@@ -0,0 +1,376 @@
+import { LocaleBundle } from './index';
+
+export const es: LocaleBundle = {
+  name: 'Español',
+  messages: {
+    'language.label': 'Idioma',
+
+    'cardType.Purpose': 'Propósito',
+    'cardType.Problems': 'Problemas',
+    'cardType.Prognosis': 'Pronóstico',
+    'cardType.Plan': 'Plan',
+    'cardType.Perform': 'Práctica',
+    'cardType.Wild': 'Comodín',
+    'cardType.Skip': 'Salto',
+    'cardType.Reverse': 'Reversa',
+    'cardType.AskAnyone': 'Pregunta a quien quieras',
+    'cardTypeDescription.Purpose': 'Propósito - Tu porqué y tu motivación',
+    'cardTypeDescription.Problems': 'Problemas - Retos y obstáculos',
+    'cardTypeDescription.Prognosis': 'Pronóstico - Perspectivas y predicciones',
+    'cardTypeDescription.Plan': 'Plan - Estrategia y próximos pasos',
+    'cardTypeDescription.Perform': 'Práctica - Acciones y logros',
+    'cardTypeDescription.Wild': 'Comodín - Cuenta como cualquier P',
+    'cardTypeDescription.Skip': 'Salto - El siguiente jugador pierde su turno',
+    'cardTypeDescription.Reverse': 'Reversa - El juego cambia de sentido',
+    'cardTypeDescription.AskAnyone': 'Pregunta a quien quieras - Otra persona responde tus preguntas',
+
+    'home.subtitle': 'Juego de cartas de las 5P',
+    'home.intro': 'Convierte las conversaciones en conexiones significativas. Juega al juego de cartas de las 5P con amigos, familia o colegas por videollamada y descubre el poder del diálogo auténtico.',
+    'home.welcomeBack': '¡Hola de nuevo!',
+    'home.deeperConnections': 'Crea conexiones más profundas',
+    'home.meaningfulConversations': 'Inspira conversaciones significativas',
+    'home.faceToFace': 'Conecta cara a cara',
+    'home.createGame': 'Crear partida nueva',
+    'home.joinGame': 'Unirse a una partida',
+    'home.newHere': '¿Eres nuevo aquí?',
+    'home.newHereDetail': '¡No te preocupes! Podrás crear tu perfil cuando elijas crear o unirte a una partida.',
+    'home.asFacilitator': 'Dirigir esta partida',
+    'home.asFacilitatorHint': 'Dirige la sesión sin mano ni turnos',
+    'home.asSpectator': 'Mirar como espectador',
+    'home.asSpectatorHint': 'Sigue la partida sin mano ni cámara',
+    'home.gameCode': 'Código de la partida',
+    'home.enterCode': 'INTRODUCE EL CÓDIGO',
+    'home.passcode': 'Contraseña',
+    'home.passcodePlaceholder': 'Solo si el anfitrión puso una',
+    'home.invited': 'Te han invitado a la sala {code}',
+    'home.back': 'Atrás',
+    'home.connecting': 'Conectando...',
+    'home.featureConversationsTitle': 'Conversaciones significativas',
+    'home.featureConversationsDescription': 'Inicia conversaciones profundas con preguntas cuidadosamente elaboradas que revelan historias auténticas',
+    'home.featureConnectionTitle': 'Conexión cara a cara',
+    'home.featureConnectionDescription': 'Vive una conexión humana real mediante videollamadas de alta calidad mientras juegas',
+    'home.featureSimpleTitle': 'Sencillo pero profundo',
+    'home.featureSimpleDescription': 'Reglas fáciles de aprender que abren espacio a conversaciones e ideas que cambian vidas',
+
+    'lobby.title': 'Sala de espera',
+    'lobby.subtitle': 'Prepárate para conversaciones significativas',
+    'lobby.playerCount': '{count}/{max} jugadores',
+    'lobby.connected': 'Conectado',
+    'lobby.roomCode': 'Código de sala:',
+    'lobby.copyRoomCode': 'Copiar código de sala',
+    'lobby.waitingForPlayer': 'Esperando jugador...',
+    'lobby.muteMicrophone': 'Silenciar micrófono',
+    'lobby.unmuteMicrophone': 'Activar micrófono',
+    'lobby.cameraOff': 'Apagar cámara',
+    'lobby.cameraOn': 'Encender cámara',
+    'lobby.startGame': 'Empezar partida',
+    'lobby.waitingForHost': 'Esperando a que el anfitrión empiece la partida...',
+    'lobby.makeFacilitator': 'Hacer a {name} facilitador',
+    'lobby.makePlayer': 'Devolver una mano a {name}',
+    'lobby.awaitingApproval': 'Esperando a que el anfitrión te deje entrar...',
+    'lobby.awaitingApprovalHint': 'El anfitrión o un facilitador verá tu solicitud en la sala.',
+    'lobby.howToPlay': 'Cómo se juega',
+    'lobby.goalLabel': 'Objetivo:',
+    'lobby.goal': 'Reúne las 5P (Propósito, Problemas, Pronóstico, Plan, Práctica)',
+    'lobby.turnLabel': 'Turno:',
+    'lobby.turn': 'Juega una carta y comenta la pregunta con todos',
+    'lobby.drawLabel': 'Robar:',
+    'lobby.draw': 'Toma una carta nueva del mazo después de la conversación',
+    'lobby.winLabel': 'Ganar:',
+    'lobby.win': '¡Gana quien reúna primero las 5P!',
+
+    'board.title': 'Mesa de juego',
+    'board.congratulations': '¡Felicidades!',
+    'board.gameOver': 'Fin de la partida',
+    'board.noWinner': 'Se acabó el mazo. ¡Esta vez no hay ganador!',
+    'board.completedSet': '¡ha reunido las 5P!',
+    'board.mostTypes': 'tenía más P distintas cuando se acabó el mazo.',
+    'board.tie': '¡Empate!',
+    'board.completedSets': 'completó {count} manos ganadoras.',
+    'board.highestScore': 'terminó con la puntuación más alta.',
+    'board.leaderboard': 'Clasificación',
+    'board.points': '{count} pts',
+    'board.sets': '{count} juegos',
+    'board.startNewGame': 'Empezar una partida nueva',
+    'board.playAgain': 'Jugar otra vez',
+    'board.reset': 'Reiniciar',
+    'board.enableAutoTts': 'Activar lectura automática',
+    'board.disableAutoTts': 'Desactivar lectura automática',
+    'board.toggleAutoTts': 'Activar o desactivar la lectura automática',
+    'board.enableSummarization': 'Activar resumen',
+    'board.disableSummarization': 'Desactivar resumen',
+    'board.toggleSummarization': 'Activar o desactivar el resumen con IA',
+    'board.playCurrentPrompt': 'Leer en voz alta la pregunta actual',
+    'board.playCurrentPromptTitle': 'Leer la pregunta actual',
+    'board.showVideo': 'Mostrar vídeos',
+    'board.hideVideo': 'Ocultar vídeos',
+    'board.toggleVideo': 'Mostrar u ocultar vídeos (V)',
+    'board.showInstructions': 'Mostrar instrucciones',
+    'board.hideInstructions': 'Ocultar instrucciones',
+    'board.toggleInstructions': 'Mostrar u ocultar instrucciones (?)',
+    'board.aiFeaturesError': 'Funciones de IA: {error}',
+    'board.dismissError': 'Cerrar error',
+    'board.instructionsTitle': 'Instrucciones y atajos de teclado',
+    'board.closeInstructions': 'Cerrar instrucciones',
+    'board.howToPlay': 'Cómo se juega:',
+    'board.ruleGoal': 'Objetivo: reúne las 5P (Propósito, Problemas, Pronóstico, Plan, Práctica)',
+    'board.ruleTurn': 'En tu turno: juega una carta y comenta la pregunta (30 segundos)',
+    'board.ruleDraw': 'Después de la conversación: roba una carta nueva',
+    'board.ruleWin': '¡Gana quien reúna primero las 5P!',
+    'board.featuresAndShortcuts': 'Funciones y atajos:',
+    'board.shortcutVideo': 'Mostrar u ocultar vídeos',
+    'board.shortcutHelp': 'Mostrar esta ayuda',
+    'board.shortcutPlay': 'Jugar la carta seleccionada',
+    'board.shortcutCancel': 'Cancelar la selección',
+    'board.featureTimer': 'Temporizador de 30 segundos con avance automático',
+    'board.featureTts': 'La IA lee las preguntas en voz alta automáticamente',
+    'board.lastPlayed': 'Última jugada',
+    'board.empty': 'Vacío',
+    'board.drawPile': 'Mazo ({count})',
+    'board.cards': 'cartas',
+    'board.draw': 'Robar',
+    'board.playFirst': 'Juega primero',
+    'board.takeDiscard': 'Tomar {type}',
+    'board.takeDiscardHint': 'Toma este descarte en lugar de robar: {prompt}',
+    'board.you': 'Tú',
+    'board.readyToDraw': '¡Listo para robar!',
+    'board.playToContinue': 'Juega una carta para continuar',
+    'board.waitingForTurn': 'Esperando el turno de {name}',
+    'board.answeredBy': '{name} responde las preguntas de este turno',
+    'board.answering': 'Responde',
+    'board.reversed': 'El juego va en sentido contrario',
+    'board.conversationStarter': 'Para empezar a conversar',
+    'board.playPrompt': 'Leer la pregunta en voz alta',
+    'board.aiSummary': 'Resumen de la IA: {summary}',
+    'board.yourHand': 'Tu mano ({count} cartas)',
+    'board.yourTurn': 'Tu turno',
+    'board.noCards': 'No tienes cartas',
+    'board.cardLabel': 'Carta de {type}: {prompt}...',
+    'board.selectedCard': 'Carta seleccionada',
+    'board.cancel': 'Cancelar',
+    'board.playing': 'Jugando...',
+    'board.playCard': 'Jugar carta',
+    'board.askWho': '¿Quién debe responder tus preguntas?',
+    'board.choosePlayer': 'Elige un jugador',
+    'board.answerMyself': 'Responderé yo',
+    'board.promptFor': 'Para {name}: {prompt}',
+    'board.paused': 'Partida en pausa: el reloj está detenido',
+    'board.wildHint': 'Los comodines se quedan en tu mano y cuentan como cualquier P',
+
+    'announce.newPrompt': 'Nueva pregunta: {prompt}...',
+    'announce.yourTurn': 'Es tu turno de jugar una carta',
+    'announce.playerTurn': 'Es el turno de {name}',
+    'announce.playingCard': 'Jugando carta de {type}: {prompt}...',
+    'announce.playFailed': 'No se pudo jugar la carta. Inténtalo de nuevo.',
+    'announce.cardSelected': 'Carta de {type} seleccionada. Pulsa Intro para jugarla o Escape para cancelar.',
+    'announce.playBeforeDraw': '¡Tienes que jugar una carta antes de robar!',
+    'announce.drawing': 'Robando una carta nueva del mazo',
+    'announce.drawingDiscard': 'Tomando una carta de la pila de descarte',
+    'announce.reshuffling': 'El mazo está vacío. Barajando las cartas jugadas',
+    'announce.deckEnding': 'El mazo está vacío. La partida termina',
+    'announce.nothingToDraw': 'No quedan cartas para robar. Pasa tu turno',
+    'announce.selectionCancelled': 'Selección de carta cancelada',
+    'announce.videoHidden': 'Vídeos ocultos',
+    'announce.videoShown': 'Vídeos visibles',
+    'announce.progressHidden': 'Panel de progreso oculto',
+    'announce.progressShown': 'Panel de progreso visible',
+    'announce.instructionsOpened': 'Instrucciones abiertas',
+
+    'timer.timesUp': '¡Se acabó el tiempo!',
+    'timer.switchingTurn': 'El turno cambiará automáticamente',
+    'timer.yourTurn': 'Tu turno',
+    'timer.hurry': '¡Date prisa!',
+    'timer.runningOut': 'Se acaba el tiempo...',
+    'timer.playToContinue': 'Juega una carta para continuar',
+    'timer.waiting': 'Esperando...',
+    'timer.otherTurn': 'Turno de otro jugador',
+
+    'settings.title': 'Ajustes de la partida',
+    'settings.turnLength': 'Duración del turno',
+    'settings.seconds': '{count} s',
+    'settings.handSize': 'Mano inicial',
+    'settings.maxPlayers': 'Máximo de jugadores',
+    'settings.winningHand': 'Cartas necesarias para ganar',
+    'settings.mustPlayBeforeDraw': 'Jugar una carta antes de robar',
+    'settings.turnLengthValue': '{count} s por turno',
+    'settings.handSizeValue': '{count} cartas por mano',
+    'settings.maxPlayersValue': 'Hasta {count} jugadores',
+    'settings.drawAnyTime': 'Robar en cualquier momento',
+    'settings.scoringMode': 'Puntuación',
+    'settings.scoringMode.single-set': 'Gana quien complete una mano',
+    'settings.scoringMode.multi-set': 'Gana quien complete varias manos',
+    'settings.scoringMode.timed': 'Mayor puntuación al acabar el tiempo',
+    'settings.setsToWin': 'Manos para ganar',
+    'settings.gameDuration': 'Duración de la partida',
+    'settings.minutes': '{count} min',
+    'settings.peerVoting': 'Los jugadores valoran cada respuesta (la puntuación usa la valoración)',
+    'settings.drawFromDiscard': 'Se puede tomar el último descarte en lugar de robar',
+    'settings.actionCards': 'Añadir cartas de comodín, salto, reversa y pregunta a quien quieras al mazo',
+    'settings.directedPrompts': 'Permitir dirigir las preguntas a otro jugador',
+    'settings.teamMode': 'Modo por equipos: los compañeros comparten mano y turno',
+    'settings.deckExhaustionPolicy': 'Cuando se acaba el mazo',
+    'settings.deckExhaustionPolicy.reshuffle': 'Barajar las cartas jugadas',
+    'settings.deckExhaustionPolicy.end-game': 'Terminar la partida',
+    'settings.deckExhaustionPolicy.most-types': 'Gana quien tenga más P',
+    'settings.turnTimeoutPenalty': 'Cuando se acaba el turno',
+    'settings.turnTimeoutPenalty.skip': 'Pasar al siguiente jugador',
+    'settings.turnTimeoutPenalty.auto-play': 'Jugar una carta por él',
+    'settings.turnTimeoutPenalty.auto-draw': 'Robar una carta por él',
+    'voting.title': 'Valora la respuesta',
+    'voting.progress': '{count}/{total} han votado',
+    'voting.timeLeft': 'Quedan {count} s',
+    'voting.beingRated': 'Los demás están valorando tu respuesta...',
+    'voting.thanks': '¡Gracias! Esperando a los demás...',
+    'voting.prompt': '¿Qué tan reveladora fue la respuesta de {name}?',
+    'voting.othersRating': 'Los jugadores están valorando la respuesta de {name}...',
+    'voting.rate': 'Valorar {rating} de {max}',
+    'voting.endAnswer': 'He terminado de responder',
+    'voting.endAnswerHint': 'Termina tu respuesta para que los demás puedan valorarla',
+    'voting.result': '{name} ganó {points} puntos (media {average} de {count} votos)',
+    'trade.title': 'Intercambio',
+    'trade.propose': 'Ofrecer un intercambio',
+    'trade.with': 'Con',
+    'trade.choosePlayer': 'Elige un jugador',
+    'trade.offer': 'Dar',
+    'trade.chooseCard': 'Elige una carta',
+    'trade.for': 'por una de',
+    'trade.chooseType': 'Elige un tipo',
+    'trade.send': 'Enviar oferta',
+    'trade.close': 'Cerrar la oferta de intercambio',
+    'trade.incoming': '{name} te ofrece una carta de {offered} por una de tus cartas de {requested}',
+    'trade.give': 'Dar: {prompt}',
+    'trade.noMatchingCard': 'No tienes ninguna carta de {type} para dar',
+    'trade.decline': 'Rechazar',
+    'trade.waiting': 'Esperando a que {name} responda a tu oferta...',
+    'trade.withdraw': 'Retirar',
+    'trade.between': '{from} ofreció un intercambio a {to}',
+    'team.title': 'Equipos',
+    'team.hint': 'Los compañeros comparten mano y turno, y cualquiera puede jugar por el equipo. Quien no tenga equipo juega solo.',
+    'team.none': 'Sin equipo',
+    'team.choose': 'Equipo de {name}',
+    'team.red': 'Rojo',
+    'team.blue': 'Azul',
+    'team.green': 'Verde',
+    'team.gold': 'Dorado',
+    'facilitator.title': 'Facilitador',
+    'facilitator.pause': 'Pausar',
+    'facilitator.resume': 'Reanudar',
+    'facilitator.badge': 'Facilitador',
+    'facilitator.skipTurn': 'Saltar turno',
+    'facilitator.extendTurn': 'Añadir {count}s',
+    'facilitator.revealPrompt': 'Revelar pregunta',
+    'facilitator.choosePlayer': 'Moderar a un jugador…',
+    'facilitator.noHand': 'Estás facilitando esta partida',
+    'moderation.muteMic': 'Silenciar el micrófono de {name}',
+    'moderation.allowMic': 'Permitir que {name} active el micrófono',
+    'moderation.stopCamera': 'Apagar la cámara de {name}',
+    'moderation.allowCamera': 'Permitir que {name} encienda la cámara',
+    'moderation.kick': 'Expulsar a {name}',
+    'moderation.ban': 'Vetar a {name} de esta partida',
+    'moderation.mutedByHost': 'Silenciado por el anfitrión',
+    'moderation.cameraOffByHost': 'Cámara apagada por el anfitrión',
+    'access.title': 'Acceso a la sala',
+    'access.passcode': 'Contraseña',
+    'access.passcodeSet': 'Se necesita contraseña para entrar',
+    'access.noPasscode': 'Sin contraseña',
+    'access.setPasscode': 'Poner contraseña',
+    'access.removePasscode': 'Quitar contraseña',
+    'access.passcodeLength': '{min}–{max} caracteres',
+    'access.requireApproval': 'Aprobar a cada persona antes de que entre',
+    'access.requireAccount': 'Solo dejar entrar a jugadores con sesión iniciada',
+    'access.requireAccountHint': 'Los vetos solo impiden volver a alguien mientras esto esté activado.',
+    'access.createInvite': 'Crear enlace de invitación',
+    'access.inviteHint': 'Cada enlace deja entrar a una persona sin contraseña ni aprobación.',
+    'access.inviteCopied': 'Enlace copiado',
+    'access.requests': 'Esperando para entrar',
+    'access.admit': 'Dejar entrar',
+    'access.decline': 'Rechazar',
+    'spectator.watching': 'Estás mirando esta partida',
+    'spectator.count': '{count} mirando',
+    'reaction.title': 'Reacciones',
+    'reaction.send': 'Reaccionar con {emoji}',
+    'cardPacks.title': 'Paquetes de cartas',
+    'cardPacks.selected': 'Paquetes de cartas:',
+    'cardPacks.import': 'Importar',
+    'cardPacks.newPack': 'Nuevo paquete',
+    'cardPacks.importFailed': 'No se pudo importar el paquete de cartas',
+    'cardPacks.dismiss': 'Cerrar',
+    'cardPacks.importRow': 'Fila {row}: ',
+    'cardPacks.promptCount': '{count} preguntas',
+    'cardPacks.shared': 'Compartido',
+    'cardPacks.edit': 'Editar',
+    'cardPacks.editTitle': 'Editar paquete de cartas',
+    'cardPacks.newTitle': 'Nuevo paquete de cartas',
+    'cardPacks.closeEditor': 'Cerrar el editor',
+    'cardPacks.name': 'Nombre del paquete',
+    'cardPacks.namePlaceholder': 'p. ej. Cambio de carrera',
+    'cardPacks.description': 'Descripción',
+    'cardPacks.descriptionPlaceholder': '¿Para quién es este paquete?',
+    'cardPacks.typePrompts': 'Preguntas de {type}',
+    'cardPacks.onePerLine': '(una por línea)',
+    'cardPacks.share': 'Compartir este paquete con otros facilitadores',
+    'cardPacks.delete': 'Eliminar',
+    'cardPacks.cancel': 'Cancelar',
+    'cardPacks.save': 'Guardar paquete',
+    'cardPacks.saveFailed': 'No se pudo guardar el paquete de cartas',
+    'cardPacks.deleteFailed': 'No se pudo eliminar el paquete de cartas'
+  },
+  prompts: {
+    'Purpose-0': '¿Cuál es tu principal motivación para hacer lo que haces?',
+    'Purpose-1': '¿Qué le da sentido y dirección a tu vida?',
+    'Purpose-2': '¿Por qué te gustaría que te recordaran?',
+    'Purpose-3': '¿Qué te impulsa a levantarte por la mañana?',
+    'Purpose-4': '¿Cuál es el «porqué» detrás de tus metas más grandes?',
+    'Purpose-5': '¿Qué legado quieres dejar?',
+    'Purpose-6': '¿Qué es lo que más te llena?',
+    'Purpose-7': '¿Qué harías si tuvieras recursos ilimitados?',
+    'Purpose-8': '¿Qué cambio te gustaría más ver en el mundo?',
+    'Purpose-9': '¿Cuál es tu misión personal?',
+    'Problems-0': '¿Cuál es el mayor reto al que te enfrentas ahora mismo?',
+    'Problems-1': '¿Qué obstáculo se interpone una y otra vez en tu camino?',
+    'Problems-2': '¿Qué cambiarías de tu situación actual?',
+    'Problems-3': '¿Qué es algo que te frustra constantemente?',
+    'Problems-4': '¿Qué problema te gustaría poder resolver para todo el mundo?',
+    'Problems-5': '¿Qué te impide alcanzar tus metas?',
+    'Problems-6': '¿Qué patrón te gustaría romper en tu vida?',
+    'Problems-7': '¿Cuál es la decisión más difícil que tienes por delante?',
+    'Problems-8': '¿Qué situación te hace sentir sin salida?',
+    'Problems-9': '¿Para qué pedirías ayuda si el orgullo no importara?',
+    'Prognosis-0': '¿Dónde te ves dentro de 5 años?',
+    'Prognosis-1': '¿Qué tendencias crees que darán forma al futuro?',
+    'Prognosis-2': '¿Cómo crees que evolucionará tu situación actual?',
+    'Prognosis-3': '¿Cuál es tu predicción para tu campo o sector?',
+    'Prognosis-4': '¿Qué habilidades serán más valiosas en el futuro?',
+    'Prognosis-5': '¿Cómo crees que la tecnología cambiará nuestra vida diaria?',
+    'Prognosis-6': '¿Cómo crees que será el mundo para la próxima generación?',
+    'Prognosis-7': '¿Hacia dónde ves que van tus relaciones?',
+    'Prognosis-8': '¿Qué cambios prevés en tu carrera?',
+    'Prognosis-9': '¿Cómo ves tus posibilidades de cumplir tu mayor sueño?',
+    'Plan-0': '¿Cuál es tu estrategia para alcanzar tu próxima gran meta?',
+    'Plan-1': '¿Cuál es el primer paso que tienes que dar?',
+    'Plan-2': '¿Cómo piensas superar tu mayor obstáculo?',
+    'Plan-3': '¿Cómo sería tu día ideal y cómo puedes hacerlo realidad?',
+    'Plan-4': '¿Cuál es tu plan B si las cosas no salen como esperas?',
+    'Plan-5': '¿Cómo piensas crecer durante el próximo año?',
+    'Plan-6': '¿Qué recursos necesitas para alcanzar tus metas?',
+    'Plan-7': '¿Qué hábitos te gustaría adquirir o abandonar?',
+    'Plan-8': '¿Cómo piensas medir tu éxito?',
+    'Plan-9': '¿Cuál es tu calendario para tu proyecto más importante?',
+    'Perform-0': '¿Qué has logrado recientemente que te llene de orgullo?',
+    'Perform-1': '¿Qué acción has tomado que haya marcado la mayor diferencia?',
+    'Perform-2': '¿Cuál es la mejor decisión que has tomado este año?',
+    'Perform-3': '¿Qué habilidad has mejorado más?',
+    'Perform-4': '¿Qué has hecho que te sacara de tu zona de confort?',
+    'Perform-5': '¿Qué hábito has logrado incorporar?',
+    'Perform-6': '¿Cuál es un ejemplo de cómo vives tus valores?',
+    'Perform-7': '¿Qué has hecho para ayudar a los demás?',
+    'Perform-8': '¿Cuál es el avance más significativo que has logrado recientemente?',
+    'Perform-9': '¿Qué estás haciendo ahora mismo para avanzar hacia tus metas?',
+
+    // Action cards are translated by type
+    'Wild': 'Cuenta como cualquier P para una mano ganadora',
+    'Skip': 'El siguiente jugador pierde su turno',
+    'Reverse': 'El juego cambia de sentido en la mesa',
+    'AskAnyone': 'Elige quién responde tus preguntas este turno'
+  }
+};
\ No newline at end of file
@@ -0,0 +1,376 @@
+import { LocaleBundle } from './index';
+
+export const fr: LocaleBundle = {
+  name: 'Français',
+  messages: {
+    'language.label': 'Langue',
+
+    'cardType.Purpose': 'Raison d\'être',
+    'cardType.Problems': 'Problèmes',
+    'cardType.Prognosis': 'Pronostic',
+    'cardType.Plan': 'Plan',
+    'cardType.Perform': 'Passage à l\'action',
+    'cardType.Wild': 'Joker',
+    'cardType.Skip': 'Passe',
+    'cardType.Reverse': 'Inversion',
+    'cardType.AskAnyone': 'Au choix',
+    'cardTypeDescription.Purpose': 'Raison d\'être - Ton pourquoi et ta motivation',
+    'cardTypeDescription.Problems': 'Problèmes - Défis et obstacles',
+    'cardTypeDescription.Prognosis': 'Pronostic - Perspectives et prédictions',
+    'cardTypeDescription.Plan': 'Plan - Stratégie et prochaines étapes',
+    'cardTypeDescription.Perform': 'Passage à l\'action - Actions et réussites',
+    'cardTypeDescription.Wild': 'Joker - Compte comme n\'importe quel P',
+    'cardTypeDescription.Skip': 'Passe - Le joueur suivant passe son tour',
+    'cardTypeDescription.Reverse': 'Inversion - Le jeu change de sens',
+    'cardTypeDescription.AskAnyone': 'Au choix - Quelqu\'un d\'autre répond à vos questions',
+
+    'home.subtitle': 'Le jeu de cartes des 5P',
+    'home.intro': 'Transforme les conversations en liens qui comptent. Joue au jeu de cartes des 5P avec tes amis, ta famille ou tes collègues en visioconférence et découvre la force d\'un dialogue sincère.',
+    'home.welcomeBack': 'Bon retour !',
+    'home.deeperConnections': 'Créer des liens plus profonds',
+    'home.meaningfulConversations': 'Lancer des conversations qui comptent',
+    'home.faceToFace': 'Se retrouver face à face',
+    'home.createGame': 'Créer une partie',
+    'home.joinGame': 'Rejoindre une partie',
+    'home.newHere': 'Nouveau ici ?',
+    'home.newHereDetail': 'Pas d\'inquiétude ! Tu pourras créer ton profil au moment de créer ou de rejoindre une partie.',
+    'home.asFacilitator': 'Animer cette partie',
+    'home.asFacilitatorHint': 'Anime la session sans main ni tour',
+    'home.asSpectator': 'Regarder en spectateur',
+    'home.asSpectatorHint': 'Suivez la partie sans main ni caméra',
+    'home.gameCode': 'Code de la partie',
+    'home.enterCode': 'SAISIS LE CODE',
+    'home.passcode': 'Code d\'accès',
+    'home.passcodePlaceholder': 'Seulement si l\'hôte en a défini un',
+    'home.invited': 'Tu es invité dans la salle {code}',
+    'home.back': 'Retour',
+    'home.connecting': 'Connexion...',
+    'home.featureConversationsTitle': 'Des conversations qui comptent',
+    'home.featureConversationsDescription': 'Des questions soigneusement choisies pour lancer des échanges profonds et faire émerger des histoires vraies',
+    'home.featureConnectionTitle': 'Un lien face à face',
+    'home.featureConnectionDescription': 'Un vrai lien humain grâce à une visioconférence de qualité pendant la partie',
+    'home.featureSimpleTitle': 'Simple mais profond',
+    'home.featureSimpleDescription': 'Des règles faciles à apprendre qui laissent place à des conversations et des prises de conscience marquantes',
+
+    'lobby.title': 'Salle d\'attente',
+    'lobby.subtitle': 'Prépare-toi à des conversations qui comptent',
+    'lobby.playerCount': '{count}/{max} joueurs',
+    'lobby.connected': 'Connecté',
+    'lobby.roomCode': 'Code de la salle :',
+    'lobby.copyRoomCode': 'Copier le code de la salle',
+    'lobby.waitingForPlayer': 'En attente d\'un joueur...',
+    'lobby.muteMicrophone': 'Couper le micro',
+    'lobby.unmuteMicrophone': 'Activer le micro',
+    'lobby.cameraOff': 'Éteindre la caméra',
+    'lobby.cameraOn': 'Allumer la caméra',
+    'lobby.startGame': 'Lancer la partie',
+    'lobby.waitingForHost': 'En attente du lancement de la partie par l\'hôte...',
+    'lobby.makeFacilitator': 'Faire de {name} un animateur',
+    'lobby.makePlayer': 'Redonner une main à {name}',
+    'lobby.awaitingApproval': 'En attente que l\'hôte te laisse entrer...',
+    'lobby.awaitingApprovalHint': 'L\'hôte ou un animateur verra ta demande dans la salle.',
+    'lobby.howToPlay': 'Comment jouer',
+    'lobby.goalLabel': 'But :',
+    'lobby.goal': 'Réunir les 5P (Raison d\'être, Problèmes, Pronostic, Plan, Passage à l\'action)',
+    'lobby.turnLabel': 'Tour :',
+    'lobby.turn': 'Joue une carte et discute de la question avec tout le monde',
+    'lobby.drawLabel': 'Pioche :',
+    'lobby.draw': 'Prends une nouvelle carte dans la pioche après la discussion',
+    'lobby.winLabel': 'Victoire :',
+    'lobby.win': 'Le premier joueur à réunir les 5P gagne !',
+
+    'board.title': 'Table de jeu',
+    'board.congratulations': 'Félicitations !',
+    'board.gameOver': 'Partie terminée',
+    'board.noWinner': 'La pioche est vide. Pas de gagnant cette fois !',
+    'board.completedSet': 'a réuni les 5P !',
+    'board.mostTypes': 'avait le plus de P différents quand la pioche s\'est vidée !',
+    'board.tie': 'Égalité !',
+    'board.completedSets': 'a complété {count} mains gagnantes !',
+    'board.highestScore': 'a terminé avec le meilleur score !',
+    'board.leaderboard': 'Classement',
+    'board.points': '{count} pts',
+    'board.sets': '{count} séries',
+    'board.startNewGame': 'Lancer une nouvelle partie',
+    'board.playAgain': 'Rejouer',
+    'board.reset': 'Réinitialiser',
+    'board.enableAutoTts': 'Activer la lecture automatique',
+    'board.disableAutoTts': 'Désactiver la lecture automatique',
+    'board.toggleAutoTts': 'Activer ou désactiver la lecture automatique',
+    'board.enableSummarization': 'Activer le résumé',
+    'board.disableSummarization': 'Désactiver le résumé',
+    'board.toggleSummarization': 'Activer ou désactiver le résumé par IA',
+    'board.playCurrentPrompt': 'Lire la question actuelle à voix haute',
+    'board.playCurrentPromptTitle': 'Lire la question actuelle',
+    'board.showVideo': 'Afficher les vidéos',
+    'board.hideVideo': 'Masquer les vidéos',
+    'board.toggleVideo': 'Afficher ou masquer les vidéos (V)',
+    'board.showInstructions': 'Afficher les règles',
+    'board.hideInstructions': 'Masquer les règles',
+    'board.toggleInstructions': 'Afficher ou masquer les règles (?)',
+    'board.aiFeaturesError': 'Fonctions IA : {error}',
+    'board.dismissError': 'Fermer l\'erreur',
+    'board.instructionsTitle': 'Règles du jeu et raccourcis clavier',
+    'board.closeInstructions': 'Fermer les règles',
+    'board.howToPlay': 'Comment jouer :',
+    'board.ruleGoal': 'But : réunir les 5P (Raison d\'être, Problèmes, Pronostic, Plan, Passage à l\'action)',
+    'board.ruleTurn': 'À ton tour : joue une carte et discute de la question (30 secondes)',
+    'board.ruleDraw': 'Après la discussion : pioche une nouvelle carte',
+    'board.ruleWin': 'Le premier à réunir les 5P gagne !',
+    'board.featuresAndShortcuts': 'Fonctions et raccourcis :',
+    'board.shortcutVideo': 'Afficher ou masquer les vidéos',
+    'board.shortcutHelp': 'Afficher cette aide',
+    'board.shortcutPlay': 'Jouer la carte sélectionnée',
+    'board.shortcutCancel': 'Annuler la sélection',
+    'board.featureTimer': 'Minuteur de 30 secondes avec passage automatique',
+    'board.featureTts': 'L\'IA lit les questions à voix haute automatiquement',
+    'board.lastPlayed': 'Dernière carte',
+    'board.empty': 'Vide',
+    'board.drawPile': 'Pioche ({count})',
+    'board.cards': 'cartes',
+    'board.draw': 'Piocher',
+    'board.playFirst': 'Joue d\'abord',
+    'board.takeDiscard': 'Prendre {type}',
+    'board.takeDiscardHint': 'Prendre cette défausse au lieu de piocher : {prompt}',
+    'board.you': 'Toi',
+    'board.readyToDraw': 'Prêt à piocher !',
+    'board.playToContinue': 'Joue une carte pour continuer',
+    'board.waitingForTurn': 'En attente du tour de {name}',
+    'board.answeredBy': '{name} répond aux questions de ce tour',
+    'board.answering': 'Répond',
+    'board.reversed': 'Le jeu tourne dans l\'autre sens',
+    'board.conversationStarter': 'Pour lancer la conversation',
+    'board.playPrompt': 'Lire la question à voix haute',
+    'board.aiSummary': 'Résumé de l\'IA : {summary}',
+    'board.yourHand': 'Ta main ({count} cartes)',
+    'board.yourTurn': 'À toi de jouer',
+    'board.noCards': 'Aucune carte en main',
+    'board.cardLabel': 'Carte {type} : {prompt}...',
+    'board.selectedCard': 'Carte sélectionnée',
+    'board.cancel': 'Annuler',
+    'board.playing': 'En cours...',
+    'board.playCard': 'Jouer la carte',
+    'board.askWho': 'Qui doit répondre à vos questions ?',
+    'board.choosePlayer': 'Choisir un joueur',
+    'board.answerMyself': 'Je réponds moi-même',
+    'board.promptFor': 'Pour {name} : {prompt}',
+    'board.paused': 'Partie en pause : le chrono est arrêté',
+    'board.wildHint': 'Les jokers restent en main et comptent comme n\'importe quel P',
+
+    'announce.newPrompt': 'Nouvelle question : {prompt}...',
+    'announce.yourTurn': 'C\'est à toi de jouer une carte',
+    'announce.playerTurn': 'C\'est au tour de {name}',
+    'announce.playingCard': 'Carte {type} jouée : {prompt}...',
+    'announce.playFailed': 'Impossible de jouer la carte. Réessaie.',
+    'announce.cardSelected': 'Carte {type} sélectionnée. Appuie sur Entrée pour la jouer ou sur Échap pour annuler.',
+    'announce.playBeforeDraw': 'Tu dois jouer une carte avant de piocher !',
+    'announce.drawing': 'Pioche d\'une nouvelle carte',
+    'announce.drawingDiscard': 'Prise d\'une carte dans la défausse',
+    'announce.reshuffling': 'La pioche est vide. Les cartes jouées sont mélangées',
+    'announce.deckEnding': 'La pioche est vide. La partie se termine',
+    'announce.nothingToDraw': 'Plus aucune carte à piocher. Votre tour passe',
+    'announce.selectionCancelled': 'Sélection annulée',
+    'announce.videoHidden': 'Vidéos masquées',
+    'announce.videoShown': 'Vidéos affichées',
+    'announce.progressHidden': 'Panneau de progression masqué',
+    'announce.progressShown': 'Panneau de progression affiché',
+    'announce.instructionsOpened': 'Règles du jeu ouvertes',
+
+    'timer.timesUp': 'Temps écoulé !',
+    'timer.switchingTurn': 'Le tour va passer automatiquement',
+    'timer.yourTurn': 'À toi de jouer',
+    'timer.hurry': 'Dépêche-toi !',
+    'timer.runningOut': 'Le temps presse...',
+    'timer.playToContinue': 'Joue une carte pour continuer',
+    'timer.waiting': 'En attente...',
+    'timer.otherTurn': 'Tour d\'un autre joueur',
+
+    'settings.title': 'Paramètres de la partie',
+    'settings.turnLength': 'Durée du tour',
+    'settings.seconds': '{count} s',
+    'settings.handSize': 'Main de départ',
+    'settings.maxPlayers': 'Joueurs maximum',
+    'settings.winningHand': 'Cartes nécessaires pour gagner',
+    'settings.mustPlayBeforeDraw': 'Jouer une carte avant de piocher',
+    'settings.turnLengthValue': '{count} s par tour',
+    'settings.handSizeValue': '{count} cartes par main',
+    'settings.maxPlayersValue': 'Jusqu\'à {count} joueurs',
+    'settings.drawAnyTime': 'Piocher à tout moment',
+    'settings.scoringMode': 'Score',
+    'settings.scoringMode.single-set': 'Premier à compléter une main',
+    'settings.scoringMode.multi-set': 'Premier à compléter plusieurs mains',
+    'settings.scoringMode.timed': 'Meilleur score à la fin du temps',
+    'settings.setsToWin': 'Mains pour gagner',
+    'settings.gameDuration': 'Durée de la partie',
+    'settings.minutes': '{count} min',
+    'settings.peerVoting': 'Les joueurs notent chaque réponse (le score utilise la note)',
+    'settings.drawFromDiscard': 'Les joueurs peuvent prendre la dernière défausse au lieu de piocher',
+    'settings.actionCards': 'Ajouter des cartes joker, passe, inversion et au choix au paquet',
+    'settings.directedPrompts': 'Permettre d\'adresser les questions à un autre joueur',
+    'settings.teamMode': 'Mode équipe : les coéquipiers partagent une main et un tour',
+    'settings.deckExhaustionPolicy': 'Quand la pioche est vide',
+    'settings.deckExhaustionPolicy.reshuffle': 'Remélanger les cartes jouées',
+    'settings.deckExhaustionPolicy.end-game': 'Terminer la partie',
+    'settings.deckExhaustionPolicy.most-types': 'Le plus de P différents gagne',
+    'settings.turnTimeoutPenalty': 'Quand le tour expire',
+    'settings.turnTimeoutPenalty.skip': 'Passer au joueur suivant',
+    'settings.turnTimeoutPenalty.auto-play': 'Jouer une carte à sa place',
+    'settings.turnTimeoutPenalty.auto-draw': 'Piocher une carte à sa place',
+    'voting.title': 'Noter la réponse',
+    'voting.progress': '{count}/{total} ont voté',
+    'voting.timeLeft': 'Encore {count} s',
+    'voting.beingRated': 'Les autres notent ta réponse...',
+    'voting.thanks': 'Merci ! En attente des autres...',
+    'voting.prompt': 'La réponse de {name} était-elle éclairante ?',
+    'voting.othersRating': 'Les joueurs notent la réponse de {name}...',
+    'voting.rate': 'Noter {rating} sur {max}',
+    'voting.endAnswer': 'J\'ai fini de répondre',
+    'voting.endAnswerHint': 'Termine ta réponse pour que les autres puissent la noter',
+    'voting.result': '{name} gagne {points} points (moyenne {average} sur {count} votes)',
+    'trade.title': 'Échange',
+    'trade.propose': 'Proposer un échange',
+    'trade.with': 'Avec',
+    'trade.choosePlayer': 'Choisir un joueur',
+    'trade.offer': 'Donner',
+    'trade.chooseCard': 'Choisir une carte',
+    'trade.for': 'contre une carte',
+    'trade.chooseType': 'Choisir un type',
+    'trade.send': 'Envoyer l\'offre',
+    'trade.close': 'Fermer l\'offre d\'échange',
+    'trade.incoming': '{name} vous propose une carte {offered} contre une de vos cartes {requested}',
+    'trade.give': 'Donner : {prompt}',
+    'trade.noMatchingCard': 'Vous n\'avez aucune carte {type} à donner',
+    'trade.decline': 'Refuser',
+    'trade.waiting': 'En attente de la réponse de {name}...',
+    'trade.withdraw': 'Retirer',
+    'trade.between': '{from} a proposé un échange à {to}',
+    'team.title': 'Équipes',
+    'team.hint': 'Les coéquipiers partagent une main et un tour, et chacun peut jouer pour l\'équipe. Les joueurs sans équipe jouent seuls.',
+    'team.none': 'Sans équipe',
+    'team.choose': 'Équipe de {name}',
+    'team.red': 'Rouge',
+    'team.blue': 'Bleu',
+    'team.green': 'Vert',
+    'team.gold': 'Or',
+    'facilitator.title': 'Animateur',
+    'facilitator.pause': 'Pause',
+    'facilitator.resume': 'Reprendre',
+    'facilitator.badge': 'Animateur',
+    'facilitator.skipTurn': 'Passer le tour',
+    'facilitator.extendTurn': 'Ajouter {count} s',
+    'facilitator.revealPrompt': 'Révéler une question',
+    'facilitator.choosePlayer': 'Modérer un joueur…',
+    'facilitator.noHand': 'Tu animes cette partie',
+    'moderation.muteMic': 'Couper le micro de {name}',
+    'moderation.allowMic': 'Autoriser {name} à réactiver son micro',
+    'moderation.stopCamera': 'Couper la caméra de {name}',
+    'moderation.allowCamera': 'Autoriser {name} à rallumer sa caméra',
+    'moderation.kick': 'Retirer {name}',
+    'moderation.ban': 'Bannir {name} de cette partie',
+    'moderation.mutedByHost': 'Micro coupé par l\'hôte',
+    'moderation.cameraOffByHost': 'Caméra coupée par l\'hôte',
+    'access.title': 'Accès à la salle',
+    'access.passcode': 'Code d\'accès',
+    'access.passcodeSet': 'Un code d\'accès est nécessaire pour entrer',
+    'access.noPasscode': 'Pas de code d\'accès',
+    'access.setPasscode': 'Définir le code',
+    'access.removePasscode': 'Supprimer le code',
+    'access.passcodeLength': '{min} à {max} caractères',
+    'access.requireApproval': 'Approuver chaque personne avant son entrée',
+    'access.requireAccount': 'N\'accepter que les joueurs connectés à un compte',
+    'access.requireAccountHint': 'Un bannissement n\'empêche de revenir que si cette option est activée.',
+    'access.createInvite': 'Créer un lien d\'invitation',
+    'access.inviteHint': 'Chaque lien laisse entrer une personne sans code ni approbation.',
+    'access.inviteCopied': 'Lien copié',
+    'access.requests': 'En attente d\'entrer',
+    'access.admit': 'Faire entrer',
+    'access.decline': 'Refuser',
+    'spectator.watching': 'Vous regardez cette partie',
+    'spectator.count': '{count} spectateurs',
+    'reaction.title': 'Réactions',
+    'reaction.send': 'Réagir avec {emoji}',
+    'cardPacks.title': 'Paquets de cartes',
+    'cardPacks.selected': 'Paquets de cartes :',
+    'cardPacks.import': 'Importer',
+    'cardPacks.newPack': 'Nouveau paquet',
+    'cardPacks.importFailed': 'Impossible d\'importer le paquet de cartes',
+    'cardPacks.dismiss': 'Fermer',
+    'cardPacks.importRow': 'Ligne {row} : ',
+    'cardPacks.promptCount': '{count} questions',
+    'cardPacks.shared': 'Partagé',
+    'cardPacks.edit': 'Modifier',
+    'cardPacks.editTitle': 'Modifier le paquet de cartes',
+    'cardPacks.newTitle': 'Nouveau paquet de cartes',
+    'cardPacks.closeEditor': 'Fermer l\'éditeur',
+    'cardPacks.name': 'Nom du paquet',
+    'cardPacks.namePlaceholder': 'ex. Reconversion professionnelle',
+    'cardPacks.description': 'Description',
+    'cardPacks.descriptionPlaceholder': 'À qui s\'adresse ce paquet ?',
+    'cardPacks.typePrompts': 'Questions {type}',
+    'cardPacks.onePerLine': '(une par ligne)',
+    'cardPacks.share': 'Partager ce paquet avec d\'autres animateurs',
+    'cardPacks.delete': 'Supprimer',
+    'cardPacks.cancel': 'Annuler',
+    'cardPacks.save': 'Enregistrer le paquet',
+    'cardPacks.saveFailed': 'Impossible d\'enregistrer le paquet de cartes',
+    'cardPacks.deleteFailed': 'Impossible de supprimer le paquet de cartes'
+  },
+  prompts: {
+    'Purpose-0': 'Quelle est ta principale motivation dans ce que tu fais ?',
+    'Purpose-1': 'Qu\'est-ce qui donne du sens et une direction à ta vie ?',
+    'Purpose-2': 'Pour quoi aimerais-tu qu\'on se souvienne de toi ?',
+    'Purpose-3': 'Qu\'est-ce qui te donne envie de te lever le matin ?',
+    'Purpose-4': 'Quel est le « pourquoi » derrière tes plus grands objectifs ?',
+    'Purpose-5': 'Quel héritage veux-tu laisser derrière toi ?',
+    'Purpose-6': 'Qu\'est-ce qui t\'apporte le plus grand sentiment d\'accomplissement ?',
+    'Purpose-7': 'Que ferais-tu si tu avais des ressources illimitées ?',
+    'Purpose-8': 'Quel changement aimerais-tu le plus voir dans le monde ?',
+    'Purpose-9': 'Quelle est ta mission personnelle ?',
+    'Problems-0': 'Quel est le plus grand défi auquel tu fais face en ce moment ?',
+    'Problems-1': 'Quel obstacle se met sans cesse en travers de ton chemin ?',
+    'Problems-2': 'Que changerais-tu dans ta situation actuelle ?',
+    'Problems-3': 'Qu\'est-ce qui te frustre régulièrement ?',
+    'Problems-4': 'Quel problème aimerais-tu pouvoir résoudre pour tout le monde ?',
+    'Problems-5': 'Qu\'est-ce qui t\'empêche d\'atteindre tes objectifs ?',
+    'Problems-6': 'Quel schéma aimerais-tu briser dans ta vie ?',
+    'Problems-7': 'Quelle est la décision la plus difficile qui t\'attend ?',
+    'Problems-8': 'Quelle situation te donne le plus l\'impression d\'être dans une impasse ?',
+    'Problems-9': 'Pour quoi demanderais-tu de l\'aide si la fierté n\'entrait pas en jeu ?',
+    'Prognosis-0': 'Où te vois-tu dans 5 ans ?',
+    'Prognosis-1': 'Quelles tendances vont, selon toi, façonner l\'avenir ?',
+    'Prognosis-2': 'Comment penses-tu que ta situation actuelle va évoluer ?',
+    'Prognosis-3': 'Quelle est ta prédiction pour ton domaine ou ton secteur ?',
+    'Prognosis-4': 'Quelles compétences seront les plus précieuses à l\'avenir ?',
+    'Prognosis-5': 'Comment penses-tu que la technologie va changer notre quotidien ?',
+    'Prognosis-6': 'À quoi ressemblera le monde, selon toi, pour la prochaine génération ?',
+    'Prognosis-7': 'Comment vois-tu évoluer tes relations ?',
+    'Prognosis-8': 'Quels changements anticipes-tu dans ta carrière ?',
+    'Prognosis-9': 'Comment vois-tu tes chances de réaliser ton plus grand rêve ?',
+    'Plan-0': 'Quelle est ta stratégie pour atteindre ton prochain grand objectif ?',
+    'Plan-1': 'Quelle est la première étape à franchir ?',
+    'Plan-2': 'Comment comptes-tu surmonter ton plus grand obstacle ?',
+    'Plan-3': 'À quoi ressemblerait ta journée idéale, et comment peux-tu la construire ?',
+    'Plan-4': 'Quel est ton plan B si les choses ne se passent pas comme prévu ?',
+    'Plan-5': 'Comment comptes-tu progresser au cours de l\'année à venir ?',
+    'Plan-6': 'De quelles ressources as-tu besoin pour atteindre tes objectifs ?',
+    'Plan-7': 'Quelles habitudes aimerais-tu prendre ou perdre ?',
+    'Plan-8': 'Comment comptes-tu mesurer ta réussite ?',
+    'Plan-9': 'Quel est ton calendrier pour ton projet le plus important ?',
+    'Perform-0': 'De quelle réussite récente tires-tu de la fierté ?',
+    'Perform-1': 'Quelle action as-tu menée qui a fait la plus grande différence ?',
+    'Perform-2': 'Quelle est la meilleure décision que tu aies prise cette année ?',
+    'Perform-3': 'Quelle compétence as-tu le plus améliorée ?',
+    'Perform-4': 'Qu\'as-tu fait qui t\'a fait sortir de ta zone de confort ?',
+    'Perform-5': 'Quelle habitude as-tu réussi à mettre en place ?',
+    'Perform-6': 'Peux-tu donner un exemple où tu as agi selon tes valeurs ?',
+    'Perform-7': 'Qu\'as-tu fait pour aider les autres ?',
+    'Perform-8': 'Quel est le progrès le plus significatif que tu aies fait récemment ?',
+    'Perform-9': 'Que fais-tu en ce moment pour avancer vers tes objectifs ?',
+
+    // Action cards are translated by type
+    'Wild': 'Compte comme n\'importe quel P pour une main gagnante',
+    'Skip': 'Le joueur suivant passe son tour',
+    'Reverse': 'Le jeu change de sens autour de la table',
+    'AskAnyone': 'Choisissez qui répond à vos questions ce tour-ci'
+  }
+};
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Card, Locale } from '../types/game';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { yo } from './yo';
+
+// Locale layer. UI strings are looked up by key; card prompts are looked up by
+// the stable card id (e.g. `Purpose-3`), so every player holds the same cards
+// and only the text they read changes. Anything without a translation, such as
+// prompts from custom card packs, falls back to the original English.
+
+export type MessageKey = keyof typeof en;
+
+export interface LocaleBundle {
+  name: string; // Shown in the language picker, in the language itself
+  messages: Record<MessageKey, string>;
+  prompts: Record<string, string>;
+}
+
+const bundles: Record<Locale, LocaleBundle> = {
+  en: { name: 'English', messages: en, prompts: {} },
+  es,
+  fr,
+  yo
+};
+
+export const LOCALES: { code: Locale; name: string }[] = (Object.keys(bundles) as Locale[]).map(code => ({
+  code,
+  name: bundles[code].name
+}));
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in bundles;
+}
+
+export function translate(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = bundles[locale]?.messages[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+// Action cards carry rules text rather than a question, so they are looked up by type
+export function localizeCard(card: Card, locale: Locale): Card {
+  const prompt = bundles[locale]?.prompts[card.id] ?? bundles[locale]?.prompts[card.type];
+  return prompt ? { ...card, prompt } : card;
+}
+
+// Picks the first browser language we have a bundle for
+export function detectLocale(): Locale {
+  const languages = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  const match = languages
+    .map(language => language?.split('-')[0].toLowerCase())
+    .find(isLocale);
+
+  return match ?? DEFAULT_LOCALE;
+}
\ No newline at end of file
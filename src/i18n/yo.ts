@@ -0,0 +1,376 @@
+import { LocaleBundle } from './index';
+
+export const yo: LocaleBundle = {
+  name: 'Yorùbá',
+  messages: {
+    'language.label': 'Èdè',
+
+    'cardType.Purpose': 'Èrèdí',
+    'cardType.Problems': 'Ìṣòro',
+    'cardType.Prognosis': 'Àsọtẹ́lẹ̀',
+    'cardType.Plan': 'Ètò',
+    'cardType.Perform': 'Ìṣe',
+    'cardType.Wild': 'Káàdì Ìgbàlódé',
+    'cardType.Skip': 'Fò ó',
+    'cardType.Reverse': 'Yí i Padà',
+    'cardType.AskAnyone': 'Bi Ẹnikẹ́ni',
+    'cardTypeDescription.Purpose': 'Èrèdí - Ìdí àti ohun tó ń sún ọ ṣiṣẹ́',
+    'cardTypeDescription.Problems': 'Ìṣòro - Ìpèníjà àti ìdènà',
+    'cardTypeDescription.Prognosis': 'Àsọtẹ́lẹ̀ - Ìwòye ọjọ́ iwájú',
+    'cardTypeDescription.Plan': 'Ètò - Ọgbọ́n àti ìgbésẹ̀ tó kàn',
+    'cardTypeDescription.Perform': 'Ìṣe - Ìgbésẹ̀ àti àṣeyọrí',
+    'cardTypeDescription.Wild': 'Káàdì Ìgbàlódé - Ó dúró fún P èyíkéyìí',
+    'cardTypeDescription.Skip': 'Fò ó - Òṣèré tó kàn pàdánù àkókò rẹ̀',
+    'cardTypeDescription.Reverse': 'Yí i Padà - Eré yí ọ̀nà padà',
+    'cardTypeDescription.AskAnyone': 'Bi Ẹnikẹ́ni - Ẹlòmíì dáhùn àwọn ìbéèrè rẹ',
+
+    'home.subtitle': 'Eré Káàdì 5P',
+    'home.intro': 'Sọ ìjíròrò di ìbáṣepọ̀ tó nítumọ̀. Ṣe eré káàdì 5P pẹ̀lú àwọn ọ̀rẹ́, ẹbí tàbí alábàáṣiṣẹ́ lórí fídíò, kí o sì ṣàwárí agbára ìjíròrò òtítọ́.',
+    'home.welcomeBack': 'Ẹ kú àbọ̀ padà!',
+    'home.deeperConnections': 'Kọ́ ìbáṣepọ̀ tó jinlẹ̀',
+    'home.meaningfulConversations': 'Bẹ̀rẹ̀ ìjíròrò tó nítumọ̀',
+    'home.faceToFace': 'Ríra ní ojúkojú',
+    'home.createGame': 'Ṣẹ̀dá Eré Tuntun',
+    'home.joinGame': 'Darapọ̀ mọ́ Eré',
+    'home.newHere': 'Ṣé o jẹ́ ẹni tuntun?',
+    'home.newHereDetail': 'Má ṣe dààmú! O máa lè ṣẹ̀dá àkọsílẹ̀ rẹ nígbà tí o bá yàn láti ṣẹ̀dá eré tàbí darapọ̀ mọ́ eré.',
+    'home.asFacilitator': 'Darí eré yìí',
+    'home.asFacilitatorHint': 'Darí ìpàdé láìní ọwọ́ tàbí àkókò eré',
+    'home.asSpectator': 'Wò gẹ́gẹ́ bí òǹwòran',
+    'home.asSpectatorHint': 'Tẹ̀lé eré láìní ọwọ́ tàbí kámẹ́rà',
+    'home.gameCode': 'Kóòdù Eré',
+    'home.enterCode': 'TẸ KÓÒDÙ',
+    'home.passcode': 'Ọ̀rọ̀ aṣínà',
+    'home.passcodePlaceholder': 'Tí olùgbàlejò bá ṣètò ọ̀kan nìkan',
+    'home.invited': 'A ti pè ọ́ sí yàrá {code}',
+    'home.back': 'Padà',
+    'home.connecting': 'Ó ń sopọ̀...',
+    'home.featureConversationsTitle': 'Ìjíròrò tó Nítumọ̀',
+    'home.featureConversationsDescription': 'Bẹ̀rẹ̀ ìjíròrò tó jinlẹ̀ pẹ̀lú àwọn ìbéèrè tí a fara balẹ̀ ṣe, tó ń mú ìtàn òtítọ́ jáde',
+    'home.featureConnectionTitle': 'Ìbáṣepọ̀ Ojúkojú',
+    'home.featureConnectionDescription': 'Ní ìbáṣepọ̀ ènìyàn gidi nípasẹ̀ fídíò tó dára nígbà tí ẹ bá ń ṣeré',
+    'home.featureSimpleTitle': 'Rọrùn ṣùgbọ́n Jinlẹ̀',
+    'home.featureSimpleDescription': 'Òfin tó rọrùn láti kọ́, tó ń ṣí àyè sílẹ̀ fún ìjíròrò àti òye tó ń yí ayé padà',
+
+    'lobby.title': 'Yàrá Ìdúró',
+    'lobby.subtitle': 'Múra sílẹ̀ fún ìjíròrò tó nítumọ̀',
+    'lobby.playerCount': 'Òṣèré {count}/{max}',
+    'lobby.connected': 'Ó ti sopọ̀',
+    'lobby.roomCode': 'Kóòdù Yàrá:',
+    'lobby.copyRoomCode': 'Ṣe ẹ̀dà kóòdù yàrá',
+    'lobby.waitingForPlayer': 'À ń dúró de òṣèré...',
+    'lobby.muteMicrophone': 'Pa gbohùngbohùn',
+    'lobby.unmuteMicrophone': 'Ṣí gbohùngbohùn',
+    'lobby.cameraOff': 'Pa kámẹ́rà',
+    'lobby.cameraOn': 'Tan kámẹ́rà',
+    'lobby.startGame': 'Bẹ̀rẹ̀ Eré',
+    'lobby.waitingForHost': 'À ń dúró kí olùgbàlejò bẹ̀rẹ̀ eré...',
+    'lobby.makeFacilitator': 'Fi {name} ṣe olùdarí',
+    'lobby.makePlayer': 'Dá ọwọ́ padà fún {name}',
+    'lobby.awaitingApproval': 'À ń dúró kí olùgbàlejò gbà ọ́ wọlé...',
+    'lobby.awaitingApprovalHint': 'Olùgbàlejò tàbí olùdarí yóò rí ìbéèrè rẹ nínú yàrá.',
+    'lobby.howToPlay': 'Bí a ṣe ń Ṣeré',
+    'lobby.goalLabel': 'Àfojúsùn:',
+    'lobby.goal': 'Kó gbogbo 5P jọ (Èrèdí, Ìṣòro, Àsọtẹ́lẹ̀, Ètò, Ìṣe)',
+    'lobby.turnLabel': 'Àyè:',
+    'lobby.turn': 'Ju káàdì kan sílẹ̀ kí o sì jíròrò ìbéèrè náà pẹ̀lú gbogbo ènìyàn',
+    'lobby.drawLabel': 'Mú:',
+    'lobby.draw': 'Mú káàdì tuntun láti inú àpò lẹ́yìn ìjíròrò',
+    'lobby.winLabel': 'Borí:',
+    'lobby.win': 'Ẹni àkọ́kọ́ tó bá kó gbogbo 5P jọ ló borí!',
+
+    'board.title': 'Tábìlì Eré',
+    'board.congratulations': 'Ẹ kú oríire!',
+    'board.gameOver': 'Eré ti Parí',
+    'board.noWinner': 'Káàdì ti tán nínú àpò. Kò sí ẹni tó borí lọ́tẹ̀ yìí!',
+    'board.completedSet': 'ti kó gbogbo 5P jọ!',
+    'board.mostTypes': 'ló ní P tó pọ̀ jù nígbà tí káàdì tán!',
+    'board.tie': 'Ọ̀mì ni!',
+    'board.completedSets': 'parí ọwọ́ ìborí {count}!',
+    'board.highestScore': 'parí pẹ̀lú àmì tó ga jùlọ!',
+    'board.leaderboard': 'Àtẹ àwọn olùborí',
+    'board.points': 'àmì {count}',
+    'board.sets': 'ọwọ́ {count}',
+    'board.startNewGame': 'Bẹ̀rẹ̀ eré tuntun',
+    'board.playAgain': 'Tún Ṣeré',
+    'board.reset': 'Tún bẹ̀rẹ̀',
+    'board.enableAutoTts': 'Tan kíkà aládàáṣe',
+    'board.disableAutoTts': 'Pa kíkà aládàáṣe',
+    'board.toggleAutoTts': 'Tan tàbí pa kíkà aládàáṣe',
+    'board.enableSummarization': 'Tan àkópọ̀',
+    'board.disableSummarization': 'Pa àkópọ̀',
+    'board.toggleSummarization': 'Tan tàbí pa àkópọ̀ AI',
+    'board.playCurrentPrompt': 'Ka ìbéèrè lọ́wọ́lọ́wọ́ sókè',
+    'board.playCurrentPromptTitle': 'Ka ìbéèrè lọ́wọ́lọ́wọ́',
+    'board.showVideo': 'Fi fídíò hàn',
+    'board.hideVideo': 'Fi fídíò pamọ́',
+    'board.toggleVideo': 'Fi fídíò hàn tàbí pamọ́ (V)',
+    'board.showInstructions': 'Fi ìlànà eré hàn',
+    'board.hideInstructions': 'Fi ìlànà eré pamọ́',
+    'board.toggleInstructions': 'Fi ìlànà hàn tàbí pamọ́ (?)',
+    'board.aiFeaturesError': 'Iṣẹ́ AI: {error}',
+    'board.dismissError': 'Pa àṣìṣe rẹ́',
+    'board.instructionsTitle': 'Ìlànà Eré àti Ọ̀nà Àbùjá Bọ́tìnnì',
+    'board.closeInstructions': 'Pa ìlànà dé',
+    'board.howToPlay': 'Bí a ṣe ń Ṣeré:',
+    'board.ruleGoal': 'Àfojúsùn: Kó gbogbo 5P jọ (Èrèdí, Ìṣòro, Àsọtẹ́lẹ̀, Ètò, Ìṣe)',
+    'board.ruleTurn': 'Ní àyè rẹ: Ju káàdì kan sílẹ̀ kí o sì jíròrò ìbéèrè náà (ìṣẹ́jú-àáyá 30)',
+    'board.ruleDraw': 'Lẹ́yìn ìjíròrò: Mú káàdì tuntun',
+    'board.ruleWin': 'Ẹni àkọ́kọ́ tó bá kó gbogbo 5P jọ ló borí!',
+    'board.featuresAndShortcuts': 'Àwọn Iṣẹ́ àti Ọ̀nà Àbùjá:',
+    'board.shortcutVideo': 'Fi fídíò hàn tàbí pamọ́',
+    'board.shortcutHelp': 'Fi ìrànlọ́wọ́ yìí hàn',
+    'board.shortcutPlay': 'Ju káàdì tí o yàn sílẹ̀',
+    'board.shortcutCancel': 'Fagi lé ìyàn',
+    'board.featureTimer': 'Aago ìṣẹ́jú-àáyá 30 fún àyè kọ̀ọ̀kan tó ń tẹ̀síwájú fúnra rẹ̀',
+    'board.featureTts': 'AI ń ka àwọn ìbéèrè sókè fúnra rẹ̀',
+    'board.lastPlayed': 'Èyí tí a Jù Kẹ́yìn',
+    'board.empty': 'Òfo',
+    'board.drawPile': 'Àpò Káàdì ({count})',
+    'board.cards': 'káàdì',
+    'board.draw': 'Mú',
+    'board.playFirst': 'Kọ́kọ́ jù',
+    'board.takeDiscard': 'Mú {type}',
+    'board.takeDiscardHint': 'Mú káàdì tí a jù yìí dípò kí o fà láti inú àpò: {prompt}',
+    'board.you': 'Ìwọ',
+    'board.readyToDraw': 'O ti ṣetán láti mú!',
+    'board.playToContinue': 'Ju káàdì kan sílẹ̀ láti tẹ̀síwájú',
+    'board.waitingForTurn': 'À ń dúró de àyè {name}',
+    'board.answeredBy': '{name} ló ń dáhùn àwọn ìbéèrè àkókò yìí',
+    'board.answering': 'Ó ń dáhùn',
+    'board.reversed': 'Eré ń lọ ní ọ̀nà kejì',
+    'board.conversationStarter': 'Ìbẹ̀rẹ̀ Ìjíròrò',
+    'board.playPrompt': 'Ka ìbéèrè sókè',
+    'board.aiSummary': 'Àkópọ̀ AI: {summary}',
+    'board.yourHand': 'Káàdì Rẹ ({count})',
+    'board.yourTurn': 'Àyè Rẹ',
+    'board.noCards': 'Kò sí káàdì lọ́wọ́ rẹ',
+    'board.cardLabel': 'Káàdì {type}: {prompt}...',
+    'board.selectedCard': 'Káàdì tí o Yàn',
+    'board.cancel': 'Fagi lé',
+    'board.playing': 'Ó ń jù ú...',
+    'board.playCard': 'Ju Káàdì',
+    'board.askWho': 'Ta ló yẹ kó dáhùn àwọn ìbéèrè rẹ?',
+    'board.choosePlayer': 'Yan òṣèré kan',
+    'board.answerMyself': 'Èmi ni yóò dáhùn',
+    'board.promptFor': 'Fún {name}: {prompt}',
+    'board.paused': 'A ti dá eré dúró — aago ti dúró',
+    'board.wildHint': 'Káàdì ìgbàlódé máa ń wà lọ́wọ́ rẹ, ó sì dúró fún P èyíkéyìí',
+
+    'announce.newPrompt': 'Ìbéèrè tuntun: {prompt}...',
+    'announce.yourTurn': 'Àyè rẹ ló kàn láti ju káàdì',
+    'announce.playerTurn': 'Àyè {name} ló kàn',
+    'announce.playingCard': 'À ń ju káàdì {type}: {prompt}...',
+    'announce.playFailed': 'A kò lè ju káàdì náà. Jọ̀wọ́ tún gbìyànjú.',
+    'announce.cardSelected': 'O ti yan káàdì {type}. Tẹ Enter láti jù ú tàbí Escape láti fagi lé.',
+    'announce.playBeforeDraw': 'O gbọ́dọ̀ ju káàdì kan kí o tó mú!',
+    'announce.drawing': 'À ń mú káàdì tuntun láti inú àpò',
+    'announce.drawingDiscard': 'À ń mú káàdì láti inú èyí tí a ti jù',
+    'announce.reshuffling': 'Àpò ti ṣófo. À ń ro àwọn káàdì tí a ti jù pọ̀',
+    'announce.deckEnding': 'Àpò ti ṣófo. Eré ń parí',
+    'announce.nothingToDraw': 'Kò sí káàdì kankan láti mú mọ́. Àkókò rẹ ti kọjá',
+    'announce.selectionCancelled': 'A ti fagi lé ìyàn káàdì',
+    'announce.videoHidden': 'A ti fi fídíò pamọ́',
+    'announce.videoShown': 'A ti fi fídíò hàn',
+    'announce.progressHidden': 'A ti fi pánẹ́ẹ̀lì ìtẹ̀síwájú pamọ́',
+    'announce.progressShown': 'A ti fi pánẹ́ẹ̀lì ìtẹ̀síwájú hàn',
+    'announce.instructionsOpened': 'A ti ṣí ìlànà eré',
+
+    'timer.timesUp': 'Àkókò ti Tán!',
+    'timer.switchingTurn': 'Àyè yóò yí padà fúnra rẹ̀',
+    'timer.yourTurn': 'Àyè Rẹ',
+    'timer.hurry': 'Yára!',
+    'timer.runningOut': 'Àkókò ń tán lọ...',
+    'timer.playToContinue': 'Ju káàdì kan sílẹ̀ láti tẹ̀síwájú',
+    'timer.waiting': 'À ń dúró...',
+    'timer.otherTurn': 'Àyè òṣèré mìíràn',
+
+    'settings.title': 'Ètò ìdíje',
+    'settings.turnLength': 'Gígùn àyè',
+    'settings.seconds': '{count}ìṣ',
+    'settings.handSize': 'Káàdì ìbẹ̀rẹ̀',
+    'settings.maxPlayers': 'Òṣèré tó pọ̀ jùlọ',
+    'settings.winningHand': 'Káàdì tó yẹ láti borí',
+    'settings.mustPlayBeforeDraw': 'Ta káàdì kan kí o tó mú',
+    'settings.turnLengthValue': 'Ìṣẹ́jú-àáyá {count} fún àyè kọ̀ọ̀kan',
+    'settings.handSizeValue': 'Káàdì {count} ní ọwọ́',
+    'settings.maxPlayersValue': 'Títí dé òṣèré {count}',
+    'settings.drawAnyTime': 'Mú káàdì nígbàkúùgbà',
+    'settings.scoringMode': 'Ìkàmì',
+    'settings.scoringMode.single-set': 'Ẹni àkọ́kọ́ tó parí ọwọ́ kan',
+    'settings.scoringMode.multi-set': 'Ẹni àkọ́kọ́ tó parí ọwọ́ púpọ̀',
+    'settings.scoringMode.timed': 'Àmì tó ga jùlọ nígbà tí àkókò bá tán',
+    'settings.setsToWin': 'Ọwọ́ láti borí',
+    'settings.gameDuration': 'Gígùn ìdíje',
+    'settings.minutes': 'ìṣẹ́jú {count}',
+    'settings.peerVoting': 'Àwọn òṣèré ń fún ìdáhùn kọ̀ọ̀kan ní àmì',
+    'settings.drawFromDiscard': 'Àwọn òṣèré lè mú káàdì tí a jù kẹ́yìn dípò kí wọ́n fà',
+    'settings.actionCards': 'Fi káàdì ìgbàlódé, fò ó, yí i padà àti bi ẹnikẹ́ni kún àpò',
+    'settings.directedPrompts': 'Jẹ́ kí àwọn òṣèré darí ìbéèrè sí ẹlòmíràn',
+    'settings.teamMode': 'Ìpò ẹgbẹ́: àwọn ọmọ ẹgbẹ́ ń pín ọwọ́ kan àti àkókò kan',
+    'settings.deckExhaustionPolicy': 'Nígbà tí káàdì bá tán',
+    'settings.deckExhaustionPolicy.reshuffle': 'Da àwọn káàdì tí a ti lò pọ̀ padà',
+    'settings.deckExhaustionPolicy.end-game': 'Parí eré náà',
+    'settings.deckExhaustionPolicy.most-types': 'Ẹni tó ní P púpọ̀ jùlọ ló borí',
+    'settings.turnTimeoutPenalty': 'Nígbà tí àkókò ìyípo bá tán',
+    'settings.turnTimeoutPenalty.skip': 'Fo lọ sí ẹni tó kàn',
+    'settings.turnTimeoutPenalty.auto-play': 'Ta káàdì kan fún un',
+    'settings.turnTimeoutPenalty.auto-draw': 'Mú káàdì kan fún un',
+    'voting.title': 'Fún ìdáhùn ní àmì',
+    'voting.progress': '{count}/{total} ti dìbò',
+    'voting.timeLeft': 'Ìṣẹ́jú-àáyá {count} ló kù',
+    'voting.beingRated': 'Àwọn yòókù ń fún ìdáhùn rẹ ní àmì...',
+    'voting.thanks': 'Ẹ ṣé! À ń dúró de àwọn yòókù...',
+    'voting.prompt': 'Báwo ni ìdáhùn {name} ṣe jinlẹ̀ tó?',
+    'voting.othersRating': 'Àwọn òṣèré ń díwọ̀n ìdáhùn {name}...',
+    'voting.rate': 'Fún ní {rating} nínú {max}',
+    'voting.endAnswer': 'Mo ti parí ìdáhùn',
+    'voting.endAnswerHint': 'Parí ìdáhùn rẹ kí àwọn yòókù lè fún un ní àmì',
+    'voting.result': '{name} gba àmì {points} (àròpín {average} láti ìbò {count})',
+    'trade.title': 'Pàṣípààrọ̀',
+    'trade.propose': 'Dábàá pàṣípààrọ̀',
+    'trade.with': 'Pẹ̀lú',
+    'trade.choosePlayer': 'Yan òṣèré kan',
+    'trade.offer': 'Fún un ní',
+    'trade.chooseCard': 'Yan káàdì kan',
+    'trade.for': 'fún',
+    'trade.chooseType': 'Yan irú kan',
+    'trade.send': 'Fi àbá ránṣẹ́',
+    'trade.close': 'Pa àbá pàṣípààrọ̀ dé',
+    'trade.incoming': '{name} fẹ́ fún ọ ní káàdì {offered} fún ọ̀kan nínú àwọn káàdì {requested} rẹ',
+    'trade.give': 'Fún un: {prompt}',
+    'trade.noMatchingCard': 'O kò ní káàdì {type} kankan láti fún un',
+    'trade.decline': 'Kọ̀ ọ́',
+    'trade.waiting': 'À ń dúró de ìdáhùn {name}...',
+    'trade.withdraw': 'Fà á sẹ́yìn',
+    'trade.between': '{from} dábàá pàṣípààrọ̀ fún {to}',
+    'team.title': 'Àwọn ẹgbẹ́',
+    'team.hint': 'Àwọn ọmọ ẹgbẹ́ ń pín ọwọ́ àti àkókò, ẹnikẹ́ni nínú wọn sì lè ṣeré fún ẹgbẹ́. Àwọn tí kò ní ẹgbẹ́ ń ṣeré ní àdáwà.',
+    'team.none': 'Kò sí ẹgbẹ́',
+    'team.choose': 'Ẹgbẹ́ fún {name}',
+    'team.red': 'Pupa',
+    'team.blue': 'Búlúù',
+    'team.green': 'Àwọ̀ ewé',
+    'team.gold': 'Wúrà',
+    'facilitator.title': 'Olùdarí',
+    'facilitator.pause': 'Dá dúró',
+    'facilitator.resume': 'Tẹ̀síwájú',
+    'facilitator.badge': 'Olùdarí',
+    'facilitator.skipTurn': 'Fo àkókò',
+    'facilitator.extendTurn': 'Fi {count}s kún un',
+    'facilitator.revealPrompt': 'Ṣí ìbéèrè',
+    'facilitator.choosePlayer': 'Yan òṣèré kan…',
+    'facilitator.noHand': 'Ìwọ ni olùdarí eré yìí',
+    'moderation.muteMic': 'Pa gbohùngbohùn {name}',
+    'moderation.allowMic': 'Jẹ́ kí {name} tan gbohùngbohùn',
+    'moderation.stopCamera': 'Pa kámẹ́rà {name}',
+    'moderation.allowCamera': 'Jẹ́ kí {name} tan kámẹ́rà',
+    'moderation.kick': 'Yọ {name} kúrò',
+    'moderation.ban': 'Dí {name} lọ́wọ́ eré yìí',
+    'moderation.mutedByHost': 'Olùgbàlejò ti pa ohùn',
+    'moderation.cameraOffByHost': 'Olùgbàlejò ti pa kámẹ́rà',
+    'access.title': 'Ìwọlé yàrá',
+    'access.passcode': 'Ọ̀rọ̀ aṣínà',
+    'access.passcodeSet': 'A nílò ọ̀rọ̀ aṣínà láti wọlé',
+    'access.noPasscode': 'Kò sí ọ̀rọ̀ aṣínà',
+    'access.setPasscode': 'Ṣètò ọ̀rọ̀ aṣínà',
+    'access.removePasscode': 'Yọ ọ̀rọ̀ aṣínà kúrò',
+    'access.passcodeLength': 'Lẹ́tà {min}–{max}',
+    'access.requireApproval': 'Fọwọ́ sí ẹnìkọ̀ọ̀kan kí wọ́n tó wọlé',
+    'access.requireAccount': 'Jẹ́ kí àwọn tó wọlé sí àkáǹtì nìkan wọlé',
+    'access.requireAccountHint': 'Ìfòfindè máa ń dá ènìyàn dúró kìkì nígbà tí èyí bá wà ní títàn.',
+    'access.createInvite': 'Ṣẹ̀dá ìjápọ̀ ìpè',
+    'access.inviteHint': 'Ìjápọ̀ kọ̀ọ̀kan ń jẹ́ kí ẹnìkan wọlé láìsí ọ̀rọ̀ aṣínà tàbí ìfọwọ́sí.',
+    'access.inviteCopied': 'A ti da ìjápọ̀ kọ',
+    'access.requests': 'Wọ́n ń dúró láti wọlé',
+    'access.admit': 'Gbà wọlé',
+    'access.decline': 'Kọ̀',
+    'spectator.watching': 'O ń wo eré yìí',
+    'spectator.count': '{count} ń wò ó',
+    'reaction.title': 'Ìfèsì',
+    'reaction.send': 'Fèsì pẹ̀lú {emoji}',
+    'cardPacks.title': 'Àwọn àpò káàdì',
+    'cardPacks.selected': 'Àwọn àpò káàdì:',
+    'cardPacks.import': 'Gbé wọlé',
+    'cardPacks.newPack': 'Àpò tuntun',
+    'cardPacks.importFailed': 'A kò lè gbé àpò káàdì wọlé',
+    'cardPacks.dismiss': 'Pa á tì',
+    'cardPacks.importRow': 'Ìlà {row}: ',
+    'cardPacks.promptCount': 'Ìbéèrè {count}',
+    'cardPacks.shared': 'Pínpín',
+    'cardPacks.edit': 'Ṣàtúnṣe',
+    'cardPacks.editTitle': 'Ṣàtúnṣe àpò káàdì',
+    'cardPacks.newTitle': 'Àpò káàdì tuntun',
+    'cardPacks.closeEditor': 'Pa olùṣàtúnṣe dé',
+    'cardPacks.name': 'Orúkọ àpò',
+    'cardPacks.namePlaceholder': 'àp. Ìyípadà iṣẹ́',
+    'cardPacks.description': 'Àpèjúwe',
+    'cardPacks.descriptionPlaceholder': 'Ta ni àpò yìí wà fún?',
+    'cardPacks.typePrompts': 'Àwọn ìbéèrè {type}',
+    'cardPacks.onePerLine': '(ọ̀kan ní ìlà kọ̀ọ̀kan)',
+    'cardPacks.share': 'Pín àpò yìí pẹ̀lú àwọn olùdarí mìíràn',
+    'cardPacks.delete': 'Paarẹ́',
+    'cardPacks.cancel': 'Fagilé',
+    'cardPacks.save': 'Fi àpò pamọ́',
+    'cardPacks.saveFailed': 'A kò lè fi àpò káàdì pamọ́',
+    'cardPacks.deleteFailed': 'A kò lè pa àpò káàdì rẹ́'
+  },
+  prompts: {
+    'Purpose-0': 'Kí ni ohun pàtàkì tó ń sún ọ láti ṣe ohun tí o ń ṣe?',
+    'Purpose-1': 'Kí ló ń fún ayé rẹ ní ìtumọ̀ àti ìtọ́sọ́nà?',
+    'Purpose-2': 'Kí ni o fẹ́ kí wọ́n máa fi rántí rẹ?',
+    'Purpose-3': 'Kí ló ń jí ọ dìde ní òwúrọ̀?',
+    'Purpose-4': 'Kí ni ìdí tó wà lẹ́yìn àwọn àfojúsùn rẹ tó tóbi jù?',
+    'Purpose-5': 'Ogún wo ni o fẹ́ fi sílẹ̀ sẹ́yìn?',
+    'Purpose-6': 'Kí ló máa ń tẹ́ ọ lọ́rùn jù lọ?',
+    'Purpose-7': 'Kí ni o máa ṣe bí o bá ní ohun àmúṣọrọ̀ tí kò lópin?',
+    'Purpose-8': 'Ìyípadà wo ni o fẹ́ rí jù lọ nínú ayé?',
+    'Purpose-9': 'Kí ni iṣẹ́ àpinfúnni ti ara rẹ?',
+    'Problems-0': 'Kí ni ìpèníjà tó tóbi jù tí o ń dojú kọ báyìí?',
+    'Problems-1': 'Ìdènà wo ló máa ń dí ọ lọ́nà léraléra?',
+    'Problems-2': 'Kí ni o máa yí padà nínú ipò tí o wà báyìí?',
+    'Problems-3': 'Kí ni ohun tó máa ń bí ọ nínú nígbà gbogbo?',
+    'Problems-4': 'Ìṣòro wo ni o fẹ́ lè yanjú fún gbogbo ènìyàn?',
+    'Problems-5': 'Kí ló ń dá ọ dúró láti dé ibi àfojúsùn rẹ?',
+    'Problems-6': 'Àṣà wo ni o fẹ́ jáwọ́ nínú rẹ̀ nínú ayé rẹ?',
+    'Problems-7': 'Kí ni ìpinnu tó le jù tí o ń dojú kọ?',
+    'Problems-8': 'Ipò wo ló máa ń mú kí o rò pé ọ̀nà ti há?',
+    'Problems-9': 'Kí ni o máa béèrè ìrànlọ́wọ́ fún bí ìgbéraga kò bá sí níbẹ̀?',
+    'Prognosis-0': 'Níbo ni o rí ara rẹ ní ọdún márùn-ún sí ìsinsìnyí?',
+    'Prognosis-1': 'Àwọn àṣà wo lo rò pé yóò ṣe àgbékalẹ̀ ọjọ́ iwájú?',
+    'Prognosis-2': 'Báwo lo ṣe rò pé ipò rẹ lọ́wọ́lọ́wọ́ yóò ṣe yí padà?',
+    'Prognosis-3': 'Kí ni àsọtẹ́lẹ̀ rẹ fún ẹ̀ka iṣẹ́ rẹ?',
+    'Prognosis-4': 'Àwọn ọgbọ́n wo ni yóò níye lórí jù ní ọjọ́ iwájú?',
+    'Prognosis-5': 'Báwo lo ṣe rò pé ìmọ̀ ẹ̀rọ yóò yí ìgbésí ayé ojoojúmọ́ wa padà?',
+    'Prognosis-6': 'Báwo lo ṣe rò pé ayé yóò rí fún ìran tó ń bọ̀?',
+    'Prognosis-7': 'Ibo lo rí i pé àwọn ìbáṣepọ̀ rẹ ń lọ?',
+    'Prognosis-8': 'Àwọn ìyípadà wo lo ń retí nínú iṣẹ́ rẹ?',
+    'Prognosis-9': 'Kí ni èrò rẹ nípa ṣíṣe àṣeyọrí àlá rẹ tó tóbi jù?',
+    'Plan-0': 'Kí ni ọgbọ́n rẹ láti dé àfojúsùn ńlá rẹ tó kàn?',
+    'Plan-1': 'Kí ni ìgbésẹ̀ àkọ́kọ́ tí o nílò láti gbé?',
+    'Plan-2': 'Báwo lo ṣe fẹ́ borí ìdènà rẹ tó tóbi jù?',
+    'Plan-3': 'Báwo ni ọjọ́ tó dára jù fún ọ yóò ṣe rí, báwo lo sì ṣe lè ṣẹ̀dá rẹ̀?',
+    'Plan-4': 'Kí ni ètò mìíràn rẹ bí nǹkan kò bá lọ bí o ti retí?',
+    'Plan-5': 'Báwo lo ṣe fẹ́ dàgbà ní ọdún tó ń bọ̀?',
+    'Plan-6': 'Àwọn ohun èlò wo lo nílò láti dé àfojúsùn rẹ?',
+    'Plan-7': 'Àwọn ìwà wo lo fẹ́ kọ́ tàbí jáwọ́ nínú wọn?',
+    'Plan-8': 'Báwo lo ṣe fẹ́ díwọ̀n àṣeyọrí rẹ?',
+    'Plan-9': 'Kí ni àkókò tí o là sílẹ̀ fún iṣẹ́ rẹ tó ṣe pàtàkì jù?',
+    'Perform-0': 'Kí ni ohun tí o ṣe láìpẹ́ yìí tí o fi ń yangàn?',
+    'Perform-1': 'Ìgbésẹ̀ wo lo gbé tó mú ìyàtọ̀ tó tóbi jù wá?',
+    'Perform-2': 'Kí ni ìpinnu tó dára jù tí o ṣe lọ́dún yìí?',
+    'Perform-3': 'Ọgbọ́n wo lo ti mú sunwọ̀n sí i jù?',
+    'Perform-4': 'Kí ni ohun tí o ṣe tó mú ọ kúrò ní ibi tí ara ti rọ̀ ọ́?',
+    'Perform-5': 'Ìwà rere wo lo ti fi ìdí rẹ̀ múlẹ̀ ní àṣeyọrí?',
+    'Perform-6': 'Sọ àpẹẹrẹ kan tí o ti gbé ìgbé ayé gẹ́gẹ́ bí ìlànà rẹ.',
+    'Perform-7': 'Kí ni ohun tí o ti ṣe láti ran àwọn ẹlòmíràn lọ́wọ́?',
+    'Perform-8': 'Kí ni ìtẹ̀síwájú tó nítumọ̀ jù tí o ti ṣe láìpẹ́ yìí?',
+    'Perform-9': 'Ìgbésẹ̀ wo lo ń gbé báyìí láti sún mọ́ àfojúsùn rẹ?',
+
+    // Action cards are translated by type
+    'Wild': 'Ó dúró fún P èyíkéyìí nínú ọwọ́ tó ń borí',
+    'Skip': 'Òṣèré tó kàn pàdánù àkókò rẹ̀',
+    'Reverse': 'Eré yí ọ̀nà padà yí tábìlì ká',
+    'AskAnyone': 'Yan ẹni tí yóò dáhùn àwọn ìbéèrè rẹ ní àkókò yìí'
+  }
+};
\ No newline at end of file
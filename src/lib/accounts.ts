@@ -0,0 +1,20 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Works out which Supabase account is taking a seat, for the backends only.
+// The client sends its access token and Supabase says whose it is; a user id
+// the client names itself proves nothing. Without SUPABASE_URL and
+// SUPABASE_ANON_KEY nobody can be verified, so every player has no account.
+
+const supabase = process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY, { auth: { persistSession: false } })
+  : null;
+
+// The account's id, or undefined for a missing, expired or forged token
+export async function verifyAccessToken(accessToken?: string): Promise<string | undefined> {
+  if (!supabase || !accessToken) {
+    return undefined;
+  }
+
+  const { data, error } = await supabase.auth.getUser(accessToken);
+  return error ? undefined : data.user?.id;
+}
@@ -0,0 +1,207 @@
+import { CARD_TYPES } from '../data/cards';
+import {
+  DECK_EXHAUSTION_POLICIES,
+  PASSCODE_LENGTH,
+  SCORING_MODES,
+  SUPPORTED_LOCALES,
+  TEAM_IDS,
+  TURN_TIMEOUT_PENALTIES
+} from './gameRules';
+
+// Shape checks for action payloads as they come off the network, run by every
+// backend before it looks at a request. This only makes sure each field is the
+// type it should be, no bigger than it should be, and that nothing else came
+// along; whether the move is allowed is still up to the rules engine.
+
+// Describes what a value should have been, or returns null if it fits
+type Check = (value: unknown) => string | null;
+
+const ID_PATTERN = /^[\w:-]{1,128}$/; // No dots: seat tokens and invites are dot-separated
+const MAX_TOKEN_LENGTH = 512;
+const MAX_ACCESS_TOKEN_LENGTH = 4096; // Supabase's JWTs grow with the account's metadata
+const MAX_NAME_LENGTH = 100;
+const MAX_CARD_PACKS = 20;
+const MAX_EMOJI_LENGTH = 16;
+
+const id: Check = value =>
+  typeof value === 'string' && ID_PATTERN.test(value) ? null : 'must be an id';
+
+const boolean: Check = value =>
+  typeof value === 'boolean' ? null : 'must be true or false';
+
+const integer: Check = value =>
+  Number.isInteger(value) ? null : 'must be a whole number';
+
+const empty: Check = value =>
+  Array.isArray(value) && value.length === 0 ? null : 'must be empty';
+
+function text(maxLength: number): Check {
+  return value =>
+    typeof value === 'string' && value.length <= maxLength ? null : `must be text of at most ${maxLength} characters`;
+}
+
+function oneOf(values: readonly string[]): Check {
+  return value =>
+    typeof value === 'string' && values.includes(value) ? null : `must be one of ${values.join(', ')}`;
+}
+
+function optional(check: Check): Check {
+  return value => value === undefined ? null : check(value);
+}
+
+function listOf(check: Check, maxLength: number, minLength: number = 0): Check {
+  return value => {
+    if (!Array.isArray(value) || value.length < minLength || value.length > maxLength) {
+      return `must be a list of ${minLength} to ${maxLength} items`;
+    }
+
+    for (let index = 0; index < value.length; index++) {
+      const problem = check(value[index]);
+      if (problem) return `[${index}] ${problem}`;
+    }
+    return null;
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Every listed field must fit and no unlisted field may be present
+function shape(fields: Record<string, Check>): Check {
+  return value => {
+    if (!isObject(value)) {
+      return 'must be an object';
+    }
+
+    const unknown = Object.keys(value).find(key => !(key in fields));
+    if (unknown) {
+      return `has an unexpected field ${unknown}`;
+    }
+
+    for (const [key, check] of Object.entries(fields)) {
+      const problem = check(value[key]);
+      if (problem) return `${key} ${problem}`;
+    }
+    return null;
+  };
+}
+
+// Like shape, but every field is optional
+function partial(fields: Record<string, Check>): Check {
+  return shape(Object.fromEntries(Object.entries(fields).map(([key, check]) => [key, optional(check)])));
+}
+
+function perCardType(check: Check): Record<string, Check> {
+  return Object.fromEntries(CARD_TYPES.map(type => [type, check]));
+}
+
+// The player sent with create-game and join-game. The engine deals the hand
+// and decides who hosts, so neither is taken from here, and the backend sets
+// userId from the access token. Whoever creates a room may facilitate it;
+// anyone joining can only play or watch until the host makes them a facilitator.
+function player(roles: readonly string[]): Check {
+  return shape({
+    id,
+    name: text(MAX_NAME_LENGTH),
+    hand: empty,
+    isHost: boolean,
+    role: oneOf(roles),
+    videoEnabled: boolean,
+    audioEnabled: boolean,
+    isConnected: boolean,
+    language: optional(oneOf(SUPPORTED_LOCALES))
+  });
+}
+
+const settings = partial({
+  turnTimeLimit: integer,
+  handSize: integer,
+  maxPlayers: integer,
+  winningHand: shape(perCardType(integer)),
+  mustPlayBeforeDraw: boolean,
+  scoringMode: oneOf(SCORING_MODES),
+  setsToWin: integer,
+  gameDuration: integer,
+  peerVoting: boolean,
+  drawFromDiscard: boolean,
+  actionCards: boolean,
+  directedPrompts: boolean,
+  teamMode: boolean,
+  deckExhaustionPolicy: oneOf(DECK_EXHAUSTION_POLICIES),
+  turnTimeoutPenalty: oneOf(TURN_TIMEOUT_PENALTIES)
+});
+
+// Sent with every request, on top of the fields for the action itself.
+// playerId only comes over HTTP; the socket server knows who is connected.
+const ENVELOPE: Record<string, Check> = {
+  action: optional(text(MAX_NAME_LENGTH)),
+  gameId: id,
+  playerId: optional(id),
+  seatToken: optional(text(MAX_TOKEN_LENGTH))
+};
+
+const ACTION_FIELDS: Record<string, Record<string, Check>> = {
+  'create-game': {
+    player: player(['player', 'facilitator']),
+    accessToken: optional(text(MAX_ACCESS_TOKEN_LENGTH)),
+    seed: optional(integer),
+    settings: optional(settings)
+  },
+  'join-game': {
+    player: player(['player', 'spectator']),
+    accessToken: optional(text(MAX_ACCESS_TOKEN_LENGTH)),
+    passcode: optional(text(PASSCODE_LENGTH.max)),
+    invite: optional(text(MAX_TOKEN_LENGTH))
+  },
+  'set-room-access': { passcode: optional(text(PASSCODE_LENGTH.max)), requireApproval: optional(boolean), requireAccount: optional(boolean) },
+  'create-invite': {},
+  'respond-join-request': { requestPlayerId: id, accept: boolean },
+  'start-game': {},
+  'play-card': { cardId: id, targetPlayerId: optional(id) },
+  'draw-card': {},
+  'draw-discard': {},
+  'select-card-packs': { cardPackIds: listOf(id, MAX_CARD_PACKS, 1) }, // The backend loads the packs themselves
+  'set-language': { language: oneOf(SUPPORTED_LOCALES) },
+  'pause-game': {},
+  'resume-game': {},
+  'skip-turn': {},
+  'extend-turn': {},
+  'kick-player': { targetPlayerId: id, ban: optional(boolean) },
+  'mute-player': { targetPlayerId: id, audio: optional(boolean), video: optional(boolean) },
+  'reveal-prompt': {},
+  'set-team': { targetPlayerId: id, teamId: optional(oneOf(TEAM_IDS)) },
+  'set-role': { targetPlayerId: id, role: oneOf(['player', 'facilitator']) },
+  'update-settings': { settings },
+  'end-answer': {},
+  'cast-vote': { rating: integer },
+  'propose-trade': { targetPlayerId: id, cardId: id, requestedType: oneOf(CARD_TYPES) },
+  'respond-trade': { accept: boolean, cardId: optional(id) },
+  'cancel-trade': {},
+  'send-reaction': { emoji: text(MAX_EMOJI_LENGTH) },
+  'new-game': {}
+};
+
+export function isKnownAction(action: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ACTION_FIELDS, action);
+}
+
+// The fields a well-formed payload carries for the action itself, without the envelope
+export function getActionFields(action: string, payload: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.keys(ACTION_FIELDS[action] ?? {})
+      .filter(key => payload[key] !== undefined)
+      .map(key => [key, payload[key]])
+  );
+}
+
+// Returns a message naming the first field that doesn't fit, or null if the
+// payload is well formed
+export function validateActionPayload(action: string, payload: unknown): string | null {
+  if (!isKnownAction(action)) {
+    return `Unknown action: ${action}`;
+  }
+
+  const problem = shape({ ...ENVELOPE, ...ACTION_FIELDS[action] })(payload);
+  return problem && `Invalid ${action} request: ${problem}`;
+}
\ No newline at end of file
@@ -0,0 +1,236 @@
+import { CardPack, PType } from '../types/game';
+import { CARD_TYPES, CARD_COLORS } from '../data/cards';
+
+// Import/export of card packs so workshop leads can keep decks in files and
+// spreadsheets. JSON carries a format tag and version; CSV is `type,prompt,color`.
+
+export const CARD_PACK_FORMAT = 'olubox-card-pack';
+export const CARD_PACK_FORMAT_VERSION = 1;
+
+const CSV_HEADER = ['type', 'prompt', 'color'];
+export const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export type CardPackDraft = Omit<CardPack, 'id'> & { id?: string };
+
+export interface CardPackFile {
+  format: typeof CARD_PACK_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  cards: { type: PType; prompt: string; color: string }[];
+}
+
+export interface CardPackImportError {
+  row: number; // 1-based; for CSV this is the line number, header included
+  message: string;
+}
+
+export interface CardPackImportResult {
+  pack: CardPackDraft | null;
+  errors: CardPackImportError[];
+}
+
+function packCards(pack: CardPackDraft): CardPackFile['cards'] {
+  return CARD_TYPES.flatMap(type =>
+    (pack.prompts[type] || []).map(prompt => ({
+      type,
+      prompt,
+      color: pack.colors?.[type] ?? CARD_COLORS[type]
+    }))
+  );
+}
+
+export function exportCardPackJson(pack: CardPackDraft): string {
+  const file: CardPackFile = {
+    format: CARD_PACK_FORMAT,
+    version: CARD_PACK_FORMAT_VERSION,
+    name: pack.name,
+    description: pack.description,
+    cards: packCards(pack)
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportCardPackCsv(pack: CardPackDraft): string {
+  const lines = packCards(pack).map(card =>
+    [card.type, card.prompt, card.color].map(csvField).join(',')
+  );
+
+  return [CSV_HEADER.join(','), ...lines].join('\n');
+}
+
+// RFC 4180 style: quoted fields may contain commas, doubled quotes and newlines.
+// Each record keeps the line number it started on for error reporting.
+function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(f => f.trim() !== '')) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  endRecord();
+  return records;
+}
+
+// Shared by both formats: checks each card and collects them into a pack
+function buildPack(
+  name: string,
+  description: string | undefined,
+  cards: { row: number; type: unknown; prompt: unknown; color: unknown }[],
+  errors: CardPackImportError[]
+): CardPackImportResult {
+  const prompts: CardPack['prompts'] = { Purpose: [], Problems: [], Prognosis: [], Plan: [], Perform: [] };
+  const colors: Partial<Record<PType, string>> = {};
+
+  cards.forEach(({ row, type, prompt, color }) => {
+    if (typeof type !== 'string' || !CARD_TYPES.includes(type.trim() as PType)) {
+      errors.push({ row, message: `Unknown card type "${String(type ?? '')}". Expected one of ${CARD_TYPES.join(', ')}` });
+      return;
+    }
+
+    const cardType = type.trim() as PType;
+
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      errors.push({ row, message: 'Prompt is empty' });
+      return;
+    }
+
+    if (color !== undefined && color !== null && String(color).trim() !== '') {
+      const cardColor = String(color).trim();
+      if (!COLOR_PATTERN.test(cardColor)) {
+        errors.push({ row, message: `Invalid color "${cardColor}". Use a hex color like #8B5CF6` });
+        return;
+      }
+      if (colors[cardType] && colors[cardType]!.toLowerCase() !== cardColor.toLowerCase()) {
+        errors.push({ row, message: `Color ${cardColor} conflicts with ${colors[cardType]} used by earlier ${cardType} cards` });
+        return;
+      }
+      colors[cardType] = cardColor;
+    }
+
+    prompts[cardType].push(prompt.trim());
+  });
+
+  if (cards.length === 0) {
+    errors.push({ row: 0, message: 'The file contains no cards' });
+  }
+
+  const hasColors = Object.keys(colors).length > 0;
+
+  return {
+    pack: errors.length === 0
+      ? { name, description, prompts, ...(hasColors ? { colors } : {}) }
+      : null,
+    errors
+  };
+}
+
+export function importCardPackJson(text: string): CardPackImportResult {
+  let file: Partial<CardPackFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { pack: null, errors: [{ row: 0, message: 'File is not valid JSON' }] };
+  }
+
+  if (!file || typeof file !== 'object' || file.format !== CARD_PACK_FORMAT) {
+    return { pack: null, errors: [{ row: 0, message: `Not an ${CARD_PACK_FORMAT} file` }] };
+  }
+
+  if (file.version !== CARD_PACK_FORMAT_VERSION) {
+    return { pack: null, errors: [{ row: 0, message: `Unsupported card pack version ${String(file.version)}` }] };
+  }
+
+  if (!Array.isArray(file.cards)) {
+    return { pack: null, errors: [{ row: 0, message: 'Missing cards list' }] };
+  }
+
+  const errors: CardPackImportError[] = [];
+  const name = typeof file.name === 'string' && file.name.trim() ? file.name.trim() : 'Imported pack';
+  const description = typeof file.description === 'string' ? file.description : undefined;
+
+  return buildPack(
+    name,
+    description,
+    file.cards.map((card, index) => ({
+      row: index + 1,
+      type: card?.type,
+      prompt: card?.prompt,
+      color: card?.color
+    })),
+    errors
+  );
+}
+
+export function importCardPackCsv(text: string, name: string): CardPackImportResult {
+  const records = parseCsv(text.replace(/^\uFEFF/, ''));
+  const errors: CardPackImportError[] = [];
+
+  if (records.length === 0) {
+    return { pack: null, errors: [{ row: 0, message: 'The file contains no cards' }] };
+  }
+
+  const header = records[0].fields.map(f => f.trim().toLowerCase());
+  const typeColumn = header.indexOf('type');
+  const promptColumn = header.indexOf('prompt');
+  const colorColumn = header.indexOf('color');
+
+  if (typeColumn === -1 || promptColumn === -1) {
+    return { pack: null, errors: [{ row: records[0].line, message: `Header must be ${CSV_HEADER.join(',')}` }] };
+  }
+
+  return buildPack(
+    name,
+    undefined,
+    records.slice(1).map(({ line, fields }) => ({
+      row: line,
+      type: fields[typeColumn],
+      prompt: fields[promptColumn],
+      color: colorColumn === -1 ? undefined : fields[colorColumn]
+    })),
+    errors
+  );
+}
\ No newline at end of file
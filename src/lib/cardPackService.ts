@@ -0,0 +1,84 @@
+import { supabase } from './supabase';
+import { CardPack } from '../types/game';
+import { CARD_TYPES, DEFAULT_CARD_PACK } from '../data/cards';
+import { CARD_PACK_COLUMNS, CardPackRow, toCardPack } from './cardPackStore';
+
+export class CardPackService {
+  // The built-in classic pack first, then the user's own packs and packs shared by other facilitators
+  static async listCardPacks(userId?: string): Promise<CardPack[]> {
+    let query = supabase
+      .from('card_packs')
+      .select(CARD_PACK_COLUMNS)
+      .order('created_at');
+
+    query = userId
+      ? query.or(`is_shared.eq.true,owner_user_id.eq.${userId}`)
+      : query.eq('is_shared', true);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error loading card packs:', error);
+      throw new Error('Failed to load card packs');
+    }
+
+    return [DEFAULT_CARD_PACK, ...(data as CardPackRow[]).map(toCardPack)];
+  }
+
+  static async saveCardPack(pack: Omit<CardPack, 'id'> & { id?: string }, userId: string): Promise<CardPack> {
+    if (pack.id === DEFAULT_CARD_PACK.id) {
+      throw new Error('The classic pack cannot be edited');
+    }
+
+    const packRow = {
+      owner_user_id: userId,
+      name: pack.name,
+      description: pack.description || null,
+      colors: pack.colors ?? null,
+      is_shared: pack.isShared ?? false
+    };
+
+    const { data, error: packError } = pack.id
+      ? await supabase.from('card_packs').update(packRow).eq('id', pack.id).select().single()
+      : await supabase.from('card_packs').insert(packRow).select().single();
+
+    if (packError || !data) {
+      console.error('Error saving card pack:', packError);
+      throw new Error('Failed to save card pack');
+    }
+
+    // Replace the prompts wholesale; packs are small. The RPC does it in one
+    // transaction, so a failure keeps the old prompts rather than none.
+    const promptRows = CARD_TYPES.flatMap(type =>
+      (pack.prompts[type] || []).map((prompt, position) => ({
+        card_type: type,
+        prompt,
+        position
+      }))
+    );
+
+    const { error: promptsError } = await supabase.rpc('replace_card_pack_prompts', {
+      p_pack_id: data.id,
+      p_prompts: promptRows
+    });
+
+    if (promptsError) {
+      console.error('Error saving card pack prompts:', promptsError);
+      throw new Error('Failed to save card pack prompts');
+    }
+
+    return { ...pack, id: data.id, ownerUserId: userId };
+  }
+
+  static async deleteCardPack(packId: string): Promise<void> {
+    const { error } = await supabase
+      .from('card_packs')
+      .delete()
+      .eq('id', packId);
+
+    if (error) {
+      console.error('Error deleting card pack:', error);
+      throw new Error('Failed to delete card pack');
+    }
+  }
+}
\ No newline at end of file
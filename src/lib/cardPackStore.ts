@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js';
+import { CardPack, PType } from '../types/game';
+import { DEFAULT_CARD_PACK } from '../data/cards';
+
+// Card packs as the database keeps them, read by the browser's card pack
+// library and by the backends when a moderator picks packs for a game.
+
+export const CARD_PACK_COLUMNS = '*, card_pack_prompts(card_type, prompt, position)';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface CardPackRow {
+  id: string;
+  owner_user_id: string;
+  name: string;
+  description: string | null;
+  is_shared: boolean;
+  colors: CardPack['colors'] | null;
+  card_pack_prompts: { card_type: PType; prompt: string; position: number }[];
+}
+
+function emptyPrompts(): CardPack['prompts'] {
+  return { Purpose: [], Problems: [], Prognosis: [], Plan: [], Perform: [] };
+}
+
+export function toCardPack(row: CardPackRow): CardPack {
+  const prompts = emptyPrompts();
+  [...row.card_pack_prompts]
+    .sort((a, b) => a.position - b.position)
+    .forEach(p => prompts[p.card_type].push(p.prompt));
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    prompts,
+    colors: row.colors ?? undefined,
+    ownerUserId: row.owner_user_id,
+    isShared: row.is_shared
+  };
+}
+
+// For the backends only: the client names packs by id and their prompts come
+// from here, so nobody can deal a game a pack they couldn't read themselves.
+// The built-in pack is always found; a stored pack only if it is shared or
+// belongs to userId, the account the backend verified for the player asking.
+// Without SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY only the built-in pack is.
+// Resolves to the packs in the order asked for, or null if any is missing.
+export async function loadCardPacks(packIds: string[], userId?: string): Promise<CardPack[] | null> {
+  const storedIds = packIds.filter(id => id !== DEFAULT_CARD_PACK.id);
+  let stored: CardPack[] = [];
+
+  if (storedIds.length > 0) {
+    const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !storedIds.every(id => UUID_PATTERN.test(id))) {
+      return null;
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } });
+    const { data, error } = await supabase
+      .from('card_packs')
+      .select(CARD_PACK_COLUMNS)
+      .in('id', storedIds);
+
+    if (error) {
+      console.error('Error loading card packs:', error);
+      throw new Error('Failed to load card packs');
+    }
+
+    stored = (data as CardPackRow[])
+      .map(toCardPack)
+      .filter(pack => pack.isShared || (!!userId && pack.ownerUserId === userId));
+  }
+
+  const packs = packIds.map(id => (id === DEFAULT_CARD_PACK.id ? DEFAULT_CARD_PACK : stored.find(pack => pack.id === id)));
+  return packs.every((pack): pack is CardPack => !!pack) ? packs : null;
+}
@@ -0,0 +1,84 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { register } from 'tsx/cjs/api';
+import { GameState, Player } from '../types/game';
+
+// The Netlify functions are CommonJS that require the engine's TypeScript
+// directly, as esbuild bundles them; tsx loads them the same way here.
+
+interface FunctionResponse {
+  statusCode: number;
+  body: string;
+}
+
+type Handler = (event: { httpMethod: string; body?: string; queryStringParameters?: Record<string, string> }) => Promise<FunctionResponse>;
+
+const GAME_ID = 'ROOM01';
+
+function makePlayer(id: string): Player {
+  return { id, name: id, hand: [], isHost: false, role: 'player', videoEnabled: true, audioEnabled: true, isConnected: true };
+}
+
+describe.each(['game-api', 'supabase-game-api'])('%s', functionName => {
+  let handler: Handler;
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { require } = register({ namespace: functionName });
+    ({ handler } = require(`../../netlify/functions/${functionName}.js`, import.meta.url));
+  });
+
+  const post = (action: string, data: Record<string, unknown>) =>
+    handler({ httpMethod: 'POST', queryStringParameters: { action }, body: JSON.stringify(data) });
+
+  it('refuses to create a game over one that already exists', async () => {
+    const created = await post('create-game', { gameId: GAME_ID, player: makePlayer('alice') });
+    expect(created.statusCode).toBe(200);
+
+    const again = await post('create-game', { gameId: GAME_ID, player: makePlayer('mallory') });
+    expect(again.statusCode).toBe(409);
+    expect(JSON.parse(again.body)).not.toHaveProperty('seatToken');
+
+    const { seatToken } = JSON.parse(created.body);
+    const current = await handler({ httpMethod: 'GET', queryStringParameters: { action: 'game-state', gameId: GAME_ID, seatToken } });
+    const { gameState } = JSON.parse(current.body) as { gameState: GameState };
+    expect(gameState.players.map(p => p.id)).toEqual(['alice']);
+    expect(gameState.players[0].isHost).toBe(true);
+  });
+
+  it('takes no account id from the client', async () => {
+    const response = await post('create-game', { gameId: 'ROOM02', player: { ...makePlayer('alice'), userId: 'someone-else' } });
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('takes card packs by id and loads them itself', async () => {
+    const created = await post('create-game', { gameId: 'ROOM04', player: makePlayer('alice') });
+    const { seatToken } = JSON.parse(created.body);
+    const select = (data: Record<string, unknown>) => post('select-card-packs', { gameId: 'ROOM04', playerId: 'alice', seatToken, ...data });
+
+    const forged = await select({ cardPacks: [{ id: 'mine', name: 'Mine', prompts: {} }] });
+    expect(forged.statusCode).toBe(400);
+
+    const unknown = await select({ cardPackIds: ['00000000-0000-0000-0000-000000000000'] });
+    expect(unknown.statusCode).toBe(404);
+
+    const classic = await select({ cardPackIds: ['classic'] });
+    expect(classic.statusCode).toBe(200);
+    expect((JSON.parse(classic.body).gameState as GameState).cardPacks.map(pack => pack.id)).toEqual(['classic']);
+  });
+
+  it('turns away joiners without an account once the host requires one', async () => {
+    const created = await post('create-game', { gameId: 'ROOM03', player: makePlayer('alice') });
+    const { seatToken } = JSON.parse(created.body);
+    expect((await post('join-game', { gameId: 'ROOM03', player: makePlayer('bob') })).statusCode).toBe(200);
+
+    const kicked = await post('kick-player', { gameId: 'ROOM03', playerId: 'alice', seatToken, targetPlayerId: 'bob', ban: true });
+    expect(kicked.statusCode).toBe(200);
+    expect((await post('join-game', { gameId: 'ROOM03', player: makePlayer('carol') })).statusCode).toBe(200);
+
+    const locked = await post('set-room-access', { gameId: 'ROOM03', playerId: 'alice', seatToken, requireAccount: true });
+    expect(locked.statusCode).toBe(200);
+
+    const rejoined = await post('join-game', { gameId: 'ROOM03', player: makePlayer('bob-again') });
+    expect(rejoined.statusCode).toBe(403);
+  });
+});
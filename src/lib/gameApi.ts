@@ -0,0 +1,246 @@
+import { GameSettings, GameState, Player } from '../types/game';
+import { verifyAccessToken } from './accounts';
+import { getActionFields, validateActionPayload } from './actionSchema';
+import { loadCardPacks } from './cardPackStore';
+import { GameAction, applyAction, createGameState, getDueAction, getViewerState, isRuleError } from './gameRules';
+import { createInviteId, createInviteToken, verifyInviteToken } from './invites';
+import { chooseSeed } from './random';
+import { createSeatToken, verifySeatToken } from './seatTokens';
+
+// The request handling behind the game-api and supabase-game-api Netlify
+// functions, which differ only in where they keep games. Each POST is one
+// action: shape-checked, refused without the seat token of the player it
+// names, then run through the rules engine. The answer is that player's own
+// view of the result.
+
+const PROMPT_DISPLAY_TIME = 30000; // A drawn prompt stays up this long for discussion
+
+// Where a function keeps its games: in memory (below) or in Supabase (supabaseGameStore)
+export interface GameStore {
+  load(gameId: string): Promise<GameState | undefined>;
+  // Resolves to false when the id is already taken
+  create(gameId: string, game: GameState): Promise<boolean>;
+  // previous is the state the change was made to, so only what changed need be written
+  save(gameId: string, game: GameState, previous: GameState): Promise<void>;
+}
+
+export interface FunctionEvent {
+  httpMethod: string;
+  body?: string | null;
+  queryStringParameters?: Record<string, string | undefined> | null;
+}
+
+export interface FunctionResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+type ActionData = { gameId: string; playerId?: string; seatToken?: string } & Record<string, unknown>;
+
+// CORS headers for all responses
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS'
+};
+
+function respond(statusCode: number, body: object): FunctionResponse {
+  return { statusCode, headers: corsHeaders, body: JSON.stringify(body) };
+}
+
+// Games live only as long as the function instance that holds them
+export function createMemoryGameStore(): GameStore {
+  const games = new Map<string, GameState>();
+
+  return {
+    async load(gameId) {
+      return games.get(gameId);
+    },
+    async create(gameId, game) {
+      if (games.has(gameId)) {
+        return false;
+      }
+      games.set(gameId, game);
+      return true;
+    },
+    async save(gameId, game) {
+      games.set(gameId, game);
+    }
+  };
+}
+
+export function createGameApiHandler(store: GameStore) {
+  // Functions have no timers between requests, so an overdue turn or timed game
+  // is expired the next time anyone reads the game (clients poll every couple of seconds)
+  async function loadGame(gameId: string): Promise<GameState | undefined> {
+    const game = await store.load(gameId);
+    const action = game && getDueAction(game, Date.now());
+    if (!game || !action) {
+      return game;
+    }
+
+    const result = applyAction(game, action);
+    if (isRuleError(result)) {
+      return game;
+    }
+
+    await store.save(gameId, result, game);
+    return result;
+  }
+
+  // Runs one action against the stored game. Whoever made the request is sent
+  // their own view; anyone without a seat sees no hands.
+  async function dispatch(gameId: string, action: GameAction, viewerId?: string, extra: object = {}): Promise<FunctionResponse> {
+    const game = await loadGame(gameId);
+    if (!game) {
+      return respond(404, { error: 'Game not found' });
+    }
+
+    const result = applyAction(game, action);
+    if (isRuleError(result)) {
+      console.log('Action rejected:', result.error);
+      return respond(result.statusCode, { error: result.error });
+    }
+
+    await store.save(gameId, result, game);
+    return respond(200, { success: true, gameState: getViewerState(result, viewerId), ...extra });
+  }
+
+  function clearPromptLater(gameId: string) {
+    setTimeout(async () => {
+      const game = await store.load(gameId);
+      if (game?.currentPrompt) {
+        await store.save(gameId, { ...game, currentPrompt: undefined }, game);
+      }
+    }, PROMPT_DISPLAY_TIME);
+  }
+
+  // The account comes from Supabase, never from the client, so bans hold
+  async function seatFor(data: ActionData): Promise<Player> {
+    return { ...(data.player as Player), userId: await verifyAccessToken(data.accessToken as string | undefined) };
+  }
+
+  async function createGame(data: ActionData): Promise<FunctionResponse> {
+    const player = await seatFor(data);
+    const gameState = createGameState(data.gameId, player, {
+      seed: chooseSeed(data.seed as number | undefined),
+      settings: data.settings as Partial<GameSettings> | undefined
+    });
+
+    // Creating over a live room would wipe out everyone already seated in it
+    if (!await store.create(data.gameId, gameState)) {
+      return respond(409, { error: 'Game already exists' });
+    }
+
+    return respond(200, {
+      success: true,
+      gameState: getViewerState(gameState, player.id),
+      seatToken: createSeatToken(data.gameId, player.id)
+    });
+  }
+
+  async function joinGame(data: ActionData): Promise<FunctionResponse> {
+    const player = await seatFor(data);
+    const inviteId = data.invite ? verifyInviteToken(data.invite as string, data.gameId) : undefined;
+    if (inviteId === null) {
+      return respond(403, { error: 'This invite link is not valid' });
+    }
+
+    const action: GameAction = { type: 'join-game', player, passcode: data.passcode as string | undefined, inviteId };
+    return dispatch(data.gameId, action, player.id, { seatToken: createSeatToken(data.gameId, player.id) });
+  }
+
+  async function runAction(action: string, data: ActionData): Promise<FunctionResponse> {
+    const { gameId, playerId } = data;
+    if (!playerId || verifySeatToken(data.seatToken, gameId) !== playerId) {
+      console.log('Rejected action without a valid seat token for:', playerId);
+      return respond(403, { error: 'Not signed in to this seat' });
+    }
+
+    if (action === 'create-invite') {
+      const inviteId = createInviteId();
+      return dispatch(gameId, { type: 'create-invite', playerId, inviteId }, playerId, { invite: createInviteToken(gameId, inviteId) });
+    }
+
+    if (action === 'select-card-packs') {
+      return selectCardPacks(gameId, playerId, data.cardPackIds as string[]);
+    }
+
+    const gameAction = { ...getActionFields(action, data), type: action, playerId, timestamp: Date.now() } as GameAction;
+    const response = await dispatch(gameId, gameAction, playerId);
+    if (response.statusCode === 200 && (action === 'draw-card' || action === 'draw-discard')) {
+      clearPromptLater(gameId);
+    }
+    return response;
+  }
+
+  // Packs are read as the account that holds the seat, so only the built-in
+  // pack, shared packs and that player's own can be picked
+  async function selectCardPacks(gameId: string, playerId: string, cardPackIds: string[]): Promise<FunctionResponse> {
+    const game = await store.load(gameId);
+    if (!game) {
+      return respond(404, { error: 'Game not found' });
+    }
+
+    const cardPacks = await loadCardPacks(cardPackIds, game.players.find(p => p.id === playerId)?.userId);
+    if (!cardPacks) {
+      return respond(404, { error: 'Card pack not found' });
+    }
+
+    return dispatch(gameId, { type: 'select-card-packs', playerId, cardPacks }, playerId);
+  }
+
+  // Polls only see a hand when they carry that seat's token
+  async function getGameState(gameId: string, seatToken?: string): Promise<FunctionResponse> {
+    const game = await loadGame(gameId);
+    if (!game) {
+      return respond(404, { error: 'Game not found' });
+    }
+
+    return respond(200, { gameState: getViewerState(game, verifySeatToken(seatToken, gameId) ?? undefined) });
+  }
+
+  return async (event: FunctionEvent): Promise<FunctionResponse> => {
+    // Handle CORS preflight
+    if (event.httpMethod === 'OPTIONS') {
+      return { statusCode: 200, headers: corsHeaders, body: '' };
+    }
+
+    try {
+      const { httpMethod, body, queryStringParameters } = event;
+      const data = body ? JSON.parse(body) : {};
+
+      // Get the action from query parameters or body
+      const action = queryStringParameters?.action || data.action;
+
+      console.log('Received request:', { httpMethod, action, gameId: data.gameId || queryStringParameters?.gameId });
+
+      if (httpMethod === 'POST') {
+        const invalid = validateActionPayload(action, data);
+        if (invalid) {
+          console.log('Rejected malformed request:', invalid);
+          return respond(400, { error: invalid });
+        }
+
+        switch (action) {
+          case 'create-game':
+            return await createGame(data);
+          case 'join-game':
+            return await joinGame(data);
+          default:
+            return await runAction(action, data);
+        }
+      }
+
+      if (httpMethod === 'GET' && action === 'game-state' && queryStringParameters?.gameId) {
+        return await getGameState(queryStringParameters.gameId, queryStringParameters.seatToken);
+      }
+
+      return respond(404, { error: 'Not found' });
+    } catch (error) {
+      console.error('Function error:', error);
+      return respond(500, { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
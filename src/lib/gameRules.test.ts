@@ -0,0 +1,908 @@
+import { describe, expect, it } from 'vitest';
+import { Card, CardPack, GameState, Locale, PType, Player, TeamId, TurnTimeoutPenalty } from '../types/game';
+import { CARD_TYPES, createDeck } from '../data/cards';
+import {
+  GameAction,
+  GameOptions,
+  PROMPT_POINTS,
+  REACTION_COOLDOWN,
+  RuleError,
+  SET_POINTS,
+  TURN_EXTENSION,
+  VOTING_WINDOW,
+  applyAction,
+  createGameState,
+  getDueAction,
+  getNextDeadline,
+  getScore,
+  getViewerState,
+  isRuleError
+} from './gameRules';
+import { nextSeed, shuffle } from './random';
+
+// Pure reducer cases for the rules engine. Every game is built with
+// createGameState and changed only through applyAction, with a fixed seed and
+// fixed timestamps, so nothing here needs a network, a timer or a backend.
+
+const GAME_ID = 'ROOM01';
+const SEED = 42;
+const NOW = 1_000_000;
+
+function makePlayer(id: string, overrides: Partial<Player> = {}): Player {
+  return { id, name: id, hand: [], isHost: false, role: 'player', videoEnabled: true, audioEnabled: true, isConnected: true, ...overrides };
+}
+
+function card(type: Card['type'], index: number = 0): Card {
+  return { id: `test:${type}-${index}`, type, prompt: `${type} prompt ${index}`, color: '#000000' };
+}
+
+function apply(state: GameState, action: GameAction): GameState {
+  const result = applyAction(state, action);
+  if (isRuleError(result)) {
+    throw new Error(`${action.type} was rejected: ${result.error}`);
+  }
+  return result;
+}
+
+function rejection(state: GameState, action: GameAction): RuleError {
+  const result = applyAction(state, action);
+  if (!isRuleError(result)) {
+    throw new Error(`${action.type} was allowed`);
+  }
+  return result;
+}
+
+// The first id hosts; the rest join in order
+function lobby(ids: string[] = ['alice', 'bob'], options: Partial<GameOptions> = {}): GameState {
+  const [host, ...others] = ids;
+  return others.reduce(
+    (state, id) => apply(state, { type: 'join-game', player: makePlayer(id) }),
+    createGameState(GAME_ID, makePlayer(host), { seed: SEED, ...options })
+  );
+}
+
+function started(ids?: string[], options?: Partial<GameOptions>): GameState {
+  const state = lobby(ids, options);
+  return apply(state, { type: 'start-game', playerId: state.players[0].id, timestamp: NOW });
+}
+
+// Replaces the named players' hands, so a case doesn't depend on how the seed dealt
+function withHands(state: GameState, hands: Record<string, Card[]>): GameState {
+  return { ...state, players: state.players.map(p => (hands[p.id] ? { ...p, hand: hands[p.id] } : p)) };
+}
+
+function makePack(id: string, promptsPerType: number): CardPack {
+  const prompts = Array.from({ length: promptsPerType }, (_, index) => `${id} prompt ${index}`);
+  return { id, name: id, prompts: Object.fromEntries(CARD_TYPES.map(type => [type, prompts])) as CardPack['prompts'] };
+}
+
+function player(state: GameState, id: string): Player {
+  return state.players.find(p => p.id === id)!;
+}
+
+describe('turns', () => {
+  it('deals each player a hand from the deck as they join', () => {
+    const state = lobby();
+
+    expect(state.players.map(p => p.hand.length)).toEqual([5, 5]);
+    expect(state.deck).toHaveLength(createDeck(SEED).length - 10);
+    expect(rejection(state, { type: 'join-game', player: makePlayer('bob') }).error).toBe('Player already in game');
+  });
+
+  it('lets only the host start the game', () => {
+    const state = lobby();
+
+    expect(rejection(state, { type: 'start-game', playerId: 'bob', timestamp: NOW }).statusCode).toBe(403);
+
+    const playing = apply(state, { type: 'start-game', playerId: 'alice', timestamp: NOW });
+    expect(playing.gamePhase).toBe('playing');
+    expect(playing.currentPlayerIndex).toBe(0);
+    expect(playing.turnStartTime).toBe(NOW);
+  });
+
+  it('plays a card from the hand onto the discard pile and scores its prompt', () => {
+    const purpose = card('Purpose');
+    const state = withHands(started(), { alice: [purpose, card('Plan')] });
+
+    const played = apply(state, { type: 'play-card', playerId: 'alice', cardId: purpose.id });
+
+    expect(player(played, 'alice').hand.map(c => c.id)).toEqual([card('Plan').id]);
+    expect(played.discardPile).toEqual([purpose]);
+    expect(played.currentPrompt).toBe(purpose.prompt);
+    expect(getScore(played, 'alice').points).toBe(PROMPT_POINTS);
+  });
+
+  it('refuses cards played out of turn or not held', () => {
+    const state = started();
+
+    expect(rejection(state, { type: 'play-card', playerId: 'bob', cardId: player(state, 'bob').hand[0].id }).error).toBe('Not your turn');
+    expect(rejection(state, { type: 'play-card', playerId: 'alice', cardId: player(state, 'bob').hand[0].id }).error).toBe('Card not in hand');
+  });
+
+  it('passes the turn once the active player has played and drawn', () => {
+    const purpose = card('Purpose');
+    const state = withHands(started(), { alice: [purpose, card('Purpose', 1)] });
+
+    expect(rejection(state, { type: 'draw-card', playerId: 'alice', timestamp: NOW }).error).toBe('Must play a card before drawing');
+
+    const played = apply(state, { type: 'play-card', playerId: 'alice', cardId: purpose.id });
+    const drawn = apply(played, { type: 'draw-card', playerId: 'alice', timestamp: NOW + 1 });
+
+    expect(player(drawn, 'alice').hand).toContainEqual(state.deck[state.deck.length - 1]);
+    expect(drawn.deck).toHaveLength(state.deck.length - 1);
+    expect(drawn.currentPlayerIndex).toBe(1);
+    expect(drawn.turnStartTime).toBe(NOW + 1);
+    expect(drawn.hasPlayedCard).toBe(false);
+  });
+
+  it('ends the game when a draw completes a winning hand', () => {
+    const spare = card('Purpose', 1);
+    const state = withHands(started(), {
+      alice: [card('Purpose'), card('Problems'), card('Prognosis'), card('Plan'), spare]
+    });
+    const played = apply({ ...state, deck: [...state.deck, card('Perform')] }, { type: 'play-card', playerId: 'alice', cardId: spare.id });
+
+    const won = apply(played, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+
+    expect(won.gamePhase).toBe('finished');
+    expect(won.winners).toEqual(['alice']);
+    expect(getScore(won, 'alice')).toEqual({ points: PROMPT_POINTS + SET_POINTS, sets: 1 });
+  });
+
+  it('hands the host seat to the next player when the host leaves', () => {
+    const left = apply(started(), { type: 'leave-game', playerId: 'alice' });
+
+    expect(left.players.map(p => p.id)).toEqual(['bob']);
+    expect(left.players[0].isHost).toBe(true);
+    expect(left.currentPlayerIndex).toBe(0);
+  });
+});
+
+describe('seeded shuffling', () => {
+  it('deals the same hands from the same seed', () => {
+    const hands = (state: GameState) => state.players.map(p => p.hand.map(c => c.id));
+
+    expect(hands(lobby())).toEqual(hands(lobby()));
+    expect(lobby().deck).toEqual(lobby().deck);
+    expect(lobby(undefined, { seed: SEED + 1 }).deck).not.toEqual(lobby().deck);
+  });
+
+  it('reshuffles a new game from the next seed, the same way every time', () => {
+    const state = started();
+    const again = () => apply(state, { type: 'new-game', playerId: 'alice', timestamp: NOW });
+
+    expect(again().seed).toBe(nextSeed(SEED));
+    expect(again().deck).toEqual(again().deck);
+    expect(again().deck).not.toEqual(state.deck);
+  });
+});
+
+describe('deck exhaustion', () => {
+  it('shuffles the discard pile back in when the deck runs out', () => {
+    const purpose = card('Purpose');
+    const discards = [card('Plan'), card('Perform')];
+    const state = { ...withHands(started(), { alice: [purpose, card('Purpose', 1)] }), deck: [], discardPile: discards };
+    const played = apply(state, { type: 'play-card', playerId: 'alice', cardId: purpose.id });
+
+    const drawn = apply(played, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+
+    const reshuffled = shuffle([...discards, purpose], nextSeed(SEED));
+    expect(drawn.seed).toBe(nextSeed(SEED));
+    expect(drawn.discardPile).toEqual([]);
+    expect(drawn.deck).toEqual(reshuffled.slice(0, -1));
+    expect(player(drawn, 'alice').hand).toEqual([card('Purpose', 1), reshuffled[reshuffled.length - 1]]);
+    expect(drawn.currentPlayerIndex).toBe(1);
+  });
+
+  it('skips the draw and passes the turn when there is nothing to reshuffle', () => {
+    const state = { ...withHands(started(), { alice: [] }), deck: [], discardPile: [] };
+
+    const passed = apply(state, { type: 'draw-card', playerId: 'alice', timestamp: NOW + 1 });
+
+    expect(passed.gamePhase).toBe('playing');
+    expect(player(passed, 'alice').hand).toEqual([]);
+    expect(passed.currentPlayerIndex).toBe(1);
+    expect(passed.turnStartTime).toBe(NOW + 1);
+  });
+
+  it('ends the game on an empty deck under the end-game policy', () => {
+    const state = started(undefined, { settings: { deckExhaustionPolicy: 'end-game' } });
+
+    const ended = apply({ ...withHands(state, { alice: [] }), deck: [] }, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+
+    expect(ended.gamePhase).toBe('finished');
+    expect(ended.winners).toEqual([]);
+  });
+
+  it('gives the win to whoever holds the most P types under the most-types policy', () => {
+    const problems = card('Problems');
+    const state = withHands(started(undefined, { settings: { deckExhaustionPolicy: 'most-types' } }), {
+      alice: [card('Purpose'), card('Plan'), problems],
+      bob: [card('Purpose', 1), card('Purpose', 2)]
+    });
+    const played = apply({ ...state, deck: [] }, { type: 'play-card', playerId: 'alice', cardId: problems.id });
+
+    const ended = apply(played, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+
+    expect(ended.gamePhase).toBe('finished');
+    expect(ended.winners).toEqual(['alice']);
+  });
+});
+
+describe('card packs', () => {
+  it('rebuilds the deck from the chosen packs and deals every hand again', () => {
+    const pack = makePack('career', 8);
+
+    const selected = apply(lobby(), { type: 'select-card-packs', playerId: 'alice', cardPacks: [pack] });
+
+    expect(selected.cardPacks).toEqual([pack]);
+    expect(selected.players.map(p => p.hand.length)).toEqual([5, 5]);
+    expect([...selected.deck, ...selected.players.flatMap(p => p.hand)].every(c => c.id.startsWith('career:'))).toBe(true);
+    expect(selected.deck).toHaveLength(8 * CARD_TYPES.length - 10);
+  });
+
+  it('refuses packs without a prompt for every P, and changes outside the lobby', () => {
+    const pack = makePack('career', 8);
+    const noPlans = { ...pack, prompts: { ...pack.prompts, Plan: [] } };
+
+    expect(rejection(lobby(), { type: 'select-card-packs', playerId: 'alice', cardPacks: [noPlans] }).error).toBe('Selected packs have no Plan prompts');
+    expect(rejection(lobby(), { type: 'select-card-packs', playerId: 'bob', cardPacks: [pack] }).statusCode).toBe(403);
+    expect(rejection(started(), { type: 'select-card-packs', playerId: 'alice', cardPacks: [pack] }).error).toBe('Card packs can only be changed in the lobby');
+  });
+});
+
+describe('languages', () => {
+  it('sets the language for one seat only', () => {
+    const state = lobby();
+
+    const changed = apply(state, { type: 'set-language', playerId: 'bob', language: 'yo' });
+
+    expect(player(changed, 'bob').language).toBe('yo');
+    expect(player(changed, 'alice').language).toBeUndefined();
+    expect(rejection(state, { type: 'set-language', playerId: 'bob', language: 'de' as Locale }).error).toBe('Unsupported language: de');
+    expect(rejection(state, { type: 'set-language', playerId: 'carol', language: 'fr' }).statusCode).toBe(404);
+  });
+});
+
+describe('turn timer', () => {
+  const TURN = 30000;
+  const penalised = (turnTimeoutPenalty: TurnTimeoutPenalty) =>
+    withHands(started(undefined, { settings: { turnTimeLimit: TURN, turnTimeoutPenalty } }), { alice: [card('Purpose'), card('Purpose', 1)] });
+
+  it('sets a deadline only once a turn is running, and expires the turn when it passes', () => {
+    const state = penalised('skip');
+
+    expect(getNextDeadline(lobby())).toBeUndefined();
+    expect(getNextDeadline(state)).toBe(NOW + TURN);
+    expect(getDueAction(state, NOW + TURN - 1)).toBeUndefined();
+    expect(getDueAction(state, NOW + TURN)).toEqual({ type: 'expire-turn', timestamp: NOW + TURN });
+    expect(rejection(state, { type: 'expire-turn', timestamp: NOW + TURN - 1 }).statusCode).toBe(409);
+  });
+
+  it('passes the turn without a draw under the skip penalty', () => {
+    const expired = apply(penalised('skip'), { type: 'expire-turn', timestamp: NOW + TURN });
+
+    expect(player(expired, 'alice').hand).toHaveLength(2);
+    expect(expired.currentPlayerIndex).toBe(1);
+    expect(expired.turnStartTime).toBe(NOW + TURN);
+  });
+
+  it('draws for the player under the auto-draw penalty', () => {
+    const state = penalised('auto-draw');
+
+    const expired = apply(state, { type: 'expire-turn', timestamp: NOW + TURN });
+
+    expect(player(expired, 'alice').hand).toContainEqual(state.deck[state.deck.length - 1]);
+    expect(expired.currentPlayerIndex).toBe(1);
+  });
+
+  it('plays a card unscored and then draws under the auto-play penalty', () => {
+    const expired = apply(penalised('auto-play'), { type: 'expire-turn', timestamp: NOW + TURN });
+
+    expect(expired.discardPile).toHaveLength(1);
+    expect(player(expired, 'alice').hand).toHaveLength(2);
+    expect(getScore(expired, 'alice').points).toBe(0);
+    expect(expired.currentPlayerIndex).toBe(1);
+  });
+});
+
+describe('game settings', () => {
+  it('changes settings in the lobby and deals again for a new hand size', () => {
+    const state = lobby();
+
+    const changed = apply(state, { type: 'update-settings', playerId: 'alice', settings: { handSize: 6 } });
+
+    expect(changed.settings.handSize).toBe(6);
+    expect(changed.players.map(p => p.hand.length)).toEqual([6, 6]);
+    expect(rejection(state, { type: 'update-settings', playerId: 'bob', settings: { handSize: 6 } }).statusCode).toBe(403);
+    expect(rejection(state, { type: 'update-settings', playerId: 'alice', settings: { handSize: 11 } }).error).toBe('Hand size must be between 1 and 10');
+  });
+
+  it('refuses a deck that cannot deal every seat the room allows', () => {
+    const state = lobby();
+
+    expect(rejection(state, { type: 'update-settings', playerId: 'alice', settings: { handSize: 7 } }).error)
+      .toBe('Selected packs do not have enough cards to deal 8 hands of 7');
+    expect(apply(state, { type: 'update-settings', playerId: 'alice', settings: { handSize: 7, maxPlayers: 7 } }).settings.handSize).toBe(7);
+  });
+
+  it('refuses a player limit below the players already seated', () => {
+    const state = lobby(['alice', 'bob', 'carol']);
+
+    expect(rejection(state, { type: 'update-settings', playerId: 'alice', settings: { maxPlayers: 2 } }).error).toBe('3 players have already joined');
+  });
+
+  it('turns away joiners once the room is full or the deck cannot deal them a hand', () => {
+    const full = lobby(['alice', 'bob'], { settings: { maxPlayers: 2 } });
+    const short = { ...lobby(), deck: lobby().deck.slice(0, 4) };
+
+    expect(rejection(full, { type: 'join-game', player: makePlayer('carol') }).error).toBe('Game is full');
+    expect(rejection(short, { type: 'join-game', player: makePlayer('carol') })).toEqual({ error: 'Not enough cards left to deal a hand', statusCode: 409 });
+  });
+
+  it('lets a player draw without playing when the room allows it', () => {
+    const state = started(undefined, { settings: { mustPlayBeforeDraw: false } });
+
+    expect(apply(state, { type: 'draw-card', playerId: 'alice', timestamp: NOW }).currentPlayerIndex).toBe(1);
+  });
+});
+
+describe('scoring modes', () => {
+  // Alice is one Perform short of a winning hand, and the deck is about to deal it
+  function aboutToCompleteSet(options: Partial<GameOptions>): GameState {
+    const spare = card('Purpose', 1);
+    const state = withHands(started(undefined, options), {
+      alice: [card('Purpose'), card('Problems'), card('Prognosis'), card('Plan'), spare]
+    });
+    return apply({ ...state, deck: [...state.deck, card('Perform')] }, { type: 'play-card', playerId: 'alice', cardId: spare.id });
+  }
+
+  it('banks a completed set and deals a fresh hand in a multi-set game', () => {
+    const state = aboutToCompleteSet({ settings: { scoringMode: 'multi-set', setsToWin: 2 } });
+
+    const banked = apply(state, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+
+    expect(banked.gamePhase).toBe('playing');
+    expect(getScore(banked, 'alice').sets).toBe(1);
+    expect(player(banked, 'alice').hand).toEqual(state.deck.slice(0, 5));
+    expect(banked.discardPile.map(c => c.type)).toEqual(['Purpose', ...CARD_TYPES]);
+    expect(banked.currentPlayerIndex).toBe(1);
+  });
+
+  it('ends a multi-set game once a player has banked enough sets', () => {
+    const state = aboutToCompleteSet({ settings: { scoringMode: 'multi-set', setsToWin: 2 } });
+
+    const won = apply({ ...state, scores: { alice: { points: 0, sets: 1 } } }, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+
+    expect(won.gamePhase).toBe('finished');
+    expect(won.winners).toEqual(['alice']);
+  });
+
+  it('ends a timed game when the clock runs out and ranks on points', () => {
+    const duration = 5 * 60000;
+    const state = {
+      ...started(undefined, { settings: { scoringMode: 'timed', gameDuration: duration } }),
+      scores: { alice: { points: 2, sets: 1 }, bob: { points: 3, sets: 0 } }
+    };
+
+    expect(getDueAction(state, NOW + duration)).toEqual({ type: 'expire-game', timestamp: NOW + duration });
+    expect(rejection(state, { type: 'expire-game', timestamp: NOW + duration - 1 }).statusCode).toBe(409);
+
+    const ended = apply(state, { type: 'expire-game', timestamp: NOW + duration });
+    expect(ended.gamePhase).toBe('finished');
+    expect(ended.winners).toEqual(['bob']);
+  });
+});
+
+describe('peer voting', () => {
+  function answered(): GameState {
+    const purpose = card('Purpose');
+    const state = withHands(started(['alice', 'bob', 'carol'], { settings: { peerVoting: true } }), { alice: [purpose, card('Plan')] });
+    return apply(state, { type: 'play-card', playerId: 'alice', cardId: purpose.id });
+  }
+
+  it('holds the draw until the answer has been rated', () => {
+    const state = answered();
+
+    expect(getScore(state, 'alice').points).toBe(0);
+    expect(rejection(state, { type: 'draw-card', playerId: 'alice', timestamp: NOW }).error).toBe('End your answer so the others can rate it first');
+
+    const voting = apply(state, { type: 'end-answer', playerId: 'alice', timestamp: NOW });
+    expect(voting.gamePhase).toBe('voting');
+    expect(voting.voting).toEqual({ answererId: 'alice', cardId: card('Purpose').id, votes: {}, deadline: NOW + VOTING_WINDOW });
+  });
+
+  it('scores the rounded average once everyone else has voted', () => {
+    const voting = apply(answered(), { type: 'end-answer', playerId: 'alice', timestamp: NOW });
+
+    expect(rejection(voting, { type: 'cast-vote', playerId: 'alice', rating: 5, timestamp: NOW }).error).toBe('You cannot rate your own answer');
+    expect(rejection(voting, { type: 'cast-vote', playerId: 'bob', rating: 6, timestamp: NOW }).error).toBe('Rating must be between 1 and 5');
+
+    const once = apply(voting, { type: 'cast-vote', playerId: 'bob', rating: 4, timestamp: NOW });
+    expect(once.gamePhase).toBe('voting');
+    expect(rejection(once, { type: 'cast-vote', playerId: 'bob', rating: 4, timestamp: NOW }).error).toBe('You have already voted');
+
+    const closed = apply(once, { type: 'cast-vote', playerId: 'carol', rating: 5, timestamp: NOW + 1 });
+    expect(closed.gamePhase).toBe('playing');
+    expect(closed.lastVoteResult).toEqual({ answererId: 'alice', cardId: card('Purpose').id, average: 4.5, count: 2, points: 5 });
+    expect(getScore(closed, 'alice').points).toBe(5);
+    expect(closed.turnStartTime).toBe(NOW + 1);
+    expect(apply(closed, { type: 'draw-card', playerId: 'alice', timestamp: NOW + 2 }).currentPlayerIndex).toBe(1);
+  });
+
+  it('closes the vote with whatever came in when the window ends', () => {
+    const voting = apply(answered(), { type: 'end-answer', playerId: 'alice', timestamp: NOW });
+    const once = apply(voting, { type: 'cast-vote', playerId: 'bob', rating: 3, timestamp: NOW });
+
+    expect(getDueAction(once, NOW + VOTING_WINDOW)).toEqual({ type: 'close-voting', timestamp: NOW + VOTING_WINDOW });
+
+    const closed = apply(once, { type: 'close-voting', timestamp: NOW + VOTING_WINDOW });
+    expect(closed.lastVoteResult?.count).toBe(1);
+    expect(getScore(closed, 'alice').points).toBe(3);
+  });
+});
+
+describe('trading', () => {
+  const purpose = card('Purpose');
+  const perform = card('Perform');
+
+  function offered(requestedType: PType = 'Perform'): GameState {
+    const state = withHands(started(['alice', 'bob', 'carol']), { alice: [purpose, card('Plan')], bob: [perform, card('Problems')] });
+    return apply(state, { type: 'propose-trade', playerId: 'alice', targetPlayerId: 'bob', cardId: purpose.id, requestedType });
+  }
+
+  it('swaps both cards in one step when the offer is accepted', () => {
+    const state = offered();
+    expect(state.pendingTrade).toEqual({ fromPlayerId: 'alice', toPlayerId: 'bob', cardId: purpose.id, requestedType: 'Perform' });
+
+    const traded = apply(state, { type: 'respond-trade', playerId: 'bob', accept: true });
+
+    expect(player(traded, 'alice').hand).toEqual([card('Plan'), perform]);
+    expect(player(traded, 'bob').hand).toEqual([card('Problems'), purpose]);
+    expect(traded.pendingTrade).toBeUndefined();
+  });
+
+  it('refuses offers for the same type, a second offer, and answers from anyone else', () => {
+    const state = offered();
+    const unanswered = { ...state, pendingTrade: undefined };
+
+    expect(rejection(unanswered, { type: 'propose-trade', playerId: 'alice', targetPlayerId: 'bob', cardId: purpose.id, requestedType: 'Purpose' }).error)
+      .toBe('Ask for a different type than the card you offer');
+    expect(rejection(state, { type: 'propose-trade', playerId: 'alice', targetPlayerId: 'carol', cardId: purpose.id, requestedType: 'Plan' }).statusCode).toBe(409);
+    expect(rejection(state, { type: 'respond-trade', playerId: 'carol', accept: true }).statusCode).toBe(403);
+    expect(rejection(offered('Prognosis'), { type: 'respond-trade', playerId: 'bob', accept: true }).error).toBe('You have no Prognosis card to give');
+  });
+
+  it('leaves both hands alone when the offer is declined or withdrawn', () => {
+    const state = offered();
+
+    const declined = apply(state, { type: 'respond-trade', playerId: 'bob', accept: false });
+    expect(declined.pendingTrade).toBeUndefined();
+    expect(declined.players).toEqual(state.players);
+
+    expect(rejection(state, { type: 'cancel-trade', playerId: 'bob' }).statusCode).toBe(403);
+    expect(apply(state, { type: 'cancel-trade', playerId: 'alice' }).pendingTrade).toBeUndefined();
+  });
+});
+
+describe('drawing from the discard pile', () => {
+  const purpose = card('Purpose');
+
+  function played(discardPile: Card[], drawFromDiscard: boolean = true): GameState {
+    const state = withHands(started(undefined, { settings: { drawFromDiscard } }), { alice: [purpose, card('Purpose', 1)] });
+    return apply({ ...state, discardPile }, { type: 'play-card', playerId: 'alice', cardId: purpose.id });
+  }
+
+  it('takes the discard beneath the card just played instead of drawing', () => {
+    const state = played([card('Plan')]);
+
+    const taken = apply(state, { type: 'draw-discard', playerId: 'alice', timestamp: NOW });
+
+    expect(player(taken, 'alice').hand).toEqual([card('Purpose', 1), card('Plan')]);
+    expect(taken.discardPile).toEqual([purpose]);
+    expect(taken.deck).toEqual(state.deck);
+    expect(taken.currentPlayerIndex).toBe(1);
+  });
+
+  it('refuses when the room does not allow it or only the played card is there', () => {
+    expect(rejection(played([card('Plan')], false), { type: 'draw-discard', playerId: 'alice', timestamp: NOW }).error)
+      .toBe('Drawing from the discard pile is not enabled');
+    expect(rejection(played([]), { type: 'draw-discard', playerId: 'alice', timestamp: NOW }).error).toBe('No card to take from the discard pile');
+  });
+});
+
+describe('action cards', () => {
+  const purpose = card('Purpose');
+
+  function holding(action: Card): GameState {
+    return withHands(started(['alice', 'bob', 'carol'], { settings: { actionCards: true } }), { alice: [action, purpose, card('Purpose', 1)] });
+  }
+
+  // Plays the action card, then a prompt, then draws
+  function playTurn(state: GameState, action: Card): GameState {
+    const acted = apply(state, { type: 'play-card', playerId: 'alice', cardId: action.id });
+    const played = apply(acted, { type: 'play-card', playerId: 'alice', cardId: purpose.id });
+    return apply(played, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+  }
+
+  it('adds the action cards to the deck only when the room turns them on', () => {
+    const types = (state: GameState) => [...state.deck, ...state.players.flatMap(p => p.hand)].map(c => c.type);
+
+    expect(types(lobby(undefined, { settings: { actionCards: true } }))).toEqual(expect.arrayContaining(['Wild', 'Skip', 'Reverse', 'AskAnyone']));
+    expect(types(lobby())).not.toContain('Wild');
+  });
+
+  it('jumps the next player after a skip', () => {
+    const skip = card('Skip');
+
+    const next = playTurn(holding(skip), skip);
+
+    expect(next.discardPile).toEqual([skip, purpose]);
+    expect(next.currentPlayerIndex).toBe(2);
+  });
+
+  it('sends play the other way after a reverse', () => {
+    const reverse = card('Reverse');
+
+    const next = playTurn(holding(reverse), reverse);
+
+    expect(next.turnDirection).toBe(-1);
+    expect(next.currentPlayerIndex).toBe(2);
+  });
+
+  it('gives the prompt points to whoever an ask-anyone card names', () => {
+    const askAnyone = card('AskAnyone');
+    const state = holding(askAnyone);
+
+    expect(rejection(state, { type: 'play-card', playerId: 'alice', cardId: askAnyone.id }).error).toBe('Choose another player to answer your prompts');
+
+    const asked = apply(state, { type: 'play-card', playerId: 'alice', cardId: askAnyone.id, targetPlayerId: 'carol' });
+    const played = apply(asked, { type: 'play-card', playerId: 'alice', cardId: purpose.id });
+    expect(getScore(played, 'carol').points).toBe(PROMPT_POINTS);
+    expect(getScore(played, 'alice').points).toBe(0);
+  });
+
+  it('keeps wilds in the hand, where each covers one missing P', () => {
+    const wild = card('Wild');
+    const spare = card('Purpose', 1);
+    const state = withHands(holding(wild), { alice: [card('Purpose'), card('Problems'), card('Prognosis'), wild, spare] });
+
+    expect(rejection(state, { type: 'play-card', playerId: 'alice', cardId: wild.id }).error).toBe('Wild cards stay in your hand towards a winning hand');
+
+    const played = apply({ ...state, deck: [...state.deck, card('Plan')] }, { type: 'play-card', playerId: 'alice', cardId: spare.id });
+    const won = apply(played, { type: 'draw-card', playerId: 'alice', timestamp: NOW });
+    expect(won.gamePhase).toBe('finished');
+    expect(won.winners).toEqual(['alice']);
+  });
+});
+
+describe('directed prompts', () => {
+  const purpose = card('Purpose');
+  const directed = (directedPrompts: boolean) =>
+    withHands(started(undefined, { settings: { directedPrompts } }), { alice: [purpose, card('Purpose', 1)] });
+
+  it('lets the named player answer the prompt and earn its points, for this turn only', () => {
+    const asked = apply(directed(true), { type: 'play-card', playerId: 'alice', cardId: purpose.id, targetPlayerId: 'bob' });
+
+    expect(asked.promptTargetPlayerId).toBe('bob');
+    expect(getScore(asked, 'bob').points).toBe(PROMPT_POINTS);
+    expect(getScore(asked, 'alice').points).toBe(0);
+    expect(apply(asked, { type: 'draw-card', playerId: 'alice', timestamp: NOW }).promptTargetPlayerId).toBeUndefined();
+  });
+
+  it('refuses to direct a prompt when the room does not allow it, or at the player themselves', () => {
+    expect(rejection(directed(false), { type: 'play-card', playerId: 'alice', cardId: purpose.id, targetPlayerId: 'bob' }).error)
+      .toBe('Directing prompts to other players is not enabled');
+    expect(rejection(directed(true), { type: 'play-card', playerId: 'alice', cardId: purpose.id, targetPlayerId: 'alice' }).error)
+      .toBe('Choose another player to answer this prompt');
+  });
+});
+
+describe('team mode', () => {
+  // Alice and Bob play as red, Carol as blue, and Dave alone
+  function teamed(): GameState {
+    const teams: [string, TeamId][] = [['alice', 'red'], ['bob', 'red'], ['carol', 'blue']];
+    return teams.reduce(
+      (state, [id, teamId]) => apply(state, { type: 'set-team', playerId: id, targetPlayerId: id, teamId }),
+      lobby(['alice', 'bob', 'carol', 'dave'], { settings: { teamMode: true } })
+    );
+  }
+
+  it('deals one hand per team, held by its first member', () => {
+    expect(teamed().players.map(p => p.hand.length)).toEqual([5, 0, 5, 5]);
+  });
+
+  it('lets any teammate play from the team hand, and gives the team a single turn', () => {
+    const purpose = card('Purpose');
+    const state = withHands(apply(teamed(), { type: 'start-game', playerId: 'alice', timestamp: NOW }), { alice: [purpose, card('Purpose', 1)] });
+
+    const played = apply(state, { type: 'play-card', playerId: 'bob', cardId: purpose.id });
+    expect(player(played, 'alice').hand).toEqual([card('Purpose', 1)]);
+    expect(getScore(played, 'bob')).toEqual(getScore(played, 'alice'));
+
+    expect(apply(played, { type: 'draw-card', playerId: 'bob', timestamp: NOW }).currentPlayerIndex).toBe(2);
+  });
+
+  it('lets players pick only their own team unless they moderate', () => {
+    const state = teamed();
+
+    expect(rejection(state, { type: 'set-team', playerId: 'bob', targetPlayerId: 'carol', teamId: 'red' }).statusCode).toBe(403);
+    expect(rejection(lobby(), { type: 'set-team', playerId: 'bob', targetPlayerId: 'bob', teamId: 'red' }).error).toBe('Team mode is not enabled');
+  });
+
+  it('shares the win with the whole team', () => {
+    const spare = card('Purpose', 1);
+    const state = withHands(apply(teamed(), { type: 'start-game', playerId: 'alice', timestamp: NOW }), {
+      alice: [card('Purpose'), card('Problems'), card('Prognosis'), card('Plan'), spare]
+    });
+    const played = apply({ ...state, deck: [...state.deck, card('Perform')] }, { type: 'play-card', playerId: 'alice', cardId: spare.id });
+
+    expect(apply(played, { type: 'draw-card', playerId: 'alice', timestamp: NOW }).winners).toEqual(['alice', 'bob']);
+  });
+});
+
+describe('facilitators', () => {
+  it('deals a facilitating host no hand and gives the first turn to a player', () => {
+    const state = createGameState(GAME_ID, makePlayer('alice', { role: 'facilitator' }), { seed: SEED });
+    const joined = apply(state, { type: 'join-game', player: makePlayer('bob') });
+
+    expect(player(joined, 'alice').hand).toEqual([]);
+    expect(apply(joined, { type: 'start-game', playerId: 'alice', timestamp: NOW }).currentPlayerIndex).toBe(1);
+  });
+
+  it('seats anyone who joins as a player until the host makes them a facilitator', () => {
+    const state = apply(lobby(['alice', 'bob']), { type: 'join-game', player: makePlayer('carol', { role: 'facilitator' }) });
+    expect(player(state, 'carol').role).toBe('player');
+
+    const promoted = apply(state, { type: 'set-role', playerId: 'alice', targetPlayerId: 'carol', role: 'facilitator' });
+    expect(player(promoted, 'carol')).toMatchObject({ role: 'facilitator', hand: [] });
+
+    expect(rejection(promoted, { type: 'set-role', playerId: 'carol', targetPlayerId: 'bob', role: 'facilitator' }).error)
+      .toBe('Only the host can choose who facilitates');
+    expect(rejection(started(), { type: 'set-role', playerId: 'alice', targetPlayerId: 'bob', role: 'facilitator' }).error)
+      .toBe('Roles can only be changed in the lobby');
+  });
+
+  it('lets a facilitator skip, extend and reveal, but not a player', () => {
+    const promoted = apply(lobby(['alice', 'bob', 'carol']), { type: 'set-role', playerId: 'alice', targetPlayerId: 'bob', role: 'facilitator' });
+    const state = apply(promoted, { type: 'start-game', playerId: 'alice', timestamp: NOW });
+
+    expect(rejection(state, { type: 'skip-turn', playerId: 'carol', timestamp: NOW }).statusCode).toBe(403);
+    expect(apply(state, { type: 'skip-turn', playerId: 'bob', timestamp: NOW }).currentPlayerIndex).toBe(2);
+    expect(apply(state, { type: 'extend-turn', playerId: 'bob', timestamp: NOW + TURN_EXTENSION * 2 }).turnStartTime).toBe(NOW + TURN_EXTENSION);
+
+    const top = state.deck[state.deck.length - 1];
+    const revealed = apply(state, { type: 'reveal-prompt', playerId: 'bob' });
+    expect(revealed.currentPrompt).toBe(top.prompt);
+    expect(revealed.discardPile).toEqual([top]);
+    expect(revealed.deck).toEqual(state.deck.slice(0, -1));
+  });
+});
+
+describe('pausing', () => {
+  it('stops every clock and refuses card play while paused', () => {
+    const state = started();
+    const paused = apply(state, { type: 'pause-game', playerId: 'alice', timestamp: NOW + 5000 });
+
+    expect(rejection(state, { type: 'pause-game', playerId: 'bob', timestamp: NOW }).statusCode).toBe(403);
+    expect(rejection(paused, { type: 'pause-game', playerId: 'alice', timestamp: NOW + 6000 }).statusCode).toBe(409);
+    expect(getNextDeadline(paused)).toBeUndefined();
+    expect(rejection(paused, { type: 'play-card', playerId: 'alice', cardId: player(paused, 'alice').hand[0].id })).toEqual({ error: 'Game is paused', statusCode: 409 });
+  });
+
+  it('gives each clock back the time it had left on resume', () => {
+    const state = started();
+    const paused = apply(state, { type: 'pause-game', playerId: 'alice', timestamp: NOW + 5000 });
+
+    const resumed = apply(paused, { type: 'resume-game', playerId: 'alice', timestamp: NOW + 15000 });
+
+    expect(resumed.pausedAt).toBeUndefined();
+    expect(resumed.turnStartTime).toBe(NOW + 10000);
+    expect(resumed.gameStartTime).toBe(NOW + 10000);
+    expect(getNextDeadline(resumed)).toBe(getNextDeadline(state)! + 10000);
+  });
+});
+
+describe('kicking, banning and muting', () => {
+  it('removes a player and shuffles their hand back into the deck', () => {
+    const state = lobby(['alice', 'bob', 'carol']);
+
+    const kicked = apply(state, { type: 'kick-player', playerId: 'alice', targetPlayerId: 'bob' });
+
+    expect(kicked.players.map(p => p.id)).toEqual(['alice', 'carol']);
+    expect(kicked.deck).toHaveLength(state.deck.length + 5);
+    expect(kicked.deck).toEqual(expect.arrayContaining(player(state, 'bob').hand));
+    expect(rejection(state, { type: 'kick-player', playerId: 'bob', targetPlayerId: 'carol' }).statusCode).toBe(403);
+  });
+
+  it('keeps a banned account out, and everyone without one once the host requires accounts', () => {
+    const state = apply(lobby(), { type: 'join-game', player: makePlayer('carol', { userId: 'carol-account' }) });
+    const banned = apply(state, { type: 'kick-player', playerId: 'alice', targetPlayerId: 'carol', ban: true });
+
+    expect(banned.bannedUserIds).toEqual(['carol-account']);
+    expect(rejection(banned, { type: 'join-game', player: makePlayer('carol-again', { userId: 'carol-account' }) }).error)
+      .toBe('You have been removed from this game');
+    expect(apply(banned, { type: 'join-game', player: makePlayer('carol-again') }).players).toHaveLength(3);
+
+    const locked = apply(banned, { type: 'set-room-access', playerId: 'alice', requireAccount: true });
+    expect(rejection(locked, { type: 'join-game', player: makePlayer('carol-again') }).error).toBe('Sign in to join this game');
+  });
+
+  it('leaves requiring accounts to the host alone', () => {
+    const state = apply(lobby(['alice', 'bob']), { type: 'set-role', playerId: 'alice', targetPlayerId: 'bob', role: 'facilitator' });
+
+    expect(rejection(state, { type: 'set-room-access', playerId: 'bob', requireAccount: true }).error).toBe('Only the host can require accounts to join');
+    expect(apply(state, { type: 'set-room-access', playerId: 'bob', requireApproval: true }).access.requireApproval).toBe(true);
+  });
+
+  it("turns a microphone or camera off without touching the other, but never the host's", () => {
+    const state = lobby();
+
+    const muted = apply(state, { type: 'mute-player', playerId: 'alice', targetPlayerId: 'bob', audio: true });
+    expect(player(muted, 'bob')).toMatchObject({ audioForceMuted: true, videoForceMuted: undefined });
+
+    const dark = apply(muted, { type: 'mute-player', playerId: 'alice', targetPlayerId: 'bob', video: true });
+    expect(player(dark, 'bob')).toMatchObject({ audioForceMuted: true, videoForceMuted: true });
+
+    const promoted = apply(state, { type: 'set-role', playerId: 'alice', targetPlayerId: 'bob', role: 'facilitator' });
+    expect(rejection(promoted, { type: 'mute-player', playerId: 'bob', targetPlayerId: 'alice', audio: true }).error).toBe('The host cannot be muted');
+  });
+});
+
+describe('room access', () => {
+  it('seats joiners only with the passcode, and an empty passcode removes it', () => {
+    const state = apply(lobby(), { type: 'set-room-access', playerId: 'alice', passcode: ' open sesame ' });
+
+    expect(state.access).toMatchObject({ passcode: 'open sesame', hasPasscode: true });
+    expect(rejection(state, { type: 'join-game', player: makePlayer('carol'), passcode: 'guess' })).toEqual({ error: 'Wrong passcode', statusCode: 403 });
+    expect(apply(state, { type: 'join-game', player: makePlayer('carol'), passcode: 'open sesame' }).players).toHaveLength(3);
+    expect(rejection(state, { type: 'set-room-access', playerId: 'alice', passcode: 'abc' }).error).toBe('Passcodes must be 4 to 32 characters');
+
+    const open = apply(state, { type: 'set-room-access', playerId: 'alice', passcode: '' });
+    expect(open.access).toMatchObject({ passcode: undefined, hasPasscode: false });
+  });
+
+  it('lets an invite past the passcode and approval exactly once', () => {
+    const locked = apply(lobby(), { type: 'set-room-access', playerId: 'alice', passcode: 'open sesame', requireApproval: true });
+    const state = apply(locked, { type: 'create-invite', playerId: 'alice', inviteId: 'invite-1' });
+
+    const joined = apply(state, { type: 'join-game', player: makePlayer('carol'), inviteId: 'invite-1' });
+
+    expect(player(joined, 'carol').hand).toHaveLength(5);
+    expect(joined.access.inviteIds).toEqual([]);
+    expect(rejection(joined, { type: 'join-game', player: makePlayer('dave'), inviteId: 'invite-1' }).error).toBe('This invite has already been used');
+  });
+
+  it('queues joiners for a moderator when the room needs approval', () => {
+    const state = apply(lobby(), { type: 'set-room-access', playerId: 'alice', requireApproval: true });
+
+    const waiting = apply(state, { type: 'join-game', player: makePlayer('carol') });
+    expect(waiting.players).toHaveLength(2);
+    expect(waiting.joinRequests.map(p => p.id)).toEqual(['carol']);
+    expect(rejection(waiting, { type: 'respond-join-request', playerId: 'bob', requestPlayerId: 'carol', accept: true }).statusCode).toBe(403);
+
+    const admitted = apply(waiting, { type: 'respond-join-request', playerId: 'alice', requestPlayerId: 'carol', accept: true });
+    expect(admitted.joinRequests).toEqual([]);
+    expect(player(admitted, 'carol').hand).toHaveLength(5);
+
+    const declined = apply(waiting, { type: 'respond-join-request', playerId: 'alice', requestPlayerId: 'carol', accept: false });
+    expect(declined.joinRequests).toEqual([]);
+    expect(declined.players).toHaveLength(2);
+  });
+});
+
+describe('spectators and reactions', () => {
+  const watch = (state: GameState) => apply(state, { type: 'join-game', player: makePlayer('sam', { role: 'spectator', videoEnabled: false, audioEnabled: false }) });
+
+  it('lets spectators watch a full room without a seat or a hand', () => {
+    const state = lobby(['alice', 'bob'], { settings: { maxPlayers: 2 } });
+
+    const watched = watch(state);
+
+    expect(watched.spectators.map(p => p.id)).toEqual(['sam']);
+    expect(watched.spectators[0].hand).toEqual([]);
+    expect(watched.players).toEqual(state.players);
+    expect(watched.deck).toEqual(state.deck);
+  });
+
+  it('shows spectators how many cards each player holds, but not which', () => {
+    const view = getViewerState(watch(started()), 'sam');
+
+    expect(view.players.map(p => p.hand)).toEqual([[], []]);
+    expect(view.players.map(p => p.handCount)).toEqual([5, 5]);
+  });
+
+  it('lets anyone in the room react, one reaction per cooldown', () => {
+    const state = watch(started());
+
+    const reacted = apply(state, { type: 'send-reaction', playerId: 'sam', emoji: '👏', timestamp: NOW });
+    expect(reacted.reactions).toEqual([{ id: 1, playerId: 'sam', emoji: '👏', timestamp: NOW }]);
+
+    expect(rejection(reacted, { type: 'send-reaction', playerId: 'sam', emoji: '😂', timestamp: NOW + REACTION_COOLDOWN - 1 }).statusCode).toBe(429);
+    expect(apply(reacted, { type: 'send-reaction', playerId: 'sam', emoji: '😂', timestamp: NOW + REACTION_COOLDOWN }).reactions).toHaveLength(2);
+    expect(rejection(state, { type: 'send-reaction', playerId: 'alice', emoji: '💩', timestamp: NOW }).error).toBe('Unknown reaction');
+  });
+});
+
+describe('viewer state', () => {
+  function secretive(): GameState {
+    const state = apply(lobby(['alice']), { type: 'join-game', player: makePlayer('bob', { userId: 'bob-account' }) });
+    const locked = apply(state, { type: 'set-room-access', playerId: 'alice', passcode: 'open sesame' });
+    const invited = apply(locked, { type: 'create-invite', playerId: 'alice', inviteId: 'invite-1' });
+    return apply(invited, { type: 'start-game', playerId: 'alice', timestamp: NOW });
+  }
+
+  it("sends a player their own hand and only a count of everyone else's", () => {
+    const state = secretive();
+
+    const view = getViewerState(state, 'alice');
+
+    expect(player(view, 'alice').hand).toEqual(player(state, 'alice').hand);
+    expect(player(view, 'bob')).toMatchObject({ hand: [], handCount: 5 });
+  });
+
+  it('keeps the deck order, seed, room secrets and other accounts on the backend', () => {
+    const state = { ...secretive(), bannedUserIds: ['mallory-account'] };
+
+    const view = getViewerState(state, 'alice');
+
+    expect(view).toMatchObject({ deck: [], deckCount: state.deck.length, seed: 0, bannedUserIds: [] });
+    expect(view.access).toMatchObject({ passcode: undefined, hasPasscode: true, inviteIds: [] });
+    expect(player(view, 'bob').userId).toBeUndefined();
+    expect(player(getViewerState(state, 'bob'), 'bob').userId).toBe('bob-account');
+  });
+
+  it('shows the offered card only to the two sides of a trade', () => {
+    const offer = card('Purpose');
+    const state = withHands(apply(secretive(), { type: 'join-game', player: makePlayer('carol'), passcode: 'open sesame' }), { alice: [offer, card('Plan')] });
+    const offered = apply(state, { type: 'propose-trade', playerId: 'alice', targetPlayerId: 'bob', cardId: offer.id, requestedType: 'Perform' });
+
+    expect(getViewerState(offered, 'bob').pendingTrade?.offeredCard).toEqual(offer);
+    expect(getViewerState(offered, 'carol').pendingTrade?.offeredCard).toBeUndefined();
+  });
+
+  it('shows every hand once the game is over', () => {
+    const state = { ...secretive(), gamePhase: 'finished' as const };
+
+    expect(getViewerState(state).players.map(p => p.hand)).toEqual(state.players.map(p => p.hand));
+  });
+});
+
+describe('new games', () => {
+  it('lets only a moderator deal a new game, keeping every seat', () => {
+    const state = { ...started(), gamePhase: 'finished' as const, winners: ['alice'], scores: { alice: { points: 6, sets: 1 } } };
+
+    expect(rejection(state, { type: 'new-game', playerId: 'bob', timestamp: NOW }).statusCode).toBe(403);
+
+    const again = apply(state, { type: 'new-game', playerId: 'alice', timestamp: NOW + 1 });
+    expect(again).toMatchObject({ gamePhase: 'playing', winners: [], scores: {}, discardPile: [], currentPlayerIndex: 0, turnStartTime: NOW + 1 });
+    expect(again.players.map(p => [p.id, p.hand.length])).toEqual([['alice', 5], ['bob', 5]]);
+  });
+});
+
+describe('client-sent players', () => {
+  it('makes the creator host and deals them a hand, whatever they sent', () => {
+    const state = createGameState(GAME_ID, makePlayer('alice', { hand: [card('Wild')] }), { seed: SEED });
+
+    expect(state.players[0].isHost).toBe(true);
+    expect(state.players[0].hand).toEqual(createDeck(SEED).slice(0, 5));
+  });
+
+  it('seats joiners as non-hosts with a hand dealt from the deck', () => {
+    const state = lobby(['alice']);
+
+    const joined = apply(state, { type: 'join-game', player: makePlayer('bob', { isHost: true, hand: [card('Wild')] }) });
+
+    expect(player(joined, 'bob').isHost).toBe(false);
+    expect(player(joined, 'bob').hand).toEqual(state.deck.slice(0, 5));
+    expect(rejection(joined, { type: 'kick-player', playerId: 'bob', targetPlayerId: 'alice' }).statusCode).toBe(403);
+  });
+
+  it('queues join requests without the host seat or a hand', () => {
+    const state = apply(lobby(['alice']), { type: 'set-room-access', playerId: 'alice', requireApproval: true });
+
+    const waiting = apply(state, { type: 'join-game', player: makePlayer('bob', { isHost: true, hand: [card('Wild')] }) });
+
+    expect(waiting.joinRequests[0]).toMatchObject({ isHost: false, hand: [] });
+  });
+});
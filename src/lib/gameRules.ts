@@ -0,0 +1,1744 @@
+import { Card, CardPack, DeckExhaustionPolicy, GameSettings, GameState, Locale, PType, Player, PlayerRole, PlayerScore, RoomAccess, ScoringMode, TeamId, TurnTimeoutPenalty, VoteResult } from '../types/game';
+import { CARD_TYPES, DEFAULT_CARD_PACK, createDeck, isPromptCard } from '../data/cards';
+import { createRandom, nextSeed, shuffle } from './random';
+
+// Shared rules engine. Every backend (the socket server and the Netlify
+// functions) runs its game actions through applyAction so the rules stay
+// identical everywhere. Nothing in here touches the network, timers or
+// Math.random: callers pass in timestamps, and every shuffle is derived from
+// GameState.seed, so replaying the same seed and actions gives the same game.
+
+export const MAX_PLAYERS = 8; // Hard cap: the video grid has room for eight feeds
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  turnTimeLimit: 30000, // 30 seconds
+  handSize: 5,
+  maxPlayers: MAX_PLAYERS,
+  winningHand: { Purpose: 1, Problems: 1, Prognosis: 1, Plan: 1, Perform: 1 },
+  mustPlayBeforeDraw: true,
+  scoringMode: 'single-set',
+  setsToWin: 2,
+  gameDuration: 20 * 60000, // 20 minutes
+  peerVoting: false,
+  drawFromDiscard: false,
+  actionCards: false,
+  directedPrompts: false,
+  teamMode: false,
+  deckExhaustionPolicy: 'reshuffle',
+  turnTimeoutPenalty: 'auto-draw'
+};
+export const GAME_SETTINGS_LIMITS = {
+  turnTimeLimit: { min: 10000, max: 300000 },
+  handSize: { min: 1, max: 10 },
+  maxPlayers: { min: 2, max: MAX_PLAYERS },
+  setsToWin: { min: 1, max: 5 },
+  gameDuration: { min: 5 * 60000, max: 120 * 60000 }
+};
+export const SCORING_MODES: ScoringMode[] = ['single-set', 'multi-set', 'timed'];
+export const PROMPT_POINTS = 1; // For answering the prompt on a played card
+export const SET_POINTS = 5; // For completing a winning hand
+export const TURN_EXTENSION = 30000; // Added by extend-turn, never past a full turn
+export const VOTING_WINDOW = 20000; // How long the other players have to rate an answer
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const DECK_EXHAUSTION_POLICIES: DeckExhaustionPolicy[] = ['reshuffle', 'end-game', 'most-types'];
+export const TURN_TIMEOUT_PENALTIES: TurnTimeoutPenalty[] = ['skip', 'auto-play', 'auto-draw'];
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es', 'fr', 'yo'];
+export const TEAM_IDS: TeamId[] = ['red', 'blue', 'green', 'gold'];
+export const PASSCODE_LENGTH = { min: 4, max: 32 };
+export const MAX_OPEN_INVITES = 20; // Past this the oldest unused invite stops working
+export const MAX_JOIN_REQUESTS = 20;
+export const MAX_SPECTATORS = 50;
+export const REACTIONS = ['👏', '❤️', '😂', '😮', '🤔', '🙌'];
+export const MAX_REACTIONS = 20; // Older reactions drop off the end
+export const REACTION_COOLDOWN = 1000; // Per sender
+const OPEN_ROOM: RoomAccess = { hasPasscode: false, requireApproval: false, inviteIds: [], requireAccount: false };
+
+export type GameAction =
+  | { type: 'join-game'; player: Player; passcode?: string; inviteId?: string }
+  | { type: 'leave-game'; playerId: string }
+  | { type: 'start-game'; playerId: string; timestamp: number }
+  | { type: 'play-card'; playerId: string; cardId: string; targetPlayerId?: string }
+  | { type: 'draw-card'; playerId: string; timestamp: number }
+  | { type: 'draw-discard'; playerId: string; timestamp: number }
+  | { type: 'expire-turn'; timestamp: number }
+  | { type: 'expire-game'; timestamp: number }
+  | { type: 'end-answer'; playerId: string; timestamp: number }
+  | { type: 'cast-vote'; playerId: string; rating: number; timestamp: number }
+  | { type: 'close-voting'; timestamp: number }
+  | { type: 'propose-trade'; playerId: string; targetPlayerId: string; cardId: string; requestedType: PType }
+  | { type: 'respond-trade'; playerId: string; accept: boolean; cardId?: string }
+  | { type: 'cancel-trade'; playerId: string }
+  | { type: 'select-card-packs'; playerId: string; cardPacks: CardPack[] }
+  | { type: 'set-language'; playerId: string; language: Locale }
+  | { type: 'set-team'; playerId: string; targetPlayerId: string; teamId?: TeamId }
+  | { type: 'set-role'; playerId: string; targetPlayerId: string; role: PlayerRole }
+  | { type: 'update-settings'; playerId: string; settings: Partial<GameSettings> }
+  | { type: 'skip-turn'; playerId: string; timestamp: number }
+  | { type: 'extend-turn'; playerId: string; timestamp: number }
+  | { type: 'kick-player'; playerId: string; targetPlayerId: string; ban?: boolean }
+  | { type: 'mute-player'; playerId: string; targetPlayerId: string; audio?: boolean; video?: boolean }
+  | { type: 'reveal-prompt'; playerId: string }
+  | { type: 'pause-game'; playerId: string; timestamp: number }
+  | { type: 'resume-game'; playerId: string; timestamp: number }
+  | { type: 'set-room-access'; playerId: string; passcode?: string; requireApproval?: boolean; requireAccount?: boolean }
+  | { type: 'create-invite'; playerId: string; inviteId: string }
+  | { type: 'respond-join-request'; playerId: string; requestPlayerId: string; accept: boolean }
+  | { type: 'send-reaction'; playerId: string; emoji: string; timestamp: number }
+  | { type: 'new-game'; playerId: string; timestamp: number };
+
+export interface RuleError {
+  error: string;
+  statusCode: number;
+}
+
+function reject(error: string, statusCode: number = 400): RuleError {
+  return { error, statusCode };
+}
+
+export function isRuleError<T extends object>(result: T | RuleError): result is RuleError {
+  return 'error' in result;
+}
+
+// Each wild in the hand covers one missing card of any type
+export function checkWinCondition(
+  hand: Card[],
+  winningHand: GameSettings['winningHand'] = DEFAULT_GAME_SETTINGS.winningHand
+): boolean {
+  const missing = CARD_TYPES.reduce((total, type) =>
+    total + Math.max(0, (winningHand[type] ?? 0) - hand.filter(card => card.type === type).length), 0
+  );
+  return missing <= hand.filter(card => card.type === 'Wild').length;
+}
+
+export function dealCards(deck: Card[], numCards: number): { hand: Card[]; deck: Card[] } {
+  return {
+    hand: deck.slice(0, numCards),
+    deck: deck.slice(numCards)
+  };
+}
+
+// Players without a team are a team of one
+function teamKey(player: Player, teamMode: boolean): string {
+  return teamMode && player.teamId ? player.teamId : player.id;
+}
+
+function isPlaying(player: Player): boolean {
+  return player.role !== 'facilitator';
+}
+
+function toRole(role: PlayerRole | undefined): PlayerRole {
+  return role === 'facilitator' ? 'facilitator' : 'player';
+}
+
+// Whoever runs the session: the host, or anyone the host made a facilitator
+export function canModerate(player: Player): boolean {
+  return player.isHost || player.role === 'facilitator';
+}
+
+// Deals a fresh hand to every player from the top of the deck. In team mode
+// the first member of each team holds the team's hand and the rest hold none.
+// Facilitators are never dealt in.
+function dealHands(players: Player[], deck: Card[], handSize: number, teamMode: boolean): { players: Player[]; deck: Card[] } {
+  let remaining = deck;
+  const dealtTeams = new Set<string>();
+  const dealtPlayers = players.map(player => {
+    const key = teamKey(player, teamMode);
+    if (!isPlaying(player) || dealtTeams.has(key)) {
+      return { ...player, hand: [] };
+    }
+
+    dealtTeams.add(key);
+    const dealt = dealCards(remaining, handSize);
+    remaining = dealt.deck;
+    return { ...player, hand: dealt.hand };
+  });
+
+  return { players: dealtPlayers, deck: remaining };
+}
+
+// P types held, with each wild standing in for one more
+export function countDistinctTypes(hand: Card[]): number {
+  const types = new Set(hand.filter(isPromptCard).map(card => card.type)).size;
+  const wilds = hand.filter(card => card.type === 'Wild').length;
+  return Math.min(CARD_TYPES.length, types + wilds);
+}
+
+// Only known keys are copied so a client can't smuggle extra fields into GameState
+function mergeSettings(base: GameSettings, changes: Partial<GameSettings> = {}): GameSettings {
+  return {
+    turnTimeLimit: changes.turnTimeLimit ?? base.turnTimeLimit,
+    handSize: changes.handSize ?? base.handSize,
+    maxPlayers: changes.maxPlayers ?? base.maxPlayers,
+    winningHand: changes.winningHand ?? base.winningHand,
+    mustPlayBeforeDraw: changes.mustPlayBeforeDraw ?? base.mustPlayBeforeDraw,
+    scoringMode: changes.scoringMode ?? base.scoringMode,
+    setsToWin: changes.setsToWin ?? base.setsToWin,
+    gameDuration: changes.gameDuration ?? base.gameDuration,
+    peerVoting: changes.peerVoting ?? base.peerVoting,
+    drawFromDiscard: changes.drawFromDiscard ?? base.drawFromDiscard,
+    actionCards: changes.actionCards ?? base.actionCards,
+    directedPrompts: changes.directedPrompts ?? base.directedPrompts,
+    teamMode: changes.teamMode ?? base.teamMode,
+    deckExhaustionPolicy: changes.deckExhaustionPolicy ?? base.deckExhaustionPolicy,
+    turnTimeoutPenalty: changes.turnTimeoutPenalty ?? base.turnTimeoutPenalty
+  };
+}
+
+// Returns a message describing the first out-of-range setting, or null if they all fit
+export function validateGameSettings(settings: GameSettings): string | null {
+  const { turnTimeLimit, handSize, maxPlayers, setsToWin, gameDuration } = GAME_SETTINGS_LIMITS;
+
+  if (!Number.isInteger(settings.turnTimeLimit) || settings.turnTimeLimit < turnTimeLimit.min || settings.turnTimeLimit > turnTimeLimit.max) {
+    return `Turn length must be between ${turnTimeLimit.min / 1000} and ${turnTimeLimit.max / 1000} seconds`;
+  }
+
+  if (!Number.isInteger(settings.handSize) || settings.handSize < handSize.min || settings.handSize > handSize.max) {
+    return `Hand size must be between ${handSize.min} and ${handSize.max}`;
+  }
+
+  if (!Number.isInteger(settings.maxPlayers) || settings.maxPlayers < maxPlayers.min || settings.maxPlayers > maxPlayers.max) {
+    return `Player limit must be between ${maxPlayers.min} and ${maxPlayers.max}`;
+  }
+
+  if (!SCORING_MODES.includes(settings.scoringMode)) {
+    return `Unsupported scoring mode: ${settings.scoringMode}`;
+  }
+
+  if (!Number.isInteger(settings.setsToWin) || settings.setsToWin < setsToWin.min || settings.setsToWin > setsToWin.max) {
+    return `Sets to win must be between ${setsToWin.min} and ${setsToWin.max}`;
+  }
+
+  if (!Number.isInteger(settings.gameDuration) || settings.gameDuration < gameDuration.min || settings.gameDuration > gameDuration.max) {
+    return `Game length must be between ${gameDuration.min / 60000} and ${gameDuration.max / 60000} minutes`;
+  }
+
+  if (!DECK_EXHAUSTION_POLICIES.includes(settings.deckExhaustionPolicy)) {
+    return `Unsupported deck exhaustion policy: ${settings.deckExhaustionPolicy}`;
+  }
+
+  if (!TURN_TIMEOUT_PENALTIES.includes(settings.turnTimeoutPenalty)) {
+    return `Unsupported turn timeout penalty: ${settings.turnTimeoutPenalty}`;
+  }
+
+  const required = CARD_TYPES.map(type => settings.winningHand?.[type]);
+  if (required.some(count => !Number.isInteger(count) || count! < 0)) {
+    return 'Winning hand needs a whole number of cards for every type';
+  }
+
+  const total = required.reduce<number>((sum, count) => sum + count!, 0);
+  if (total === 0) {
+    return 'Winning hand must need at least one card';
+  }
+
+  // A hand is back to handSize cards after each draw, so a bigger set could never be held
+  if (total > settings.handSize) {
+    return `Winning hand needs ${total} cards but hands only hold ${settings.handSize}`;
+  }
+
+  return null;
+}
+
+// Checks a freshly built deck can deal a hand to every seat the room allows,
+// not just those taken so far, and still make a winning hand
+function checkDeck(deck: Card[], settings: GameSettings): RuleError | null {
+  const missingTypes = CARD_TYPES.filter(type => !deck.some(card => card.type === type));
+  if (missingTypes.length > 0) {
+    return reject(`Selected packs have no ${missingTypes.join(', ')} prompts`);
+  }
+
+  const shortTypes = CARD_TYPES.filter(type =>
+    deck.filter(card => card.type === type).length < settings.winningHand[type]
+  );
+  if (shortTypes.length > 0) {
+    return reject(`Selected packs have too few ${shortTypes.join(', ')} prompts for the winning hand`);
+  }
+
+  if (deck.length < settings.maxPlayers * settings.handSize) {
+    return reject(`Selected packs do not have enough cards to deal ${settings.maxPlayers} hands of ${settings.handSize}`);
+  }
+
+  return null;
+}
+
+export interface GameOptions {
+  seed: number;
+  cardPacks?: CardPack[];
+  settings?: Partial<GameSettings>;
+}
+
+export function createGameState(gameId: string, host: Player, options: GameOptions): GameState {
+  const { seed, cardPacks = [DEFAULT_CARD_PACK] } = options;
+  const requested = mergeSettings(DEFAULT_GAME_SETTINGS, options.settings);
+  const isPlayable = validateGameSettings(requested) === null
+    && checkDeck(createDeck(seed, cardPacks, requested.actionCards), requested) === null;
+  const settings = isPlayable ? requested : DEFAULT_GAME_SETTINGS;
+  const seated = { ...host, isHost: true, role: toRole(host.role), teamId: undefined, audioForceMuted: undefined, videoForceMuted: undefined };
+  const dealt = dealHands([seated], createDeck(seed, cardPacks, settings.actionCards), settings.handSize, settings.teamMode);
+
+  return {
+    id: gameId,
+    players: dealt.players,
+    currentPlayerIndex: 0,
+    deck: dealt.deck,
+    discardPile: [],
+    gamePhase: 'lobby',
+    seed,
+    cardPacks,
+    settings,
+    scores: {},
+    winners: [],
+    bannedUserIds: [],
+    access: OPEN_ROOM,
+    joinRequests: [],
+    spectators: [],
+    reactions: [],
+    hasPlayedCard: false,
+    turnDirection: 1
+  };
+}
+
+// The state as one viewer is sent it, by every backend. The passcode, unused
+// invite ids, deck order, seed and everyone else's account never leave the
+// backend. A player sees their own hand (their team's, in team mode) and only a
+// count for everyone else's; anyone without a seat, such as a spectator, sees
+// counts only. Every hand is shown once the game is over.
+export function getViewerState(state: GameState, viewerId?: string): GameState {
+  const holderId = viewerId ? getHandHolder(state, viewerId)?.id : undefined;
+  const withoutAccount = (p: Player): Player => p.id === viewerId ? p : { ...p, userId: undefined };
+  const players = state.players.map(p =>
+    state.gamePhase === 'finished' || p.id === holderId ? p : { ...p, hand: [], handCount: p.hand.length }
+  ).map(withoutAccount);
+
+  const trade = state.pendingTrade;
+  const isTrading = !!trade && !!viewerId
+    && (onSameTeam(state, trade.fromPlayerId, viewerId) || onSameTeam(state, trade.toPlayerId, viewerId));
+  const offeredCard = isTrading ? getHandHolder(state, trade.fromPlayerId)?.hand.find(card => card.id === trade.cardId) : undefined;
+
+  return {
+    ...state,
+    players,
+    deck: [],
+    deckCount: state.deck.length,
+    seed: 0,
+    spectators: state.spectators.map(withoutAccount),
+    joinRequests: state.joinRequests.map(withoutAccount),
+    bannedUserIds: [],
+    access: { ...state.access, passcode: undefined, inviteIds: [] },
+    pendingTrade: trade && { ...trade, offeredCard }
+  };
+}
+
+// Cards left to draw, whether or not the deck itself was sent
+export function getDeckCount(state: GameState): number {
+  return state.deckCount ?? state.deck.length;
+}
+
+// When the active player's turn runs out, or undefined if no turn is running.
+// Backends own this deadline and send expire-turn once it has passed.
+export function getTurnDeadline(state: GameState): number | undefined {
+  if (state.gamePhase !== 'playing' || state.turnStartTime === undefined || state.pausedAt !== undefined) {
+    return undefined;
+  }
+
+  // Only facilitators are left, so nobody's turn can run out
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  if (!currentPlayer || !isHandHolder(state, currentPlayer)) {
+    return undefined;
+  }
+
+  return state.turnStartTime + state.settings.turnTimeLimit;
+}
+
+// When a timed game ends, or undefined for the other scoring modes
+export function getGameDeadline(state: GameState): number | undefined {
+  const inRound = state.gamePhase === 'playing' || state.gamePhase === 'voting';
+  if (!inRound || state.settings.scoringMode !== 'timed' || state.gameStartTime === undefined || state.pausedAt !== undefined) {
+    return undefined;
+  }
+
+  return state.gameStartTime + state.settings.gameDuration;
+}
+
+// When the vote on an answer closes, or undefined if nobody is voting
+export function getVotingDeadline(state: GameState): number | undefined {
+  return state.gamePhase === 'voting' && state.pausedAt === undefined ? state.voting?.deadline : undefined;
+}
+
+// The earliest deadline a backend has to act on, if any. A paused game has none.
+export function getNextDeadline(state: GameState): number | undefined {
+  const deadlines = [getGameDeadline(state), getTurnDeadline(state), getVotingDeadline(state)]
+    .filter((d): d is number => d !== undefined);
+  return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+}
+
+// The action a backend should apply because a deadline has passed, if any
+export function getDueAction(state: GameState, timestamp: number): GameAction | undefined {
+  const gameDeadline = getGameDeadline(state);
+  if (gameDeadline !== undefined && timestamp >= gameDeadline) {
+    return { type: 'expire-game', timestamp };
+  }
+
+  const votingDeadline = getVotingDeadline(state);
+  if (votingDeadline !== undefined && timestamp >= votingDeadline) {
+    return { type: 'close-voting', timestamp };
+  }
+
+  const turnDeadline = getTurnDeadline(state);
+  if (turnDeadline !== undefined && timestamp >= turnDeadline) {
+    return { type: 'expire-turn', timestamp };
+  }
+
+  return undefined;
+}
+
+// With peer voting, a played card's answer has to be rated before the player draws
+export function isAwaitingRating(state: GameState): boolean {
+  const card = state.discardPile[state.discardPile.length - 1];
+  return state.settings.peerVoting
+    && state.gamePhase === 'playing'
+    && !!state.hasPlayedCard
+    && !!card
+    && state.lastVoteResult?.cardId !== card.id;
+}
+
+// The discard the active player may take instead of drawing. The card they
+// played this turn sits on top and can't be taken back, so it's the one beneath.
+export function getDiscardDraw(state: GameState): Card | undefined {
+  const pile = state.hasPlayedCard ? state.discardPile.slice(0, -1) : state.discardPile;
+  return pile[pile.length - 1];
+}
+
+// The seat whose hand a player plays from: themselves, or in team mode the
+// first member of their team. Facilitators have none.
+export function getHandHolder(state: GameState, playerId: string): Player | undefined {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || !isPlaying(player)) {
+    return undefined;
+  }
+
+  const key = teamKey(player, state.settings.teamMode);
+  return state.players.find(p => isPlaying(p) && teamKey(p, state.settings.teamMode) === key);
+}
+
+function isHandHolder(state: GameState, player: Player): boolean {
+  return getHandHolder(state, player.id)?.id === player.id;
+}
+
+// True for the same player, and for teammates in team mode
+export function onSameTeam(state: GameState, playerId: string, otherPlayerId: string): boolean {
+  const holder = getHandHolder(state, playerId);
+  return playerId === otherPlayerId || (!!holder && holder.id === getHandHolder(state, otherPlayerId)?.id);
+}
+
+// Teammates share one score, kept under the team id
+function scoreKey(state: GameState, playerId: string): string {
+  const player = state.players.find(p => p.id === playerId);
+  return player ? teamKey(player, state.settings.teamMode) : playerId;
+}
+
+export function getScore(state: GameState, playerId: string): PlayerScore {
+  return state.scores[scoreKey(state, playerId)] ?? { points: 0, sets: 0 };
+}
+
+function addScore(state: GameState, playerId: string, points: number, sets: number = 0): Record<string, PlayerScore> {
+  const score = getScore(state, playerId);
+  return { ...state.scores, [scoreKey(state, playerId)]: { points: score.points + points, sets: score.sets + sets } };
+}
+
+// Best first. Timed games rank on points; the set modes rank on sets and use
+// points to break ties. Players level on both share a rank, as teammates always do.
+export function rankPlayers(state: GameState): { player: Player; score: PlayerScore; rank: number }[] {
+  const key = (score: PlayerScore) => state.settings.scoringMode === 'timed'
+    ? [score.points, score.sets]
+    : [score.sets, score.points];
+  const compare = (a: PlayerScore, b: PlayerScore) => {
+    const [a1, a2] = key(a);
+    const [b1, b2] = key(b);
+    return b1 - a1 || b2 - a2;
+  };
+
+  const sorted = state.players
+    .filter(isPlaying)
+    .map(player => ({ player, score: getScore(state, player.id) }))
+    .sort((a, b) => compare(a.score, b.score));
+
+  return sorted.map(entry => ({
+    ...entry,
+    rank: sorted.findIndex(other => compare(other.score, entry.score) === 0) + 1
+  }));
+}
+
+function finishByScore(state: GameState): GameState {
+  const winners = rankPlayers(state).filter(entry => entry.rank === 1).map(entry => entry.player.id);
+  return { ...state, gamePhase: 'finished', winners, voting: undefined };
+}
+
+// Card, trade and vote actions all wait while the game is paused
+function checkNotPaused(state: GameState): RuleError | null {
+  return state.pausedAt !== undefined ? reject('Game is paused', 409) : null;
+}
+
+// Returns the active player, or a RuleError if it is not playerId's turn.
+// Teammates share the turn, so any of them may act for the team.
+function requireTurn(state: GameState, playerId: string): Player | RuleError {
+  if (state.gamePhase !== 'playing') {
+    return reject('Game is not in playing phase');
+  }
+
+  const pausedError = checkNotPaused(state);
+  if (pausedError) {
+    return pausedError;
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  if (!currentPlayer || !isHandHolder(state, currentPlayer)) {
+    return reject('No current player');
+  }
+
+  if (!onSameTeam(state, currentPlayer.id, playerId)) {
+    return reject('Not your turn');
+  }
+
+  return currentPlayer;
+}
+
+// Returns the player if they may run the session, or a RuleError
+function requireModerator(state: GameState, playerId: string, what: string): Player | RuleError {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || !canModerate(player)) {
+    return reject(`Only the host or a facilitator can ${what}`, 403);
+  }
+
+  return player;
+}
+
+function replacePlayer(state: GameState, player: Player): Player[] {
+  return state.players.map(p => (p.id === player.id ? player : p));
+}
+
+// An invite seats its holder straight away. Otherwise the passcode has to
+// match, and a room that needs approval queues the joiner for a moderator.
+function joinGame(state: GameState, player: Player, passcode?: string, inviteId?: string): GameState | RuleError {
+  if ([...state.players, ...state.spectators, ...state.joinRequests].some(p => p.id === player.id)) {
+    return reject('Player already in game');
+  }
+
+  if (inviteId !== undefined) {
+    if (!state.access.inviteIds.includes(inviteId)) {
+      return reject('This invite has already been used', 403);
+    }
+
+    const seated = seatPlayer(state, player);
+    return isRuleError(seated)
+      ? seated
+      : { ...seated, access: { ...seated.access, inviteIds: seated.access.inviteIds.filter(id => id !== inviteId) } };
+  }
+
+  if (state.access.passcode !== undefined && passcode !== state.access.passcode) {
+    return reject('Wrong passcode', 403);
+  }
+
+  if (!state.access.requireApproval) {
+    return seatPlayer(state, player);
+  }
+
+  const unseatable = checkCanSeat(state, player);
+  if (unseatable) {
+    return unseatable;
+  }
+
+  if (state.joinRequests.length >= MAX_JOIN_REQUESTS) {
+    return reject('Too many people are waiting to join', 409);
+  }
+
+  return { ...state, joinRequests: [...state.joinRequests, { ...player, hand: [], isHost: false }] };
+}
+
+function checkCanSeat(state: GameState, player: Player): RuleError | null {
+  if (player.userId && state.bannedUserIds.includes(player.userId)) {
+    return reject('You have been removed from this game', 403);
+  }
+
+  if (state.access.requireAccount && !player.userId) {
+    return reject('Sign in to join this game', 403);
+  }
+
+  if (player.role === 'spectator') {
+    return state.spectators.length >= MAX_SPECTATORS ? reject('Too many spectators', 409) : null;
+  }
+
+  if (state.players.length >= state.settings.maxPlayers) {
+    return reject('Game is full');
+  }
+
+  // Nobody is dealt a short hand; once play has run the deck down, latecomers wait
+  if (state.deck.length < state.settings.handSize) {
+    return reject('Not enough cards left to deal a hand', 409);
+  }
+
+  return null;
+}
+
+function seatPlayer(state: GameState, player: Player): GameState | RuleError {
+  const unseatable = checkCanSeat(state, player);
+  if (unseatable) {
+    return unseatable;
+  }
+
+  if (player.role === 'spectator') {
+    const spectator = { ...player, hand: [], isHost: false, teamId: undefined, audioForceMuted: undefined, videoForceMuted: undefined };
+    return { ...state, spectators: [...state.spectators, spectator] };
+  }
+
+  // Newcomers never host, play alone until they pick a team in the lobby,
+  // and only a moderator can mute them. Nobody joins as a facilitator: only
+  // the host can make them one, with set-role.
+  const dealt = dealCards(state.deck, state.settings.handSize);
+  const seated = { ...player, isHost: false, role: 'player' as const, hand: dealt.hand, teamId: undefined, audioForceMuted: undefined, videoForceMuted: undefined };
+
+  return {
+    ...state,
+    players: [...state.players, seated],
+    deck: dealt.deck
+  };
+}
+
+// A departing hand goes to a teammate when there is one. Otherwise it is
+// dropped, or with returnHand shuffled back into the deck.
+function leaveGame(state: GameState, playerId: string, returnHand: boolean = false): GameState | RuleError {
+  // Someone still waiting to be let in simply drops out of the queue
+  if (state.joinRequests.some(p => p.id === playerId)) {
+    return { ...state, joinRequests: state.joinRequests.filter(p => p.id !== playerId) };
+  }
+
+  // Spectators hold nothing, so nothing else changes
+  if (state.spectators.some(p => p.id === playerId)) {
+    return { ...state, spectators: state.spectators.filter(p => p.id !== playerId) };
+  }
+
+  const leavingIndex = state.players.findIndex(p => p.id === playerId);
+  if (leavingIndex === -1) {
+    return reject('Player not in game', 404);
+  }
+
+  // A team's hand passes to the next teammate when the one holding it leaves
+  const leaver = state.players[leavingIndex];
+  const successor = isHandHolder(state, leaver)
+    ? state.players.find(p => p.id !== playerId && onSameTeam(state, p.id, playerId))
+    : undefined;
+  const players = state.players
+    .filter(p => p.id !== playerId)
+    .map(p => (p.id === successor?.id ? { ...p, hand: leaver.hand } : p));
+  let { deck, seed } = state;
+  if (returnHand && !successor && leaver.hand.length > 0) {
+    seed = nextSeed(seed);
+    deck = shuffle([...deck, ...leaver.hand], seed);
+  }
+
+  // Transfer host to another player if needed
+  if (players.length > 0 && !players.some(p => p.isHost)) {
+    players[0] = { ...players[0], isHost: true };
+  }
+
+  // Keep the turn pointing at the same player, or at whoever plays after the leaver
+  let currentPlayerIndex = state.currentPlayerIndex;
+  if (leavingIndex < currentPlayerIndex || (leavingIndex === currentPlayerIndex && state.turnDirection === -1)) {
+    currentPlayerIndex -= 1;
+  }
+  if (currentPlayerIndex >= players.length) {
+    currentPlayerIndex = 0;
+  }
+  if (currentPlayerIndex < 0) {
+    currentPlayerIndex = players.length - 1;
+  }
+  if (successor && leavingIndex === state.currentPlayerIndex) {
+    currentPlayerIndex = players.findIndex(p => p.id === successor.id);
+  }
+
+  // Teammates without the hand have no turn of their own; move on to the next seat that does
+  const remaining = { ...state, players };
+  while (players.some(p => isHandHolder(remaining, p)) && !isHandHolder(remaining, players[currentPlayerIndex])) {
+    currentPlayerIndex = (currentPlayerIndex + state.turnDirection + players.length) % players.length;
+  }
+
+  // Nobody is left to be rated, so drop the vote and let the round carry on
+  const voting = state.voting?.answererId === playerId ? undefined : state.voting;
+  const gamePhase = state.gamePhase === 'voting' && !voting ? 'playing' : state.gamePhase;
+
+  // A trade with someone who has gone can never be answered
+  const pendingTrade = state.pendingTrade && [state.pendingTrade.fromPlayerId, state.pendingTrade.toPlayerId].includes(playerId)
+    ? undefined
+    : state.pendingTrade;
+
+  const promptTargetPlayerId = state.promptTargetPlayerId === playerId ? undefined : state.promptTargetPlayerId;
+
+  return { ...state, players, deck, seed, currentPlayerIndex, voting, gamePhase, pendingTrade, promptTargetPlayerId };
+}
+
+// Rebuilds the deck from the chosen packs and re-deals every hand
+function selectCardPacks(state: GameState, playerId: string, cardPacks: CardPack[]): GameState | RuleError {
+  const player = requireModerator(state, playerId, 'choose card packs');
+  if (isRuleError(player)) {
+    return player;
+  }
+
+  if (state.gamePhase !== 'lobby') {
+    return reject('Card packs can only be changed in the lobby');
+  }
+
+  if (cardPacks.length === 0) {
+    return reject('Select at least one card pack');
+  }
+
+  const deck = createDeck(state.seed, cardPacks, state.settings.actionCards);
+  const deckError = checkDeck(deck, state.settings);
+  if (deckError) {
+    return deckError;
+  }
+
+  return { ...state, cardPacks, ...dealHands(state.players, deck, state.settings.handSize, state.settings.teamMode) };
+}
+
+// Host or facilitator edits the rules in the lobby; hands are re-dealt if the hand size, the
+// deck or the way hands are shared changes
+function updateSettings(state: GameState, playerId: string, changes: Partial<GameSettings>): GameState | RuleError {
+  const player = requireModerator(state, playerId, 'change game settings');
+  if (isRuleError(player)) {
+    return player;
+  }
+
+  if (state.gamePhase !== 'lobby') {
+    return reject('Game settings can only be changed in the lobby');
+  }
+
+  const settings = mergeSettings(state.settings, changes);
+  const settingsError = validateGameSettings(settings);
+  if (settingsError) {
+    return reject(settingsError);
+  }
+
+  if (state.players.length > settings.maxPlayers) {
+    return reject(`${state.players.length} players have already joined`);
+  }
+
+  const deck = createDeck(state.seed, state.cardPacks, settings.actionCards);
+  const deckError = checkDeck(deck, settings);
+  if (deckError) {
+    return deckError;
+  }
+
+  if (
+    settings.handSize === state.settings.handSize &&
+    settings.actionCards === state.settings.actionCards &&
+    settings.teamMode === state.settings.teamMode
+  ) {
+    return { ...state, settings };
+  }
+
+  return { ...state, settings, ...dealHands(state.players, deck, settings.handSize, settings.teamMode) };
+}
+
+// Language is per seat; every player shares the same cards and only the text differs
+function setLanguage(state: GameState, playerId: string, language: Locale): GameState | RuleError {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) {
+    return reject('Player not in game', 404);
+  }
+
+  if (!SUPPORTED_LOCALES.includes(language)) {
+    return reject(`Unsupported language: ${language}`);
+  }
+
+  return { ...state, players: replacePlayer(state, { ...player, language }) };
+}
+
+// Players pick their own team in the lobby and the host or a facilitator can
+// move anyone. Facilitators sit outside the teams.
+// Leaving teamId out takes the player off their team. Hands are re-dealt
+// so every team ends up holding exactly one.
+function setTeam(state: GameState, playerId: string, targetPlayerId: string, teamId?: TeamId): GameState | RuleError {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) {
+    return reject('Player not in game', 404);
+  }
+
+  if (targetPlayerId !== playerId && !canModerate(player)) {
+    return reject('Only the host or a facilitator can move other players between teams', 403);
+  }
+
+  if (state.gamePhase !== 'lobby') {
+    return reject('Teams can only be changed in the lobby');
+  }
+
+  if (!state.settings.teamMode) {
+    return reject('Team mode is not enabled');
+  }
+
+  if (teamId !== undefined && !TEAM_IDS.includes(teamId)) {
+    return reject(`Unknown team: ${teamId}`);
+  }
+
+  const target = state.players.find(p => p.id === targetPlayerId);
+  if (!target) {
+    return reject('Player not in game', 404);
+  }
+
+  if (!isPlaying(target)) {
+    return reject('Facilitators do not join a team');
+  }
+
+  const players = replacePlayer(state, { ...target, teamId });
+  const deck = createDeck(state.seed, state.cardPacks, state.settings.actionCards);
+
+  return { ...state, ...dealHands(players, deck, state.settings.handSize, true) };
+}
+
+// The host makes a player a facilitator, or hands a facilitator a seat back,
+// in the lobby. Facilitators sit outside the teams, and hands are re-dealt so
+// the deck takes back a facilitator's cards or deals the new player theirs.
+function setRole(state: GameState, playerId: string, targetPlayerId: string, role: PlayerRole): GameState | RuleError {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) {
+    return reject('Player not in game', 404);
+  }
+
+  if (!player.isHost) {
+    return reject('Only the host can choose who facilitates', 403);
+  }
+
+  if (state.gamePhase !== 'lobby') {
+    return reject('Roles can only be changed in the lobby');
+  }
+
+  if (role !== 'player' && role !== 'facilitator') {
+    return reject(`Unknown role: ${role}`);
+  }
+
+  const target = state.players.find(p => p.id === targetPlayerId);
+  if (!target) {
+    return reject('Player not in game', 404);
+  }
+
+  const players = replacePlayer(state, { ...target, role, teamId: role === 'facilitator' ? undefined : target.teamId });
+  const deck = createDeck(state.seed, state.cardPacks, state.settings.actionCards);
+
+  return { ...state, ...dealHands(players, deck, state.settings.handSize, state.settings.teamMode) };
+}
+
+// Index of the first seat that takes turns, or -1 if nobody is playing
+function firstTurnIndex(state: GameState): number {
+  return state.players.findIndex(player => isHandHolder(state, player));
+}
+
+function startGame(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const player = requireModerator(state, playerId, 'start the game');
+  if (isRuleError(player)) {
+    return player;
+  }
+
+  if (state.gamePhase !== 'lobby') {
+    return reject('The game has already started');
+  }
+
+  const currentPlayerIndex = firstTurnIndex(state);
+  if (currentPlayerIndex === -1) {
+    return reject('At least one player is needed to start');
+  }
+
+  return {
+    ...state,
+    gamePhase: 'playing',
+    currentPlayerIndex,
+    turnStartTime: timestamp,
+    gameStartTime: timestamp,
+    scores: {},
+    winners: [],
+    hasPlayedCard: false,
+    turnDirection: 1,
+    skipNextPlayer: false,
+    promptTargetPlayerId: undefined,
+    pausedAt: undefined
+  };
+}
+
+function playCard(state: GameState, playerId: string, cardId: string, targetPlayerId?: string): GameState | RuleError {
+  const currentPlayer = requireTurn(state, playerId);
+  if (isRuleError(currentPlayer)) {
+    return currentPlayer;
+  }
+
+  const card = currentPlayer.hand.find(c => c.id === cardId);
+  if (!card) {
+    return reject('Card not in hand');
+  }
+
+  const played = {
+    ...state,
+    players: replacePlayer(state, {
+      ...currentPlayer,
+      hand: currentPlayer.hand.filter(c => c.id !== cardId)
+    }),
+    // Playing the card on offer withdraws the offer
+    pendingTrade: state.pendingTrade?.cardId === cardId ? undefined : state.pendingTrade
+  };
+
+  if (!isPromptCard(card)) {
+    return playActionCard(played, card, targetPlayerId);
+  }
+
+  if (targetPlayerId !== undefined) {
+    if (!state.settings.directedPrompts) {
+      return reject('Directing prompts to other players is not enabled');
+    }
+
+    if (!getHandHolder(state, targetPlayerId) || onSameTeam(state, targetPlayerId, currentPlayer.id)) {
+      return reject('Choose another player to answer this prompt');
+    }
+  }
+
+  // Whoever was asked answers the prompt and earns its points
+  const promptTargetPlayerId = targetPlayerId ?? state.promptTargetPlayerId;
+  const answererId = promptTargetPlayerId ?? currentPlayer.id;
+
+  return {
+    ...played,
+    promptTargetPlayerId,
+    discardPile: [...state.discardPile, card],
+    currentPrompt: card.prompt,
+    // With peer voting the answer scores its rating once the vote closes
+    scores: state.settings.peerVoting ? state.scores : addScore(state, answererId, PROMPT_POINTS),
+    hasPlayedCard: true
+  };
+}
+
+// Action cards take effect at once and are spent under the discard pile, so
+// the top discard is always the last prompt played. They don't count as the
+// turn's play: there is no prompt to answer.
+function playActionCard(state: GameState, card: Card, targetPlayerId?: string): GameState | RuleError {
+  const discardPile = [card, ...state.discardPile];
+
+  switch (card.type) {
+    case 'Wild':
+      return reject('Wild cards stay in your hand towards a winning hand');
+    case 'Skip':
+      return { ...state, discardPile, skipNextPlayer: true };
+    case 'Reverse':
+      return { ...state, discardPile, turnDirection: state.turnDirection === 1 ? -1 : 1 };
+    case 'AskAnyone': {
+      const activePlayerId = state.players[state.currentPlayerIndex].id;
+      if (!targetPlayerId || !getHandHolder(state, targetPlayerId) || onSameTeam(state, targetPlayerId, activePlayerId)) {
+        return reject('Choose another player to answer your prompts');
+      }
+
+      return { ...state, discardPile, promptTargetPlayerId: targetPlayerId };
+    }
+    default:
+      return reject('Unknown card type');
+  }
+}
+
+// The draw pile is empty: apply the game's deck-exhaustion policy
+function exhaustDeck(state: GameState, timestamp: number): GameState | RuleError {
+  switch (state.settings.deckExhaustionPolicy) {
+    case 'reshuffle': {
+      // Every card is in someone's hand, so there is nothing to draw until
+      // one is played: the draw is skipped and the turn passes
+      if (state.discardPile.length === 0) {
+        return advanceTurn(state, timestamp);
+      }
+
+      // Shuffle the played cards back in and carry on with the draw
+      const seed = nextSeed(state.seed);
+      return drawAndAdvance({
+        ...state,
+        seed,
+        deck: shuffle(state.discardPile, seed),
+        discardPile: []
+      }, state.players[state.currentPlayerIndex], timestamp);
+    }
+    case 'end-game':
+      // A single-set game has no scores worth ranking yet
+      return state.settings.scoringMode === 'single-set'
+        ? { ...state, gamePhase: 'finished', winners: [] }
+        : finishByScore(state);
+    case 'most-types': {
+      // Everyone tied on the most types shares the win, teammates through their shared hand
+      const typesHeld = (player: Player) => countDistinctTypes(getHandHolder(state, player.id)?.hand ?? []);
+      const playing = state.players.filter(isPlaying);
+      const most = Math.max(...playing.map(typesHeld));
+      const winners = playing.filter(player => typesHeld(player) === most).map(player => player.id);
+      return { ...state, gamePhase: 'finished', winners };
+    }
+  }
+}
+
+// Returns the active player if they may end their turn by drawing, or a RuleError
+function requireDraw(state: GameState, playerId: string): Player | RuleError {
+  const currentPlayer = requireTurn(state, playerId);
+  if (isRuleError(currentPlayer)) {
+    return currentPlayer;
+  }
+
+  // A hand without prompt cards has nothing to play, so it may always draw
+  if (state.settings.mustPlayBeforeDraw && !state.hasPlayedCard && currentPlayer.hand.some(isPromptCard)) {
+    return reject('Must play a card before drawing');
+  }
+
+  if (isAwaitingRating(state)) {
+    return reject('End your answer so the others can rate it first');
+  }
+
+  return currentPlayer;
+}
+
+function drawCard(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const currentPlayer = requireDraw(state, playerId);
+  if (isRuleError(currentPlayer)) {
+    return currentPlayer;
+  }
+
+  return drawAndAdvance(state, currentPlayer, timestamp);
+}
+
+function drawDiscard(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  if (!state.settings.drawFromDiscard) {
+    return reject('Drawing from the discard pile is not enabled');
+  }
+
+  const currentPlayer = requireDraw(state, playerId);
+  if (isRuleError(currentPlayer)) {
+    return currentPlayer;
+  }
+
+  const card = getDiscardDraw(state);
+  if (!card) {
+    return reject('No card to take from the discard pile');
+  }
+
+  return takeCardAndAdvance({
+    ...state,
+    discardPile: state.discardPile.filter(c => c.id !== card.id)
+  }, currentPlayer, card, timestamp);
+}
+
+// Passes the turn in the current direction, jumping a player after a skip.
+// Only seats holding a hand take turns, so a team plays once per round.
+function advanceTurn(state: GameState, timestamp: number): GameState {
+  const seats = state.players
+    .map((player, index) => (isHandHolder(state, player) ? index : -1))
+    .filter(index => index !== -1);
+  const count = seats.length;
+  if (count === 0) {
+    return state;
+  }
+
+  const step = state.turnDirection * (state.skipNextPlayer ? 2 : 1);
+  const position = Math.max(0, seats.indexOf(state.currentPlayerIndex));
+
+  return {
+    ...state,
+    currentPlayerIndex: seats[(((position + step) % count) + count) % count],
+    turnStartTime: timestamp,
+    hasPlayedCard: false,
+    pendingTrade: undefined,
+    skipNextPlayer: false,
+    promptTargetPlayerId: undefined
+  };
+}
+
+// Gives the active player the top card of the deck, falling back to the
+// deck-exhaustion policy when it is empty
+function drawAndAdvance(state: GameState, currentPlayer: Player, timestamp: number): GameState | RuleError {
+  if (state.deck.length === 0) {
+    return exhaustDeck(state, timestamp);
+  }
+
+  const deck = state.deck.slice(0, -1);
+  const newCard = state.deck[state.deck.length - 1];
+  return takeCardAndAdvance({ ...state, deck }, currentPlayer, newCard, timestamp);
+}
+
+// Adds the drawn card to the active player's hand, then either completes a
+// set or passes the turn. Deck and discard draws both end up here.
+function takeCardAndAdvance(state: GameState, currentPlayer: Player, card: Card, timestamp: number): GameState {
+  const hand = [...currentPlayer.hand, card];
+  const players = replacePlayer(state, { ...currentPlayer, hand });
+
+  if (checkWinCondition(hand, state.settings.winningHand)) {
+    return completeSet({ ...state, players }, { ...currentPlayer, hand }, timestamp);
+  }
+
+  // Move to next player and reset turn state
+  return advanceTurn({ ...state, players }, timestamp);
+}
+
+// The player holds a winning hand. Single-set games end here; the other modes
+// bank the set, top the hand back up and play on. A team wins together.
+function completeSet(state: GameState, player: Player, timestamp: number): GameState {
+  const scores = addScore(state, player.id, SET_POINTS, 1);
+  const { scoringMode, setsToWin, winningHand, handSize } = state.settings;
+
+  if (scoringMode === 'single-set' || (scoringMode === 'multi-set' && getScore({ ...state, scores }, player.id).sets >= setsToWin)) {
+    const winners = state.players.filter(p => onSameTeam(state, p.id, player.id)).map(p => p.id);
+    return { ...state, scores, gamePhase: 'finished', winners };
+  }
+
+  const banked: Card[] = [];
+  let kept = player.hand.filter(card => {
+    if (isPromptCard(card) && banked.filter(c => c.type === card.type).length < winningHand[card.type]) {
+      banked.push(card);
+      return false;
+    }
+    return true;
+  });
+
+  // Wilds make up whatever the hand was short of
+  let short = CARD_TYPES.reduce((total, type) => total + winningHand[type] - banked.filter(c => c.type === type).length, 0);
+  kept = kept.filter(card => {
+    if (card.type === 'Wild' && short > 0) {
+      short -= 1;
+      banked.push(card);
+      return false;
+    }
+    return true;
+  });
+  const needed = Math.max(0, handSize - kept.length);
+  let { deck, seed } = state;
+  let discardPile = [...state.discardPile, ...banked];
+
+  // Top up from the reshuffled discards rather than leave the hand short
+  if (deck.length < needed && state.settings.deckExhaustionPolicy === 'reshuffle') {
+    seed = nextSeed(seed);
+    deck = [...deck, ...shuffle(discardPile, seed)];
+    discardPile = [];
+  }
+
+  const dealt = dealCards(deck, needed);
+
+  return advanceTurn({
+    ...state,
+    seed,
+    scores,
+    players: replacePlayer(state, { ...player, hand: [...kept, ...dealt.hand] }),
+    deck: dealt.deck,
+    discardPile
+  }, timestamp);
+}
+
+function proposeTrade(
+  state: GameState,
+  playerId: string,
+  targetPlayerId: string,
+  cardId: string,
+  requestedType: PType
+): GameState | RuleError {
+  const currentPlayer = requireTurn(state, playerId);
+  if (isRuleError(currentPlayer)) {
+    return currentPlayer;
+  }
+
+  if (state.pendingTrade) {
+    return reject('A trade is already waiting for an answer', 409);
+  }
+
+  // In team mode the offer goes to whoever holds the other team's hand
+  const target = getHandHolder(state, targetPlayerId);
+  if (!target || onSameTeam(state, target.id, currentPlayer.id)) {
+    return reject('Choose another player to trade with');
+  }
+
+  const card = currentPlayer.hand.find(c => c.id === cardId);
+  if (!card) {
+    return reject('Card not in hand');
+  }
+
+  if (!CARD_TYPES.includes(requestedType)) {
+    return reject('Unknown card type');
+  }
+
+  if (card.type === requestedType) {
+    return reject('Ask for a different type than the card you offer');
+  }
+
+  return {
+    ...state,
+    pendingTrade: { fromPlayerId: currentPlayer.id, toPlayerId: target.id, cardId, requestedType }
+  };
+}
+
+// The target accepts by giving up one of their cards of the requested type
+// (the first one unless they pick), and both hands change in the same state.
+// A completed hand is scored on the holder's next draw, as with any other hand.
+function respondTrade(state: GameState, playerId: string, accept: boolean, cardId?: string): GameState | RuleError {
+  // An offer made before the answer was ended can still be settled during the vote
+  const offer = state.pendingTrade;
+  if ((state.gamePhase !== 'playing' && state.gamePhase !== 'voting') || !offer) {
+    return reject('No trade is waiting for an answer');
+  }
+
+  const pausedError = checkNotPaused(state);
+  if (pausedError) {
+    return pausedError;
+  }
+
+  if (!onSameTeam(state, offer.toPlayerId, playerId)) {
+    return reject('This trade was offered to someone else', 403);
+  }
+
+  if (!accept) {
+    return { ...state, pendingTrade: undefined };
+  }
+
+  const proposer = state.players.find(p => p.id === offer.fromPlayerId);
+  const target = state.players.find(p => p.id === offer.toPlayerId);
+  const offered = proposer?.hand.find(c => c.id === offer.cardId);
+  if (!proposer || !target || !offered) {
+    return reject('This trade is no longer available', 409);
+  }
+
+  const requested = target.hand.find(c => c.type === offer.requestedType && (cardId === undefined || c.id === cardId));
+  if (!requested) {
+    return reject(`You have no ${offer.requestedType} card to give`);
+  }
+
+  const players = state.players.map(p => {
+    if (p.id === proposer.id) {
+      return { ...p, hand: [...p.hand.filter(c => c.id !== offered.id), requested] };
+    }
+    if (p.id === target.id) {
+      return { ...p, hand: [...p.hand.filter(c => c.id !== requested.id), offered] };
+    }
+    return p;
+  });
+
+  return { ...state, players, pendingTrade: undefined };
+}
+
+function cancelTrade(state: GameState, playerId: string): GameState | RuleError {
+  if (!state.pendingTrade) {
+    return reject('No trade is waiting for an answer');
+  }
+
+  const pausedError = checkNotPaused(state);
+  if (pausedError) {
+    return pausedError;
+  }
+
+  if (!onSameTeam(state, state.pendingTrade.fromPlayerId, playerId)) {
+    return reject('Only the player who offered the trade can withdraw it', 403);
+  }
+
+  return { ...state, pendingTrade: undefined };
+}
+
+// The turn deadline has passed: apply the game's timeout penalty to the active player
+function expireTurn(state: GameState, timestamp: number): GameState | RuleError {
+  const deadline = getTurnDeadline(state);
+  if (deadline === undefined) {
+    return reject('Game is not in playing phase');
+  }
+
+  if (timestamp < deadline) {
+    return reject('Turn has not expired yet', 409);
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  if (!currentPlayer || !isHandHolder(state, currentPlayer)) {
+    return reject('No current player');
+  }
+
+  switch (state.settings.turnTimeoutPenalty) {
+    case 'skip':
+      return advanceTurn(state, timestamp);
+    case 'auto-play': {
+      const promptCards = currentPlayer.hand.filter(isPromptCard);
+      if (state.hasPlayedCard || promptCards.length === 0) {
+        return drawAndAdvance(state, currentPlayer, timestamp);
+      }
+
+      // Pick the card from the game seed so replays stay deterministic
+      const seed = nextSeed(state.seed);
+      const card = promptCards[Math.floor(createRandom(seed)() * promptCards.length)];
+      const played = playCard({ ...state, seed }, currentPlayer.id, card.id);
+      if (isRuleError(played)) {
+        return played;
+      }
+
+      // Nobody answered the prompt, so it scores nothing
+      return drawAndAdvance({ ...played, scores: state.scores }, played.players[played.currentPlayerIndex], timestamp);
+    }
+    case 'auto-draw':
+      return drawAndAdvance(state, currentPlayer, timestamp);
+  }
+}
+
+// The active player has finished answering the prompt; open the vote
+function endAnswer(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const currentPlayer = requireTurn(state, playerId);
+  if (isRuleError(currentPlayer)) {
+    return currentPlayer;
+  }
+
+  if (!state.settings.peerVoting) {
+    return reject('Peer voting is not enabled');
+  }
+
+  const card = state.discardPile[state.discardPile.length - 1];
+  if (!state.hasPlayedCard || !card) {
+    return reject('Play a card before ending your answer');
+  }
+
+  if (!isAwaitingRating(state)) {
+    return reject('This answer has already been rated', 409);
+  }
+
+  return {
+    ...state,
+    gamePhase: 'voting',
+    voting: {
+      answererId: state.promptTargetPlayerId ?? currentPlayer.id,
+      cardId: card.id,
+      votes: {},
+      deadline: timestamp + VOTING_WINDOW
+    }
+  };
+}
+
+function castVote(state: GameState, playerId: string, rating: number, timestamp: number): GameState | RuleError {
+  if (state.gamePhase !== 'voting' || !state.voting) {
+    return reject('No answer is being rated');
+  }
+
+  const pausedError = checkNotPaused(state);
+  if (pausedError) {
+    return pausedError;
+  }
+
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) {
+    return reject('Player not in game', 404);
+  }
+
+  if (!isPlaying(player)) {
+    return reject('Facilitators do not rate answers', 403);
+  }
+
+  // Teammates answered together, so none of them rates it
+  if (onSameTeam(state, playerId, state.voting.answererId)) {
+    return reject('You cannot rate your own answer', 403);
+  }
+
+  if (playerId in state.voting.votes) {
+    return reject('You have already voted', 409);
+  }
+
+  if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+    return reject(`Rating must be between ${MIN_RATING} and ${MAX_RATING}`);
+  }
+
+  const voting = { ...state.voting, votes: { ...state.voting.votes, [playerId]: rating } };
+  const voted = { ...state, voting };
+
+  // Close early once everyone who can vote has
+  const everyoneVoted = state.players.every(p => !isPlaying(p) || onSameTeam(state, p.id, voting.answererId) || p.id in voting.votes);
+  return everyoneVoted ? closeVoting(voted, timestamp) : voted;
+}
+
+// Tallies the ratings, scores the answer and hands the turn back to draw
+function closeVoting(state: GameState, timestamp: number): GameState | RuleError {
+  if (state.gamePhase !== 'voting' || !state.voting) {
+    return reject('No answer is being rated');
+  }
+
+  const { answererId, cardId, votes } = state.voting;
+  const ratings = Object.values(votes);
+  const average = ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : 0;
+  const result: VoteResult = {
+    answererId,
+    cardId,
+    average,
+    count: ratings.length,
+    points: Math.round(average)
+  };
+
+  return {
+    ...state,
+    gamePhase: 'playing',
+    voting: undefined,
+    lastVoteResult: result,
+    scores: addScore(state, answererId, result.points),
+    // The answer took part of the turn; give a fresh window to draw
+    turnStartTime: timestamp
+  };
+}
+
+// A timed game's clock has run out: highest score wins
+function expireGame(state: GameState, timestamp: number): GameState | RuleError {
+  const deadline = getGameDeadline(state);
+  if (deadline === undefined) {
+    return reject('Game is not a timed game in progress');
+  }
+
+  if (timestamp < deadline) {
+    return reject('Game has not ended yet', 409);
+  }
+
+  return finishByScore(state);
+}
+
+// The active player's turn ends at once, without a draw
+function skipTurn(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'skip a turn');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  if (state.gamePhase !== 'playing') {
+    return reject('Game is not in playing phase');
+  }
+
+  const pausedError = checkNotPaused(state);
+  if (pausedError) {
+    return pausedError;
+  }
+
+  return advanceTurn(state, timestamp);
+}
+
+// Gives the active player more time by moving the turn's start forward
+function extendTurn(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'extend the timer');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  if (state.gamePhase !== 'playing' || state.turnStartTime === undefined) {
+    return reject('Game is not in playing phase');
+  }
+
+  const pausedError = checkNotPaused(state);
+  if (pausedError) {
+    return pausedError;
+  }
+
+  return { ...state, turnStartTime: Math.min(state.turnStartTime + TURN_EXTENSION, timestamp) };
+}
+
+// Removes another player; a hand nobody inherits goes back into the deck.
+// A ban also keeps their account from joining again. Someone without an
+// account can come back as anyone, unless the host has made the room
+// require one (set-room-access).
+function kickPlayer(state: GameState, playerId: string, targetPlayerId: string, ban: boolean = false): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'remove players');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  const target = [...state.players, ...state.spectators].find(p => p.id === targetPlayerId);
+  if (!target) {
+    return reject('Player not in game', 404);
+  }
+
+  if (target.id === moderator.id) {
+    return reject('Leave the game instead of removing yourself');
+  }
+
+  if (target.isHost) {
+    return reject('The host cannot be removed', 403);
+  }
+
+  const left = leaveGame(state, targetPlayerId, true);
+  if (isRuleError(left) || !ban) {
+    return left;
+  }
+
+  const bannedUserIds = target.userId && !left.bannedUserIds.includes(target.userId)
+    ? [...left.bannedUserIds, target.userId]
+    : left.bannedUserIds;
+  return { ...left, bannedUserIds };
+}
+
+// Turns another player's microphone or camera off, or lets them back on.
+// Media goes peer to peer and never passes a backend, so the flag is carried
+// in the game state instead: the player's own client holds the track off,
+// and every other client plays neither their sound nor their picture while
+// it is set. A tampered client can keep sending, but nobody else hears it.
+function mutePlayer(state: GameState, playerId: string, targetPlayerId: string, audio?: boolean, video?: boolean): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'mute players');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  const target = state.players.find(p => p.id === targetPlayerId);
+  if (!target) {
+    return reject('Player not in game', 404);
+  }
+
+  if (target.isHost) {
+    return reject('The host cannot be muted', 403);
+  }
+
+  return {
+    ...state,
+    players: replacePlayer(state, {
+      ...target,
+      audioForceMuted: audio ?? target.audioForceMuted,
+      videoForceMuted: video ?? target.videoForceMuted
+    })
+  };
+}
+
+// Turns over the top of the deck for everyone to discuss. Nobody scores it,
+// and like an action card it goes under the discard pile.
+function revealPrompt(state: GameState, playerId: string): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'reveal a prompt');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  if (state.gamePhase !== 'playing') {
+    return reject('Game is not in playing phase');
+  }
+
+  const pausedError = checkNotPaused(state);
+  if (pausedError) {
+    return pausedError;
+  }
+
+  const index = state.deck.map(isPromptCard).lastIndexOf(true);
+  if (index === -1) {
+    return reject('No prompts left in deck');
+  }
+
+  const card = state.deck[index];
+  return {
+    ...state,
+    deck: state.deck.filter((_, i) => i !== index),
+    discardPile: [card, ...state.discardPile],
+    currentPrompt: card.prompt
+  };
+}
+
+// Stops every clock: the turn, the vote and a timed game's length
+function pauseGame(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'pause the game');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  if (state.gamePhase !== 'playing' && state.gamePhase !== 'voting') {
+    return reject('Game is not in progress');
+  }
+
+  if (state.pausedAt !== undefined) {
+    return reject('Game is already paused', 409);
+  }
+
+  return { ...state, pausedAt: timestamp };
+}
+
+// Moves every clock forward by the length of the pause, so each one keeps
+// exactly the time it had left
+function resumeGame(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'resume the game');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  if (state.pausedAt === undefined) {
+    return reject('Game is not paused', 409);
+  }
+
+  const pause = Math.max(0, timestamp - state.pausedAt);
+  const shift = (time?: number) => (time === undefined ? undefined : time + pause);
+
+  return {
+    ...state,
+    pausedAt: undefined,
+    turnStartTime: shift(state.turnStartTime),
+    gameStartTime: shift(state.gameStartTime),
+    voting: state.voting && { ...state.voting, deadline: state.voting.deadline + pause }
+  };
+}
+
+// An empty passcode removes it; anything left undefined stays as it was.
+// Requiring accounts, which is what makes bans stick, is up to the host alone.
+function setRoomAccess(state: GameState, playerId: string, passcode?: string, requireApproval?: boolean, requireAccount?: boolean): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'change who can join');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  if (requireAccount !== undefined && !moderator.isHost) {
+    return reject('Only the host can require accounts to join', 403);
+  }
+
+  const trimmed = passcode?.trim();
+  if (trimmed && (trimmed.length < PASSCODE_LENGTH.min || trimmed.length > PASSCODE_LENGTH.max)) {
+    return reject(`Passcodes must be ${PASSCODE_LENGTH.min} to ${PASSCODE_LENGTH.max} characters`);
+  }
+
+  const access = { ...state.access };
+  if (trimmed !== undefined) {
+    access.passcode = trimmed || undefined;
+    access.hasPasscode = !!trimmed;
+  }
+  if (requireApproval !== undefined) {
+    access.requireApproval = requireApproval;
+  }
+  if (requireAccount !== undefined) {
+    access.requireAccount = requireAccount;
+  }
+
+  return { ...state, access };
+}
+
+// The backend picks the id and signs it into the link it hands back
+function createInvite(state: GameState, playerId: string, inviteId: string): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'invite players');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  if (!inviteId || state.access.inviteIds.includes(inviteId)) {
+    return reject('Invalid invite');
+  }
+
+  return {
+    ...state,
+    access: { ...state.access, inviteIds: [...state.access.inviteIds, inviteId].slice(-MAX_OPEN_INVITES) }
+  };
+}
+
+function respondJoinRequest(state: GameState, playerId: string, requestPlayerId: string, accept: boolean): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'answer join requests');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  const request = state.joinRequests.find(p => p.id === requestPlayerId);
+  if (!request) {
+    return reject('Join request not found', 404);
+  }
+
+  const remaining = { ...state, joinRequests: state.joinRequests.filter(p => p.id !== requestPlayerId) };
+  return accept ? seatPlayer(remaining, request) : remaining;
+}
+
+function sendReaction(state: GameState, playerId: string, emoji: string, timestamp: number): GameState | RuleError {
+  if (![...state.players, ...state.spectators].some(p => p.id === playerId)) {
+    return reject('Player not in game', 404);
+  }
+
+  if (!REACTIONS.includes(emoji)) {
+    return reject('Unknown reaction');
+  }
+
+  const previous = [...state.reactions].reverse().find(reaction => reaction.playerId === playerId);
+  if (previous && timestamp - previous.timestamp < REACTION_COOLDOWN) {
+    return reject('Too many reactions, slow down', 429);
+  }
+
+  const id = (state.reactions[state.reactions.length - 1]?.id ?? 0) + 1;
+  return { ...state, reactions: [...state.reactions, { id, playerId, emoji, timestamp }].slice(-MAX_REACTIONS) };
+}
+
+// Deals again from a fresh deck, keeping everyone's seat
+function newGame(state: GameState, playerId: string, timestamp: number): GameState | RuleError {
+  const moderator = requireModerator(state, playerId, 'start a new game');
+  if (isRuleError(moderator)) {
+    return moderator;
+  }
+
+  const seed = nextSeed(state.seed);
+  const dealt = dealHands(state.players, createDeck(seed, state.cardPacks, state.settings.actionCards), state.settings.handSize, state.settings.teamMode);
+
+  return {
+    ...state,
+    ...dealt,
+    discardPile: [],
+    gamePhase: 'playing',
+    seed,
+    currentPlayerIndex: Math.max(0, firstTurnIndex({ ...state, ...dealt })),
+    scores: {},
+    winners: [],
+    voting: undefined,
+    lastVoteResult: undefined,
+    pendingTrade: undefined,
+    turnDirection: 1,
+    skipNextPlayer: false,
+    promptTargetPlayerId: undefined,
+    currentPrompt: undefined,
+    turnStartTime: timestamp,
+    gameStartTime: timestamp,
+    pausedAt: undefined,
+    hasPlayedCard: false
+  };
+}
+
+export function applyAction(state: GameState, action: GameAction): GameState | RuleError {
+  switch (action.type) {
+    case 'join-game':
+      return joinGame(state, action.player, action.passcode, action.inviteId);
+    case 'leave-game':
+      return leaveGame(state, action.playerId);
+    case 'start-game':
+      return startGame(state, action.playerId, action.timestamp);
+    case 'play-card':
+      return playCard(state, action.playerId, action.cardId, action.targetPlayerId);
+    case 'draw-card':
+      return drawCard(state, action.playerId, action.timestamp);
+    case 'draw-discard':
+      return drawDiscard(state, action.playerId, action.timestamp);
+    case 'expire-turn':
+      return expireTurn(state, action.timestamp);
+    case 'expire-game':
+      return expireGame(state, action.timestamp);
+    case 'end-answer':
+      return endAnswer(state, action.playerId, action.timestamp);
+    case 'cast-vote':
+      return castVote(state, action.playerId, action.rating, action.timestamp);
+    case 'close-voting':
+      return closeVoting(state, action.timestamp);
+    case 'propose-trade':
+      return proposeTrade(state, action.playerId, action.targetPlayerId, action.cardId, action.requestedType);
+    case 'respond-trade':
+      return respondTrade(state, action.playerId, action.accept, action.cardId);
+    case 'cancel-trade':
+      return cancelTrade(state, action.playerId);
+    case 'select-card-packs':
+      return selectCardPacks(state, action.playerId, action.cardPacks);
+    case 'set-language':
+      return setLanguage(state, action.playerId, action.language);
+    case 'set-team':
+      return setTeam(state, action.playerId, action.targetPlayerId, action.teamId);
+    case 'set-role':
+      return setRole(state, action.playerId, action.targetPlayerId, action.role);
+    case 'update-settings':
+      return updateSettings(state, action.playerId, action.settings);
+    case 'skip-turn':
+      return skipTurn(state, action.playerId, action.timestamp);
+    case 'extend-turn':
+      return extendTurn(state, action.playerId, action.timestamp);
+    case 'kick-player':
+      return kickPlayer(state, action.playerId, action.targetPlayerId, action.ban);
+    case 'mute-player':
+      return mutePlayer(state, action.playerId, action.targetPlayerId, action.audio, action.video);
+    case 'reveal-prompt':
+      return revealPrompt(state, action.playerId);
+    case 'pause-game':
+      return pauseGame(state, action.playerId, action.timestamp);
+    case 'resume-game':
+      return resumeGame(state, action.playerId, action.timestamp);
+    case 'set-room-access':
+      return setRoomAccess(state, action.playerId, action.passcode, action.requireApproval, action.requireAccount);
+    case 'create-invite':
+      return createInvite(state, action.playerId, action.inviteId);
+    case 'respond-join-request':
+      return respondJoinRequest(state, action.playerId, action.requestPlayerId, action.accept);
+    case 'send-reaction':
+      return sendReaction(state, action.playerId, action.emoji, action.timestamp);
+    case 'new-game':
+      return newGame(state, action.playerId, action.timestamp);
+  }
+}
\ No newline at end of file
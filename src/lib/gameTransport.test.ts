@@ -0,0 +1,391 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameState, Player } from '../types/game';
+import { GameAction, RuleError, applyAction, createGameState, getViewerState, isRuleError } from './gameRules';
+import { ActionRejectedError, GameTransport } from './gameTransport';
+import { HttpTransport } from './httpTransport';
+import { SocketTransport } from './socketTransport';
+
+// One conformance suite for every GameTransport adapter. Each adapter talks to
+// the same fake backend, which runs the real rules engine, through a mock of
+// whatever it uses in production: fetch for HttpTransport and socket.io-client
+// for SocketTransport. Pushed updates (gameUpdates) are mocked too, so a test decides when a change is announced.
+
+const shared = vi.hoisted(() => ({
+  backend: null as unknown,
+  changeListeners: [] as (() => void)[],
+  sockets: [] as unknown[]
+}));
+
+vi.mock('./gameUpdates', () => ({
+  subscribeToGameUpdates: (_gameId: string, onChanged: () => void) => {
+    shared.changeListeners.push(onChanged);
+    return { announce: () => {}, close: () => {} };
+  }
+}));
+
+vi.mock('socket.io-client', () => ({
+  io: () => {
+    const socket = new FakeSocket();
+    shared.sockets.push(socket);
+    return socket;
+  }
+}));
+
+const GAME_ID = 'ROOM01';
+const INVITE = 'signed-invite';
+
+function makePlayer(id: string): Player {
+  return { id, name: id, hand: [], isHost: false, role: 'player', videoEnabled: true, audioEnabled: true, isConnected: true };
+}
+
+// Holds games the way every real backend does: the whole state in one place,
+// changed only through applyAction and sent out one viewer's view at a time
+class FakeBackend {
+  private games = new Map<string, GameState>();
+  isDown = false;
+
+  create(gameId: string, player: Player): GameState | RuleError {
+    if (this.games.has(gameId)) {
+      return { error: 'Game already exists', statusCode: 409 };
+    }
+    return this.save(gameId, createGameState(gameId, player, { seed: 1 }));
+  }
+
+  join(gameId: string, player: Player, passcode?: string): GameState | RuleError {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { error: 'Game not found', statusCode: 404 };
+    }
+    return this.save(gameId, applyAction(game, { type: 'join-game', player, passcode }));
+  }
+
+  apply(gameId: string, action: GameAction): GameState | RuleError {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { error: 'Game not found', statusCode: 404 };
+    }
+    return this.save(gameId, applyAction(game, action));
+  }
+
+  view(gameId: string, viewerId?: string): GameState | undefined {
+    const game = this.games.get(gameId);
+    return game && getViewerState(game, viewerId);
+  }
+
+  private save(gameId: string, result: GameState | RuleError): GameState | RuleError {
+    if (!isRuleError(result)) {
+      this.games.set(gameId, result);
+    }
+    return result;
+  }
+}
+
+function backend(): FakeBackend {
+  return shared.backend as FakeBackend;
+}
+
+// Everything after the envelope is the action's own fields
+function actionFields(payload: Record<string, unknown>): Record<string, unknown> {
+  const envelope = ['action', 'gameId', 'playerId', 'seatToken'];
+  return Object.fromEntries(Object.entries(payload).filter(([key]) => !envelope.includes(key)));
+}
+
+function toAction(type: string, playerId: string, payload: Record<string, unknown>): GameAction {
+  return { ...actionFields(payload), type, playerId, timestamp: Date.now() } as GameAction;
+}
+
+const tokenFor = (playerId: string) => `seat:${playerId}`;
+const playerFromToken = (token: unknown) =>
+  typeof token === 'string' && token.startsWith('seat:') ? token.slice('seat:'.length) : undefined;
+
+// Stands in for the Netlify function: the same routes, status codes and seat
+// token checks
+async function fakeFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  if (backend().isDown) {
+    throw new TypeError('Failed to fetch');
+  }
+
+  const respond = (status: number, body: object) => new Response(JSON.stringify(body), { status });
+  const url = new URL(String(input), 'http://localhost');
+  const action = url.searchParams.get('action') ?? '';
+
+  if (init?.method !== 'POST') {
+    const state = backend().view(url.searchParams.get('gameId') ?? '', playerFromToken(url.searchParams.get('seatToken')));
+    return state ? respond(200, { gameState: state }) : respond(404, { error: 'Game not found' });
+  }
+
+  const body = JSON.parse(String(init.body));
+  if (action === 'create-game' || action === 'join-game') {
+    const result = action === 'create-game'
+      ? backend().create(body.gameId, body.player)
+      : backend().join(body.gameId, body.player, body.passcode);
+    return isRuleError(result)
+      ? respond(result.statusCode, { error: result.error })
+      : respond(200, { success: true, gameState: getViewerState(result, body.player.id), seatToken: tokenFor(body.player.id) });
+  }
+
+  const playerId = playerFromToken(body.seatToken);
+  if (!playerId || playerId !== body.playerId) {
+    return respond(403, { error: 'Not signed in to this seat' });
+  }
+
+  if (action === 'create-invite') {
+    return respond(200, { success: true, invite: INVITE });
+  }
+
+  const result = backend().apply(body.gameId, toAction(action, playerId, body));
+  return isRuleError(result)
+    ? respond(result.statusCode, { error: result.error })
+    : respond(200, { success: true, gameState: getViewerState(result, playerId) });
+}
+
+type Listener = { handler: (...args: unknown[]) => void; once: boolean };
+
+// Stands in for a socket.io-client socket wired straight to server/index.js's
+// handlers: replies arrive as events, a rejection as an 'error' event
+class FakeSocket {
+  connected = false;
+  private listeners = new Map<string, Listener[]>();
+  private playerId: string | undefined;
+
+  on(event: string, handler: (...args: unknown[]) => void) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), { handler, once: false }]);
+    return this;
+  }
+
+  once(event: string, handler: (...args: unknown[]) => void) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), { handler, once: true }]);
+    return this;
+  }
+
+  off(event: string, handler: (...args: unknown[]) => void) {
+    this.listeners.set(event, (this.listeners.get(event) ?? []).filter(listener => listener.handler !== handler));
+    return this;
+  }
+
+  connect() {
+    this.connected = true;
+    this.receive('connect');
+  }
+
+  disconnect() {
+    this.connected = false;
+    this.receive('disconnect');
+  }
+
+  // From the client to the server, delivered asynchronously like the real thing
+  emit(event: string, payload: Record<string, unknown>) {
+    queueMicrotask(() => this.serve(event, payload));
+    return this;
+  }
+
+  // From the server to this client
+  receive(event: string, ...args: unknown[]) {
+    const listeners = this.listeners.get(event) ?? [];
+    this.listeners.set(event, listeners.filter(listener => !listener.once));
+    listeners.forEach(listener => listener.handler(...args));
+  }
+
+  pushState() {
+    const state = this.playerId && backend().view(GAME_ID, this.playerId);
+    if (state) {
+      this.receive('game-state', state);
+    }
+  }
+
+  private serve(event: string, payload: Record<string, unknown>) {
+    const gameId = payload.gameId as string;
+
+    if (event === 'create-game' || event === 'join-game') {
+      const player = payload.player as Player;
+      const result = event === 'create-game'
+        ? backend().create(gameId, player)
+        : backend().join(gameId, player, payload.passcode as string | undefined);
+      if (isRuleError(result)) {
+        this.receive('error', result.error);
+        return;
+      }
+
+      this.playerId = player.id;
+      this.receive('seat-token', tokenFor(player.id));
+      this.pushState();
+      return;
+    }
+
+    const playerId = playerFromToken(payload.seatToken);
+    if (!playerId || playerId !== this.playerId) {
+      this.receive('error', 'Not signed in to this seat');
+      return;
+    }
+
+    if (event === 'create-invite') {
+      this.receive('invite-created', INVITE);
+      return;
+    }
+
+    const result = backend().apply(gameId, toAction(event, playerId, payload));
+    if (isRuleError(result)) {
+      this.receive('error', result.error);
+      return;
+    }
+    this.pushState();
+  }
+}
+
+interface Harness {
+  transport: GameTransport;
+  // Another player joins from their own device, and this transport hears
+  // about it however it would in production
+  joinElsewhere: (player: Player) => void;
+  // Whether an unreachable backend is reported through onError; the socket
+  // adapter shows it through onConnectionChange instead
+  reportsOutages: boolean;
+}
+
+function announceChange() {
+  shared.changeListeners.forEach(listener => listener());
+}
+
+const adapters: { name: string; create: () => Harness }[] = [
+  {
+    name: 'HttpTransport',
+    create: () => ({
+      transport: new HttpTransport('game-api'),
+      reportsOutages: true,
+      joinElsewhere: player => {
+        backend().join(GAME_ID, player);
+        announceChange();
+      }
+    })
+  },
+  {
+    name: 'SocketTransport',
+    create: () => ({
+      transport: new SocketTransport('http://localhost:3001'),
+      reportsOutages: false,
+      joinElsewhere: player => {
+        backend().join(GAME_ID, player);
+        const socket = shared.sockets[shared.sockets.length - 1] as FakeSocket;
+        socket.receive('player-joined', player);
+        socket.pushState();
+      }
+    })
+  }
+];
+
+describe.each(adapters)('$name', ({ create }) => {
+  let harness: Harness;
+  let transport: GameTransport;
+  let states: GameState[];
+  const onError = vi.fn();
+  const onActionRejected = vi.fn();
+  const onPlayerJoined = vi.fn();
+  const host = makePlayer('host');
+
+  const latestState = () => states[states.length - 1];
+
+  beforeEach(() => {
+    shared.backend = new FakeBackend();
+    shared.changeListeners = [];
+    shared.sockets = [];
+    vi.stubGlobal('fetch', vi.fn(fakeFetch));
+    onError.mockReset();
+    onActionRejected.mockReset();
+    onPlayerJoined.mockReset();
+
+    harness = create();
+    transport = harness.transport;
+    states = [];
+    transport.onGameStateChange(state => states.push(state));
+    transport.onError(onError);
+    transport.onActionRejected(onActionRejected);
+    transport.onPlayerJoined(onPlayerJoined);
+    transport.connect();
+  });
+
+  afterEach(() => {
+    transport.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('delivers the new game after createGame', async () => {
+    await transport.createGame(GAME_ID, host);
+
+    await vi.waitFor(() => expect(latestState()?.players.map(p => p.id)).toEqual(['host']));
+    expect(latestState().gamePhase).toBe('lobby');
+  });
+
+  it('rejects createGame for a room that already exists, without reporting it again', async () => {
+    backend().create(GAME_ID, makePlayer('someone-else'));
+
+    const creating = transport.createGame(GAME_ID, host);
+    await expect(creating).rejects.toThrow('Game already exists');
+    await expect(creating).rejects.toBeInstanceOf(ActionRejectedError);
+    expect(onActionRejected).not.toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('rejects joinGame for a room that does not exist', async () => {
+    const joining = transport.joinGame(GAME_ID, makePlayer('guest'));
+    await expect(joining).rejects.toThrow('Game not found');
+    await expect(joining).rejects.toBeInstanceOf(ActionRejectedError);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('delivers the state after an accepted action', async () => {
+    await transport.createGame(GAME_ID, host);
+    await transport.startGame(GAME_ID, host.id);
+
+    await vi.waitFor(() => expect(latestState().gamePhase).toBe('playing'));
+    expect(onActionRejected).not.toHaveBeenCalled();
+  });
+
+  it('shows the acting player their own hand and only counts for the others', async () => {
+    await transport.createGame(GAME_ID, host);
+    harness.joinElsewhere(makePlayer('guest'));
+
+    await vi.waitFor(() => expect(latestState().players).toHaveLength(2));
+    const [own, other] = latestState().players;
+    expect(own.hand.length).toBeGreaterThan(0);
+    expect(other.hand).toEqual([]);
+    expect(other.handCount).toBeGreaterThan(0);
+  });
+
+  it('reports an action the rules turn down through onActionRejected and resolves', async () => {
+    await transport.createGame(GAME_ID, host);
+
+    await expect(transport.playCard(GAME_ID, host.id, 'no-such-card')).resolves.toBeUndefined();
+
+    await vi.waitFor(() => expect(onActionRejected).toHaveBeenCalledTimes(1));
+    expect(onActionRejected.mock.calls[0][0]).toEqual(expect.any(String));
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('reports another player joining', async () => {
+    await transport.createGame(GAME_ID, host);
+    await vi.waitFor(() => expect(states.length).toBeGreaterThan(0));
+
+    harness.joinElsewhere(makePlayer('guest'));
+
+    await vi.waitFor(() => expect(onPlayerJoined).toHaveBeenCalledWith(expect.objectContaining({ id: 'guest' })));
+    await vi.waitFor(() => expect(latestState().players.map(p => p.id)).toEqual(['host', 'guest']));
+  });
+
+  it('resolves createInvite to the signed invite', async () => {
+    await transport.createGame(GAME_ID, host);
+
+    await expect(transport.createInvite(GAME_ID, host.id)).resolves.toBe(INVITE);
+    expect(onActionRejected).not.toHaveBeenCalled();
+  });
+
+  it('reports an unreachable backend through onError, not as a rejected action', async () => {
+    if (!harness.reportsOutages) return;
+
+    await transport.createGame(GAME_ID, host);
+    backend().isDown = true;
+
+    await expect(transport.startGame(GAME_ID, host.id)).resolves.toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onActionRejected).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
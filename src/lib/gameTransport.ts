@@ -0,0 +1,60 @@
+import { GameSettings, GameState, Locale, PType, Player, PlayerRole, TeamId } from '../types/game';
+
+// How the app talks to whichever backend runs its games. There is one adapter
+// per backend: SocketTransport for the self-hosted Socket.IO server and
+// HttpTransport for the Netlify functions, whether they keep games in memory or
+// in the Supabase database. useGameTransport picks one from config, so nothing
+// above this interface knows which backend it is using.
+//
+// Every adapter keeps the seat token it is issued on createGame and joinGame
+// and delivers each new state through onGameStateChange. An action the rules
+// turn down (playing out of turn, acting while paused) goes to
+// onActionRejected and the game carries on; onError is only for a backend
+// that can't be reached. Action calls report through those callbacks rather
+// than rejecting. createGame, joinGame and createInvite reject instead, since
+// their callers need to know the outcome.
+export interface GameTransport {
+  readonly isConnected: boolean;
+  connect(): void;
+  close(): void;
+  onConnectionChange(callback: (isConnected: boolean) => void): void;
+  onGameStateChange(callback: (state: GameState) => void): void;
+  onPlayerJoined(callback: (player: Player) => void): void;
+  onError(callback: (error: string) => void): void;
+  onActionRejected(callback: (reason: string) => void): void;
+
+  createGame(gameId: string, player: Player): Promise<void>;
+  joinGame(gameId: string, player: Player, passcode?: string, invite?: string): Promise<void>;
+  getGameState(gameId: string): Promise<GameState | null>;
+
+  setRoomAccess(gameId: string, playerId: string, passcode?: string, requireApproval?: boolean, requireAccount?: boolean): Promise<void>;
+  createInvite(gameId: string, playerId: string): Promise<string>; // Resolves to the signed invite token
+  respondJoinRequest(gameId: string, playerId: string, requestPlayerId: string, accept: boolean): Promise<void>;
+  startGame(gameId: string, playerId: string): Promise<void>;
+  selectCardPacks(gameId: string, playerId: string, cardPackIds: string[]): Promise<void>;
+  setLanguage(gameId: string, playerId: string, language: Locale): Promise<void>;
+  sendReaction(gameId: string, playerId: string, emoji: string): Promise<void>;
+  setTeam(gameId: string, playerId: string, targetPlayerId: string, teamId?: TeamId): Promise<void>;
+  setRole(gameId: string, playerId: string, targetPlayerId: string, role: PlayerRole): Promise<void>;
+  updateSettings(gameId: string, playerId: string, settings: Partial<GameSettings>): Promise<void>;
+  pauseGame(gameId: string, playerId: string): Promise<void>;
+  resumeGame(gameId: string, playerId: string): Promise<void>;
+  skipTurn(gameId: string, playerId: string): Promise<void>;
+  extendTurn(gameId: string, playerId: string): Promise<void>;
+  kickPlayer(gameId: string, playerId: string, targetPlayerId: string, ban?: boolean): Promise<void>;
+  mutePlayer(gameId: string, playerId: string, targetPlayerId: string, audio?: boolean, video?: boolean): Promise<void>;
+  revealPrompt(gameId: string, playerId: string): Promise<void>;
+  endAnswer(gameId: string, playerId: string): Promise<void>;
+  castVote(gameId: string, playerId: string, rating: number): Promise<void>;
+  proposeTrade(gameId: string, playerId: string, targetPlayerId: string, cardId: string, requestedType: PType): Promise<void>;
+  respondTrade(gameId: string, playerId: string, accept: boolean, cardId?: string): Promise<void>;
+  cancelTrade(gameId: string, playerId: string): Promise<void>;
+  playCard(gameId: string, playerId: string, cardId: string, targetPlayerId?: string): Promise<void>;
+  drawCard(gameId: string, playerId: string): Promise<void>;
+  drawFromDiscard(gameId: string, playerId: string): Promise<void>;
+  newGame(gameId: string, playerId: string): Promise<void>;
+}
+
+// The backend answered and turned the action down, as opposed to failing or
+// not answering at all
+export class ActionRejectedError extends Error {}
\ No newline at end of file
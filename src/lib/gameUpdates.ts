@@ -0,0 +1,39 @@
+import { supabase } from './supabase';
+
+// Push notices that a game has changed, over a Supabase Realtime broadcast
+// channel per game. A notice carries no state: each viewer is sent a different
+// view of the game, so whoever hears one fetches their own. Every client
+// announces the changes it makes, and nobody hears their own announcements.
+
+const CHANGED_EVENT = 'changed';
+
+export interface GameUpdates {
+  announce: () => void;
+  close: () => void;
+}
+
+// onLive is told true once notices are arriving and false whenever the
+// channel fails, times out or closes
+export function subscribeToGameUpdates(
+  gameId: string,
+  onChanged: () => void,
+  onLive: (isLive: boolean) => void
+): GameUpdates {
+  const channel = supabase.channel(`game-updates:${gameId}`, { config: { broadcast: { self: false } } });
+
+  channel
+    .on('broadcast', { event: CHANGED_EVENT }, () => onChanged())
+    .subscribe(status => onLive(status === 'SUBSCRIBED'));
+
+  return {
+    // Before the channel is up this goes over HTTP instead
+    announce: () => {
+      channel.send({ type: 'broadcast', event: CHANGED_EVENT, payload: {} }).catch(error => {
+        console.error('Could not announce game update:', error);
+      });
+    },
+    close: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+}
\ No newline at end of file
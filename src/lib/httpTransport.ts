@@ -0,0 +1,72 @@
+import { GameState } from '../types/game';
+import { ActionRejectedError } from './gameTransport';
+import { ActionData, ActionResult, RequestTransport } from './requestTransport';
+
+const API_BASE = '/.netlify/functions';
+
+// Talks to one of the Netlify functions. Each action is a POST, answered with
+// this player's view of the game.
+export class HttpTransport extends RequestTransport {
+  // Issued on create-game and join-game; every later request carries it
+  private seatToken: string | null = null;
+
+  constructor(
+    private readonly functionName: string,
+    private readonly getAccessToken?: () => Promise<string | undefined>
+  ) {
+    super();
+  }
+
+  // A 4xx answer means the backend turned the action down; anything else
+  // that isn't a success means it failed
+  protected async send(action: string, data: ActionData): Promise<ActionResult> {
+    // Only taking a seat needs the account; bans are checked against it
+    const isSeating = action === 'create-game' || action === 'join-game';
+    const accessToken = isSeating ? await this.getAccessToken?.() : undefined;
+
+    const response = await fetch(`${API_BASE}/${this.functionName}?action=${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...data,
+        action,
+        seatToken: this.seatToken ?? undefined,
+        accessToken
+      }),
+    });
+
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // Not JSON; keep the status line
+      }
+      throw response.status < 500 ? new ActionRejectedError(errorMessage) : new Error(errorMessage);
+    }
+
+    const result = await response.json();
+    if (result.seatToken) {
+      this.seatToken = result.seatToken;
+    }
+    return result;
+  }
+
+  // The server redacts hands by viewer, so the request proves who is asking
+  async getGameState(gameId: string): Promise<GameState | null> {
+    try {
+      const query = this.seatToken ? `&seatToken=${encodeURIComponent(this.seatToken)}` : '';
+      const result = await fetch(`${API_BASE}/${this.functionName}?action=game-state&gameId=${gameId}${query}`);
+      if (result.ok) {
+        const data = await result.json();
+        return data.gameState;
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  }
+}
\ No newline at end of file
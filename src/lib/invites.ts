@@ -0,0 +1,24 @@
+import { randomBytes } from 'crypto';
+import { sign, verifySignature } from './signing';
+
+// Signed single-use invite links. A token reads `${gameId}.${inviteId}.${signature}`:
+// the signature stops anyone minting an invite or moving one to another game,
+// and the rules engine retires the invite id once it has seated someone.
+
+export function createInviteId(): string {
+  return randomBytes(12).toString('hex');
+}
+
+export function createInviteToken(gameId: string, inviteId: string): string {
+  return `${gameId}.${inviteId}.${sign('invite', gameId, inviteId)}`;
+}
+
+// The invite id, or null if the token is malformed, forged or for another game
+export function verifyInviteToken(token: unknown, gameId: string): string | null {
+  if (typeof token !== 'string') return null;
+
+  const [tokenGameId, inviteId, signature, ...rest] = token.split('.');
+  if (rest.length > 0 || tokenGameId !== gameId || !inviteId || !signature) return null;
+
+  return verifySignature(signature, 'invite', gameId, inviteId) ? inviteId : null;
+}
\ No newline at end of file
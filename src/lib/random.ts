@@ -0,0 +1,42 @@
+// Seedable PRNG (mulberry32). Shuffles go through here instead of Math.random
+// so a game can be replayed from its seed and action log.
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// The seed a backend starts a game with. A client-chosen seed would give away
+// the deck order and every hand, so one is only honoured with
+// ALLOW_REPLAY_SEED set, to replay a reported session.
+export function chooseSeed(requested?: number): number {
+  return process.env.ALLOW_REPLAY_SEED === 'true' && Number.isInteger(requested) ? requested as number : createSeed();
+}
+
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+// Derives the seed for the next round, so "Play Again" stays reproducible
+export function nextSeed(seed: number): number {
+  return Math.floor(createRandom(seed)() * 0x100000000);
+}
+
+export function shuffle<T>(items: T[], seed: number): T[] {
+  const random = createRandom(seed);
+  const result = [...items];
+
+  // Fisher-Yates
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
\ No newline at end of file
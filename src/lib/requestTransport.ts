@@ -0,0 +1,326 @@
+import { GameSettings, GameState, Locale, PType, Player, PlayerRole, TeamId } from '../types/game';
+import { ActionRejectedError, GameTransport } from './gameTransport';
+import { getNextDeadline } from './gameRules';
+import { GameUpdates, subscribeToGameUpdates } from './gameUpdates';
+
+const POLL_INTERVAL = 2000; // Only while pushed updates are unavailable
+const DEADLINE_GRACE = 500; // Lets the backend's clock pass the deadline too
+
+export type ActionData = { gameId: string } & Record<string, unknown>;
+
+// What the backend answers an action with. The state is this player's own view.
+export interface ActionResult {
+  gameState?: GameState;
+  invite?: string;
+}
+
+// Shared by the adapters whose backend answers each action as a request and
+// never calls back, such as HttpTransport. Changes made by
+// anyone else are pushed as notices (see gameUpdates) that this player answers
+// by fetching their own view. Until the pushes are flowing, and whenever they
+// drop, the game is polled instead.
+export abstract class RequestTransport implements GameTransport {
+  readonly isConnected = true; // Every request stands alone, so there is no connection to lose
+
+  private gameStateCallback: ((state: GameState) => void) | null = null;
+  private playerJoinedCallback: ((player: Player) => void) | null = null;
+  private errorCallback: ((error: string) => void) | null = null;
+  private actionRejectedCallback: ((reason: string) => void) | null = null;
+  private pollingInterval: ReturnType<typeof setInterval> | null = null;
+  private deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+  private gameUpdates: GameUpdates | null = null;
+  private isRefreshing = false;
+  private refreshAgain = false;
+  private currentGameId: string | null = null;
+  private lastGameState: GameState | null = null;
+
+  // Throws an ActionRejectedError when the backend turns the action down and
+  // any other error when it failed or couldn't be reached
+  protected abstract send(action: string, data: ActionData): Promise<ActionResult>;
+
+  abstract getGameState(gameId: string): Promise<GameState | null>;
+
+  connect() {}
+
+  close() {
+    this.stopListening();
+  }
+
+  onConnectionChange() {}
+
+  onGameStateChange(callback: (state: GameState) => void) {
+    this.gameStateCallback = callback;
+  }
+
+  onPlayerJoined(callback: (player: Player) => void) {
+    this.playerJoinedCallback = callback;
+  }
+
+  onError(callback: (error: string) => void) {
+    this.errorCallback = callback;
+  }
+
+  onActionRejected(callback: (reason: string) => void) {
+    this.actionRejectedCallback = callback;
+  }
+
+  private async request(action: string, data: ActionData): Promise<ActionResult> {
+    const result = await this.send(action, data);
+
+    // The answer is already this player's new view; everyone else is told to
+    // go and fetch theirs. A fetch already under way may return an older
+    // view, so it is followed by one more.
+    if (data.gameId === this.currentGameId) {
+      if (result.gameState) {
+        this.receiveState(result.gameState);
+      }
+      this.refreshAgain = this.isRefreshing;
+      this.gameUpdates?.announce();
+    }
+    return result;
+  }
+
+  // Runs one game action, reporting whatever goes wrong instead of throwing
+  private async act(action: string, data: ActionData) {
+    try {
+      await this.request(action, data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof ActionRejectedError) {
+        this.actionRejectedCallback?.(message);
+      } else {
+        this.errorCallback?.(message);
+      }
+    }
+  }
+
+  // Every new state ends up here, whether it came from a poll, a fetch after
+  // a push or the answer to this player's own action
+  private receiveState(newGameState: GameState) {
+    this.scheduleDeadlineRefresh(newGameState);
+
+    if (!this.gameStateCallback) return;
+
+    const stateChanged = !this.lastGameState ||
+      JSON.stringify(this.lastGameState) !== JSON.stringify(newGameState);
+    if (!stateChanged) return;
+
+    // Check for new players
+    if (this.lastGameState && this.playerJoinedCallback) {
+      const oldPlayerIds = new Set(this.lastGameState.players.map(p => p.id));
+      newGameState.players
+        .filter(p => !oldPlayerIds.has(p.id))
+        .forEach(player => this.playerJoinedCallback?.(player));
+    }
+
+    this.lastGameState = newGameState;
+    this.gameStateCallback(newGameState);
+  }
+
+  // Pushes that arrive mid-fetch are folded into one more fetch afterwards
+  private async refresh(gameId: string) {
+    if (this.isRefreshing) {
+      this.refreshAgain = true;
+      return;
+    }
+
+    this.isRefreshing = true;
+    try {
+      do {
+        this.refreshAgain = false;
+        const newGameState = await this.getGameState(gameId);
+        if (newGameState && this.currentGameId === gameId) {
+          this.receiveState(newGameState);
+        }
+      } while (this.refreshAgain);
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  // The backend only expires a turn, vote or timed game when the game is next
+  // read, so with nobody polling, read it again once the deadline has passed
+  private scheduleDeadlineRefresh(state: GameState) {
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = null;
+    }
+
+    const gameId = this.currentGameId;
+    const deadline = getNextDeadline(state);
+    if (!gameId || deadline === undefined || this.pollingInterval) return;
+
+    this.deadlineTimer = setTimeout(() => this.refresh(gameId), Math.max(0, deadline - Date.now()) + DEADLINE_GRACE);
+  }
+
+  private startPolling(gameId: string) {
+    if (this.pollingInterval) return;
+
+    this.pollingInterval = setInterval(() => this.refresh(gameId), POLL_INTERVAL);
+  }
+
+  private stopPolling() {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  private startListening(gameId: string) {
+    this.stopListening();
+    this.currentGameId = gameId;
+
+    const updates = subscribeToGameUpdates(gameId, () => this.refresh(gameId), isLive => {
+      if (this.gameUpdates !== updates) return;
+
+      if (isLive) {
+        this.stopPolling();
+        // Catch up on anything that changed while the channel was connecting
+        this.refresh(gameId);
+      } else {
+        this.startPolling(gameId);
+      }
+    });
+
+    this.gameUpdates = updates;
+    this.startPolling(gameId);
+  }
+
+  private stopListening() {
+    this.gameUpdates?.close();
+    this.gameUpdates = null;
+    this.stopPolling();
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = null;
+    }
+    this.currentGameId = null;
+    this.lastGameState = null;
+  }
+
+  // Once seated, start following the game and tell everyone already there
+  private async takeSeat(action: 'create-game' | 'join-game', data: ActionData) {
+    const result = await this.request(action, data);
+    this.startListening(data.gameId);
+    if (result.gameState) {
+      this.receiveState(result.gameState);
+    }
+    this.gameUpdates?.announce();
+  }
+
+  async createGame(gameId: string, player: Player) {
+    await this.takeSeat('create-game', { gameId, player });
+  }
+
+  async joinGame(gameId: string, player: Player, passcode?: string, invite?: string) {
+    await this.takeSeat('join-game', { gameId, player, passcode, invite });
+  }
+
+  async createInvite(gameId: string, playerId: string): Promise<string> {
+    const result = await this.request('create-invite', { gameId, playerId });
+    if (!result.invite) {
+      throw new Error('No invite was issued');
+    }
+    return result.invite;
+  }
+
+  async setRoomAccess(gameId: string, playerId: string, passcode?: string, requireApproval?: boolean, requireAccount?: boolean) {
+    await this.act('set-room-access', { gameId, playerId, passcode, requireApproval, requireAccount });
+  }
+
+  async respondJoinRequest(gameId: string, playerId: string, requestPlayerId: string, accept: boolean) {
+    await this.act('respond-join-request', { gameId, playerId, requestPlayerId, accept });
+  }
+
+  async startGame(gameId: string, playerId: string) {
+    await this.act('start-game', { gameId, playerId });
+  }
+
+  async selectCardPacks(gameId: string, playerId: string, cardPackIds: string[]) {
+    await this.act('select-card-packs', { gameId, playerId, cardPackIds });
+  }
+
+  async setLanguage(gameId: string, playerId: string, language: Locale) {
+    await this.act('set-language', { gameId, playerId, language });
+  }
+
+  async sendReaction(gameId: string, playerId: string, emoji: string) {
+    await this.act('send-reaction', { gameId, playerId, emoji });
+  }
+
+  async setTeam(gameId: string, playerId: string, targetPlayerId: string, teamId?: TeamId) {
+    await this.act('set-team', { gameId, playerId, targetPlayerId, teamId });
+  }
+
+  async setRole(gameId: string, playerId: string, targetPlayerId: string, role: PlayerRole) {
+    await this.act('set-role', { gameId, playerId, targetPlayerId, role });
+  }
+
+  async updateSettings(gameId: string, playerId: string, settings: Partial<GameSettings>) {
+    await this.act('update-settings', { gameId, playerId, settings });
+  }
+
+  async pauseGame(gameId: string, playerId: string) {
+    await this.act('pause-game', { gameId, playerId });
+  }
+
+  async resumeGame(gameId: string, playerId: string) {
+    await this.act('resume-game', { gameId, playerId });
+  }
+
+  async skipTurn(gameId: string, playerId: string) {
+    await this.act('skip-turn', { gameId, playerId });
+  }
+
+  async extendTurn(gameId: string, playerId: string) {
+    await this.act('extend-turn', { gameId, playerId });
+  }
+
+  async kickPlayer(gameId: string, playerId: string, targetPlayerId: string, ban?: boolean) {
+    await this.act('kick-player', { gameId, playerId, targetPlayerId, ban });
+  }
+
+  async mutePlayer(gameId: string, playerId: string, targetPlayerId: string, audio?: boolean, video?: boolean) {
+    await this.act('mute-player', { gameId, playerId, targetPlayerId, audio, video });
+  }
+
+  async revealPrompt(gameId: string, playerId: string) {
+    await this.act('reveal-prompt', { gameId, playerId });
+  }
+
+  async endAnswer(gameId: string, playerId: string) {
+    await this.act('end-answer', { gameId, playerId });
+  }
+
+  async castVote(gameId: string, playerId: string, rating: number) {
+    await this.act('cast-vote', { gameId, playerId, rating });
+  }
+
+  async proposeTrade(gameId: string, playerId: string, targetPlayerId: string, cardId: string, requestedType: PType) {
+    await this.act('propose-trade', { gameId, playerId, targetPlayerId, cardId, requestedType });
+  }
+
+  async respondTrade(gameId: string, playerId: string, accept: boolean, cardId?: string) {
+    await this.act('respond-trade', { gameId, playerId, accept, cardId });
+  }
+
+  async cancelTrade(gameId: string, playerId: string) {
+    await this.act('cancel-trade', { gameId, playerId });
+  }
+
+  async playCard(gameId: string, playerId: string, cardId: string, targetPlayerId?: string) {
+    await this.act('play-card', { gameId, playerId, cardId, targetPlayerId });
+  }
+
+  async drawCard(gameId: string, playerId: string) {
+    await this.act('draw-card', { gameId, playerId });
+  }
+
+  async drawFromDiscard(gameId: string, playerId: string) {
+    await this.act('draw-discard', { gameId, playerId });
+  }
+
+  async newGame(gameId: string, playerId: string) {
+    await this.act('new-game', { gameId, playerId });
+  }
+}
\ No newline at end of file
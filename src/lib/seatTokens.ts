@@ -0,0 +1,20 @@
+import { sign, verifySignature } from './signing';
+
+// Proof that a request comes from whoever took a seat. The backends issue one
+// on create-game and join-game, and every later action must carry it rather
+// than a bare playerId. A token reads `${gameId}.${playerId}.${signature}`.
+
+export function createSeatToken(gameId: string, playerId: string): string {
+  return `${gameId}.${playerId}.${sign('seat', gameId, playerId)}`;
+}
+
+// The player the token was issued to, or null if it is malformed, forged or
+// for another game
+export function verifySeatToken(token: unknown, gameId: string): string | null {
+  if (typeof token !== 'string') return null;
+
+  const [tokenGameId, playerId, signature, ...rest] = token.split('.');
+  if (rest.length > 0 || tokenGameId !== gameId || !playerId || !signature) return null;
+
+  return verifySignature(signature, 'seat', gameId, playerId) ? playerId : null;
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// HMAC signatures for the tokens the backends hand out, for the backends only
+// (this needs Node's crypto). The purpose is signed too, so a token issued for
+// one thing can never pass for another.
+// Without TOKEN_SECRET each process signs with its own random key, which is
+// enough while games live in that process's memory.
+
+const secret = process.env.TOKEN_SECRET || randomBytes(32).toString('hex');
+
+export function sign(purpose: string, ...parts: string[]): string {
+  return createHmac('sha256', secret).update(`${purpose}:${parts.join('.')}`).digest('base64url');
+}
+
+export function verifySignature(signature: string, purpose: string, ...parts: string[]): boolean {
+  const expected = Buffer.from(sign(purpose, ...parts));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
\ No newline at end of file
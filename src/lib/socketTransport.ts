@@ -0,0 +1,215 @@
+import { io, Socket } from 'socket.io-client';
+import { GameSettings, GameState, Locale, PType, Player, PlayerRole, TeamId } from '../types/game';
+import { ActionRejectedError, GameTransport } from './gameTransport';
+
+// Talks to the self-hosted Socket.IO server (server/index.js), which pushes
+// every change itself, so there is nothing to poll. The server never answers
+// an action directly: a rejected one comes back as an 'error' event, which is
+// passed to onActionRejected. Only seating and invites wait for a reply, and
+// their errors reject the call with an ActionRejectedError instead. A lost connection shows up through
+// onConnectionChange, so nothing goes to onError.
+export class SocketTransport implements GameTransport {
+  private socket: Socket;
+  private gameStateCallback: ((state: GameState) => void) | null = null;
+  private playerJoinedCallback: ((player: Player) => void) | null = null;
+  private actionRejectedCallback: ((reason: string) => void) | null = null;
+  private connectionCallback: ((isConnected: boolean) => void) | null = null;
+  private lastGameState: GameState | null = null;
+  // Issued on create-game and join-game; every later event carries it
+  private seatToken: string | null = null;
+  private pendingRequests = 0;
+
+  constructor(serverUrl: string, private readonly getAccessToken?: () => Promise<string | undefined>) {
+    this.socket = io(serverUrl, { autoConnect: false });
+
+    this.socket.on('connect', () => this.connectionCallback?.(true));
+    this.socket.on('disconnect', () => this.connectionCallback?.(false));
+    this.socket.on('game-state', (state: GameState) => {
+      this.lastGameState = state;
+      this.gameStateCallback?.(state);
+    });
+    this.socket.on('player-joined', (player: Player) => this.playerJoinedCallback?.(player));
+    this.socket.on('error', (message: string) => {
+      if (this.pendingRequests === 0) {
+        this.actionRejectedCallback?.(message);
+      }
+    });
+  }
+
+  get isConnected() {
+    return this.socket.connected;
+  }
+
+  connect() {
+    this.socket.connect();
+  }
+
+  close() {
+    this.socket.disconnect();
+    this.lastGameState = null;
+  }
+
+  onConnectionChange(callback: (isConnected: boolean) => void) {
+    this.connectionCallback = callback;
+  }
+
+  onGameStateChange(callback: (state: GameState) => void) {
+    this.gameStateCallback = callback;
+  }
+
+  onPlayerJoined(callback: (player: Player) => void) {
+    this.playerJoinedCallback = callback;
+  }
+
+  onError() {}
+
+  onActionRejected(callback: (reason: string) => void) {
+    this.actionRejectedCallback = callback;
+  }
+
+  // The server works out who is acting from the seat token, so no playerId is sent
+  private send(event: string, gameId: string, fields: Record<string, unknown> = {}) {
+    this.socket.emit(event, { gameId, seatToken: this.seatToken ?? undefined, ...fields });
+  }
+
+  // Resolves with the server's reply to a request, or rejects with the error
+  // it sends instead; that error is not also passed to onActionRejected
+  private request<T>(event: string, payload: Record<string, unknown>, replyEvent: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const onReply = (reply: T) => {
+        this.socket.off('error', onError);
+        this.pendingRequests--;
+        resolve(reply);
+      };
+      const onError = (message: string) => {
+        this.socket.off(replyEvent, onReply);
+        this.pendingRequests--;
+        reject(new ActionRejectedError(message));
+      };
+
+      this.pendingRequests++;
+      this.socket.once(replyEvent, onReply);
+      this.socket.once('error', onError);
+      this.socket.emit(event, payload);
+    });
+  }
+
+  async createGame(gameId: string, player: Player) {
+    const accessToken = await this.getAccessToken?.();
+    this.seatToken = await this.request<string>('create-game', { gameId, player, accessToken }, 'seat-token');
+  }
+
+  async joinGame(gameId: string, player: Player, passcode?: string, invite?: string) {
+    const accessToken = await this.getAccessToken?.();
+    this.seatToken = await this.request<string>('join-game', { gameId, player, passcode, invite, accessToken }, 'seat-token');
+  }
+
+  // The server pushes each new state as it happens, so the latest one is current
+  async getGameState(gameId: string): Promise<GameState | null> {
+    return this.lastGameState?.id === gameId ? this.lastGameState : null;
+  }
+
+  async setRoomAccess(gameId: string, _playerId: string, passcode?: string, requireApproval?: boolean, requireAccount?: boolean) {
+    this.send('set-room-access', gameId, { passcode, requireApproval, requireAccount });
+  }
+
+  async createInvite(gameId: string): Promise<string> {
+    return this.request<string>('create-invite', { gameId, seatToken: this.seatToken ?? undefined }, 'invite-created');
+  }
+
+  async respondJoinRequest(gameId: string, _playerId: string, requestPlayerId: string, accept: boolean) {
+    this.send('respond-join-request', gameId, { requestPlayerId, accept });
+  }
+
+  async startGame(gameId: string) {
+    this.send('start-game', gameId);
+  }
+
+  async selectCardPacks(gameId: string, _playerId: string, cardPackIds: string[]) {
+    this.send('select-card-packs', gameId, { cardPackIds });
+  }
+
+  async setLanguage(gameId: string, _playerId: string, language: Locale) {
+    this.send('set-language', gameId, { language });
+  }
+
+  async sendReaction(gameId: string, _playerId: string, emoji: string) {
+    this.send('send-reaction', gameId, { emoji });
+  }
+
+  async setTeam(gameId: string, _playerId: string, targetPlayerId: string, teamId?: TeamId) {
+    this.send('set-team', gameId, { targetPlayerId, teamId });
+  }
+
+  async setRole(gameId: string, _playerId: string, targetPlayerId: string, role: PlayerRole) {
+    this.send('set-role', gameId, { targetPlayerId, role });
+  }
+
+  async updateSettings(gameId: string, _playerId: string, settings: Partial<GameSettings>) {
+    this.send('update-settings', gameId, { settings });
+  }
+
+  async pauseGame(gameId: string) {
+    this.send('pause-game', gameId);
+  }
+
+  async resumeGame(gameId: string) {
+    this.send('resume-game', gameId);
+  }
+
+  async skipTurn(gameId: string) {
+    this.send('skip-turn', gameId);
+  }
+
+  async extendTurn(gameId: string) {
+    this.send('extend-turn', gameId);
+  }
+
+  async kickPlayer(gameId: string, _playerId: string, targetPlayerId: string, ban?: boolean) {
+    this.send('kick-player', gameId, { targetPlayerId, ban });
+  }
+
+  async mutePlayer(gameId: string, _playerId: string, targetPlayerId: string, audio?: boolean, video?: boolean) {
+    this.send('mute-player', gameId, { targetPlayerId, audio, video });
+  }
+
+  async revealPrompt(gameId: string) {
+    this.send('reveal-prompt', gameId);
+  }
+
+  async endAnswer(gameId: string) {
+    this.send('end-answer', gameId);
+  }
+
+  async castVote(gameId: string, _playerId: string, rating: number) {
+    this.send('cast-vote', gameId, { rating });
+  }
+
+  async proposeTrade(gameId: string, _playerId: string, targetPlayerId: string, cardId: string, requestedType: PType) {
+    this.send('propose-trade', gameId, { targetPlayerId, cardId, requestedType });
+  }
+
+  async respondTrade(gameId: string, _playerId: string, accept: boolean, cardId?: string) {
+    this.send('respond-trade', gameId, { accept, cardId });
+  }
+
+  async cancelTrade(gameId: string) {
+    this.send('cancel-trade', gameId);
+  }
+
+  async playCard(gameId: string, _playerId: string, cardId: string, targetPlayerId?: string) {
+    this.send('play-card', gameId, { cardId, targetPlayerId });
+  }
+
+  async drawCard(gameId: string) {
+    this.send('draw-card', gameId);
+  }
+
+  async drawFromDiscard(gameId: string) {
+    this.send('draw-discard', gameId);
+  }
+
+  async newGame(gameId: string) {
+    this.send('new-game', gameId);
+  }
+}
\ No newline at end of file
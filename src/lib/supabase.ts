@@ -9,6 +9,13 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// The signed-in account's access token, sent when taking a seat. The game
+// backends ask Supabase whose it is instead of trusting a user id.
+export async function getAccessToken(): Promise<string | undefined> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token;
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -0,0 +1,288 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { GameState, GameSettings, GamePhase, Player, PlayerRole, PlayerScore, Card, CardPack, DeckExhaustionPolicy, Reaction, ScoringMode, TradeOffer, TurnTimeoutPenalty, VoteResult, VotingRound } from '../types/game';
+import { DEFAULT_CARD_PACK } from '../data/cards';
+import { GameStore } from './gameApi';
+
+// Keeps games in the Supabase database, for the supabase-game-api function.
+// It signs in with the service role key, which gets past row-level security,
+// so it only ever runs on the backend: the browser sees a game only through
+// the function, one viewer's view at a time.
+
+// Returns null when the function hasn't been given SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY
+export function createSupabaseGameStore(): GameStore | null {
+  const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return null;
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } });
+  return {
+    load: gameId => loadGame(supabase, gameId),
+    create: (gameId, game) => createGame(supabase, gameId, game),
+    save: (gameId, game, previous) => saveGame(supabase, gameId, game, previous)
+  };
+}
+
+async function createGame(supabase: SupabaseClient, gameId: string, game: GameState): Promise<boolean> {
+  const { error: gameError } = await supabase
+    .from('games')
+    .insert({
+      id: gameId,
+      host_user_id: game.players[0].userId ?? null,
+      ...toGameRow(game)
+    });
+
+  // 23505 is Postgres's unique violation: the room id is already taken
+  if (gameError?.code === '23505') {
+    return false;
+  }
+  if (gameError) {
+    console.error('Error creating game:', gameError);
+    throw new Error('Failed to create game');
+  }
+
+  const { error: playerError } = await supabase
+    .from('game_players')
+    .insert(game.players.map(player => toPlayerRow(gameId, player)));
+
+  if (playerError) {
+    console.error('Error adding player to game:', playerError);
+    throw new Error('Failed to add player to game');
+  }
+
+  return true;
+}
+
+async function loadGame(supabase: SupabaseClient, gameId: string): Promise<GameState | undefined> {
+  const { data: gameData, error: gameError } = await supabase
+    .from('games')
+    .select('*')
+    .eq('id', gameId)
+    .maybeSingle();
+
+  if (gameError) {
+    console.error('Error loading game:', gameError);
+    throw new Error('Failed to load game');
+  }
+  if (!gameData) {
+    return undefined;
+  }
+
+  const { data: playersData, error: playersError } = await supabase
+    .from('game_players')
+    .select('*')
+    .eq('game_id', gameId)
+    .order('joined_at');
+
+  if (playersError) {
+    throw new Error('Failed to get players');
+  }
+
+  const people: Player[] = playersData.map(p => ({
+    id: p.player_id,
+    name: p.name,
+    hand: p.hand as Card[],
+    isHost: p.is_host,
+    role: p.role as PlayerRole,
+    videoEnabled: p.video_enabled,
+    audioEnabled: p.audio_enabled,
+    isConnected: p.is_connected,
+    language: p.language ?? undefined,
+    teamId: p.team_id ?? undefined,
+    userId: p.user_id ?? undefined,
+    audioForceMuted: p.audio_force_muted,
+    videoForceMuted: p.video_force_muted
+  }));
+
+  return {
+    id: gameData.id,
+    players: people.filter(p => p.role !== 'spectator'),
+    spectators: people.filter(p => p.role === 'spectator'),
+    currentPlayerIndex: gameData.current_player_index,
+    deck: gameData.deck as Card[],
+    discardPile: gameData.discard_pile as Card[],
+    gamePhase: gameData.game_phase as GamePhase,
+    seed: gameData.seed,
+    cardPacks: (gameData.card_packs as CardPack[]).length > 0 ? gameData.card_packs : [DEFAULT_CARD_PACK],
+    settings: {
+      turnTimeLimit: gameData.turn_time_limit,
+      handSize: gameData.hand_size,
+      maxPlayers: gameData.max_players,
+      winningHand: gameData.winning_hand as GameSettings['winningHand'],
+      mustPlayBeforeDraw: gameData.must_play_before_draw,
+      scoringMode: gameData.scoring_mode as ScoringMode,
+      setsToWin: gameData.sets_to_win,
+      gameDuration: gameData.game_duration,
+      peerVoting: gameData.peer_voting,
+      drawFromDiscard: gameData.draw_from_discard,
+      actionCards: gameData.action_cards,
+      directedPrompts: gameData.directed_prompts,
+      teamMode: gameData.team_mode,
+      deckExhaustionPolicy: gameData.deck_exhaustion_policy as DeckExhaustionPolicy,
+      turnTimeoutPenalty: gameData.turn_timeout_penalty as TurnTimeoutPenalty
+    },
+    scores: gameData.scores as Record<string, PlayerScore>,
+    winners: gameData.winner_player_ids ?? [],
+    bannedUserIds: gameData.banned_user_ids ?? [],
+    access: {
+      passcode: gameData.passcode ?? undefined,
+      hasPasscode: !!gameData.passcode,
+      requireApproval: gameData.require_approval,
+      inviteIds: gameData.invite_ids ?? [],
+      requireAccount: gameData.require_account
+    },
+    joinRequests: (gameData.join_requests as Player[] | null) ?? [],
+    reactions: (gameData.reactions as Reaction[] | null) ?? [],
+    voting: (gameData.voting as VotingRound | null) ?? undefined,
+    lastVoteResult: (gameData.last_vote_result as VoteResult | null) ?? undefined,
+    pendingTrade: (gameData.pending_trade as TradeOffer | null) ?? undefined,
+    gameStartTime: gameData.game_start_time ?? undefined,
+    currentPrompt: gameData.current_prompt ?? undefined,
+    turnStartTime: gameData.turn_start_time ?? undefined,
+    hasPlayedCard: gameData.has_played_card,
+    turnDirection: gameData.turn_direction === -1 ? -1 : 1,
+    skipNextPlayer: gameData.skip_next_player,
+    promptTargetPlayerId: gameData.prompt_target_player_id ?? undefined,
+    pausedAt: gameData.paused_at ?? undefined
+  };
+}
+
+// Writes what changed since the state the action was applied to
+async function saveGame(supabase: SupabaseClient, gameId: string, game: GameState, previous: GameState): Promise<void> {
+  // Seats taken by joiners and approved join requests, spectators included
+  const before = [...previous.players, ...previous.spectators];
+  const after = [...game.players, ...game.spectators];
+  const addedPlayers = after.filter(player => !before.some(p => p.id === player.id));
+  if (addedPlayers.length > 0) {
+    const { error: addError } = await supabase
+      .from('game_players')
+      .insert(addedPlayers.map(player => toPlayerRow(gameId, player)));
+
+    if (addError) {
+      console.error('Error adding players:', addError);
+      throw new Error('Failed to add players');
+    }
+  }
+
+  // The rules engine only replaces players it changed. They are written in
+  // one statement so a trade never lands in one hand without the other; the
+  // service role sees every row, so the other hand isn't filtered out.
+  const changedPlayers = game.players
+    .filter(player => !previous.players.includes(player) && !addedPlayers.includes(player))
+    .map(player => ({
+      player_id: player.id,
+      hand: player.hand,
+      is_host: player.isHost,
+      role: player.role,
+      language: player.language ?? null,
+      team_id: player.teamId ?? null,
+      audio_force_muted: player.audioForceMuted ?? false,
+      video_force_muted: player.videoForceMuted ?? false
+    }));
+
+  if (changedPlayers.length > 0) {
+    const { error: playersError } = await supabase.rpc('update_game_players', {
+      p_game_id: gameId,
+      p_players: changedPlayers
+    });
+
+    if (playersError) {
+      console.error('Error updating players:', playersError);
+      throw new Error('Failed to update players');
+    }
+  }
+
+  // Seats the engine dropped, such as a kicked player
+  const removedIds = before
+    .filter(player => !after.some(p => p.id === player.id))
+    .map(player => player.id);
+
+  if (removedIds.length > 0) {
+    const { error: removeError } = await supabase
+      .from('game_players')
+      .delete()
+      .eq('game_id', gameId)
+      .in('player_id', removedIds);
+
+    if (removeError) {
+      console.error('Error removing players:', removeError);
+      throw new Error('Failed to remove players');
+    }
+  }
+
+  const { error } = await supabase
+    .from('games')
+    .update(toGameRow(game))
+    .eq('id', gameId);
+
+  if (error) {
+    console.error('Error updating game:', error);
+    throw new Error('Failed to update game');
+  }
+}
+
+function toGameRow(gameState: GameState) {
+  return {
+    game_phase: gameState.gamePhase,
+    seed: gameState.seed,
+    card_packs: gameState.cardPacks,
+    current_player_index: gameState.currentPlayerIndex,
+    deck: gameState.deck,
+    discard_pile: gameState.discardPile,
+    current_prompt: gameState.currentPrompt ?? null,
+    scores: gameState.scores,
+    winner_player_ids: gameState.winners,
+    banned_user_ids: gameState.bannedUserIds,
+    passcode: gameState.access.passcode ?? null,
+    require_approval: gameState.access.requireApproval,
+    invite_ids: gameState.access.inviteIds,
+    require_account: gameState.access.requireAccount,
+    join_requests: gameState.joinRequests,
+    reactions: gameState.reactions,
+    voting: gameState.voting ?? null,
+    last_vote_result: gameState.lastVoteResult ?? null,
+    pending_trade: gameState.pendingTrade ?? null,
+    game_start_time: gameState.gameStartTime ?? null,
+    turn_start_time: gameState.turnStartTime ?? null,
+    turn_time_limit: gameState.settings.turnTimeLimit,
+    hand_size: gameState.settings.handSize,
+    max_players: gameState.settings.maxPlayers,
+    winning_hand: gameState.settings.winningHand,
+    must_play_before_draw: gameState.settings.mustPlayBeforeDraw,
+    scoring_mode: gameState.settings.scoringMode,
+    sets_to_win: gameState.settings.setsToWin,
+    game_duration: gameState.settings.gameDuration,
+    peer_voting: gameState.settings.peerVoting,
+    draw_from_discard: gameState.settings.drawFromDiscard,
+    action_cards: gameState.settings.actionCards,
+    directed_prompts: gameState.settings.directedPrompts,
+    team_mode: gameState.settings.teamMode,
+    deck_exhaustion_policy: gameState.settings.deckExhaustionPolicy,
+    turn_timeout_penalty: gameState.settings.turnTimeoutPenalty,
+    has_played_card: gameState.hasPlayedCard ?? false,
+    turn_direction: gameState.turnDirection,
+    skip_next_player: gameState.skipNextPlayer ?? false,
+    prompt_target_player_id: gameState.promptTargetPlayerId ?? null,
+    paused_at: gameState.pausedAt ?? null
+  };
+}
+
+function toPlayerRow(gameId: string, player: Player) {
+  return {
+    game_id: gameId,
+    player_id: player.id,
+    user_id: player.userId ?? null,
+    name: player.name,
+    hand: player.hand,
+    is_host: player.isHost,
+    role: player.role,
+    video_enabled: player.videoEnabled,
+    audio_enabled: player.audioEnabled,
+    is_connected: player.isConnected,
+    language: player.language ?? null,
+    team_id: player.teamId ?? null,
+    audio_force_muted: player.audioForceMuted ?? false,
+    video_force_muted: player.videoForceMuted ?? false
+  };
+}
@@ -1,32 +1,165 @@
+// The five P's every prompt belongs to
+export type PType = 'Purpose' | 'Problems' | 'Prognosis' | 'Plan' | 'Perform';
+
+// Optional cards that bend the rules instead of asking a question: a wild
+// stands in for any one P, skip and reverse change who plays next, and ask
+// anyone hands this turn's prompts to another player
+export type ActionCardType = 'Wild' | 'Skip' | 'Reverse' | 'AskAnyone';
+
 export interface Card {
   id: string;
-  type: 'Purpose' | 'Problems' | 'Prognosis' | 'Plan' | 'Perform';
-  prompt: string;
+  type: PType | ActionCardType;
+  prompt: string; // Rules text on action cards
   color: string;
 }
 
+// A facilitator-authored set of prompts, one list per P type
+export interface CardPack {
+  id: string;
+  name: string;
+  description?: string;
+  prompts: Record<PType, string[]>;
+  colors?: Partial<Record<PType, string>>; // Per-type overrides of CARD_COLORS
+  ownerUserId?: string;
+  isShared?: boolean;
+}
+
+// A facilitator runs the session without playing: no hand and no turns.
+// A spectator only watches, from GameState.spectators rather than a seat.
+export type PlayerRole = 'player' | 'facilitator' | 'spectator';
+
 export interface Player {
   id: string;
   name: string;
   hand: Card[];
-  isHost: boolean;
+  isHost: boolean; // Created the room
+  role: PlayerRole;
   videoEnabled: boolean;
   audioEnabled: boolean;
   isConnected: boolean;
+  language?: Locale; // Language this player's hand and UI are shown in
+  teamId?: TeamId; // Team mode only; players without a team play alone
+  userId?: string; // Account the seat was taken with, as the backend verified it; bans are keyed on it
+  audioForceMuted?: boolean; // Microphone turned off by the host or a facilitator; every client silences it
+  videoForceMuted?: boolean; // Camera turned off by the host or a facilitator; every client blanks it
+  handCount?: number; // Sent in place of the cards when this viewer may not see them
+}
+
+// Team mode groups players under one of these colours
+export type TeamId = 'red' | 'blue' | 'green' | 'gold';
+
+export type Locale = 'en' | 'es' | 'fr' | 'yo';
+
+// What happens when a player has to draw from an empty deck
+export type DeckExhaustionPolicy = 'reshuffle' | 'end-game' | 'most-types';
+
+// What happens to the active player when the turn deadline passes
+export type TurnTimeoutPenalty = 'skip' | 'auto-play' | 'auto-draw';
+
+// How a game is won: one completed hand, several banked hands, or the best
+// score when the clock runs out
+export type ScoringMode = 'single-set' | 'multi-set' | 'timed';
+
+export interface PlayerScore {
+  points: number; // Answered prompts plus completed-set bonuses
+  sets: number; // Winning hands completed
+}
+
+// 'voting' sits inside a round: the active player has answered and the others rate it
+export type GamePhase = 'lobby' | 'playing' | 'voting' | 'finished';
+
+// Ratings collected for the answer to the card just played
+export interface VotingRound {
+  answererId: string;
+  cardId: string;
+  votes: Record<string, number>; // 1–5 rating keyed by voter id
+  deadline: number;
+}
+
+export interface VoteResult {
+  answererId: string;
+  cardId: string;
+  average: number; // 0 when nobody voted
+  count: number;
+  points: number; // Added to the answerer's score
+}
+
+// The active player's offer of one card from their hand for one of the
+// target's cards of the requested type, waiting on the target's answer
+export interface TradeOffer {
+  fromPlayerId: string;
+  toPlayerId: string;
+  cardId: string; // Card the proposer gives up
+  requestedType: PType;
+  offeredCard?: Card; // Filled in for the two sides of the trade, who can't otherwise see the card
+}
+
+// Host-chosen rules for a game, edited in the lobby before it starts
+export interface GameSettings {
+  turnTimeLimit: number; // Milliseconds
+  handSize: number; // Cards dealt to each player
+  maxPlayers: number;
+  winningHand: Record<PType, number>; // Cards of each type needed to win
+  mustPlayBeforeDraw: boolean;
+  scoringMode: ScoringMode;
+  setsToWin: number; // multi-set only
+  gameDuration: number; // timed only, milliseconds
+  peerVoting: boolean; // Answers are rated by the other players and score the rating
+  drawFromDiscard: boolean; // The active player may take the top discard instead of drawing blind
+  actionCards: boolean; // Shuffle wild, skip, reverse and ask-anyone cards into the deck
+  directedPrompts: boolean; // Whoever plays a prompt card may direct it to another player
+  teamMode: boolean; // Teammates share one hand and one turn, and score together
+  deckExhaustionPolicy: DeckExhaustionPolicy; // What a draw from the empty deck does
+  turnTimeoutPenalty: TurnTimeoutPenalty; // What happens to the active player when their turn runs out
+}
+
+// A quick emoji sent by anyone in the room
+export interface Reaction {
+  id: number; // Counts up, so clients can tell which reactions are new
+  playerId: string;
+  emoji: string;
+  timestamp: number;
+}
+
+// Who may take a seat. The passcode and unused invite ids stay on the backend;
+// getViewerState strips them before the state is sent to clients.
+export interface RoomAccess {
+  passcode?: string;
+  hasPasscode: boolean; // What clients see in place of the passcode
+  requireApproval: boolean; // Joiners wait in joinRequests until the host or a facilitator lets them in
+  inviteIds: string[]; // Unused invites; each seats one joiner without passcode or approval
+  requireAccount: boolean; // Set by the host so only signed-in players join, and nobody banned comes back without an account
 }
 
 export interface GameState {
   id: string;
   players: Player[];
   currentPlayerIndex: number;
-  deck: Card[];
+  deck: Card[]; // Empty on clients, which only get deckCount
+  deckCount?: number; // Sent in place of the deck
   discardPile: Card[];
-  gamePhase: 'lobby' | 'playing' | 'finished';
-  winner?: string;
+  gamePhase: GamePhase;
+  seed: number; // Drives every shuffle so a session can be replayed; kept on the backend
+  cardPacks: CardPack[]; // Packs the deck is built from
+  settings: GameSettings;
+  scores: Record<string, PlayerScore>; // Keyed by player id, or by team id in team mode
+  winners: string[]; // Empty when nobody won; more than one on a tie
+  bannedUserIds: string[]; // Accounts removed for good; join-game turns them away
+  access: RoomAccess;
+  joinRequests: Player[]; // Waiting for approval, oldest first
+  spectators: Player[]; // Watching without a hand; they don't count towards maxPlayers
+  reactions: Reaction[]; // Most recent last
+  voting?: VotingRound;
+  lastVoteResult?: VoteResult;
+  pendingTrade?: TradeOffer;
+  gameStartTime?: number;
   currentPrompt?: string;
   turnStartTime?: number;
-  turnTimeLimit?: number;
   hasPlayedCard?: boolean; // Track if current player has played a card
+  turnDirection: 1 | -1; // Flipped by reverse cards
+  skipNextPlayer?: boolean; // A skip card was played this turn
+  promptTargetPlayerId?: string; // Who answers the current prompt, when not the active player
+  pausedAt?: number; // Set while the game is paused; every clock stands still from here
 }
 
 export interface GameEvent {
@@ -0,0 +1,17 @@
+/*
+  # Shared Rules Engine Turn State
+
+  1. Changes
+    - `games`
+      - `has_played_card` (boolean) - Whether the current player has played a card this turn
+      - `turn_start_time` (bigint) - Epoch milliseconds when the current turn started
+      - `turn_time_limit` (integer) - Turn length in milliseconds
+
+  2. Notes
+    - These columns mirror the turn fields of `GameState` so GameService can run
+      the same rules engine as the socket server and Netlify functions
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS has_played_card boolean NOT NULL DEFAULT false;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS turn_start_time bigint;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS turn_time_limit integer NOT NULL DEFAULT 30000;
\ No newline at end of file
@@ -0,0 +1,13 @@
+/*
+  # Seeded Deck Shuffling
+
+  1. Changes
+    - `games`
+      - `seed` (bigint) - PRNG seed that drives every shuffle and deal in the game
+
+  2. Notes
+    - Games created before this migration get a random seed; their existing
+      deck order is left untouched
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS seed bigint NOT NULL DEFAULT floor(random() * 4294967296)::bigint;
\ No newline at end of file
@@ -0,0 +1,12 @@
+/*
+  # Deck Exhaustion Policy
+
+  1. Changes
+    - `games`
+      - `deck_exhaustion_policy` (text) - What happens when a player draws from an empty deck:
+        reshuffle the discard pile, end the game with no winner, or award the win
+        to the player holding the most distinct P types
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS deck_exhaustion_policy text NOT NULL DEFAULT 'reshuffle'
+  CHECK (deck_exhaustion_policy IN ('reshuffle', 'end-game', 'most-types'));
\ No newline at end of file
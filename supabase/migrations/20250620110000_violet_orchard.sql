@@ -0,0 +1,131 @@
+/*
+  # Custom Card Packs
+
+  1. New Tables
+    - `card_packs`
+      - `id` (uuid, primary key)
+      - `owner_user_id` (text) - Facilitator who authored the pack
+      - `name` (text) - Pack title, e.g. "Career pivot"
+      - `description` (text)
+      - `is_shared` (boolean) - Whether other facilitators can see and use the pack
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+    - `card_pack_prompts`
+      - `id` (uuid, primary key)
+      - `pack_id` (uuid) - Reference to card_packs table
+      - `card_type` (text) - One of the five P's
+      - `prompt` (text) - Conversation prompt shown on the card
+      - `position` (integer) - Order of the prompt within its P type
+
+  2. Changes
+    - `games`
+      - `card_packs` (jsonb) - Snapshot of the packs the game's deck is built from
+
+  3. Security
+    - Enable RLS on both tables
+    - Anyone can read shared packs; owners manage their own packs
+*/
+
+-- Create card_packs table
+CREATE TABLE IF NOT EXISTS card_packs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_user_id text NOT NULL,
+  name text NOT NULL,
+  description text,
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create card_pack_prompts table
+CREATE TABLE IF NOT EXISTS card_pack_prompts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pack_id uuid NOT NULL REFERENCES card_packs(id) ON DELETE CASCADE,
+  card_type text NOT NULL CHECK (card_type IN ('Purpose', 'Problems', 'Prognosis', 'Plan', 'Perform')),
+  prompt text NOT NULL,
+  position integer NOT NULL DEFAULT 0
+);
+
+-- Snapshot of the selected packs on each game
+ALTER TABLE games ADD COLUMN IF NOT EXISTS card_packs jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_card_packs_owner_user_id ON card_packs(owner_user_id);
+CREATE INDEX IF NOT EXISTS idx_card_packs_is_shared ON card_packs(is_shared);
+CREATE INDEX IF NOT EXISTS idx_card_pack_prompts_pack_id ON card_pack_prompts(pack_id);
+
+-- Enable RLS
+ALTER TABLE card_packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE card_pack_prompts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for card_packs table
+CREATE POLICY "Anyone can read shared or own card packs"
+  ON card_packs
+  FOR SELECT
+  TO authenticated, anon
+  USING (
+    is_shared = true OR
+    owner_user_id = current_setting('app.current_user_id', true)
+  );
+
+CREATE POLICY "Anyone can create card packs"
+  ON card_packs
+  FOR INSERT
+  TO authenticated, anon
+  WITH CHECK (true);
+
+CREATE POLICY "Owners can update their card packs"
+  ON card_packs
+  FOR UPDATE
+  TO authenticated, anon
+  USING (owner_user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Owners can delete their card packs"
+  ON card_packs
+  FOR DELETE
+  TO authenticated, anon
+  USING (owner_user_id = current_setting('app.current_user_id', true));
+
+-- RLS Policies for card_pack_prompts table
+CREATE POLICY "Anyone can read prompts of readable packs"
+  ON card_pack_prompts
+  FOR SELECT
+  TO authenticated, anon
+  USING (
+    pack_id IN (
+      SELECT id FROM card_packs
+      WHERE is_shared = true OR owner_user_id = current_setting('app.current_user_id', true)
+    )
+  );
+
+CREATE POLICY "Owners can manage prompts of their packs"
+  ON card_pack_prompts
+  FOR ALL
+  TO authenticated, anon
+  USING (
+    pack_id IN (
+      SELECT id FROM card_packs
+      WHERE owner_user_id = current_setting('app.current_user_id', true)
+    )
+  )
+  WITH CHECK (
+    pack_id IN (
+      SELECT id FROM card_packs
+      WHERE owner_user_id = current_setting('app.current_user_id', true)
+    )
+  );
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_card_packs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_card_packs_updated_at
+  BEFORE UPDATE ON card_packs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_card_packs_updated_at();
\ No newline at end of file
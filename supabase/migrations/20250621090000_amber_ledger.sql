@@ -0,0 +1,12 @@
+/*
+  # Card Pack Colors
+
+  1. Changes
+    - `card_packs`
+      - `colors` (jsonb) - Optional per-type card colors carried over from imported JSON/CSV decks
+
+  2. Notes
+    - Packs without colors keep using the default color of each P
+*/
+
+ALTER TABLE card_packs ADD COLUMN IF NOT EXISTS colors jsonb;
\ No newline at end of file
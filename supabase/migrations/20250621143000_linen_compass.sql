@@ -0,0 +1,13 @@
+/*
+  # Per-Player Language
+
+  1. Changes
+    - `game_players`
+      - `language` (text) - Locale the player's hand and UI are shown in (en, es, fr, yo)
+
+  2. Notes
+    - Existing players have no language and fall back to English
+*/
+
+ALTER TABLE game_players ADD COLUMN IF NOT EXISTS language text
+  CHECK (language IS NULL OR language IN ('en', 'es', 'fr', 'yo'));
\ No newline at end of file
@@ -0,0 +1,14 @@
+/*
+  # Turn Timeout Penalty
+
+  1. Changes
+    - `games`
+      - `turn_timeout_penalty` (text) - What happens to the active player when the turn deadline passes
+        (skip, auto-play, auto-draw)
+
+  2. Notes
+    - Existing games keep the previous behaviour of drawing a card when time runs out
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS turn_timeout_penalty text NOT NULL DEFAULT 'auto-draw'
+  CHECK (turn_timeout_penalty IN ('skip', 'auto-play', 'auto-draw'));
\ No newline at end of file
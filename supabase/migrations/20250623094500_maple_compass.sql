@@ -0,0 +1,22 @@
+/*
+  # Lobby Game Settings
+
+  1. Changes
+    - `games`
+      - `hand_size` (integer) - Cards dealt to each player
+      - `max_players` (integer) - Seats available in the game
+      - `winning_hand` (jsonb) - Cards of each P type needed to win, e.g. {"Purpose": 1, ...}
+      - `must_play_before_draw` (boolean) - Whether a card has to be played before drawing
+
+  2. Notes
+    - `turn_time_limit` already exists and is now chosen by the host in the lobby
+    - Defaults match the previous fixed rules: five cards, eight players, one of each P
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS hand_size integer NOT NULL DEFAULT 5
+  CHECK (hand_size BETWEEN 1 AND 10);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS max_players integer NOT NULL DEFAULT 8
+  CHECK (max_players BETWEEN 2 AND 8);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS winning_hand jsonb NOT NULL
+  DEFAULT '{"Purpose": 1, "Problems": 1, "Prognosis": 1, "Plan": 1, "Perform": 1}'::jsonb;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS must_play_before_draw boolean NOT NULL DEFAULT true;
\ No newline at end of file
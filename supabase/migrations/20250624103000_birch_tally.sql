@@ -0,0 +1,30 @@
+/*
+  # Scoring Modes and Shared Wins
+
+  1. Changes
+    - `games`
+      - `scoring_mode` (text) - How the game is won (single-set, multi-set, timed)
+      - `sets_to_win` (integer) - Completed hands needed in multi-set games
+      - `game_duration` (integer) - Length of a timed game in milliseconds
+      - `game_start_time` (bigint) - Epoch milliseconds when the current round started
+      - `scores` (jsonb) - Points and completed sets keyed by player id
+      - `winner_player_ids` (text[]) - Every winning player; more than one on a tie
+
+  2. Notes
+    - `winner_player_id` is copied into `winner_player_ids` and then dropped
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS scoring_mode text NOT NULL DEFAULT 'single-set'
+  CHECK (scoring_mode IN ('single-set', 'multi-set', 'timed'));
+ALTER TABLE games ADD COLUMN IF NOT EXISTS sets_to_win integer NOT NULL DEFAULT 2
+  CHECK (sets_to_win BETWEEN 1 AND 5);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS game_duration integer NOT NULL DEFAULT 1200000;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS game_start_time bigint;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS scores jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS winner_player_ids text[] NOT NULL DEFAULT '{}';
+
+UPDATE games
+SET winner_player_ids = ARRAY[winner_player_id]
+WHERE winner_player_id IS NOT NULL;
+
+ALTER TABLE games DROP COLUMN IF EXISTS winner_player_id;
\ No newline at end of file
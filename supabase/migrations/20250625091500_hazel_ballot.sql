@@ -0,0 +1,21 @@
+/*
+  # Peer Voting on Answers
+
+  1. Changes
+    - `games`
+      - `game_phase` now also allows `voting`, while the other players rate an answer
+      - `peer_voting` (boolean) - Whether answers are rated and score their rating
+      - `voting` (jsonb) - The open vote: answerer, card, ratings so far and deadline
+      - `last_vote_result` (jsonb) - Average, vote count and points of the last closed vote
+
+  2. Notes
+    - Peer voting is off by default, so existing games keep one point per answered prompt
+*/
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_game_phase_check;
+ALTER TABLE games ADD CONSTRAINT games_game_phase_check
+  CHECK (game_phase IN ('lobby', 'playing', 'voting', 'finished'));
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS peer_voting boolean NOT NULL DEFAULT false;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS voting jsonb;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS last_vote_result jsonb;
\ No newline at end of file
@@ -0,0 +1,28 @@
+/*
+  # Card Trades Between Players
+
+  1. Changes
+    - `games`
+      - `pending_trade` (jsonb) - The active player's open offer: proposer, target, offered card and requested type
+    - New function `update_game_players(p_game_id, p_players)`
+      - Writes the hand, host flag and language of several players in one statement
+
+  2. Notes
+    - An accepted trade changes two hands; writing them together means no reader
+      ever sees the card in both hands or in neither
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS pending_trade jsonb;
+
+CREATE OR REPLACE FUNCTION update_game_players(p_game_id text, p_players jsonb)
+RETURNS void AS $$
+BEGIN
+  UPDATE game_players gp
+  SET hand = p.hand,
+      is_host = p.is_host,
+      language = p.language
+  FROM jsonb_to_recordset(p_players) AS p(player_id text, hand jsonb, is_host boolean, language text)
+  WHERE gp.game_id = p_game_id
+    AND gp.player_id = p.player_id;
+END;
+$$ LANGUAGE plpgsql;
\ No newline at end of file
@@ -0,0 +1,12 @@
+/*
+  # Drawing From the Discard Pile
+
+  1. Changes
+    - `games`
+      - `draw_from_discard` (boolean) - Whether the active player may take the top discard instead of drawing from the deck
+
+  2. Notes
+    - Off by default, so existing games keep drawing from the deck only
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS draw_from_discard boolean NOT NULL DEFAULT false;
\ No newline at end of file
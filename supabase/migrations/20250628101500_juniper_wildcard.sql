@@ -0,0 +1,19 @@
+/*
+  # Action Cards
+
+  1. Changes
+    - `games`
+      - `action_cards` (boolean) - Whether wild, skip, reverse and ask-anyone cards are shuffled into the deck
+      - `turn_direction` (integer) - 1 for the seating order, -1 after an odd number of reverse cards
+      - `skip_next_player` (boolean) - A skip card was played this turn
+      - `prompt_target_player_id` (text) - Who answers this turn's prompts after an ask-anyone card
+
+  2. Notes
+    - Action cards are off by default, so existing games keep a deck of P cards only
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS action_cards boolean NOT NULL DEFAULT false;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS turn_direction integer NOT NULL DEFAULT 1
+  CHECK (turn_direction IN (1, -1));
+ALTER TABLE games ADD COLUMN IF NOT EXISTS skip_next_player boolean NOT NULL DEFAULT false;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS prompt_target_player_id text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+/*
+  # Directed Prompts
+
+  1. Changes
+    - `games`
+      - `directed_prompts` (boolean) - Whether whoever plays a prompt card may direct it to another player
+
+  2. Notes
+    - The chosen player is stored in `prompt_target_player_id`, added with action cards
+    - Off by default, so prompts stay with the player who played them
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS directed_prompts boolean NOT NULL DEFAULT false;
\ No newline at end of file
@@ -0,0 +1,34 @@
+/*
+  # Team Mode
+
+  1. Changes
+    - `games`
+      - `team_mode` (boolean) - Whether teammates share one hand and one turn
+    - `game_players`
+      - `team_id` (text) - Team the player belongs to; null plays alone
+    - `update_game_players(p_game_id, p_players)` also writes `team_id`
+
+  2. Notes
+    - The first member of a team, in join order, holds the team's hand; the
+      others keep an empty hand
+    - In team mode scores are keyed by team id instead of player id
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS team_mode boolean NOT NULL DEFAULT false;
+
+ALTER TABLE game_players ADD COLUMN IF NOT EXISTS team_id text
+  CHECK (team_id IS NULL OR team_id IN ('red', 'blue', 'green', 'gold'));
+
+CREATE OR REPLACE FUNCTION update_game_players(p_game_id text, p_players jsonb)
+RETURNS void AS $$
+BEGIN
+  UPDATE game_players gp
+  SET hand = p.hand,
+      is_host = p.is_host,
+      language = p.language,
+      team_id = p.team_id
+  FROM jsonb_to_recordset(p_players) AS p(player_id text, hand jsonb, is_host boolean, language text, team_id text)
+  WHERE gp.game_id = p_game_id
+    AND gp.player_id = p.player_id;
+END;
+$$ LANGUAGE plpgsql;
\ No newline at end of file
@@ -0,0 +1,30 @@
+/*
+  # Facilitator Role
+
+  1. Changes
+    - `game_players`
+      - `role` (text) - `player`, or `facilitator` for a seat that runs the
+        session without a hand or turns
+    - New DELETE policy on `game_players` so the host or a facilitator can
+      remove a player
+
+  2. Notes
+    - `is_host` still marks whoever created the room; the host keeps every
+      facilitator control
+    - Facilitators count towards `max_players` but never hold cards or vote
+*/
+
+ALTER TABLE game_players ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'player'
+  CHECK (role IN ('player', 'facilitator'));
+
+CREATE POLICY "Hosts and facilitators can remove players"
+  ON game_players
+  FOR DELETE
+  TO authenticated, anon
+  USING (
+    game_id IN (
+      SELECT game_id FROM game_players gp2
+      WHERE (gp2.user_id = auth.uid() OR gp2.player_id = current_setting('app.current_player_id', true))
+        AND (gp2.is_host = true OR gp2.role = 'facilitator')
+    )
+  );
\ No newline at end of file
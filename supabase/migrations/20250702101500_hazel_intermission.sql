@@ -0,0 +1,16 @@
+/*
+  # Pause and Resume
+
+  1. Changes
+    - `games`
+      - `paused_at` (bigint) - Epoch milliseconds when the game was paused;
+        null while it runs
+
+  2. Notes
+    - While paused no turn, vote or timed-game deadline is applied and card
+      actions are rejected
+    - Resuming moves `turn_start_time`, `game_start_time` and the voting
+      deadline forward by the length of the pause
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS paused_at bigint;
\ No newline at end of file
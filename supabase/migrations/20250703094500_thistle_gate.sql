@@ -0,0 +1,46 @@
+/*
+  # Bans and Forced Mutes
+
+  1. Changes
+    - `games`
+      - `banned_user_ids` (uuid[]) - Accounts the host or a facilitator removed
+        for good; they cannot join this game again
+    - `game_players`
+      - `audio_force_muted` (boolean) - Microphone turned off by a moderator
+      - `video_force_muted` (boolean) - Camera turned off by a moderator
+    - `update_game_players(p_game_id, p_players)` also writes both mute flags
+
+  2. Notes
+    - Bans are checked in join-game against the signed-in account
+    - Clients keep a force-muted track off, and other players' feeds stay
+      silent or blank for it
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS banned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE game_players ADD COLUMN IF NOT EXISTS audio_force_muted boolean NOT NULL DEFAULT false;
+ALTER TABLE game_players ADD COLUMN IF NOT EXISTS video_force_muted boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION update_game_players(p_game_id text, p_players jsonb)
+RETURNS void AS $$
+BEGIN
+  UPDATE game_players gp
+  SET hand = p.hand,
+      is_host = p.is_host,
+      language = p.language,
+      team_id = p.team_id,
+      audio_force_muted = p.audio_force_muted,
+      video_force_muted = p.video_force_muted
+  FROM jsonb_to_recordset(p_players) AS p(
+    player_id text,
+    hand jsonb,
+    is_host boolean,
+    language text,
+    team_id text,
+    audio_force_muted boolean,
+    video_force_muted boolean
+  )
+  WHERE gp.game_id = p_game_id
+    AND gp.player_id = p.player_id;
+END;
+$$ LANGUAGE plpgsql;
\ No newline at end of file
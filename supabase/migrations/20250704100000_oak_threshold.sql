@@ -0,0 +1,22 @@
+/*
+  # Room Passcodes, Invites and Join Requests
+
+  1. Changes
+    - `games`
+      - `passcode` (text, nullable) - Must be given to join, unless the joiner
+        holds an invite
+      - `require_approval` (boolean) - Joiners wait in `join_requests` until
+        the host or a facilitator lets them in
+      - `invite_ids` (text[]) - Unused invites; each seats one joiner
+      - `join_requests` (jsonb) - Players waiting for approval, oldest first
+
+  2. Notes
+    - Invite links are signed by the Netlify or socket backend; the rules
+      engine only retires the invite id once it has been used
+    - Approved requests are inserted into `game_players` like any other join
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS passcode text;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS require_approval boolean NOT NULL DEFAULT false;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS invite_ids text[] NOT NULL DEFAULT '{}';
+ALTER TABLE games ADD COLUMN IF NOT EXISTS join_requests jsonb NOT NULL DEFAULT '[]'::jsonb;
\ No newline at end of file
@@ -0,0 +1,19 @@
+/*
+  # Spectators and Reactions
+
+  1. Changes
+    - `game_players`
+      - `role` may now be `spectator`, for someone watching without a seat
+    - `games`
+      - `reactions` (jsonb) - Recent emoji reactions, most recent last
+
+  2. Notes
+    - Spectators are stored with the players but never hold cards and do not
+      count towards `max_players`; the rules engine keeps them apart
+*/
+
+ALTER TABLE game_players DROP CONSTRAINT IF EXISTS game_players_role_check;
+ALTER TABLE game_players ADD CONSTRAINT game_players_role_check
+  CHECK (role IN ('player', 'facilitator', 'spectator'));
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS reactions jsonb NOT NULL DEFAULT '[]'::jsonb;
\ No newline at end of file
@@ -0,0 +1,25 @@
+/*
+  # Verified Accounts for Bans
+
+  1. Changes
+    - `games`
+      - `require_account` (boolean) - Set by the first ban; from then on only
+        players signed in to an account can join
+    - `game_players`
+      - The INSERT policy now only lets a row name the account making the
+        request, or no account at all
+
+  2. Notes
+    - Bans used to trust whatever user id the client sent, so a banned player
+      could rejoin by leaving it out or changing it
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS require_account boolean NOT NULL DEFAULT false;
+
+DROP POLICY IF EXISTS "Anyone can insert themselves as players" ON game_players;
+
+CREATE POLICY "Anyone can insert themselves as players"
+  ON game_players
+  FOR INSERT
+  TO authenticated, anon
+  WITH CHECK (user_id IS NULL OR user_id = auth.uid());
@@ -0,0 +1,95 @@
+/*
+  # Card Pack Ownership
+
+  1. Security
+    - The `card_packs` and `card_pack_prompts` policies checked
+      `app.current_user_id`, which nothing sets, so owners could never see or
+      change their own packs. They now check the signed-in account, `auth.uid()`
+    - Creating a pack now requires naming yourself as its owner
+
+  2. New Functions
+    - `replace_card_pack_prompts(p_pack_id, p_prompts)` - Swaps a pack's
+      prompts for a new set in one transaction, so a failed save leaves the
+      old prompts in place
+*/
+
+DROP POLICY IF EXISTS "Anyone can read shared or own card packs" ON card_packs;
+DROP POLICY IF EXISTS "Anyone can create card packs" ON card_packs;
+DROP POLICY IF EXISTS "Owners can update their card packs" ON card_packs;
+DROP POLICY IF EXISTS "Owners can delete their card packs" ON card_packs;
+DROP POLICY IF EXISTS "Anyone can read prompts of readable packs" ON card_pack_prompts;
+DROP POLICY IF EXISTS "Owners can manage prompts of their packs" ON card_pack_prompts;
+
+-- RLS Policies for card_packs table
+CREATE POLICY "Anyone can read shared or own card packs"
+  ON card_packs
+  FOR SELECT
+  TO authenticated, anon
+  USING (
+    is_shared = true OR
+    auth.uid()::text = owner_user_id
+  );
+
+CREATE POLICY "Users can create their own card packs"
+  ON card_packs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = owner_user_id);
+
+CREATE POLICY "Owners can update their card packs"
+  ON card_packs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = owner_user_id)
+  WITH CHECK (auth.uid()::text = owner_user_id);
+
+CREATE POLICY "Owners can delete their card packs"
+  ON card_packs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid()::text = owner_user_id);
+
+-- RLS Policies for card_pack_prompts table
+CREATE POLICY "Anyone can read prompts of readable packs"
+  ON card_pack_prompts
+  FOR SELECT
+  TO authenticated, anon
+  USING (
+    pack_id IN (
+      SELECT id FROM card_packs
+      WHERE is_shared = true OR auth.uid()::text = owner_user_id
+    )
+  );
+
+CREATE POLICY "Owners can manage prompts of their packs"
+  ON card_pack_prompts
+  FOR ALL
+  TO authenticated
+  USING (
+    pack_id IN (
+      SELECT id FROM card_packs
+      WHERE auth.uid()::text = owner_user_id
+    )
+  )
+  WITH CHECK (
+    pack_id IN (
+      SELECT id FROM card_packs
+      WHERE auth.uid()::text = owner_user_id
+    )
+  );
+
+-- Runs as the caller, so the policies above still decide whose prompts can change
+CREATE OR REPLACE FUNCTION replace_card_pack_prompts(p_pack_id uuid, p_prompts jsonb)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM card_pack_prompts WHERE pack_id = p_pack_id;
+
+  INSERT INTO card_pack_prompts (pack_id, card_type, prompt, position)
+  SELECT p_pack_id, p.card_type, p.prompt, p.position
+  FROM jsonb_to_recordset(p_prompts) AS p(
+    card_type text,
+    prompt text,
+    position integer
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,24 @@
+/*
+  # Games Only Through the Backend
+
+  1. Security
+    - Drops every policy that let the browser read or write `games` and
+      `game_players`. With row level security still on and no policies left,
+      the anon and authenticated roles can do neither
+    - The supabase-game-api function reaches both tables with the service role
+      and hands each player only their own view of the game
+
+  2. Notes
+    - The read policies let anyone without an account read every game in full,
+      deck order and every hand included, so redacting the view sent to each
+      player hid nothing
+*/
+
+DROP POLICY IF EXISTS "Anyone can read games they're playing in" ON games;
+DROP POLICY IF EXISTS "Game hosts can update their games" ON games;
+DROP POLICY IF EXISTS "Anyone can create games" ON games;
+
+DROP POLICY IF EXISTS "Anyone can read players in games they're in" ON game_players;
+DROP POLICY IF EXISTS "Anyone can insert themselves as players" ON game_players;
+DROP POLICY IF EXISTS "Players can update their own data" ON game_players;
+DROP POLICY IF EXISTS "Hosts and facilitators can remove players" ON game_players;
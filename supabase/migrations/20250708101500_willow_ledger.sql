@@ -0,0 +1,18 @@
+/*
+  # Trades Written by the Backend
+
+  1. Security
+    - `update_game_players(p_game_id, p_players)` can no longer be called by
+      the anon or authenticated roles, only by the service role
+
+  2. Notes
+    - The function runs as its caller. Called from the browser, row level
+      security hid every row but the caller's own, so an accepted trade
+      changed one hand and silently skipped the other
+    - The supabase-game-api function now calls it with the service role, which
+      row level security does not filter, so both hands of a trade are written
+      in the one statement
+*/
+
+REVOKE EXECUTE ON FUNCTION update_game_players(text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_game_players(text, jsonb) TO service_role;
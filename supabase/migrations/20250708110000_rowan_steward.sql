@@ -0,0 +1,37 @@
+/*
+  # Facilitators Chosen by the Host
+
+  1. Changes
+    - `update_game_players(p_game_id, p_players)` also writes `role`, so a
+      player the host makes a facilitator (or a player again) keeps the role
+
+  2. Notes
+    - Joiners can no longer ask for the facilitator role; only the room's
+      creator and whoever the host picks in the lobby hold it
+*/
+
+CREATE OR REPLACE FUNCTION update_game_players(p_game_id text, p_players jsonb)
+RETURNS void AS $$
+BEGIN
+  UPDATE game_players gp
+  SET hand = p.hand,
+      is_host = p.is_host,
+      role = p.role,
+      language = p.language,
+      team_id = p.team_id,
+      audio_force_muted = p.audio_force_muted,
+      video_force_muted = p.video_force_muted
+  FROM jsonb_to_recordset(p_players) AS p(
+    player_id text,
+    hand jsonb,
+    is_host boolean,
+    role text,
+    language text,
+    team_id text,
+    audio_force_muted boolean,
+    video_force_muted boolean
+  )
+  WHERE gp.game_id = p_game_id
+    AND gp.player_id = p.player_id;
+END;
+$$ LANGUAGE plpgsql;